@@ -0,0 +1,21 @@
+-- AlterTable
+-- Plant attributes from the eGRID PLNT sheet
+-- attributes_year records which eGRID vintage the attributes came from so
+-- re-ingesting an older year never overwrites newer attributes
+ALTER TABLE "plants" ADD COLUMN "oris_code" INTEGER,
+ADD COLUMN "primary_fuel_category" TEXT,
+ADD COLUMN "nameplate_capacity_mw" DECIMAL(12,3),
+ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION,
+ADD COLUMN "county" TEXT,
+ADD COLUMN "operator_name" TEXT,
+ADD COLUMN "utility_name" TEXT,
+ADD COLUMN "balancing_authority_code" TEXT,
+ADD COLUMN "balancing_authority_name" TEXT,
+ADD COLUMN "attributes_year" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "plants_oris_code_idx" ON "plants"("oris_code");
+
+-- CreateIndex
+CREATE INDEX "plants_primary_fuel_category_idx" ON "plants"("primary_fuel_category");
@@ -0,0 +1,40 @@
+-- ORIS code becomes the stable plant identity
+-- Plant names are no longer unique per state: renamed plants keep their row
+-- and distinct plants sharing a name in one state no longer collide
+
+-- DropIndex
+DROP INDEX "plants_name_state_id_key";
+
+-- DropIndex
+DROP INDEX "plants_oris_code_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plants_oris_code_key" ON "plants"("oris_code");
+
+-- CreateIndex
+CREATE INDEX "plants_name_state_id_idx" ON "plants"("name", "state_id");
+
+-- CreateTable
+CREATE TABLE "plant_name_history" (
+    "id" SERIAL NOT NULL,
+    "plant_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "first_year" INTEGER NOT NULL,
+    "last_year" INTEGER NOT NULL,
+
+    CONSTRAINT "plant_name_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plant_name_history_plant_id_name_key" ON "plant_name_history"("plant_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "plant_name_history" ADD CONSTRAINT "plant_name_history_plant_id_fkey" FOREIGN KEY ("plant_id") REFERENCES "plants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing plant starts with its current name, spanning the
+-- years it already has generation data for
+INSERT INTO "plant_name_history" ("plant_id", "name", "first_year", "last_year")
+SELECT p."id", p."name", MIN(pg."year"), MAX(pg."year")
+FROM "plants" p
+JOIN "plant_generations" pg ON pg."plant_id" = p."id"
+GROUP BY p."id", p."name";
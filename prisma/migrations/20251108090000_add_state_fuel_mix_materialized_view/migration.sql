@@ -0,0 +1,29 @@
+-- Create materialized view for fuel-mix aggregation per state and year
+-- eGRID primary fuel categories are folded into the categories exposed by the
+-- API: coal, gas, nuclear, hydro, wind, solar and other (oil, biomass,
+-- geothermal, other fossil, unknown)
+CREATE MATERIALIZED VIEW state_fuel_mix_mv AS
+SELECT
+  p.state_id,
+  pg.year,
+  CASE UPPER(p.primary_fuel_category)
+    WHEN 'COAL' THEN 'coal'
+    WHEN 'GAS' THEN 'gas'
+    WHEN 'NUCLEAR' THEN 'nuclear'
+    WHEN 'HYDRO' THEN 'hydro'
+    WHEN 'WIND' THEN 'wind'
+    WHEN 'SOLAR' THEN 'solar'
+    ELSE 'other'
+  END AS fuel_category,
+  SUM(pg.net_generation) AS total_generation,
+  COUNT(DISTINCT p.id) AS plant_count
+FROM plant_generations pg
+JOIN plants p ON p.id = pg.plant_id
+GROUP BY p.state_id, pg.year, fuel_category;
+
+-- Unique index enables CONCURRENT refresh alongside state_generation_mv
+CREATE UNIQUE INDEX state_fuel_mix_mv_unique_idx
+ON state_fuel_mix_mv (state_id, year, fuel_category);
+
+-- National roll-ups filter by year only
+CREATE INDEX idx_state_fuel_mix_mv_year_fuel ON state_fuel_mix_mv (year, fuel_category);
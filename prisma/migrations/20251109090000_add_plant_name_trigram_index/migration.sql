@@ -0,0 +1,8 @@
+-- Enable trigram matching for case-insensitive, typo-tolerant plant name search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+-- GIN trigram index serves similarity (%) and word_similarity (<%) lookups
+-- used by GET /plants/search
+CREATE INDEX IF NOT EXISTS plants_name_trgm_idx
+ON plants USING GIN (name gin_trgm_ops);
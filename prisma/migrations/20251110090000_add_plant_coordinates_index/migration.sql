@@ -0,0 +1,4 @@
+-- CreateIndex
+-- Serves the latitude/longitude range prefilter of GET /plants/nearby and
+-- GET /plants/bbox
+CREATE INDEX "plants_latitude_longitude_idx" ON "plants"("latitude", "longitude");
@@ -0,0 +1,31 @@
+-- CreateTable
+-- One row per API request recorded by AuditLogInterceptor. Tokens, keys and
+-- other secrets are masked before insert; rows older than the retention
+-- period (AUDIT_LOG_RETENTION_DAYS) are purged by AuditLogsService.
+CREATE TABLE "audit_logs" (
+    "id" SERIAL NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "trace_id" TEXT,
+    "user_id" TEXT,
+    "username" TEXT,
+    "auth_method" TEXT,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "status_code" INTEGER NOT NULL,
+    "duration_ms" INTEGER NOT NULL,
+    "ip" TEXT,
+    "user_agent" TEXT,
+    "error" TEXT,
+    "request_body" JSONB,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_timestamp_idx" ON "audit_logs"("timestamp");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_user_id_timestamp_idx" ON "audit_logs"("user_id", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_status_code_timestamp_idx" ON "audit_logs"("status_code", "timestamp");
@@ -37,6 +37,7 @@ async function seedIntegration() {
     console.log("🧹 Cleaning existing data...");
     await prisma.stateGeneration.deleteMany();
     await prisma.plantGeneration.deleteMany();
+    await prisma.plantNameHistory.deleteMany();
     await prisma.plant.deleteMany();
     await prisma.state.deleteMany();
     console.log("✓ Database cleaned\n");
@@ -57,11 +58,77 @@ async function seedIntegration() {
         name: "South Texas Project",
         stateId: states[0].id,
         generation: 21787144,
+        attributes: {
+          orisCode: 6251,
+          primaryFuelCategory: "NUCLEAR",
+          nameplateCapacityMw: 2708.6,
+          latitude: 28.7953,
+          longitude: -96.0486,
+          county: "Matagorda",
+          operatorName: "STP Nuclear Operating Co",
+          balancingAuthorityCode: "ERCO",
+        },
+      },
+      {
+        name: "Comanche Peak",
+        stateId: states[0].id,
+        generation: 18653890,
+        attributes: {
+          orisCode: 6145,
+          primaryFuelCategory: "NUCLEAR",
+          nameplateCapacityMw: 2430,
+          latitude: 32.2983,
+          longitude: -97.7853,
+          county: "Somervell",
+          operatorName: "Comanche Peak Power Co LLC",
+          balancingAuthorityCode: "ERCO",
+        },
+      },
+      {
+        name: "Palo Verde",
+        stateId: states[1].id,
+        generation: 31522590,
+        attributes: {
+          orisCode: 6008,
+          primaryFuelCategory: "NUCLEAR",
+          nameplateCapacityMw: 4209.6,
+          latitude: 33.3881,
+          longitude: -112.8617,
+          county: "Maricopa",
+          operatorName: "Arizona Public Service Co",
+          balancingAuthorityCode: "AZPS",
+        },
+      },
+      {
+        name: "Diablo Canyon",
+        stateId: states[1].id,
+        generation: 17892234,
+        attributes: {
+          orisCode: 6099,
+          primaryFuelCategory: "NUCLEAR",
+          nameplateCapacityMw: 2323,
+          latitude: 35.2119,
+          longitude: -120.8561,
+          county: "San Luis Obispo",
+          operatorName: "Pacific Gas & Electric Co",
+          balancingAuthorityCode: "CISO",
+        },
+      },
+      {
+        name: "Turkey Point",
+        stateId: states[2].id,
+        generation: 20061348,
+        attributes: {
+          orisCode: 621,
+          primaryFuelCategory: "GAS",
+          nameplateCapacityMw: 3944.8,
+          latitude: 25.4356,
+          longitude: -80.3308,
+          county: "Miami-Dade",
+          operatorName: "Florida Power & Light Co",
+          balancingAuthorityCode: "FPL",
+        },
       },
-      { name: "Comanche Peak", stateId: states[0].id, generation: 18653890 },
-      { name: "Palo Verde", stateId: states[1].id, generation: 31522590 },
-      { name: "Diablo Canyon", stateId: states[1].id, generation: 17892234 },
-      { name: "Turkey Point", stateId: states[2].id, generation: 20061348 },
     ];
 
     for (const plantData of plantsData) {
@@ -69,6 +136,15 @@ async function seedIntegration() {
         data: {
           name: plantData.name,
           stateId: plantData.stateId,
+          ...plantData.attributes,
+          attributesYear: TEST_YEAR,
+          nameHistory: {
+            create: {
+              name: plantData.name,
+              firstYear: TEST_YEAR,
+              lastYear: TEST_YEAR,
+            },
+          },
         },
       });
 
@@ -105,16 +181,18 @@ async function seedIntegration() {
     }
     console.log(`✓ Created ${stateAggregates.length} state aggregates\n`);
 
-    // Refresh materialized view if it exists
-    console.log("🔄 Refreshing materialized view...");
+    // Refresh materialized views if they exist
+    console.log("🔄 Refreshing materialized views...");
     try {
       await prisma.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY state_generation_mv`;
-      console.log("✓ Materialized view refreshed\n");
+      await prisma.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY state_fuel_mix_mv`;
+      console.log("✓ Materialized views refreshed\n");
     } catch (error) {
       // View might not exist or CONCURRENTLY not supported, try without it
       try {
         await prisma.$executeRaw`REFRESH MATERIALIZED VIEW state_generation_mv`;
-        console.log("✓ Materialized view refreshed (non-concurrent)\n");
+        await prisma.$executeRaw`REFRESH MATERIALIZED VIEW state_fuel_mix_mv`;
+        console.log("✓ Materialized views refreshed (non-concurrent)\n");
       } catch (mvError) {
         console.log(
           "⚠️  Materialized view refresh skipped (might not exist)\n"
@@ -82,20 +82,17 @@ async function seed() {
 
       const year = plant.year || defaultYear;
 
-      // Upsert plant
-      const dbPlant = await prisma.plant.upsert({
-        where: {
-          name_stateId: {
+      // Find or create plant (names are not unique once ORIS codes are in play)
+      const dbPlant =
+        (await prisma.plant.findFirst({
+          where: { name: plant.plantName, stateId },
+        })) ??
+        (await prisma.plant.create({
+          data: {
             name: plant.plantName,
             stateId,
           },
-        },
-        update: {},
-        create: {
-          name: plant.plantName,
-          stateId,
-        },
-      });
+        }));
       plantCount++;
 
       // Upsert plant generation
@@ -3,13 +3,16 @@ import { PrismaClient } from "../src/generated/prisma/client";
 const prisma = new PrismaClient();
 
 async function refreshMaterializedView() {
-  console.log("🔄 Refreshing state_generation_mv...");
+  console.log("🔄 Refreshing state_generation_mv and state_fuel_mix_mv...");
 
   try {
     await prisma.$executeRaw`
       REFRESH MATERIALIZED VIEW CONCURRENTLY state_generation_mv;
     `;
-    console.log("✅ Materialized view refreshed successfully!");
+    await prisma.$executeRaw`
+      REFRESH MATERIALIZED VIEW CONCURRENTLY state_fuel_mix_mv;
+    `;
+    console.log("✅ Materialized views refreshed successfully!");
   } catch (error) {
     console.error("❌ Error refreshing materialized view:", error);
     throw error;
@@ -1,6 +1,7 @@
 import { Controller, Get } from "@nestjs/common";
 import { AppService } from "./app.service";
 import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
+import { Public } from "./common/decorators/public.decorator";
 
 /**
  * AppController
@@ -11,8 +12,11 @@ import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
  * Endpoints:
  * - GET /api - Welcome message
  * - GET /api/health - Health check for monitoring/load balancers
+ *
+ * Both endpoints are public so probes do not need a token.
  */
 @Controller()
+@Public()
 @ApiTags("System")
 export class AppController {
   constructor(private readonly appService: AppService) {}
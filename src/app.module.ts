@@ -1,47 +1,117 @@
-import { Module } from "@nestjs/common";
-import { ThrottlerModule, ThrottlerGuard } from "@nestjs/throttler";
-import { APP_GUARD } from "@nestjs/core";
+import { MiddlewareConsumer, Module, NestModule } from "@nestjs/common";
+import { ThrottlerModule } from "@nestjs/throttler";
+import { APP_GUARD, APP_INTERCEPTOR } from "@nestjs/core";
 import { AppController } from "./app.controller";
 import { AppService } from "./app.service";
 import { PrismaModule } from "./prisma/prisma.module";
-import { RedisModule } from "./redis/redis.module";
+import { RedisModule, REDIS_CLIENT } from "./redis/redis.module";
+import { CacheModule } from "./cache/cache.module";
 import { PlantsModule } from "./modules/plants/plants.module";
 import { StatesModule } from "./modules/states/states.module";
+import { FuelMixModule } from "./modules/fuel-mix/fuel-mix.module";
+import { ExportsModule } from "./modules/exports/exports.module";
+import { AdminModule } from "./modules/admin/admin.module";
+import { ApiKeysModule } from "./modules/api-keys/api-keys.module";
+import { ApiKeyGuard } from "./modules/api-keys/api-key.guard";
+import { AuditLogsModule } from "./modules/audit-logs/audit-logs.module";
+import { AuthFailureThrottlerGuard } from "./common/guards/auth-failure-throttler.guard";
+import { JwtAuthGuard } from "./common/guards/jwt-auth.guard";
+import { RolesGuard } from "./common/guards/roles.guard";
+import {
+  TieredThrottlerGuard,
+  createThrottlerOptions,
+} from "./common/guards/tiered-throttler.guard";
+import { AuditLogInterceptor } from "./common/interceptors/audit-log.interceptor";
+import { TraceIdMiddleware } from "./common/middleware/trace-id.middleware";
+import { LoggerMiddleware } from "./common/middleware/logger.middleware";
 
 /**
  * AppModule
  *
  * Root module that imports all feature modules:
  * - PrismaModule: Global database access
- * - RedisModule: Global caching (optional)
- * - ThrottlerModule: Rate limiting (100 requests per minute)
+ * - RedisModule: Global Redis client (optional)
+ * - CacheModule: Global response cache with tag-based invalidation
+ * - ThrottlerModule: Per-client rate limiting, shared through Redis
  * - PlantsModule: Plant-related endpoints
  * - StatesModule: State-related endpoints
+ * - FuelMixModule: Fuel-mix breakdown endpoints
+ * - ExportsModule: Streaming bulk exports
+ * - AdminModule: Admin-only operations
+ * - ApiKeysModule: API keys for machine clients
+ * - AuditLogsModule: Persistent audit trail of API requests
+ *
+ * Every route requires an X-API-Key (ApiKeyGuard) or a bearer token
+ * (JwtAuthGuard) unless marked @Public(),
+ * and routes marked @Roles() also require a matching role (RolesGuard).
+ * Each caller is then rate limited by its tier (TieredThrottlerGuard);
+ * failed authentications are limited per IP (AuthFailureThrottlerGuard).
+ * Requests that pass the guards are recorded by AuditLogInterceptor.
+ *
+ * Every request gets a trace ID first (TraceIdMiddleware), which is echoed
+ * in the X-Trace-Id response header and included in log lines, error
+ * responses and audit entries; LoggerMiddleware then logs each response.
  */
 @Module({
   imports: [
     // Rate Limiting Configuration
-    // Limits each IP to 100 requests per 60 seconds (1 minute)
-    // Can be overridden per-route with @Throttle() decorator
-    ThrottlerModule.forRoot([
-      {
-        ttl: 60000, // Time window in milliseconds (60 seconds)
-        limit: 100, // Maximum requests within the time window
-      },
-    ]),
+    // Per-minute limits by API key, role or (anonymous) IP, counted in Redis
+    // See TieredThrottlerGuard for tiers and @Expensive() routes
+    ThrottlerModule.forRootAsync({
+      inject: [REDIS_CLIENT],
+      useFactory: createThrottlerOptions,
+    }),
     PrismaModule,
     RedisModule,
+    CacheModule,
     PlantsModule,
     StatesModule,
+    FuelMixModule,
+    ExportsModule,
+    AdminModule,
+    ApiKeysModule,
+    AuditLogsModule,
   ],
   controllers: [AppController],
   providers: [
     AppService,
-    // Apply ThrottlerGuard globally to all routes
+    // Block IPs that keep failing authentication, before credentials
+    // are checked
+    {
+      provide: APP_GUARD,
+      useClass: AuthFailureThrottlerGuard,
+    },
+    // Authenticate X-API-Key headers; requests without one fall through
+    {
+      provide: APP_GUARD,
+      useClass: ApiKeyGuard,
+    },
+    // Require a valid JWT on every route not marked @Public()
+    // (unless ApiKeyGuard already authenticated the request)
     {
       provide: APP_GUARD,
-      useClass: ThrottlerGuard,
+      useClass: JwtAuthGuard,
+    },
+    // Rate limit per caller; runs after authentication to pick the tier
+    {
+      provide: APP_GUARD,
+      useClass: TieredThrottlerGuard,
+    },
+    // Enforce @Roles() once the caller is known
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
+    // Record every request in the audit trail
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditLogInterceptor,
     },
   ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // Order matters: the trace ID must be set before anything logs
+    consumer.apply(TraceIdMiddleware, LoggerMiddleware).forRoutes("{*splat}");
+  }
+}
@@ -0,0 +1,277 @@
+import type { PlantFilterOptions } from "../modules/plants/repositories/plant.repository";
+
+/**
+ * Top-level groups of cached API responses
+ *
+ * Every key starts with its namespace, and every entry is tagged with it, so
+ * a whole group can be cleared with one tag.
+ */
+export const CACHE_NAMESPACES = [
+  "plants",
+  "plant",
+  "states",
+  "state",
+  "fuel-mix",
+] as const;
+
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[number];
+
+/**
+ * A cache entry's Redis key and the tags it is invalidated by
+ *
+ * Built with CacheKeys rather than by hand, so formats stay consistent and
+ * entries always carry their entity tags.
+ */
+export interface CacheKey {
+  /** Redis key the value is stored under */
+  readonly key: string;
+  readonly namespace: CacheNamespace;
+  /** Namespace tag plus entity tags (CacheTags) */
+  readonly tags: readonly string[];
+  /** Service call that produces the entry; set on keys worth warming */
+  readonly warm?: WarmTarget;
+}
+
+/**
+ * A service-layer request that CacheWarmingService can replay
+ *
+ * Recorded (as JSON) for every lookup of a warmable key, so the warm-set
+ * follows real traffic. Replaying it goes through the same service method
+ * as the API and so fills exactly the key the API reads.
+ */
+export type WarmTarget =
+  | { kind: "states-summary"; year: number }
+  | { kind: "state-detail"; stateCode: string; year: number; topPlants: number }
+  | { kind: "top-plants"; top: number; filters: PlantFilterOptions }
+  | { kind: "fuel-mix"; year: number; stateCode?: string };
+
+/**
+ * Entity tags
+ *
+ * An entry is tagged with the entities it is scoped to: a state's detail
+ * carries `state:TX` and `year:2023`, a plant's trend `plant:42`. Entries
+ * covering every state carry no state tag; clear their namespace instead.
+ */
+export const CacheTags = {
+  state: (code: string) => `state:${code.toUpperCase()}`,
+  year: (year: number) => `year:${year}`,
+  plant: (id: number) => `plant:${id}`,
+};
+
+/**
+ * Tags accepted for invalidation: a namespace or an entity tag
+ */
+export const CACHE_TAG_PATTERN = new RegExp(
+  `^(${CACHE_NAMESPACES.join("|")}|state:[A-Z]{2}|year:\\d{4}|plant:\\d+)$`
+);
+
+function cacheKey(
+  namespace: CacheNamespace,
+  parts: Array<string | number>,
+  tags: Array<string | undefined> = [],
+  warm?: WarmTarget
+): CacheKey {
+  return {
+    key: [namespace, ...parts].join(":"),
+    namespace,
+    tags: [namespace, ...tags.filter((tag): tag is string => !!tag)],
+    ...(warm && { warm }),
+  };
+}
+
+/**
+ * Key segments covering every plant filter, in a fixed order
+ */
+function plantFilterParts(filters: PlantFilterOptions): Array<string | number> {
+  const states = plantFilterStates(filters);
+  return [
+    states.length ? states.join(",") : "ALL",
+    filters.year || "ALL",
+    filters.fuel || "ALL",
+    filters.minCapacityMw ?? "ANY",
+    filters.maxCapacityMw ?? "ANY",
+    filters.minGeneration ?? "ANY",
+  ];
+}
+
+function plantFilterTags(filters: PlantFilterOptions): string[] {
+  return [
+    ...plantFilterStates(filters).map(CacheTags.state),
+    ...(filters.year ? [CacheTags.year(filters.year)] : []),
+  ];
+}
+
+function plantFilterStates(filters: PlantFilterOptions): string[] {
+  return filters.stateCodes ?? (filters.stateCode ? [filters.stateCode] : []);
+}
+
+function optionalYearTag(year: number | undefined): string | undefined {
+  return year ? CacheTags.year(year) : undefined;
+}
+
+/**
+ * Typed cache keys for every cached API response
+ */
+export const CacheKeys = {
+  /** GET /plants */
+  topPlants: (top: number, filters: PlantFilterOptions) =>
+    cacheKey(
+      "plants",
+      ["top", top, ...plantFilterParts(filters)],
+      plantFilterTags(filters),
+      { kind: "top-plants", top, filters }
+    ),
+
+  /** GET /plants/list; one entry per page */
+  plantsPage: (
+    limit: number,
+    filters: PlantFilterOptions,
+    cursor: string | undefined
+  ) =>
+    cacheKey(
+      "plants",
+      ["list", limit, ...plantFilterParts(filters), cursor || "start"],
+      plantFilterTags(filters)
+    ),
+
+  /** GET /plants/search; search text is case-insensitive */
+  plantSearch: (
+    query: string,
+    limit: number,
+    stateCode: string | undefined,
+    year: number | undefined
+  ) =>
+    cacheKey(
+      "plants",
+      [
+        "search",
+        query.toLowerCase(),
+        stateCode || "ALL",
+        year || "LATEST",
+        limit,
+      ],
+      [stateCode && CacheTags.state(stateCode), optionalYearTag(year)]
+    ),
+
+  /** GET /plants/nearby */
+  nearbyPlants: (
+    latitude: number,
+    longitude: number,
+    radiusKm: number,
+    year: number,
+    limit: number
+  ) =>
+    cacheKey(
+      "plants",
+      ["nearby", latitude, longitude, radiusKm, year, limit],
+      [CacheTags.year(year)]
+    ),
+
+  /** GET /plants/bbox */
+  plantsInBoundingBox: (
+    box: {
+      minLatitude: number;
+      minLongitude: number;
+      maxLatitude: number;
+      maxLongitude: number;
+    },
+    year: number,
+    limit: number
+  ) =>
+    cacheKey(
+      "plants",
+      [
+        "bbox",
+        box.minLatitude,
+        box.minLongitude,
+        box.maxLatitude,
+        box.maxLongitude,
+        year,
+        limit,
+      ],
+      [CacheTags.year(year)]
+    ),
+
+  /** GET /plants/:id */
+  plant: (plantId: number) =>
+    cacheKey("plant", [plantId], [CacheTags.plant(plantId)]),
+
+  /** GET /plants/oris/:orisCode; tagged with the plant once loaded */
+  plantByOrisCode: (orisCode: number) => cacheKey("plant", ["oris", orisCode]),
+
+  /** GET /plants/:id/trend */
+  plantTrend: (plantId: number) =>
+    cacheKey("plant", [plantId, "trend"], [CacheTags.plant(plantId)]),
+
+  /** GET /states */
+  statesSummary: (year: number) =>
+    cacheKey("states", ["summary", year], [CacheTags.year(year)], {
+      kind: "states-summary",
+      year,
+    }),
+
+  /** Every state (id, code, name) */
+  allStates: () => cacheKey("states", ["all"]),
+
+  /** Generation of every state for one year */
+  generationByYear: (year: number) =>
+    cacheKey("states", ["generation", year], [CacheTags.year(year)]),
+
+  /** GET /states/:code */
+  stateDetail: (stateCode: string, year: number, topPlants: number) =>
+    cacheKey(
+      "state",
+      [stateCode, "detail", year, "top", topPlants],
+      [CacheTags.state(stateCode), CacheTags.year(year)],
+      { kind: "state-detail", stateCode, year, topPlants }
+    ),
+
+  /** A state row with its plant count */
+  state: (stateCode: string) =>
+    cacheKey("state", [stateCode], [CacheTags.state(stateCode)]),
+
+  /** A state's generation, for one year or all years */
+  stateGeneration: (stateCode: string, year: number | undefined) =>
+    cacheKey(
+      "state",
+      [stateCode, "generation", year || "all"],
+      [CacheTags.state(stateCode), optionalYearTag(year)]
+    ),
+
+  /** GET /states/:code/timeseries (raw yearly totals) */
+  stateTimeSeries: (
+    stateCode: string,
+    from: number | undefined,
+    to: number | undefined
+  ) =>
+    cacheKey(
+      "state",
+      [stateCode, "timeseries", from ?? "min", to ?? "max"],
+      [CacheTags.state(stateCode)]
+    ),
+
+  /** A state's top plants, for one year or all years */
+  stateTopPlants: (
+    stateCode: string,
+    limit: number,
+    year: number | undefined
+  ) =>
+    cacheKey(
+      "state",
+      [stateCode, "top-plants", year || "all", limit],
+      [CacheTags.state(stateCode), optionalYearTag(year)]
+    ),
+
+  /** Plant count and all-time generation of a state */
+  stateStatistics: (stateCode: string) =>
+    cacheKey("state", [stateCode, "statistics"], [CacheTags.state(stateCode)]),
+
+  /** GET /fuel-mix and /states/:code/fuel-mix; national when no state */
+  fuelMix: (year: number, stateCode: string | undefined) =>
+    cacheKey(
+      "fuel-mix",
+      [stateCode ?? "US", year],
+      [stateCode && CacheTags.state(stateCode), CacheTags.year(year)],
+      { kind: "fuel-mix", year, ...(stateCode && { stateCode }) }
+    ),
+};
@@ -0,0 +1,32 @@
+import { Module, Global } from "@nestjs/common";
+import { CacheService } from "./cache.service";
+import { WarmSetService } from "./warm-set.service";
+
+/**
+ * CacheModule
+ *
+ * Global module providing CacheService, the read-through response cache
+ * with typed keys and tag-based invalidation, and WarmSetService, which
+ * learns the most-requested keys for cache warming. Builds on RedisModule's
+ * client.
+ *
+ * Usage:
+ * ```typescript
+ * @Injectable()
+ * export class MyService {
+ *   constructor(private readonly cache: CacheService) {}
+ *
+ *   getSummary(year: number) {
+ *     return this.cache.getOrSet(CacheKeys.statesSummary(year), () =>
+ *       this.repository.getStatesSummary({ year })
+ *     );
+ *   }
+ * }
+ * ```
+ */
+@Global()
+@Module({
+  providers: [CacheService, WarmSetService],
+  exports: [CacheService, WarmSetService],
+})
+export class CacheModule {}
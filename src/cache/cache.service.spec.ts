@@ -0,0 +1,615 @@
+import { CacheService } from "./cache.service";
+import { CacheKeys, CacheTags } from "./cache-keys";
+import { WarmSetService } from "./warm-set.service";
+
+/**
+ * In-memory stand-in for the Redis commands CacheService uses
+ */
+function createFakeRedis() {
+  const values = new Map<string, string>();
+  const sets = new Map<string, Set<string>>();
+  const ttls = new Map<string, number>();
+  const subscribers: Array<(channel: string, message: string) => void> = [];
+
+  const redis = {
+    values,
+    sets,
+    ttls,
+    get: jest.fn(async (key: string) => values.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string, ..._args: unknown[]) => {
+      // Only called with NX (load locks)
+      if (values.has(key)) return null;
+      values.set(key, value);
+      return "OK";
+    }),
+    exists: jest.fn(async (key: string) => (values.has(key) ? 1 : 0)),
+    eval: jest.fn(async (_script: string, _n: number, key: string, token) => {
+      if (values.get(key) !== token) return 0;
+      values.delete(key);
+      return 1;
+    }),
+    incr: jest.fn(async (key: string) => {
+      const next = Number(values.get(key) ?? 0) + 1;
+      values.set(key, String(next));
+      return next;
+    }),
+    smembers: jest.fn(async (key: string) => [...(sets.get(key) ?? [])]),
+    del: jest.fn(async (...keys: string[]) => {
+      let deleted = 0;
+      for (const key of keys) {
+        if (values.delete(key) || sets.delete(key)) deleted++;
+      }
+      return deleted;
+    }),
+    publish: jest.fn(async (channel: string, message: string) => {
+      subscribers.forEach((deliver) => deliver(channel, message));
+      return subscribers.length;
+    }),
+    duplicate: jest.fn(() => {
+      const handlers = new Map<string, (...args: string[]) => void>();
+      return {
+        on: (event: string, handler: (...args: string[]) => void) =>
+          handlers.set(event, handler),
+        subscribe: jest.fn(async () => {
+          subscribers.push((channel, message) =>
+            handlers.get("message")?.(channel, message)
+          );
+          return 1;
+        }),
+        quit: jest.fn(async () => "OK"),
+      };
+    }),
+    multi: jest.fn(() => {
+      const queued: Array<() => void> = [];
+      const transaction = {
+        setex: (key: string, ttl: number, value: string) => {
+          queued.push(() => {
+            values.set(key, value);
+            ttls.set(key, ttl);
+          });
+          return transaction;
+        },
+        sadd: (key: string, member: string) => {
+          queued.push(() =>
+            sets.set(key, (sets.get(key) ?? new Set()).add(member))
+          );
+          return transaction;
+        },
+        expire: () => transaction,
+        exec: async () => queued.forEach((apply) => apply()),
+      };
+      return transaction;
+    }),
+  };
+  return redis;
+}
+
+function createCache(redis: ReturnType<typeof createFakeRedis>) {
+  return new CacheService(redis as any, new WarmSetService(redis as any));
+}
+
+/**
+ * Value inside a stored cache entry
+ */
+function storedValue(redis: ReturnType<typeof createFakeRedis>, key: string) {
+  const entry = redis.values.get(key);
+  return entry === undefined ? undefined : JSON.parse(entry).value;
+}
+
+/**
+ * Let background refreshes run
+ */
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Unit Tests for CacheService
+ *
+ * Tests read-through caching, soft/hard TTLs, load coalescing, tag
+ * registration and invalidation, Redis failure fallbacks and counters
+ */
+describe("CacheService", () => {
+  let cache: CacheService;
+  let redis: ReturnType<typeof createFakeRedis>;
+
+  beforeEach(() => {
+    process.env.CACHE_LOCK_TIMEOUT_MS = "500";
+    redis = createFakeRedis();
+    cache = createCache(redis);
+    jest.spyOn((cache as any).logger, "warn").mockImplementation();
+    jest.spyOn((cache as any).logger, "log").mockImplementation();
+  });
+
+  afterEach(() => {
+    delete process.env.CACHE_LOCK_TIMEOUT_MS;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("getOrSet", () => {
+    it("should load on a miss and serve the cached value afterwards", async () => {
+      const loader = jest.fn().mockResolvedValue([{ code: "TX" }]);
+      const key = CacheKeys.statesSummary(2023);
+
+      const first = await cache.getOrSet(key, loader);
+      const second = await cache.getOrSet(key, loader);
+
+      expect(first).toEqual([{ code: "TX" }]);
+      expect(second).toEqual([{ code: "TX" }]);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(storedValue(redis, "cache:v0:states:summary:2023")).toEqual([
+        { code: "TX" },
+      ]);
+    });
+
+    it("should register the entry under its tags", async () => {
+      await cache.getOrSet(CacheKeys.stateDetail("TX", 2023, 10), async () => ({
+        totalGeneration: 1,
+      }));
+
+      const key = "cache:v0:state:TX:detail:2023:top:10";
+      expect(redis.sets.get("cache:tag:state")).toEqual(new Set([key]));
+      expect(redis.sets.get("cache:tag:state:TX")).toEqual(new Set([key]));
+      expect(redis.sets.get("cache:tag:year:2023")).toEqual(new Set([key]));
+    });
+
+    it("should add tags derived from the loaded value", async () => {
+      await cache.getOrSet(
+        CacheKeys.plantByOrisCode(6008),
+        async () => ({ id: 42 }),
+        { tagsFrom: (plant) => [CacheTags.plant(plant.id)] }
+      );
+
+      expect(redis.sets.get("cache:tag:plant:42")).toEqual(
+        new Set(["cache:v0:plant:oris:6008"])
+      );
+    });
+
+    it("should not cache null results or loader errors", async () => {
+      await cache.getOrSet(CacheKeys.state("ZZ"), async () => null);
+      await expect(
+        cache.getOrSet(CacheKeys.plant(1), async () => {
+          throw new Error("Plant with ID 1 not found");
+        })
+      ).rejects.toThrow("Plant with ID 1 not found");
+
+      expect(redis.multi).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to the loader when Redis fails", async () => {
+      redis.get.mockRejectedValue(new Error("Connection lost"));
+      redis.multi.mockImplementation(() => {
+        throw new Error("Connection lost");
+      });
+
+      const result = await cache.getOrSet(
+        CacheKeys.fuelMix(2023, undefined),
+        async () => ["solar"]
+      );
+
+      expect(result).toEqual(["solar"]);
+      expect(cache.getStats()["fuel-mix"].errors).toBe(1);
+    });
+  });
+
+  describe("warm-set", () => {
+    it("should record every lookup, including in-process hits", async () => {
+      await cache.onModuleInit();
+      const record = jest.spyOn((cache as any).warmSet, "record");
+      const key = CacheKeys.statesSummary(2023);
+
+      await cache.getOrSet(key, async () => ["TX"]);
+      await cache.getOrSet(key, async () => ["TX"]);
+      await cache.getOrSet(key, async () => ["TX"]);
+
+      expect(record).toHaveBeenCalledTimes(3);
+      expect(record).toHaveBeenCalledWith(key);
+    });
+  });
+
+  describe("stale-while-revalidate", () => {
+    const key = CacheKeys.statesSummary(2023);
+
+    it("should serve a stale value and refresh it once in the background", async () => {
+      jest.useFakeTimers({ doNotFake: ["setImmediate"] });
+      await cache.getOrSet(key, async () => ["old"], { softTtl: 60 });
+      jest.advanceTimersByTime(61_000);
+
+      const loader = jest.fn().mockResolvedValue(["new"]);
+      const results = await Promise.all([
+        cache.getOrSet(key, loader),
+        cache.getOrSet(key, loader),
+      ]);
+      await flushPromises();
+
+      expect(results).toEqual([["old"], ["old"]]);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(storedValue(redis, "cache:v0:states:summary:2023")).toEqual([
+        "new",
+      ]);
+      expect(await cache.getOrSet(key, loader)).toEqual(["new"]);
+      expect(cache.getStats().states).toMatchObject({ hits: 1, stale: 2 });
+    });
+
+    it("should keep serving stale values when the refresh fails", async () => {
+      jest.useFakeTimers({ doNotFake: ["setImmediate"] });
+      await cache.getOrSet(key, async () => ["old"], { softTtl: 60 });
+      jest.advanceTimersByTime(61_000);
+
+      const result = await cache.getOrSet(key, async () => {
+        throw new Error("Database unavailable");
+      });
+      await flushPromises();
+
+      expect(result).toEqual(["old"]);
+      expect(storedValue(redis, "cache:v0:states:summary:2023")).toEqual([
+        "old",
+      ]);
+      expect(redis.values.has("cache:v0:states:summary:2023:lock")).toBe(false);
+    });
+
+    it("should skip the refresh while another instance holds the lock", async () => {
+      jest.useFakeTimers({ doNotFake: ["setImmediate"] });
+      await cache.getOrSet(key, async () => ["old"], { softTtl: 60 });
+      jest.advanceTimersByTime(61_000);
+      redis.values.set("cache:v0:states:summary:2023:lock", "other-instance");
+
+      const loader = jest.fn().mockResolvedValue(["new"]);
+      await cache.getOrSet(key, loader);
+      await flushPromises();
+
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it("should store entries for the hard TTL", async () => {
+      await cache.getOrSet(key, async () => ["value"], {
+        softTtl: 60,
+        hardTtl: 600,
+      });
+
+      expect(redis.ttls.get("cache:v0:states:summary:2023")).toBe(600);
+    });
+  });
+
+  describe("in-process tier", () => {
+    const key = CacheKeys.allStates();
+    const redisKey = "cache:v0:states:all";
+
+    beforeEach(async () => {
+      await cache.onModuleInit();
+    });
+
+    it("should serve fresh Redis entries from memory after the first read", async () => {
+      await cache.getOrSet(key, async () => [{ code: "TX" }]);
+      await cache.getOrSet(key, async () => [{ code: "TX" }]);
+      redis.get.mockClear();
+
+      const result = await cache.getOrSet(key, async () => []);
+
+      expect(result).toEqual([{ code: "TX" }]);
+      expect(redis.get).not.toHaveBeenCalled();
+      expect(cache.getStats().states).toMatchObject({
+        l1Hits: 1,
+        hits: 1,
+        misses: 1,
+      });
+      expect(cache.getL1Stats()).toMatchObject({
+        entries: 1,
+        size: redis.values.get(redisKey)!.length,
+      });
+    });
+
+    it("should freeze values shared between requests", async () => {
+      await cache.getOrSet(key, async () => [{ code: "TX" }]);
+      const shared = await cache.getOrSet(key, async () => []);
+
+      expect(Object.isFrozen(shared)).toBe(true);
+      expect(Object.isFrozen(shared[0])).toBe(true);
+    });
+
+    it("should only keep entries up to the entry size limit", async () => {
+      process.env.CACHE_L1_MAX_ENTRY_BYTES = "10";
+      cache = createCache(redis);
+      await cache.onModuleInit();
+      delete process.env.CACHE_L1_MAX_ENTRY_BYTES;
+
+      await cache.getOrSet(key, async () => [{ code: "TX" }]);
+      await cache.getOrSet(key, async () => [{ code: "TX" }]);
+
+      expect(cache.getL1Stats()!.entries).toBe(0);
+    });
+
+    it("should expire entries after CACHE_L1_TTL", async () => {
+      jest.useFakeTimers();
+      await cache.getOrSet(key, async () => ["old"]);
+      await cache.getOrSet(key, async () => ["old"]);
+      redis.values.set(
+        redisKey,
+        JSON.stringify({ value: ["new"], freshUntil: Date.now() + 3_600_000 })
+      );
+      jest.advanceTimersByTime(61_000);
+
+      expect(await cache.getOrSet(key, async () => [])).toEqual(["new"]);
+    });
+
+    it("should clear every instance when the dataset version is bumped", async () => {
+      const other = createCache(redis);
+      await other.onModuleInit();
+      await other.getOrSet(key, async () => ["before"]);
+      await other.getOrSet(key, async () => ["before"]);
+
+      // Ingestion runs in a separate process without a subscription
+      await createCache(redis).bumpDatasetVersion();
+      const result = await other.getOrSet(key, async () => ["after"]);
+
+      expect(result).toEqual(["after"]);
+      expect(other.getStats().states.l1Hits).toBe(0);
+    });
+
+    it("should clear every instance when tags are invalidated", async () => {
+      await cache.getOrSet(key, async () => ["before"]);
+      await cache.getOrSet(key, async () => ["before"]);
+
+      await cache.invalidateTags(["states"]);
+
+      expect(cache.getL1Stats()!.entries).toBe(0);
+      expect(await cache.getOrSet(key, async () => ["after"])).toEqual([
+        "after",
+      ]);
+    });
+
+    it("should not keep values read before a concurrent clear", async () => {
+      await cache.getOrSet(key, async () => ["before"]);
+      redis.get.mockImplementationOnce(async (k: string) => {
+        // An ingestion finishes while this request reads Redis
+        await redis.publish("cache:l1-invalidate", "dataset version 1");
+        return redis.values.get(k) ?? null;
+      });
+
+      await cache.getOrSet(key, async () => []);
+
+      expect(cache.getL1Stats()!.entries).toBe(0);
+    });
+
+    it("should stay disabled when the subscription fails", async () => {
+      redis.duplicate.mockImplementationOnce(() => {
+        throw new Error("Connection refused");
+      });
+      cache = createCache(redis);
+      jest.spyOn((cache as any).logger, "warn").mockImplementation();
+
+      await cache.onModuleInit();
+
+      expect(cache.getL1Stats()).toBeNull();
+    });
+  });
+
+  describe("request coalescing", () => {
+    const key = CacheKeys.statesSummary(2023);
+
+    it("should run one load for concurrent misses", async () => {
+      let resolve!: (value: string[]) => void;
+      const loader = jest.fn(
+        () => new Promise<string[]>((done) => (resolve = done))
+      );
+
+      const pending = Promise.all([
+        cache.getOrSet(key, loader),
+        cache.getOrSet(key, loader),
+        cache.getOrSet(key, loader),
+      ]);
+      await flushPromises();
+      resolve(["TX"]);
+
+      expect(await pending).toEqual([["TX"], ["TX"], ["TX"]]);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(redis.values.has("cache:v0:states:summary:2023:lock")).toBe(false);
+    });
+
+    it("should share loader errors and not cache them", async () => {
+      const loader = jest.fn().mockRejectedValue(new Error("Query failed"));
+
+      const results = await Promise.allSettled([
+        cache.getOrSet(key, loader),
+        cache.getOrSet(key, loader),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        "rejected",
+        "rejected",
+      ]);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(redis.values.has("cache:v0:states:summary:2023")).toBe(false);
+    });
+
+    it("should wait for the value another instance is loading", async () => {
+      const redisKey = "cache:v0:states:summary:2023";
+      redis.values.set(`${redisKey}:lock`, "other-instance");
+      setTimeout(() => {
+        redis.values.set(
+          redisKey,
+          JSON.stringify({ value: ["TX"], freshUntil: Date.now() + 60_000 })
+        );
+        redis.values.delete(`${redisKey}:lock`);
+      }, 80);
+
+      const loader = jest.fn().mockResolvedValue(["local"]);
+      const result = await cache.getOrSet(key, loader);
+
+      expect(result).toEqual(["TX"]);
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it("should load itself once the other instance's lock times out", async () => {
+      redis.values.set("cache:v0:states:summary:2023:lock", "stuck-instance");
+
+      const result = await cache.getOrSet(key, async () => ["local"]);
+
+      expect(result).toEqual(["local"]);
+      // The other instance's lock is left for it to release or expire
+      expect(redis.values.get("cache:v0:states:summary:2023:lock")).toBe(
+        "stuck-instance"
+      );
+    });
+
+    it("should load without a lock when locking fails", async () => {
+      redis.set.mockRejectedValue(new Error("Connection lost"));
+
+      const result = await cache.getOrSet(key, async () => ["TX"]);
+
+      expect(result).toEqual(["TX"]);
+      expect(cache.getStats().states.errors).toBe(1);
+    });
+  });
+
+  describe("bumpDatasetVersion", () => {
+    it("should switch readers to fresh entries", async () => {
+      const key = CacheKeys.topPlants(10, {});
+      await cache.getOrSet(key, async () => ["before"]);
+
+      const version = await cache.bumpDatasetVersion();
+      const result = await cache.getOrSet(key, async () => ["after"]);
+
+      expect(version).toBe(1);
+      expect(result).toEqual(["after"]);
+      expect(
+        storedValue(redis, "cache:v1:plants:top:10:ALL:ALL:ALL:ANY:ANY:ANY")
+      ).toEqual(["after"]);
+    });
+
+    it("should keep the version in memory between lookups", async () => {
+      await cache.getOrSet(CacheKeys.plant(1), async () => ({}));
+      await cache.getOrSet(CacheKeys.plant(2), async () => ({}));
+
+      const versionReads = redis.get.mock.calls.filter(
+        ([key]) => key === "cache:dataset-version"
+      );
+      expect(versionReads).toHaveLength(1);
+    });
+
+    it("should read the new version once a bump is broadcast", async () => {
+      process.env.CACHE_L1_MAX_BYTES = "0";
+      cache = createCache(redis);
+      await cache.onModuleInit();
+      delete process.env.CACHE_L1_MAX_BYTES;
+      await cache.getOrSet(CacheKeys.plant(1), async () => ({}));
+
+      // Ingestion runs in a separate process
+      await createCache(redis).bumpDatasetVersion();
+
+      expect(await cache.getDatasetVersion()).toBe(1);
+    });
+
+    it("should read the version again after the TTL without a subscription", async () => {
+      jest.useFakeTimers();
+      await cache.getOrSet(CacheKeys.plant(1), async () => ({}));
+      await createCache(redis).bumpDatasetVersion();
+
+      expect(await cache.getDatasetVersion()).toBe(0);
+      jest.advanceTimersByTime(5_000);
+      expect(await cache.getDatasetVersion()).toBe(1);
+    });
+
+    it("should keep loads racing a bump under the old version", async () => {
+      const key = CacheKeys.plant(1);
+
+      // Ingestion commits and bumps while this request is loading
+      await cache.getOrSet(key, async () => {
+        await cache.bumpDatasetVersion();
+        return { name: "before" };
+      });
+      const result = await cache.getOrSet(key, async () => ({ name: "after" }));
+
+      expect(result).toEqual({ name: "after" });
+      expect(storedValue(redis, "cache:v0:plant:1")).toEqual({
+        name: "before",
+      });
+    });
+  });
+
+  describe("invalidateTags", () => {
+    it("should delete only the entries carrying the tag", async () => {
+      await cache.getOrSet(
+        CacheKeys.stateDetail("TX", 2023, 10),
+        async () => 1
+      );
+      await cache.getOrSet(
+        CacheKeys.stateDetail("CA", 2023, 10),
+        async () => 2
+      );
+
+      const results = await cache.invalidateTags([CacheTags.state("tx")]);
+
+      expect(results.get("state:TX")).toBe(1);
+      expect(redis.values.has("cache:v0:state:TX:detail:2023:top:10")).toBe(
+        false
+      );
+      expect(redis.values.has("cache:v0:state:CA:detail:2023:top:10")).toBe(
+        true
+      );
+      expect(redis.sets.has("cache:tag:state:TX")).toBe(false);
+    });
+
+    it("should clear a whole namespace", async () => {
+      await cache.getOrSet(CacheKeys.statesSummary(2023), async () => 1);
+      await cache.getOrSet(CacheKeys.allStates(), async () => 2);
+      await cache.getOrSet(CacheKeys.plant(1), async () => 3);
+
+      const results = await cache.invalidateTags(["states"]);
+
+      expect(results.get("states")).toBe(2);
+      expect(redis.values.has("cache:v0:plant:1")).toBe(true);
+    });
+  });
+
+  describe("getStats", () => {
+    it("should count hits and misses per namespace", async () => {
+      const key = CacheKeys.plantTrend(1);
+
+      await cache.getOrSet(key, async () => ({ years: [] }));
+      await cache.getOrSet(key, async () => ({ years: [] }));
+      await cache.getOrSet(key, async () => ({ years: [] }));
+
+      expect(cache.getStats().plant).toEqual({
+        l1Hits: 0,
+        hits: 2,
+        stale: 0,
+        misses: 1,
+        errors: 0,
+      });
+      expect(cache.getStats().states).toEqual({
+        l1Hits: 0,
+        hits: 0,
+        stale: 0,
+        misses: 0,
+        errors: 0,
+      });
+    });
+  });
+});
+
+describe("CacheKeys", () => {
+  it("should build keys from every plant filter in a fixed order", () => {
+    const key = CacheKeys.topPlants(20, {
+      stateCodes: ["OK", "TX"],
+      year: 2023,
+      fuel: "solar",
+      minCapacityMw: 100,
+    });
+
+    expect(key.key).toBe("plants:top:20:OK,TX:2023:solar:100:ANY:ANY");
+    expect(key.tags).toEqual(["plants", "state:OK", "state:TX", "year:2023"]);
+  });
+
+  it("should only tag entries with the entities they are scoped to", () => {
+    expect(CacheKeys.fuelMix(2023, undefined).tags).toEqual([
+      "fuel-mix",
+      "year:2023",
+    ]);
+    expect(CacheKeys.stateGeneration("TX", undefined).tags).toEqual([
+      "state",
+      "state:TX",
+    ]);
+  });
+});
@@ -0,0 +1,629 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { Redis } from "ioredis";
+import { config } from "../config/configuration";
+import { REDIS_CLIENT } from "../redis/redis.module";
+import { CACHE_NAMESPACES, CacheKey, CacheNamespace } from "./cache-keys";
+import { LruCache, LruCacheStats } from "./lru-cache";
+import { WarmSetService } from "./warm-set.service";
+
+/**
+ * Maximum keys passed to one DEL while invalidating a tag
+ */
+const DELETE_BATCH_SIZE = 500;
+
+/**
+ * Redis counter holding the current dataset version (see bumpDatasetVersion)
+ */
+export const DATASET_VERSION_KEY = "cache:dataset-version";
+
+/**
+ * Pub/sub channel telling every instance to clear its in-process tier; the
+ * message is the reason, for logs
+ */
+export const L1_INVALIDATION_CHANNEL = "cache:l1-invalidate";
+
+/**
+ * How long an instance keeps the dataset version in process. Bumps reach
+ * subscribed instances at once over L1_INVALIDATION_CHANNEL; this bounds how
+ * long an unsubscribed one reads the previous version.
+ */
+const DATASET_VERSION_TTL_MS = 5_000;
+
+/**
+ * How often a request waiting on another instance's load re-reads the key
+ */
+const LOCK_POLL_MS = 50;
+
+/**
+ * Deletes a load lock only if this caller still holds it
+ *
+ * KEYS[1] = lock key, ARGV[1] = token set when acquiring
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Options for CacheService.getOrSet/set
+ */
+export interface CacheSetOptions<T> {
+  /** Seconds the value is fresh (default: CACHE_SOFT_TTL) */
+  softTtl?: number;
+  /** Seconds the value may be served stale (default: CACHE_HARD_TTL) */
+  hardTtl?: number;
+  /** Extra tags known only once the value is loaded */
+  tagsFrom?: (value: T) => string[];
+}
+
+/**
+ * Hit, miss and error counts for one namespace
+ */
+export interface CacheCounters {
+  /** Fresh values served from the in-process tier */
+  l1Hits: number;
+  /** Fresh values read from Redis */
+  hits: number;
+  /** Stale values served while being refreshed */
+  stale: number;
+  misses: number;
+  /** Failed Redis reads/writes (served from the loader instead) */
+  errors: number;
+}
+
+/**
+ * Counters per namespace since the process started
+ */
+export type CacheStats = Record<CacheNamespace, CacheCounters>;
+
+/**
+ * Stored form of a cached value
+ */
+interface CacheEntry<T> {
+  value: T;
+  /** Epoch ms after which the value is stale and refreshed on read */
+  freshUntil: number;
+}
+
+/**
+ * A fresh value held in the in-process tier
+ */
+interface L1Entry {
+  value: unknown;
+  /** Epoch ms; the earlier of the entry's freshUntil and CACHE_L1_TTL */
+  expiresAt: number;
+}
+
+/**
+ * Redis key of an entry for one dataset version
+ */
+function versionedKey(key: CacheKey, version: number): string {
+  return `cache:v${version}:${key.key}`;
+}
+
+/**
+ * Redis set holding the keys of every entry with a tag
+ */
+function tagSetKey(tag: string): string {
+  return `cache:tag:${tag}`;
+}
+
+/**
+ * Redis key held by the instance loading an entry
+ */
+function lockKey(redisKey: string): string {
+  return `${redisKey}:lock`;
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as CacheEntry<unknown>).freshUntil === "number"
+  );
+}
+
+function parseEntry<T>(cached: string): CacheEntry<T> | null {
+  const entry: unknown = JSON.parse(cached);
+  // Entries written before soft TTLs are treated as misses
+  return isCacheEntry(entry) ? (entry as CacheEntry<T>) : null;
+}
+
+/**
+ * Freeze a value shared between requests, so a caller modifying it fails
+ * instead of changing other requests' responses
+ */
+function deepFreeze<T>(value: T): T {
+  if (typeof value === "object" && value !== null && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) deepFreeze(child);
+  }
+  return value;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * CacheService
+ *
+ * Read-through cache for API responses, shared by services and repositories:
+ * ```typescript
+ * return this.cache.getOrSet(CacheKeys.statesSummary(year), () =>
+ *   this.loadStatesSummary(year)
+ * );
+ * ```
+ *
+ * - Values are stored as JSON under typed keys (CacheKeys), prefixed with
+ *   the dataset version; bumpDatasetVersion() switches every reader to
+ *   fresh entries at once after an ingestion. Each instance keeps the
+ *   version in process until a bump is broadcast (or for
+ *   DATASET_VERSION_TTL_MS without a subscription)
+ * - Entries are fresh for the soft TTL (CACHE_SOFT_TTL); after that they are
+ *   served stale while one request refreshes them in the background, until
+ *   the hard TTL (CACHE_HARD_TTL) expires them
+ * - Fresh entries up to CACHE_L1_MAX_ENTRY_BYTES are also kept in an
+ *   in-process LRU (CACHE_L1_MAX_BYTES, CACHE_L1_TTL), which serves them
+ *   without a Redis round trip. Version bumps and tag invalidations are
+ *   broadcast over pub/sub and clear this tier on every instance; it is only
+ *   used while the subscription is up (onModuleInit)
+ * - Concurrent misses for a key share one load: within an instance through
+ *   an in-flight promise, across instances through a Redis lock that other
+ *   instances wait on (up to CACHE_LOCK_TIMEOUT_MS) before loading themselves
+ * - Each entry is added to a Redis set per tag, so invalidateTags() deletes
+ *   exactly the tagged entries without scanning the keyspace
+ * - Lookups of warmable keys are recorded by WarmSetService, which learns
+ *   the warm-set replayed by CacheWarmingService after an ingestion
+ * - Redis failures are logged and counted, never thrown: reads fall back to
+ *   the loader and writes are skipped
+ * - In-process hits, Redis hits, stale hits, misses and errors are counted
+ *   per namespace (getStats); the in-process tier's size and evictions are
+ *   reported by getL1Stats
+ */
+@Injectable()
+export class CacheService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly options = config().cache;
+  private readonly counters = new Map<CacheNamespace, CacheCounters>();
+  /** Loads and refreshes running in this instance, by flight key */
+  private readonly inflight = new Map<string, Promise<unknown>>();
+  /** In-process tier by unversioned key; null until subscribed */
+  private l1: LruCache<L1Entry> | null = null;
+  /** Incremented whenever the in-process tier is cleared */
+  private l1Generation = 0;
+  /** Dataset version read from Redis; dropped with the in-process tier */
+  private datasetVersion: { value: number; expiresAt: number } | null = null;
+  private subscriber: Redis | undefined;
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly warmSet: WarmSetService
+  ) {}
+
+  /**
+   * Subscribe to invalidations and enable the in-process tier
+   *
+   * The subscription also keeps the in-process dataset version current when
+   * the tier is disabled. The tier stays disabled if CACHE_L1_MAX_BYTES is 0 or the subscription
+   * fails, since entries could then outlive an ingestion on this instance.
+   */
+  async onModuleInit() {
+    try {
+      const subscriber = this.redis.duplicate();
+      this.subscriber = subscriber;
+      subscriber.on("error", (error: Error) => {
+        this.logger.warn(`Cache invalidation subscriber: ${error.message}`);
+      });
+      // Messages sent while disconnected are lost; ioredis resubscribes
+      subscriber.on("ready", () => this.clearL1("subscriber connected"));
+      subscriber.on("message", (_channel: string, reason: string) =>
+        this.clearL1(reason)
+      );
+      await subscriber.subscribe(L1_INVALIDATION_CHANNEL);
+      if (this.options.l1MaxBytes > 0) {
+        this.l1 = new LruCache(this.options.l1MaxBytes);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Cache invalidation subscription failed; in-process cache disabled: ${error}`
+      );
+    }
+  }
+
+  async onModuleDestroy() {
+    try {
+      await this.subscriber?.quit();
+    } catch {
+      // Connection already closed
+    }
+  }
+
+  /**
+   * Return the cached value, or load and cache it
+   *
+   * Loader errors are propagated to every request sharing the load and
+   * nothing is cached; null and undefined results are returned without being
+   * cached. Stale values are returned at once; a failed background refresh
+   * is only logged.
+   *
+   * @param key - Entry to read (see CacheKeys)
+   * @param loader - Produces the value on a miss or refresh
+   * @param options - TTLs and extra tags
+   */
+  async getOrSet<T>(
+    key: CacheKey,
+    loader: () => Promise<T>,
+    options: CacheSetOptions<T> = {}
+  ): Promise<T> {
+    const counters = this.countersFor(key.namespace);
+    this.warmSet.record(key);
+
+    const local = this.l1?.get(key.key);
+    if (local && local.expiresAt > Date.now()) {
+      counters.l1Hits++;
+      return local.value as T;
+    }
+    // A clear while reading Redis means the value may be outdated
+    const l1Generation = this.l1Generation;
+
+    // The value is written under the version it was looked up with, so a
+    // load racing an ingestion can never be served as the new version
+    let redisKey: string;
+    let cached: string | null;
+    let entry: CacheEntry<T> | null;
+    try {
+      redisKey = versionedKey(key, await this.getDatasetVersion());
+      cached = await this.redis.get(redisKey);
+      entry = cached === null ? null : parseEntry<T>(cached);
+    } catch (error) {
+      counters.errors++;
+      this.logger.warn(`Cache read failed for ${key.key}: ${error}`);
+      return loader();
+    }
+
+    if (entry && entry.freshUntil > Date.now()) {
+      counters.hits++;
+      this.logger.debug(`Cache hit for ${redisKey}`);
+      if (l1Generation === this.l1Generation) {
+        this.setL1(key, entry, cached!.length);
+      }
+      return entry.value;
+    }
+
+    if (entry) {
+      counters.stale++;
+      this.logger.debug(`Serving stale ${redisKey} while refreshing`);
+      this.refresh(key, redisKey, loader, options);
+      return entry.value;
+    }
+
+    counters.misses++;
+    this.logger.debug(`Cache miss for ${redisKey}`);
+    return this.singleFlight(redisKey, () =>
+      this.load(key, redisKey, loader, options)
+    );
+  }
+
+  /**
+   * Current dataset version, embedded in every cache key
+   *
+   * Served from process memory; read from Redis after a broadcast
+   * invalidation or once DATASET_VERSION_TTL_MS has passed.
+   */
+  async getDatasetVersion(): Promise<number> {
+    if (this.datasetVersion && this.datasetVersion.expiresAt > Date.now()) {
+      return this.datasetVersion.value;
+    }
+
+    // A clear while reading Redis means the version may be outdated
+    const l1Generation = this.l1Generation;
+    const value = Number((await this.redis.get(DATASET_VERSION_KEY)) ?? 0);
+    if (l1Generation === this.l1Generation) {
+      this.datasetVersion = {
+        value,
+        expiresAt: Date.now() + DATASET_VERSION_TTL_MS,
+      };
+    }
+    return value;
+  }
+
+  /**
+   * Switch every reader to a new, empty set of cache entries
+   *
+   * Call after new data is committed. Entries of older versions are no
+   * longer read and expire with their TTL.
+   *
+   * @returns The new dataset version
+   */
+  async bumpDatasetVersion(): Promise<number> {
+    const version = await this.redis.incr(DATASET_VERSION_KEY);
+    await this.broadcastInvalidation(`dataset version ${version}`);
+    this.logger.log({
+      message: `Cache dataset version is now ${version}`,
+      datasetVersion: version,
+    });
+    return version;
+  }
+
+  /**
+   * Delete every entry carrying any of the tags
+   *
+   * Reaches entries of every dataset version.
+   *
+   * @param tags - Namespaces (e.g. "plants") or entity tags (CacheTags)
+   * @returns Number of entries deleted per tag
+   */
+  async invalidateTags(tags: readonly string[]): Promise<Map<string, number>> {
+    const results = new Map<string, number>();
+
+    for (const tag of tags) {
+      const keys = await this.redis.smembers(tagSetKey(tag));
+      let deleted = 0;
+      for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+        deleted += await this.redis.del(
+          ...keys.slice(i, i + DELETE_BATCH_SIZE)
+        );
+      }
+      await this.redis.del(tagSetKey(tag));
+      results.set(tag, deleted);
+    }
+    await this.broadcastInvalidation(`tags ${tags.join(", ")}`);
+
+    this.logger.log({
+      message: `Invalidated cache tags: ${tags.join(", ")}`,
+      deletedKeys: Object.fromEntries(results),
+    });
+    return results;
+  }
+
+  /**
+   * Hit, stale, miss and error counts per namespace since the process started
+   */
+  getStats(): CacheStats {
+    return Object.fromEntries(
+      CACHE_NAMESPACES.map((namespace) => [
+        namespace,
+        { ...this.countersFor(namespace) },
+      ])
+    ) as CacheStats;
+  }
+
+  /**
+   * Size and evictions of the in-process tier, or null while it is disabled
+   */
+  getL1Stats(): LruCacheStats | null {
+    return this.l1?.getStats() ?? null;
+  }
+
+  /**
+   * Keep a fresh Redis entry in process, if it is small enough
+   *
+   * @param size - Length of the entry's JSON
+   */
+  private setL1<T>(key: CacheKey, entry: CacheEntry<T>, size: number): void {
+    if (!this.l1 || size > this.options.l1MaxEntryBytes) return;
+
+    this.l1.set(
+      key.key,
+      {
+        value: deepFreeze(entry.value),
+        expiresAt: Math.min(
+          entry.freshUntil,
+          Date.now() + this.options.l1TtlSec * 1000
+        ),
+      },
+      size
+    );
+  }
+
+  private clearL1(reason: string): void {
+    this.l1Generation++;
+    this.datasetVersion = null;
+    const cleared = this.l1?.clear() ?? 0;
+    this.logger.debug(`Cleared ${cleared} in-process entries: ${reason}`);
+  }
+
+  /**
+   * Clear the in-process tier here and on every subscribed instance
+   */
+  private async broadcastInvalidation(reason: string): Promise<void> {
+    this.clearL1(reason);
+    await this.redis.publish(L1_INVALIDATION_CHANNEL, reason);
+  }
+
+  /**
+   * Load a missing entry, unless another instance is already loading it
+   *
+   * Waits for the other instance's value while its lock is held; loads
+   * without the lock if the wait times out or Redis fails.
+   */
+  private async load<T>(
+    key: CacheKey,
+    redisKey: string,
+    loader: () => Promise<T>,
+    options: CacheSetOptions<T>
+  ): Promise<T> {
+    let token: string | null = null;
+    try {
+      token = await this.acquireLock(redisKey);
+      if (token === null) {
+        const entry = await this.waitForEntry<T>(redisKey);
+        if (entry) return entry.value;
+        this.logger.debug(`No value after waiting on ${redisKey}; loading`);
+      }
+    } catch (error) {
+      this.countersFor(key.namespace).errors++;
+      this.logger.warn(`Cache lock failed for ${redisKey}: ${error}`);
+    }
+
+    try {
+      return await this.loadAndSet(key, redisKey, loader, options);
+    } finally {
+      if (token) await this.releaseLock(redisKey, token);
+    }
+  }
+
+  /**
+   * Reload a stale entry in the background
+   *
+   * Skipped while this or another instance is already refreshing it.
+   */
+  private refresh<T>(
+    key: CacheKey,
+    redisKey: string,
+    loader: () => Promise<T>,
+    options: CacheSetOptions<T>
+  ): void {
+    this.singleFlight(`refresh:${redisKey}`, async () => {
+      const token = await this.acquireLock(redisKey);
+      if (token === null) return;
+      try {
+        await this.loadAndSet(key, redisKey, loader, options);
+        this.logger.debug(`Refreshed ${redisKey}`);
+      } finally {
+        await this.releaseLock(redisKey, token);
+      }
+    }).catch((error) => {
+      this.logger.warn(`Cache refresh failed for ${redisKey}: ${error}`);
+    });
+  }
+
+  private async loadAndSet<T>(
+    key: CacheKey,
+    redisKey: string,
+    loader: () => Promise<T>,
+    options: CacheSetOptions<T>
+  ): Promise<T> {
+    const value = await loader();
+    if (value !== null && value !== undefined) {
+      await this.set(key, redisKey, value, options);
+    }
+    return value;
+  }
+
+  /**
+   * Run fn once for concurrent callers with the same flight key
+   */
+  private singleFlight<T>(flightKey: string, fn: () => Promise<T>): Promise<T> {
+    const running = this.inflight.get(flightKey);
+    if (running) return running as Promise<T>;
+
+    const flight = fn().finally(() => this.inflight.delete(flightKey));
+    this.inflight.set(flightKey, flight);
+    return flight;
+  }
+
+  /**
+   * Take the load lock of an entry
+   *
+   * @returns Token to release the lock with, or null if another holder has it
+   */
+  private async acquireLock(redisKey: string): Promise<string | null> {
+    const token = randomUUID();
+    const result = await this.redis.set(
+      lockKey(redisKey),
+      token,
+      "PX",
+      this.options.lockTimeoutMs,
+      "NX"
+    );
+    return result === "OK" ? token : null;
+  }
+
+  private async releaseLock(redisKey: string, token: string): Promise<void> {
+    try {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey(redisKey), token);
+    } catch (error) {
+      // The lock expires on its own after CACHE_LOCK_TIMEOUT_MS
+      this.logger.warn(`Cache lock release failed for ${redisKey}: ${error}`);
+    }
+  }
+
+  /**
+   * Poll for the entry another instance is loading
+   *
+   * @returns The entry, or null once the lock is released without one or the
+   * wait exceeds the lock timeout
+   */
+  private async waitForEntry<T>(
+    redisKey: string
+  ): Promise<CacheEntry<T> | null> {
+    const deadline = Date.now() + this.options.lockTimeoutMs;
+
+    while (Date.now() < deadline) {
+      await sleep(LOCK_POLL_MS);
+      const entry = await this.read<T>(redisKey);
+      if (entry) return entry;
+      if (!(await this.redis.exists(lockKey(redisKey)))) {
+        // Released between the two reads, or the holder cached nothing
+        return this.read<T>(redisKey);
+      }
+    }
+    return null;
+  }
+
+  private async read<T>(redisKey: string): Promise<CacheEntry<T> | null> {
+    const cached = await this.redis.get(redisKey);
+    return cached === null ? null : parseEntry<T>(cached);
+  }
+
+  /**
+   * Store a value and register it under its tags
+   */
+  private async set<T>(
+    key: CacheKey,
+    redisKey: string,
+    value: T,
+    options: CacheSetOptions<T>
+  ): Promise<void> {
+    const softTtl = options.softTtl ?? this.options.softTtlSec;
+    const hardTtl = Math.max(
+      options.hardTtl ?? this.options.hardTtlSec,
+      softTtl
+    );
+    const tags = [...key.tags, ...(options.tagsFrom?.(value) ?? [])];
+    // Tag sets outlive their longest-lived entry; stale members are harmless
+    const tagTtl = Math.max(hardTtl, this.options.hardTtlSec);
+    const entry: CacheEntry<T> = {
+      value,
+      freshUntil: Date.now() + softTtl * 1000,
+    };
+
+    try {
+      const transaction = this.redis
+        .multi()
+        .setex(redisKey, hardTtl, JSON.stringify(entry));
+      for (const tag of tags) {
+        transaction
+          .sadd(tagSetKey(tag), redisKey)
+          .expire(tagSetKey(tag), tagTtl);
+      }
+      await transaction.exec();
+      this.logger.debug(
+        `Cached ${redisKey} (fresh ${softTtl}s, kept ${hardTtl}s)`
+      );
+    } catch (error) {
+      this.countersFor(key.namespace).errors++;
+      this.logger.warn(`Cache write failed for ${redisKey}: ${error}`);
+    }
+  }
+
+  private countersFor(namespace: CacheNamespace): CacheCounters {
+    let counters = this.counters.get(namespace);
+    if (!counters) {
+      counters = { l1Hits: 0, hits: 0, stale: 0, misses: 0, errors: 0 };
+      this.counters.set(namespace, counters);
+    }
+    return counters;
+  }
+}
@@ -0,0 +1,55 @@
+import { LruCache } from "./lru-cache";
+
+/**
+ * Unit Tests for LruCache
+ *
+ * Tests size accounting, least-recently-used eviction and oversized entries
+ */
+describe("LruCache", () => {
+  it("should evict the least recently used entries beyond the maximum size", () => {
+    const lru = new LruCache<string>(10);
+    lru.set("a", "A", 4);
+    lru.set("b", "B", 4);
+    lru.get("a");
+
+    lru.set("c", "C", 4);
+
+    expect(lru.get("a")).toBe("A");
+    expect(lru.get("b")).toBeUndefined();
+    expect(lru.get("c")).toBe("C");
+    expect(lru.getStats()).toEqual({
+      entries: 2,
+      size: 8,
+      maxSize: 10,
+      evictions: 1,
+    });
+  });
+
+  it("should account for replaced entries", () => {
+    const lru = new LruCache<string>(10);
+    lru.set("a", "A", 6);
+
+    lru.set("a", "A2", 3);
+
+    expect(lru.get("a")).toBe("A2");
+    expect(lru.getStats().size).toBe(3);
+  });
+
+  it("should not store entries larger than the maximum size", () => {
+    const lru = new LruCache<string>(10);
+    lru.set("a", "A", 4);
+
+    expect(lru.set("big", "BIG", 11)).toBe(false);
+    expect(lru.get("big")).toBeUndefined();
+    expect(lru.get("a")).toBe("A");
+  });
+
+  it("should remove every entry on clear", () => {
+    const lru = new LruCache<string>(10);
+    lru.set("a", "A", 4);
+    lru.set("b", "B", 4);
+
+    expect(lru.clear()).toBe(2);
+    expect(lru.getStats()).toMatchObject({ entries: 0, size: 0 });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Size and eviction counts of an LruCache
+ */
+export interface LruCacheStats {
+  entries: number;
+  /** Sum of the sizes of all entries */
+  size: number;
+  maxSize: number;
+  /** Entries dropped to make room since the cache was created */
+  evictions: number;
+}
+
+/**
+ * Least-recently-used map bounded by the total size of its entries
+ *
+ * Sizes are supplied by the caller (CacheService uses the length of an
+ * entry's JSON). A Map iterates in insertion order, so entries are moved to
+ * the end when read and evicted from the front.
+ */
+export class LruCache<V> {
+  private readonly entries = new Map<string, { value: V; size: number }>();
+  private size = 0;
+  private evictions = 0;
+
+  constructor(private readonly maxSize: number) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Insert or replace an entry, evicting the least recently used ones
+   *
+   * @returns false if the entry alone exceeds the maximum size (not stored)
+   */
+  set(key: string, value: V, size: number): boolean {
+    this.delete(key);
+    if (size > this.maxSize) return false;
+
+    this.entries.set(key, { value, size });
+    this.size += size;
+    while (this.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.delete(oldest);
+      this.evictions++;
+    }
+    return true;
+  }
+
+  delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    this.entries.delete(key);
+    this.size -= entry.size;
+    return true;
+  }
+
+  /**
+   * Remove every entry
+   *
+   * @returns Number of entries removed
+   */
+  clear(): number {
+    const count = this.entries.size;
+    this.entries.clear();
+    this.size = 0;
+    return count;
+  }
+
+  getStats(): LruCacheStats {
+    return {
+      entries: this.entries.size,
+      size: this.size,
+      maxSize: this.maxSize,
+      evictions: this.evictions,
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import { WarmSetService } from "./warm-set.service";
+import { CacheKeys } from "./cache-keys";
+
+/**
+ * In-memory stand-in for the sorted set and hash commands WarmSetService uses
+ */
+function createFakeRedis() {
+  const sortedSets = new Map<string, Map<string, number>>();
+  const hashes = new Map<string, Map<string, string>>();
+  const ttls = new Map<string, number>();
+
+  const zset = (key: string) => {
+    if (!sortedSets.has(key)) sortedSets.set(key, new Map());
+    return sortedSets.get(key)!;
+  };
+  const hash = (key: string) => {
+    if (!hashes.has(key)) hashes.set(key, new Map());
+    return hashes.get(key)!;
+  };
+
+  return {
+    sortedSets,
+    hashes,
+    ttls,
+    multi: jest.fn(() => {
+      const queued: Array<() => unknown> = [];
+      const transaction = {
+        zincrby: (key: string, count: number, member: string) => {
+          queued.push(() =>
+            zset(key).set(member, (zset(key).get(member) ?? 0) + count)
+          );
+          return transaction;
+        },
+        hset: (key: string, field: string, value: string) => {
+          queued.push(() => hash(key).set(field, value));
+          return transaction;
+        },
+        hmget: (key: string, ...fields: string[]) => {
+          queued.push(() =>
+            fields.map((field) => hash(key).get(field) ?? null)
+          );
+          return transaction;
+        },
+        expire: (key: string, seconds: number) => {
+          queued.push(() => ttls.set(key, seconds));
+          return transaction;
+        },
+        zunionstore: (dest: string, _n: number, ...keys: string[]) => {
+          queued.push(() => {
+            for (const key of keys) {
+              for (const [member, score] of sortedSets.get(key) ?? []) {
+                zset(dest).set(member, (zset(dest).get(member) ?? 0) + score);
+              }
+            }
+            return zset(dest).size;
+          });
+          return transaction;
+        },
+        zrevrange: (key: string, start: number, stop: number) => {
+          queued.push(() =>
+            [...zset(key)]
+              .sort(([, a], [, b]) => b - a)
+              .slice(start, stop + 1)
+              .map(([member]) => member)
+          );
+          return transaction;
+        },
+        del: (key: string) => {
+          queued.push(() => sortedSets.delete(key));
+          return transaction;
+        },
+        exec: async () => queued.map((apply) => [null, apply()]),
+      };
+      return transaction;
+    }),
+  };
+}
+
+/**
+ * Unit Tests for WarmSetService
+ *
+ * Tests recording lookups, flushing counts to daily sorted sets and ranking
+ * the warm-set across days
+ */
+describe("WarmSetService", () => {
+  let warmSet: WarmSetService;
+  let redis: ReturnType<typeof createFakeRedis>;
+
+  beforeEach(() => {
+    process.env.CACHE_WARM_SET_SIZE = "2";
+    redis = createFakeRedis();
+    warmSet = new WarmSetService(redis as any);
+  });
+
+  afterEach(() => {
+    delete process.env.CACHE_WARM_SET_SIZE;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("should count lookups in memory until flushed", async () => {
+    warmSet.record(CacheKeys.statesSummary(2023));
+    warmSet.record(CacheKeys.statesSummary(2023));
+
+    expect(redis.multi).not.toHaveBeenCalled();
+
+    await warmSet.flush();
+    await warmSet.flush();
+
+    const [day] = [...redis.sortedSets.keys()];
+    expect(day).toMatch(/^cache:requests:\d{4}-\d{2}-\d{2}$/);
+    expect(redis.sortedSets.get(day!)).toEqual(
+      new Map([["states:summary:2023", 2]])
+    );
+    expect(redis.multi).toHaveBeenCalledTimes(1);
+  });
+
+  it("should store targets per day, expiring with the day's counts", async () => {
+    jest.useFakeTimers({ now: new Date("2025-11-14T12:00:00Z") });
+    const key = CacheKeys.topPlants(10, { minCapacityMw: 123.4 });
+    warmSet.record(key);
+
+    await warmSet.flush();
+
+    const day = "cache:requests:2025-11-14";
+    expect(redis.hashes.get(`${day}:targets`)).toEqual(
+      new Map([[key.key, JSON.stringify(key.warm)]])
+    );
+    expect(redis.ttls.get(`${day}:targets`)).toBe(redis.ttls.get(day));
+  });
+
+  it("should ignore keys without a warm target", async () => {
+    warmSet.record(CacheKeys.plantTrend(42));
+
+    await warmSet.flush();
+
+    expect(redis.multi).not.toHaveBeenCalled();
+  });
+
+  it("should return the most requested targets across days", async () => {
+    jest.useFakeTimers({ now: new Date("2025-11-13T12:00:00Z") });
+    warmSet.record(CacheKeys.stateDetail("TX", 2023, 10));
+    warmSet.record(CacheKeys.stateDetail("TX", 2023, 10));
+    warmSet.record(CacheKeys.fuelMix(2023, undefined));
+    warmSet.record(CacheKeys.fuelMix(2023, undefined));
+    await warmSet.flush();
+
+    jest.setSystemTime(new Date("2025-11-14T12:00:00Z"));
+    warmSet.record(CacheKeys.statesSummary(2023));
+    warmSet.record(CacheKeys.fuelMix(2023, undefined));
+    await warmSet.flush();
+
+    const targets = await warmSet.getWarmSet();
+
+    // Counts add up across days: fuel mix 3, TX detail 2, summary 1
+    expect(targets).toEqual([
+      { kind: "fuel-mix", year: 2023 },
+      { kind: "state-detail", stateCode: "TX", year: 2023, topPlants: 10 },
+    ]);
+    // The temporary union is removed
+    expect([...redis.sortedSets.keys()]).toEqual([
+      "cache:requests:2025-11-13",
+      "cache:requests:2025-11-14",
+    ]);
+  });
+
+  it("should return nothing before any traffic is recorded", async () => {
+    expect(await warmSet.getWarmSet()).toEqual([]);
+  });
+
+  it("should drop counts when Redis fails", async () => {
+    jest.spyOn((warmSet as any).logger, "warn").mockImplementation();
+    redis.multi.mockImplementationOnce(() => {
+      throw new Error("Connection lost");
+    });
+    warmSet.record(CacheKeys.statesSummary(2023));
+
+    await warmSet.flush();
+    await warmSet.flush();
+
+    expect(redis.multi).toHaveBeenCalledTimes(1);
+  });
+});
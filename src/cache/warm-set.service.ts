@@ -0,0 +1,158 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { Redis } from "ioredis";
+import { config } from "../config/configuration";
+import { REDIS_CLIENT } from "../redis/redis.module";
+import { CacheKey, WarmTarget } from "./cache-keys";
+
+/**
+ * Prefix of the per-day sorted sets counting lookups per cache key
+ * (`cache:requests:2025-11-14`)
+ */
+const REQUESTS_KEY_PREFIX = "cache:requests";
+
+/**
+ * Recorded lookups are written to Redis once a minute (and on shutdown)
+ */
+const FLUSH_INTERVAL_MS = 60_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sorted set of one UTC day's lookups
+ */
+function requestsKey(date: Date): string {
+  return `${REQUESTS_KEY_PREFIX}:${date.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Hash mapping the cache keys recorded on a day to their WarmTarget (JSON);
+ * expires with the day's sorted set, so client-chosen filters can't pile up
+ */
+function targetsKey(day: string): string {
+  return `${day}:targets`;
+}
+
+/**
+ * WarmSetService
+ *
+ * Learns which cached responses are worth warming from real traffic:
+ * - CacheService records every lookup of a key carrying a WarmTarget; counts
+ *   are kept in memory and added to a sorted set per day every minute, so
+ *   requests cost no extra Redis round trip
+ * - each day's targets are stored next to its sorted set and expire with
+ *   it, CACHE_WARM_WINDOW_DAYS + 1 days later
+ * - getWarmSet() returns the CACHE_WARM_SET_SIZE most-requested targets of
+ *   the last CACHE_WARM_WINDOW_DAYS days, across all instances
+ */
+@Injectable()
+export class WarmSetService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WarmSetService.name);
+  private readonly options = config().cache;
+  private pending = new Map<string, { target: WarmTarget; count: number }>();
+  private flushTimer: NodeJS.Timeout | undefined;
+
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  onModuleInit() {
+    // unref(): the flush timer must not keep the process alive
+    this.flushTimer = setInterval(
+      () => void this.flush(),
+      FLUSH_INTERVAL_MS
+    ).unref();
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.flushTimer);
+    await this.flush();
+  }
+
+  /**
+   * Count a lookup of a cache key; keys without a WarmTarget are ignored
+   */
+  record(key: CacheKey): void {
+    if (!key.warm) return;
+
+    const pending = this.pending.get(key.key);
+    if (pending) {
+      pending.count++;
+    } else {
+      this.pending.set(key.key, { target: key.warm, count: 1 });
+    }
+  }
+
+  /**
+   * Add the lookups recorded since the last flush to today's counts
+   */
+  async flush(): Promise<void> {
+    if (this.pending.size === 0) return;
+
+    const pending = this.pending;
+    this.pending = new Map();
+    const day = requestsKey(new Date());
+    const targets = targetsKey(day);
+    const ttl = Math.ceil(((this.options.warmWindowDays + 1) * DAY_MS) / 1000);
+
+    try {
+      const transaction = this.redis.multi();
+      for (const [key, { target, count }] of pending) {
+        transaction
+          .zincrby(day, count, key)
+          .hset(targets, key, JSON.stringify(target));
+      }
+      await transaction.expire(day, ttl).expire(targets, ttl).exec();
+    } catch (error) {
+      // Losing one interval's counts only skews the warm-set slightly
+      this.logger.warn(`Failed to record cache lookups: ${error}`);
+    }
+  }
+
+  /**
+   * Most-requested warm targets of the last CACHE_WARM_WINDOW_DAYS days
+   *
+   * @returns Up to CACHE_WARM_SET_SIZE targets, most requested first
+   */
+  async getWarmSet(): Promise<WarmTarget[]> {
+    const { warmSetSize, warmWindowDays } = this.options;
+    if (warmSetSize <= 0 || warmWindowDays <= 0) return [];
+
+    const days = Array.from({ length: warmWindowDays }, (_, i) =>
+      requestsKey(new Date(Date.now() - i * DAY_MS))
+    );
+    const union = `${REQUESTS_KEY_PREFIX}:union:${randomUUID()}`;
+
+    const results = await this.redis
+      .multi()
+      .zunionstore(union, days.length, ...days)
+      .zrevrange(union, 0, warmSetSize - 1)
+      .del(union)
+      .exec();
+    const ranked = results?.[1];
+    if (!ranked || ranked[0]) {
+      throw ranked?.[0] ?? new Error("Warm-set transaction was aborted");
+    }
+
+    const keys = ranked[1] as string[];
+    if (keys.length === 0) return [];
+
+    // A key ranked over the window was recorded on at least one of its days
+    const lookup = this.redis.multi();
+    for (const day of days) {
+      lookup.hmget(targetsKey(day), ...keys);
+    }
+    const perDay = ((await lookup.exec()) ?? []).map(
+      ([, targets]) => (targets ?? []) as Array<string | null>
+    );
+
+    return keys.flatMap((_key, i) => {
+      const target = perDay.find((targets) => targets[i])?.[i];
+      return target ? [JSON.parse(target) as WarmTarget] : [];
+    });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Expensive Decorator
+ *
+ * Marks a route (or a whole controller) as expensive to serve, such as
+ * bulk exports and full-text or geospatial searches. Besides the client's
+ * normal rate limit, requests to these routes share a smaller "expensive"
+ * limit (RATE_LIMIT_EXPENSIVE_RATIO of the client's limit).
+ *
+ * Routes that return JSON by default but can render a file download
+ * (`format=csv|xlsx`, or `Accept: text/csv`) pass `fileExportsOnly`, so
+ * only their file exports count as expensive.
+ *
+ * Usage:
+ * ```typescript
+ * @Expensive()
+ * @Get('search')
+ * searchPlants() { ... }
+ *
+ * @Expensive({ fileExportsOnly: true })
+ * @Get()
+ * getStatesSummary() { ... }
+ * ```
+ */
+
+import { SetMetadata } from "@nestjs/common";
+
+/**
+ * Metadata key read by TieredThrottlerGuard
+ */
+export const IS_EXPENSIVE_KEY = "isExpensive";
+
+/**
+ * Metadata value of routes whose file exports only are expensive
+ */
+export const EXPENSIVE_FILE_EXPORTS = "file-exports";
+
+export interface ExpensiveOptions {
+  /** Only requests selecting a CSV/XLSX download are expensive */
+  fileExportsOnly?: boolean;
+}
+
+/**
+ * Expensive decorator
+ *
+ * @param options - Limit the expensive budget to file exports
+ * @returns Decorator that attaches the expensive-route metadata
+ */
+export const Expensive = (options: ExpensiveOptions = {}) =>
+  SetMetadata(
+    IS_EXPENSIVE_KEY,
+    options.fileExportsOnly ? EXPENSIVE_FILE_EXPORTS : true
+  );
@@ -0,0 +1,30 @@
+/**
+ * Public Decorator
+ *
+ * Opts a route (or a whole controller) out of the global JwtAuthGuard.
+ * Use it for endpoints that must stay reachable without a token, such as
+ * health checks polled by load balancers.
+ *
+ * Usage:
+ * ```typescript
+ * @Public()
+ * @Get('health')
+ * getHealth() { ... }
+ * ```
+ */
+
+import { SetMetadata } from "@nestjs/common";
+
+/**
+ * Metadata key read by JwtAuthGuard to skip authentication
+ */
+export const IS_PUBLIC_KEY = "isPublic";
+
+/**
+ * Public decorator
+ *
+ * Marks a route handler or controller as not requiring authentication.
+ *
+ * @returns Decorator that attaches the public-route metadata
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
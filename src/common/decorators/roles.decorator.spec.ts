@@ -6,7 +6,7 @@
  */
 
 import { SetMetadata } from "@nestjs/common";
-import { Roles, ROLES_KEY } from "./roles.decorator";
+import { Roles, ROLES_KEY, ROLE_HIERARCHY, Role } from "./roles.decorator";
 
 // Mock SetMetadata
 jest.mock("@nestjs/common", () => ({
@@ -38,6 +38,17 @@ describe("Roles Decorator", () => {
     });
   });
 
+  describe("ROLE_HIERARCHY", () => {
+    it("should rank admin above analyst above viewer", () => {
+      expect(ROLE_HIERARCHY[Role.Admin]).toBeGreaterThan(
+        ROLE_HIERARCHY[Role.Analyst]
+      );
+      expect(ROLE_HIERARCHY[Role.Analyst]).toBeGreaterThan(
+        ROLE_HIERARCHY[Role.Viewer]
+      );
+    });
+  });
+
   describe("Roles decorator", () => {
     it("should call SetMetadata with ROLES_KEY and roles", () => {
       const roles = ["admin", "user"];
@@ -1,15 +1,14 @@
 /**
  * Roles Decorator
  *
- * Custom decorator to specify required roles for route access.
+ * Custom decorator to specify the minimum role required for route access.
  * Used in conjunction with RolesGuard for role-based access control (RBAC).
  *
- * Usage (future):
+ * Usage:
  * ```typescript
- * @Roles('admin', 'moderator')
- * @UseGuards(JwtAuthGuard, RolesGuard)
- * @Delete('plants/:id')
- * deletePlant() { ... }
+ * @Roles(Role.Admin)
+ * @Delete('admin/cache')
+ * clearCache() { ... }
  * ```
  *
  * This decorator attaches metadata to the route handler,
@@ -24,41 +23,47 @@ import { SetMetadata } from "@nestjs/common";
  */
 export const ROLES_KEY = "roles";
 
+/**
+ * Roles understood by the API, carried in the JWT `roles` claim
+ */
+export enum Role {
+  Admin = "admin",
+  Analyst = "analyst",
+  Viewer = "viewer",
+}
+
+/**
+ * Role hierarchy: a role grants every role with a lower or equal rank
+ * (admin > analyst > viewer)
+ */
+export const ROLE_HIERARCHY: Record<Role, number> = {
+  [Role.Viewer]: 1,
+  [Role.Analyst]: 2,
+  [Role.Admin]: 3,
+};
+
 /**
  * Roles decorator
  *
  * Marks a route as requiring specific roles for access.
  * Combines with RolesGuard to enforce role-based authorization.
+ * Higher roles in ROLE_HIERARCHY satisfy lower ones, so `@Roles(Role.Viewer)`
+ * also admits analysts and admins.
  *
- * @param roles - Array of role names (e.g., 'admin', 'user', 'moderator')
- * @returns MethodDecorator that attaches role metadata
+ * @param roles - Accepted roles; the user needs at least one of them
+ * @returns Decorator that attaches role metadata
  *
  * @example
  * ```typescript
  * // Only admins can access this endpoint
- * @Roles('admin')
- * @UseGuards(JwtAuthGuard, RolesGuard)
+ * @Roles(Role.Admin)
  * @Delete('users/:id')
  * deleteUser(@Param('id') id: string) { ... }
  *
- * // Multiple roles allowed
- * @Roles('admin', 'moderator')
- * @UseGuards(JwtAuthGuard, RolesGuard)
- * @Put('posts/:id/approve')
- * approvePost(@Param('id') id: string) { ... }
+ * // Analysts and admins
+ * @Roles(Role.Analyst)
+ * @Get('reports')
+ * getReports() { ... }
  * ```
- *
- * @future Implementation notes:
- * - User roles should come from JWT token payload
- * - Roles can be hierarchical (admin > moderator > user)
- * - Consider using enums for role names:
- *   ```typescript
- *   enum Role {
- *     Admin = 'admin',
- *     Moderator = 'moderator',
- *     User = 'user',
- *   }
- *   @Roles(Role.Admin)
- *   ```
  */
-export const Roles = (...roles: string[]) => SetMetadata(ROLES_KEY, roles);
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -58,5 +58,44 @@ export class PaginatedResponseDto<T> {
     total?: number;
     page?: number;
     limit?: number;
+    nextCursor?: string | null;
+    hasMore?: boolean;
   };
 }
+
+/**
+ * GeoJSON FeatureCollection of Point features
+ * Returned instead of a JSON array when `format=geojson` is requested
+ */
+export class GeoJsonFeatureCollectionDto {
+  @ApiProperty({
+    description: "GeoJSON object type",
+    example: "FeatureCollection",
+  })
+  type!: "FeatureCollection";
+
+  @ApiProperty({
+    description:
+      "Point features; geometry.coordinates are [longitude, latitude] and geometry is null when coordinates are unknown",
+    isArray: true,
+    example: [
+      {
+        type: "Feature",
+        id: 1,
+        geometry: { type: "Point", coordinates: [-96.0486, 28.7953] },
+        properties: {
+          name: "South Texas Project",
+          stateCode: "TX",
+          netGeneration: 21787144,
+          percentOfState: 4.52,
+        },
+      },
+    ],
+  })
+  features!: Array<{
+    type: "Feature";
+    id?: number | string;
+    geometry: { type: "Point"; coordinates: [number, number] } | null;
+    properties: Record<string, unknown>;
+  }>;
+}
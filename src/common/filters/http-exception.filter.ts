@@ -8,11 +8,15 @@ import {
 } from "@nestjs/common";
 import { Request, Response } from "express";
 import { randomUUID } from "crypto";
+import { getTraceId } from "../utils/request-context";
 
 /**
  * HTTP Exception Filter
  * Catches all HttpException instances and formats them consistently
  * Provides detailed error messages and trace IDs for debugging
+ *
+ * The trace ID is the one TraceIdMiddleware assigned to the request (also
+ * sent as the X-Trace-Id response header); log lines get it from AppLogger.
  */
 @Catch(HttpException)
 export class HttpExceptionFilter implements ExceptionFilter {
@@ -24,8 +28,8 @@ export class HttpExceptionFilter implements ExceptionFilter {
     const request = ctx.getRequest<Request>();
     const status = exception.getStatus();
 
-    // Extract trace ID from request headers or generate new one
-    const traceId = (request.headers["x-trace-id"] as string) || randomUUID();
+    // Trace ID of the request; generated here only if the middleware did not run
+    const traceId = getTraceId() ?? randomUUID();
 
     // Get exception response (may be string or object)
     const exceptionResponse = exception.getResponse();
@@ -47,14 +51,14 @@ export class HttpExceptionFilter implements ExceptionFilter {
     // Log error with context
     if (status >= 500) {
       this.logger.error(
-        `[${traceId}] ${request.method} ${request.url} - ${status}`,
+        `${request.method} ${request.url} - ${status}`,
         exception.stack
       );
     } else if (status >= 400) {
       this.logger.warn(
-        `[${traceId}] ${request.method} ${
-          request.url
-        } - ${status}: ${JSON.stringify(message)}`
+        `${request.method} ${request.url} - ${status}: ${JSON.stringify(
+          message
+        )}`
       );
     }
 
@@ -76,7 +80,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     const response = ctx.getResponse<Response>();
     const request = ctx.getRequest<Request>();
 
-    const traceId = (request.headers["x-trace-id"] as string) || randomUUID();
+    const traceId = getTraceId() ?? randomUUID();
 
     let status = HttpStatus.INTERNAL_SERVER_ERROR;
     let message = "Internal server error";
@@ -104,7 +108,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
 
     // Always log unexpected errors
     this.logger.error(
-      `[${traceId}] ${request.method} ${request.url} - ${status}`,
+      `${request.method} ${request.url} - ${status}`,
       exception instanceof Error ? exception.stack : String(exception)
     );
 
@@ -0,0 +1,103 @@
+import { ExecutionContext } from "@nestjs/common";
+import { ThrottlerException } from "@nestjs/throttler";
+import { EventEmitter } from "events";
+import { RedisThrottlerStorage } from "../../redis/redis-throttler.storage";
+import { AuthFailureThrottlerGuard } from "./auth-failure-throttler.guard";
+
+/**
+ * Unit Tests for AuthFailureThrottlerGuard
+ *
+ * Tests counting 401 responses per IP and blocking IPs before their
+ * credentials are checked
+ */
+describe("AuthFailureThrottlerGuard", () => {
+  let guard: AuthFailureThrottlerGuard;
+  let storage: RedisThrottlerStorage;
+
+  /**
+   * Helper function to create a mock ExecutionContext whose response can
+   * be finished with a status code
+   */
+  const createMockExecutionContext = (ip = "203.0.113.7") => {
+    const headers = new Map<string, string>();
+    const response = Object.assign(new EventEmitter(), {
+      statusCode: 200,
+      header: jest.fn((name: string, value: string) =>
+        headers.set(name, value)
+      ),
+    });
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => ({ ip, headers: {} }),
+        getResponse: () => response,
+      }),
+    } as unknown as ExecutionContext;
+
+    const finish = async (statusCode: number) => {
+      response.statusCode = statusCode;
+      response.emit("finish");
+      await new Promise(setImmediate); // Let the hit be counted
+    };
+    return { context, headers, finish };
+  };
+
+  /**
+   * Send one request that ends with the given status
+   */
+  const request = async (statusCode: number, ip?: string) => {
+    const { context, finish } = createMockExecutionContext(ip);
+    await guard.canActivate(context);
+    await finish(statusCode);
+  };
+
+  beforeEach(() => {
+    process.env.RATE_LIMIT_ANONYMOUS = "2";
+    // Redis down: counters live in the per-instance fallback
+    const redis = {
+      eval: jest.fn().mockRejectedValue(new Error("Connection is closed.")),
+      pttl: jest.fn().mockRejectedValue(new Error("Connection is closed.")),
+    };
+    storage = new RedisThrottlerStorage(redis as any);
+    jest.spyOn((storage as any).logger, "warn").mockImplementation();
+    guard = new AuthFailureThrottlerGuard(storage);
+  });
+
+  afterEach(() => {
+    storage.onApplicationShutdown();
+    delete process.env.RATE_LIMIT_ANONYMOUS;
+    jest.restoreAllMocks();
+  });
+
+  it("should block an IP after too many failed authentications", async () => {
+    await request(401);
+    await request(401);
+    await request(401);
+
+    const { context, headers } = createMockExecutionContext();
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      ThrottlerException
+    );
+    expect(Number(headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+
+  it("should not count requests that authenticated", async () => {
+    for (let i = 0; i < 5; i++) {
+      await request(200);
+      await request(403);
+    }
+
+    await expect(
+      guard.canActivate(createMockExecutionContext().context)
+    ).resolves.toBe(true);
+  });
+
+  it("should count failures per IP", async () => {
+    for (let i = 0; i < 3; i++) {
+      await request(401, "198.51.100.1");
+    }
+
+    await expect(
+      guard.canActivate(createMockExecutionContext("198.51.100.2").context)
+    ).resolves.toBe(true);
+  });
+});
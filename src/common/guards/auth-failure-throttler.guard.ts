@@ -0,0 +1,77 @@
+/**
+ * Auth Failure Throttler Guard
+ *
+ * Limits credential guessing per client IP. TieredThrottlerGuard only runs
+ * once a caller has authenticated, so requests with a bad X-API-Key or
+ * bearer token would otherwise never be rate limited (and every bad API
+ * key costs a database lookup).
+ *
+ * Registered globally before ApiKeyGuard and JwtAuthGuard:
+ * - every 401 response is counted under the client IP, in the same Redis
+ *   storage as the other throttlers (`auth-failures:ip:<ip>`)
+ * - after RATE_LIMIT_ANONYMOUS failures within a minute, the IP gets 429
+ *   with Retry-After for the rest of the block, before its credentials
+ *   are checked
+ */
+
+import { CanActivate, ExecutionContext, Injectable } from "@nestjs/common";
+import { InjectThrottlerStorage, ThrottlerException } from "@nestjs/throttler";
+import { Request, Response } from "express";
+import { config } from "../../config/configuration";
+import { RedisThrottlerStorage } from "../../redis/redis-throttler.storage";
+import { RATE_LIMIT_WINDOW_MS } from "./tiered-throttler.guard";
+
+/**
+ * Throttler counting failed authentications
+ */
+export const AUTH_FAILURE_THROTTLER = "auth-failures";
+
+/**
+ * AuthFailureThrottlerGuard
+ *
+ * Rejects IPs that exceeded their failed-authentication budget and counts
+ * the 401 responses of the others.
+ */
+@Injectable()
+export class AuthFailureThrottlerGuard implements CanActivate {
+  private readonly limit = config().rateLimit.anonymous;
+
+  constructor(
+    @InjectThrottlerStorage()
+    private readonly storage: RedisThrottlerStorage
+  ) {}
+
+  /**
+   * @returns true unless the client IP is blocked
+   * @throws ThrottlerException while the client IP is blocked
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const key = `${AUTH_FAILURE_THROTTLER}:ip:${request.ip}`;
+
+    const blockTtl = await this.storage.getBlockTtl(key);
+    if (blockTtl > 0) {
+      response.header("Retry-After", String(blockTtl));
+      throw new ThrottlerException(
+        "Too many failed authentication attempts; try again later"
+      );
+    }
+
+    // The authentication guards run next; count the request once its
+    // status is known
+    response.on("finish", () => {
+      if (response.statusCode === 401) {
+        void this.storage.increment(
+          key,
+          RATE_LIMIT_WINDOW_MS,
+          this.limit,
+          RATE_LIMIT_WINDOW_MS,
+          AUTH_FAILURE_THROTTLER
+        );
+      }
+    });
+
+    return true;
+  }
+}
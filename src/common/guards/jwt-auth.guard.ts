@@ -1,21 +1,20 @@
 /**
  * JWT Authentication Guard
  *
- * This guard validates JWT tokens for protected routes.
- * Currently a stub for future implementation.
+ * Validates bearer tokens on every route. Registered globally in AppModule,
+ * so routes are protected by default; mark a route or controller with
+ * @Public() to opt out.
  *
- * Usage (future):
- * ```typescript
- * @UseGuards(JwtAuthGuard)
- * @Get('protected')
- * getProtectedResource() { ... }
- * ```
+ * Supported tokens:
+ * - HS256, signed with JWT_SECRET (rejected in production while JWT_SECRET
+ *   is unset)
+ * - RS256, verified against JWT_PUBLIC_KEY_FILE and/or keys in JWT_JWKS_FILE
  *
- * TODO: Implement when authentication is required
- * 1. Install @nestjs/jwt and @nestjs/passport
- * 2. Create AuthModule with JWT strategy
- * 3. Implement validate() method to verify token
- * 4. Extract user from token and attach to request
+ * Requests already authenticated by ApiKeyGuard (X-API-Key header) pass
+ * through without a bearer token.
+ *
+ * The Swagger UI (/api/v1/docs) is served by SwaggerModule outside the Nest
+ * router, so guards never run for it.
  */
 
 import {
@@ -23,83 +22,159 @@ import {
   CanActivate,
   ExecutionContext,
   UnauthorizedException,
+  Logger,
 } from "@nestjs/common";
-import { Observable } from "rxjs";
+import { Reflector } from "@nestjs/core";
+import { config } from "../../config/configuration";
+import { IS_PUBLIC_KEY } from "../decorators/public.decorator";
+import {
+  JwtPayload,
+  JwtVerificationError,
+  JwtVerifyOptions,
+  loadJwtPublicKeys,
+  verifyJwt,
+} from "../utils/jwt.helper";
+
+/**
+ * Default secret from configuration.ts; never acceptable in production
+ */
+const DEFAULT_JWT_SECRET = "your-secret-key";
+
+/**
+ * Authenticated caller, attached to request.user by JwtAuthGuard
+ * (or by ApiKeyGuard for machine clients)
+ */
+export interface AuthenticatedUser {
+  /** Subject (`sub` claim), or `api-key:<id>` for API keys */
+  id: string;
+  /** `preferred_username` / `username` claim, or the API key name */
+  username: string;
+  /** Roles from the `roles` claim, or the API key scopes */
+  roles: string[];
+  /** How the caller authenticated */
+  authMethod: "jwt" | "api-key";
+  /** Per-minute limit of the API key, replacing the role-based tier */
+  rateLimitPerMinute?: number;
+  /** Full verified token payload (JWT callers only) */
+  claims?: JwtPayload;
+}
 
 /**
  * JwtAuthGuard
  *
- * Validates JWT tokens from Authorization header.
- * Rejects requests with invalid or missing tokens.
- *
- * @future Implementation plan:
- * - Extract token from 'Authorization: Bearer <token>' header
- * - Verify token signature using JWT_SECRET from config
- * - Decode token payload and attach user to request.user
- * - Check token expiration
- * - Handle refresh tokens (optional)
+ * Reads `Authorization: Bearer <token>`, verifies the signature and the
+ * exp/nbf/iss/aud claims, and attaches the caller to request.user.
+ * Rejects missing, malformed, badly signed and expired tokens with 401.
  */
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
+  private readonly logger = new Logger(JwtAuthGuard.name);
+  private readonly verifyOptions: JwtVerifyOptions;
+
+  constructor(private readonly reflector: Reflector) {
+    const jwt = config().jwt;
+
+    // Fail closed: anyone could sign tokens with the public default secret
+    const defaultSecretInProduction =
+      process.env.NODE_ENV === "production" &&
+      jwt.secret === DEFAULT_JWT_SECRET;
+    if (defaultSecretInProduction) {
+      this.logger.warn("JWT_SECRET is not set; HS256 tokens are rejected");
+    }
+
+    this.verifyOptions = {
+      ...(defaultSecretInProduction ? {} : { secret: jwt.secret }),
+      publicKeys: loadJwtPublicKeys(jwt.publicKeyFile, jwt.jwksFile),
+      clockToleranceSec: jwt.clockToleranceSec,
+      ...(jwt.issuer ? { issuer: jwt.issuer } : {}),
+      ...(jwt.audience ? { audience: jwt.audience } : {}),
+    };
+  }
+
   /**
    * Determines if the request is authorized
    *
    * @param context - Execution context containing request details
-   * @returns true if authorized, throws UnauthorizedException otherwise
-   *
-   * @future Implementation:
-   * ```typescript
-   * const request = context.switchToHttp().getRequest();
-   * const token = this.extractTokenFromHeader(request);
-   *
-   * if (!token) {
-   *   throw new UnauthorizedException('Missing authentication token');
-   * }
-   *
-   * try {
-   *   const payload = await this.jwtService.verifyAsync(token, {
-   *     secret: this.configService.get('jwt.secret'),
-   *   });
-   *   request.user = payload; // Attach user to request
-   *   return true;
-   * } catch (error) {
-   *   throw new UnauthorizedException('Invalid or expired token');
-   * }
-   * ```
+   * @returns true if the route is public or the token is valid
+   * @throws UnauthorizedException when the token is missing or invalid
    */
-  canActivate(
-    context: ExecutionContext
-  ): boolean | Promise<boolean> | Observable<boolean> {
-    // STUB: Currently allows all requests
-    // TODO: Implement JWT validation logic when authentication is needed
+  canActivate(context: ExecutionContext): boolean {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
 
     const request = context.switchToHttp().getRequest();
 
-    // Example: Check for Authorization header (not enforced yet)
-    const authHeader = request.headers.authorization;
+    // Already authenticated with an X-API-Key header by ApiKeyGuard
+    if (request.user) {
+      return true;
+    }
+
+    const token = this.extractTokenFromHeader(request);
 
-    if (authHeader && authHeader.startsWith("Bearer ")) {
-      // Future: Validate JWT token here
-      console.warn(
-        "[JwtAuthGuard] JWT validation not implemented - allowing request"
-      );
+    if (!token) {
+      throw new UnauthorizedException("Missing authentication token");
     }
 
-    // STUB: Allow all requests until authentication is implemented
-    return true;
+    try {
+      const payload = verifyJwt(token, this.verifyOptions);
+      request.user = this.toUser(payload);
+      return true;
+    } catch (error) {
+      if (error instanceof JwtVerificationError) {
+        this.logger.debug(`Rejected token: ${error.message}`);
+        throw new UnauthorizedException(
+          error.expired ? "Token has expired" : "Invalid authentication token"
+        );
+      }
+      throw error;
+    }
   }
 
   /**
    * Extract JWT token from Authorization header
-   *
-   * @private
-   * @future Helper method for token extraction
    */
   private extractTokenFromHeader(request: any): string | undefined {
-    const authHeader = request.headers.authorization;
+    const authHeader: string | undefined = request.headers?.authorization;
     if (!authHeader) return undefined;
 
-    const [type, token] = authHeader.split(" ");
-    return type === "Bearer" ? token : undefined;
+    const [type, token, ...rest] = authHeader.trim().split(/\s+/);
+    return type?.toLowerCase() === "bearer" && token && rest.length === 0
+      ? token
+      : undefined;
+  }
+
+  /**
+   * Map verified claims onto the request.user shape
+   */
+  private toUser(payload: JwtPayload): AuthenticatedUser {
+    if (typeof payload.sub !== "string" || payload.sub.length === 0) {
+      throw new JwtVerificationError("Token has no subject");
+    }
+
+    const username =
+      typeof payload.preferred_username === "string"
+        ? payload.preferred_username
+        : typeof payload.username === "string"
+          ? payload.username
+          : payload.sub;
+
+    const roles = Array.isArray(payload.roles)
+      ? payload.roles.filter((role): role is string => typeof role === "string")
+      : typeof payload.roles === "string"
+        ? payload.roles.split(" ").filter(Boolean)
+        : [];
+
+    return {
+      id: payload.sub,
+      username,
+      roles,
+      authMethod: "jwt",
+      claims: payload,
+    };
   }
 }
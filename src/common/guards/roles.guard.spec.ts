@@ -1,14 +1,14 @@
 /**
  * Unit Tests for RolesGuard
  *
- * Tests the role-based access control guard stub implementation.
- * Verifies metadata extraction, role checking, and logging behavior.
+ * Tests the role-based access control guard.
+ * Verifies metadata extraction, role checking and the role hierarchy.
  */
 
-import { ExecutionContext } from "@nestjs/common";
+import { ExecutionContext, ForbiddenException } from "@nestjs/common";
 import { Reflector } from "@nestjs/core";
 import { RolesGuard } from "./roles.guard";
-import { ROLES_KEY } from "../decorators/roles.decorator";
+import { ROLES_KEY, Role } from "../decorators/roles.decorator";
 
 describe("RolesGuard", () => {
   let guard: RolesGuard;
@@ -17,8 +17,6 @@ describe("RolesGuard", () => {
   beforeEach(() => {
     reflector = new Reflector();
     guard = new RolesGuard(reflector);
-    // Spy on console.warn to verify logging
-    jest.spyOn(console, "warn").mockImplementation();
   });
 
   afterEach(() => {
@@ -54,19 +52,13 @@ describe("RolesGuard", () => {
     it("should allow access when no roles are required", () => {
       const context = createMockExecutionContext(undefined, []);
 
-      const result = guard.canActivate(context);
-
-      expect(result).toBe(true);
-      expect(console.warn).not.toHaveBeenCalled();
+      expect(guard.canActivate(context)).toBe(true);
     });
 
     it("should allow access when required roles is null", () => {
       const context = createMockExecutionContext(undefined, null as any);
 
-      const result = guard.canActivate(context);
-
-      expect(result).toBe(true);
-      expect(console.warn).not.toHaveBeenCalled();
+      expect(guard.canActivate(context)).toBe(true);
     });
 
     it("should allow access when required roles is undefined", () => {
@@ -74,116 +66,116 @@ describe("RolesGuard", () => {
       const context = createMockExecutionContext(undefined, undefined);
       jest.spyOn(reflector, "getAllAndOverride").mockReturnValue(undefined);
 
-      const result = guard.canActivate(context);
-
-      expect(result).toBe(true);
+      expect(guard.canActivate(context)).toBe(true);
     });
 
     it("should allow access when user has required role", () => {
-      const user = { id: "1", roles: ["admin", "user"] };
-      const context = createMockExecutionContext(user, ["admin"]);
-
-      const result = guard.canActivate(context);
+      const user = { id: "1", roles: ["admin"] };
+      const context = createMockExecutionContext(user, [Role.Admin]);
 
-      expect(result).toBe(true);
-      expect(console.warn).toHaveBeenCalledWith(
-        expect.stringContaining("RBAC not fully implemented")
-      );
+      expect(guard.canActivate(context)).toBe(true);
     });
 
     it("should allow access when user has one of multiple required roles", () => {
-      const user = { id: "1", roles: ["moderator"] };
-      const context = createMockExecutionContext(user, ["admin", "moderator"]);
-
-      const result = guard.canActivate(context);
+      const user = { id: "1", roles: ["analyst"] };
+      const context = createMockExecutionContext(user, [
+        Role.Admin,
+        Role.Analyst,
+      ]);
 
-      expect(result).toBe(true);
+      expect(guard.canActivate(context)).toBe(true);
     });
 
-    it("should log warning when user lacks required roles", () => {
-      const user = { id: "1", roles: ["user"] };
-      const context = createMockExecutionContext(user, ["admin"]);
-
-      const result = guard.canActivate(context);
+    it("should throw ForbiddenException when user lacks required roles", () => {
+      const user = { id: "1", roles: ["viewer"] };
+      const context = createMockExecutionContext(user, [Role.Admin]);
 
-      expect(result).toBe(true); // Stub allows access
-      expect(console.warn).toHaveBeenCalledWith(
-        expect.stringContaining("lacks required roles: admin")
-      );
-      expect(console.warn).toHaveBeenCalledWith(
-        expect.stringContaining("RBAC not fully implemented")
+      expect(() => guard.canActivate(context)).toThrow(
+        new ForbiddenException("Requires one of: admin")
       );
     });
 
-    it("should log warning when user has no roles", () => {
+    it("should throw ForbiddenException when user has no roles", () => {
       const user = { id: "1", roles: [] };
-      const context = createMockExecutionContext(user, ["admin"]);
-
-      const result = guard.canActivate(context);
+      const context = createMockExecutionContext(user, [Role.Viewer]);
 
-      expect(result).toBe(true);
-      expect(console.warn).toHaveBeenCalledWith(
-        expect.stringContaining("lacks required roles")
-      );
+      expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
     });
 
-    it("should allow access when user is undefined but roles required (stub)", () => {
-      const context = createMockExecutionContext(undefined, ["admin"]);
+    it("should throw ForbiddenException when user is undefined", () => {
+      const context = createMockExecutionContext(undefined, [Role.Admin]);
 
-      const result = guard.canActivate(context);
-
-      expect(result).toBe(true);
-      expect(console.warn).toHaveBeenCalledWith(
-        expect.stringContaining("RBAC not fully implemented")
+      expect(() => guard.canActivate(context)).toThrow(
+        new ForbiddenException("User roles not found")
       );
     });
 
-    it("should allow access when user.roles is undefined", () => {
+    it("should throw ForbiddenException when user.roles is undefined", () => {
       const user = { id: "1" }; // No roles property
-      const context = createMockExecutionContext(user, ["admin"]);
-
-      const result = guard.canActivate(context);
+      const context = createMockExecutionContext(user, [Role.Admin]);
 
-      expect(result).toBe(true);
+      expect(() => guard.canActivate(context)).toThrow(
+        new ForbiddenException("User roles not found")
+      );
     });
 
     it("should handle case-sensitive role names", () => {
       const user = { id: "1", roles: ["Admin"] }; // Capital A
-      const context = createMockExecutionContext(user, ["admin"]); // Lowercase
+      const context = createMockExecutionContext(user, [Role.Admin]);
 
-      const result = guard.canActivate(context);
+      expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
+    });
+  });
 
-      expect(result).toBe(true);
-      // Should log warning because "Admin" !== "admin"
-      expect(console.warn).toHaveBeenCalledWith(
-        expect.stringContaining("lacks required roles")
-      );
+  describe("role hierarchy", () => {
+    it.each([
+      ["admin", Role.Admin],
+      ["admin", Role.Analyst],
+      ["admin", Role.Viewer],
+      ["analyst", Role.Analyst],
+      ["analyst", Role.Viewer],
+      ["viewer", Role.Viewer],
+    ])("should let %s satisfy %s", (role, required) => {
+      const context = createMockExecutionContext({ id: "1", roles: [role] }, [
+        required,
+      ]);
+
+      expect(guard.canActivate(context)).toBe(true);
     });
 
-    it("should handle multiple required roles with partial match", () => {
-      const user = { id: "1", roles: ["user", "editor"] };
-      const context = createMockExecutionContext(user, [
-        "admin",
-        "moderator",
-        "editor",
+    it.each([
+      ["analyst", Role.Admin],
+      ["viewer", Role.Admin],
+      ["viewer", Role.Analyst],
+    ])("should not let %s satisfy %s", (role, required) => {
+      const context = createMockExecutionContext({ id: "1", roles: [role] }, [
+        required,
       ]);
 
-      const result = guard.canActivate(context);
+      expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
+    });
+
+    it("should use the highest of several user roles", () => {
+      const user = { id: "1", roles: ["viewer", "admin"] };
+      const context = createMockExecutionContext(user, [Role.Analyst]);
 
-      expect(result).toBe(true);
-      // User has "editor", so no "lacks required roles" warning
-      expect(console.warn).not.toHaveBeenCalledWith(
-        expect.stringContaining("lacks required roles")
-      );
-      expect(console.warn).toHaveBeenCalledWith(
-        expect.stringContaining("RBAC not fully implemented")
-      );
+      expect(guard.canActivate(context)).toBe(true);
+    });
+
+    it("should ignore unknown user roles when ranking", () => {
+      const user = { id: "1", roles: ["superuser"] };
+      const context = createMockExecutionContext(user, [Role.Viewer]);
+
+      expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
     });
   });
 
   describe("reflector integration", () => {
     it("should call reflector.getAllAndOverride with correct parameters", () => {
-      const context = createMockExecutionContext(undefined, ["admin"]);
+      const context = createMockExecutionContext(
+        { id: "1", roles: ["admin"] },
+        [Role.Admin]
+      );
       const spy = jest.spyOn(reflector, "getAllAndOverride");
 
       guard.canActivate(context);
@@ -195,85 +187,35 @@ describe("RolesGuard", () => {
     });
 
     it("should handle reflector returning empty array", () => {
-      const user = { id: "1", roles: ["admin"] };
+      const user = { id: "1", roles: ["viewer"] };
       const context = createMockExecutionContext(user, []);
 
-      const result = guard.canActivate(context);
-
-      expect(result).toBe(true);
-      expect(console.warn).not.toHaveBeenCalled();
+      expect(guard.canActivate(context)).toBe(true);
     });
   });
 
   describe("edge cases", () => {
-    it("should handle empty string role", () => {
-      const user = { id: "1", roles: [""] };
-      const context = createMockExecutionContext(user, [""]);
-
-      const result = guard.canActivate(context);
-
-      expect(result).toBe(true);
-    });
-
-    it("should handle special characters in role names", () => {
+    it("should match roles outside the hierarchy exactly", () => {
       const user = { id: "1", roles: ["super-admin", "admin:write"] };
-      const context = createMockExecutionContext(user, ["super-admin"]);
+      const context = createMockExecutionContext(user, ["super-admin"] as any);
 
-      const result = guard.canActivate(context);
-
-      expect(result).toBe(true);
+      expect(guard.canActivate(context)).toBe(true);
     });
 
     it("should handle very long role names", () => {
       const longRole = "a".repeat(1000);
       const user = { id: "1", roles: [longRole] };
-      const context = createMockExecutionContext(user, [longRole]);
-
-      const result = guard.canActivate(context);
+      const context = createMockExecutionContext(user, [longRole] as any);
 
-      expect(result).toBe(true);
+      expect(guard.canActivate(context)).toBe(true);
     });
 
     it("should handle user with many roles", () => {
       const manyRoles = Array.from({ length: 100 }, (_, i) => `role${i}`);
-      const user = { id: "1", roles: manyRoles };
-      const context = createMockExecutionContext(user, ["role50"]);
-
-      const result = guard.canActivate(context);
+      const user = { id: "1", roles: [...manyRoles, "analyst"] };
+      const context = createMockExecutionContext(user, [Role.Viewer]);
 
-      expect(result).toBe(true);
-    });
-  });
-
-  describe("stub behavior documentation", () => {
-    it("should always return true (stub implementation)", () => {
-      const contexts = [
-        createMockExecutionContext(undefined, ["admin"]),
-        createMockExecutionContext({ id: "1", roles: ["user"] }, ["admin"]),
-        createMockExecutionContext({ id: "1", roles: [] }, ["admin"]),
-        createMockExecutionContext({ id: "1" }, ["admin"]),
-      ];
-
-      contexts.forEach((context) => {
-        expect(guard.canActivate(context)).toBe(true);
-      });
-    });
-
-    it("should not throw any exceptions", () => {
-      const context = createMockExecutionContext(null as any, ["admin"]);
-
-      expect(() => guard.canActivate(context)).not.toThrow();
-    });
-
-    it("should log appropriate warnings for future implementation", () => {
-      const user = { id: "1", roles: ["user"] };
-      const context = createMockExecutionContext(user, ["admin"]);
-
-      guard.canActivate(context);
-
-      expect(console.warn).toHaveBeenCalledWith(
-        expect.stringContaining("RBAC not fully implemented")
-      );
+      expect(guard.canActivate(context)).toBe(true);
     });
   });
 });
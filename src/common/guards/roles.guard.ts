@@ -2,21 +2,15 @@
  * Roles Guard
  *
  * Enforces role-based access control (RBAC) on protected routes.
- * Works with @Roles() decorator and JwtAuthGuard.
+ * Registered globally after JwtAuthGuard, so request.user is already
+ * populated when it runs; routes without @Roles() are unaffected.
  *
- * Usage (future):
+ * Usage:
  * ```typescript
- * @Roles('admin')
- * @UseGuards(JwtAuthGuard, RolesGuard)
- * @Delete('plants/:id')
- * deletePlant() { ... }
+ * @Roles(Role.Admin)
+ * @Delete('admin/cache')
+ * clearCache() { ... }
  * ```
- *
- * TODO: Implement when RBAC is required
- * 1. Extract user roles from request.user (populated by JwtAuthGuard)
- * 2. Compare user roles with required roles from @Roles() decorator
- * 3. Allow access if user has at least one required role
- * 4. Reject with ForbiddenException if user lacks required roles
  */
 
 import {
@@ -26,23 +20,15 @@ import {
   ForbiddenException,
 } from "@nestjs/common";
 import { Reflector } from "@nestjs/core";
-import { Observable } from "rxjs";
-import { ROLES_KEY } from "../decorators/roles.decorator";
+import { ROLES_KEY, ROLE_HIERARCHY, Role } from "../decorators/roles.decorator";
 
 /**
  * RolesGuard
  *
  * Validates user roles against required roles for a route.
- * Assumes request.user is populated by JwtAuthGuard.
- *
- * @future Expected request.user structure:
- * ```typescript
- * interface User {
- *   id: string;
- *   username: string;
- *   roles: string[]; // e.g., ['admin', 'user']
- * }
- * ```
+ * A user passes when one of their roles ranks at least as high as one of
+ * the required roles in ROLE_HIERARCHY (admin > analyst > viewer).
+ * Roles outside the hierarchy only match themselves.
  */
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -52,43 +38,10 @@ export class RolesGuard implements CanActivate {
    * Determines if the user has required roles
    *
    * @param context - Execution context with route metadata and request
-   * @returns true if authorized, throws ForbiddenException otherwise
-   *
-   * @future Implementation:
-   * ```typescript
-   * const requiredRoles = this.reflector.getAllAndOverride<string[]>(
-   *   ROLES_KEY,
-   *   [context.getHandler(), context.getClass()]
-   * );
-   *
-   * if (!requiredRoles || requiredRoles.length === 0) {
-   *   return true; // No roles required, allow access
-   * }
-   *
-   * const request = context.switchToHttp().getRequest();
-   * const user = request.user; // Set by JwtAuthGuard
-   *
-   * if (!user || !user.roles) {
-   *   throw new ForbiddenException('User roles not found');
-   * }
-   *
-   * const hasRole = requiredRoles.some(role =>
-   *   user.roles.includes(role)
-   * );
-   *
-   * if (!hasRole) {
-   *   throw new ForbiddenException(
-   *     `Requires one of: ${requiredRoles.join(', ')}`
-   *   );
-   * }
-   *
-   * return true;
-   * ```
+   * @returns true if authorized
+   * @throws ForbiddenException when the user lacks every required role
    */
-  canActivate(
-    context: ExecutionContext
-  ): boolean | Promise<boolean> | Observable<boolean> {
-    // STUB: Get required roles from decorator metadata
+  canActivate(context: ExecutionContext): boolean {
     const requiredRoles = this.reflector.getAllAndOverride<string[]>(
       ROLES_KEY,
       [context.getHandler(), context.getClass()]
@@ -99,28 +52,36 @@ export class RolesGuard implements CanActivate {
       return true;
     }
 
-    // STUB: Currently allows all requests
-    // TODO: Implement role validation when authentication is enabled
-
     const request = context.switchToHttp().getRequest();
-    const user = request.user; // Would be set by JwtAuthGuard
+    const user = request.user; // Set by JwtAuthGuard
 
-    // Future: Check if user.roles contains any of requiredRoles
-    if (user && user.roles) {
-      const hasRole = requiredRoles.some((role: string) =>
-        user.roles.includes(role)
-      );
+    if (!user || !Array.isArray(user.roles)) {
+      throw new ForbiddenException("User roles not found");
+    }
+
+    const hasRole = requiredRoles.some((required) =>
+      user.roles.some((role: string) => this.grants(role, required))
+    );
 
-      if (!hasRole) {
-        console.warn(
-          `[RolesGuard] User lacks required roles: ${requiredRoles.join(", ")}`
-        );
-        // Future: throw new ForbiddenException(...)
-      }
+    if (!hasRole) {
+      throw new ForbiddenException(
+        `Requires one of: ${requiredRoles.join(", ")}`
+      );
     }
 
-    // STUB: Allow all requests until RBAC is implemented
-    console.warn("[RolesGuard] RBAC not fully implemented - allowing request");
     return true;
   }
+
+  /**
+   * Whether holding `role` satisfies a requirement for `required`
+   */
+  private grants(role: string, required: string): boolean {
+    const rank = ROLE_HIERARCHY[role as Role];
+    const requiredRank = ROLE_HIERARCHY[required as Role];
+
+    if (rank === undefined || requiredRank === undefined) {
+      return role === required;
+    }
+    return rank >= requiredRank;
+  }
 }
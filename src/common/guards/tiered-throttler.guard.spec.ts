@@ -0,0 +1,273 @@
+import { ExecutionContext } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import {
+  ThrottlerException,
+  ThrottlerModuleOptions,
+  ThrottlerStorageService,
+} from "@nestjs/throttler";
+import { Expensive } from "../decorators/expensive.decorator";
+import {
+  TieredThrottlerGuard,
+  clientLimit,
+  createThrottlerOptions,
+} from "./tiered-throttler.guard";
+import { AuthenticatedUser } from "./jwt-auth.guard";
+
+/**
+ * Unit Tests for TieredThrottlerGuard
+ *
+ * Tests tier selection, per-caller buckets, the expensive-route limit and
+ * RateLimit-* headers
+ */
+describe("TieredThrottlerGuard", () => {
+  const limits = {
+    anonymous: 2,
+    viewer: 4,
+    analyst: 6,
+    admin: 10,
+    expensiveRatio: 0.5,
+  };
+
+  let guard: TieredThrottlerGuard;
+  let storage: ThrottlerStorageService;
+
+  class TestController {
+    cheap() {}
+    @Expensive()
+    expensive() {}
+    @Expensive({ fileExportsOnly: true })
+    exportable() {}
+  }
+
+  const user = (
+    roles: string[],
+    extra: Partial<AuthenticatedUser> = {}
+  ): AuthenticatedUser => ({
+    id: "alice",
+    username: "alice",
+    roles,
+    authMethod: "jwt",
+    ...extra,
+  });
+
+  /**
+   * Helper function to create a mock ExecutionContext
+   */
+  const createMockExecutionContext = (
+    requestUser?: AuthenticatedUser,
+    handler: "cheap" | "expensive" | "exportable" = "cheap",
+    ip = "203.0.113.7",
+    query: Record<string, string> = {},
+    requestHeaders: Record<string, string> = {}
+  ) => {
+    const headers = new Map<string, unknown>();
+    const request = { user: requestUser, ip, query, headers: requestHeaders };
+    const response = {
+      header: jest.fn((name: string, value: unknown) =>
+        headers.set(name, String(value))
+      ),
+      getHeader: (name: string) => headers.get(name),
+    };
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+    } as unknown as ExecutionContext;
+    return { context, headers };
+  };
+
+  beforeEach(async () => {
+    process.env.RATE_LIMIT_ANONYMOUS = String(limits.anonymous);
+    process.env.RATE_LIMIT_VIEWER = String(limits.viewer);
+    process.env.RATE_LIMIT_ANALYST = String(limits.analyst);
+    process.env.RATE_LIMIT_ADMIN = String(limits.admin);
+    process.env.RATE_LIMIT_EXPENSIVE_RATIO = String(limits.expensiveRatio);
+
+    const { storage: _redisStorage, ...options } = createThrottlerOptions(
+      {} as any
+    ) as Exclude<ThrottlerModuleOptions, unknown[]>;
+    storage = new ThrottlerStorageService();
+    guard = new TieredThrottlerGuard(options, storage, new Reflector());
+    await guard.onModuleInit();
+  });
+
+  afterEach(() => {
+    storage.onApplicationShutdown();
+    delete process.env.RATE_LIMIT_ANONYMOUS;
+    delete process.env.RATE_LIMIT_VIEWER;
+    delete process.env.RATE_LIMIT_ANALYST;
+    delete process.env.RATE_LIMIT_ADMIN;
+    delete process.env.RATE_LIMIT_EXPENSIVE_RATIO;
+  });
+
+  /**
+   * Send requests until one is rejected
+   *
+   * @returns Number of requests allowed
+   */
+  const allowedRequests = async (
+    makeContext: () => { context: ExecutionContext }
+  ): Promise<number> => {
+    for (let i = 0; i < 100; i++) {
+      try {
+        await guard.canActivate(makeContext().context);
+      } catch (error) {
+        expect(error).toBeInstanceOf(ThrottlerException);
+        return i;
+      }
+    }
+    return Infinity;
+  };
+
+  describe("clientLimit", () => {
+    it("should use the anonymous limit without a user", () => {
+      expect(clientLimit(undefined, limits)).toBe(2);
+    });
+
+    it("should use the limit of the highest role", () => {
+      expect(clientLimit(user(["viewer"]), limits)).toBe(4);
+      expect(clientLimit(user(["viewer", "analyst"]), limits)).toBe(6);
+      expect(clientLimit(user(["admin", "viewer"]), limits)).toBe(10);
+    });
+
+    it("should treat callers without a known role as viewers", () => {
+      expect(clientLimit(user([]), limits)).toBe(4);
+      expect(clientLimit(user(["auditor"]), limits)).toBe(4);
+    });
+
+    it("should prefer an API key's own limit", () => {
+      expect(
+        clientLimit(user(["admin"], { rateLimitPerMinute: 3 }), limits)
+      ).toBe(3);
+    });
+  });
+
+  describe("canActivate", () => {
+    it("should limit each tier separately", async () => {
+      await expect(
+        allowedRequests(() => createMockExecutionContext(undefined))
+      ).resolves.toBe(2);
+      await expect(
+        allowedRequests(() =>
+          createMockExecutionContext(user(["analyst"], { id: "bob" }))
+        )
+      ).resolves.toBe(6);
+    });
+
+    it("should count per caller, not per IP", async () => {
+      await allowedRequests(() =>
+        createMockExecutionContext(user(["viewer"], { id: "alice" }))
+      );
+
+      await expect(
+        guard.canActivate(
+          createMockExecutionContext(user(["viewer"], { id: "carol" })).context
+        )
+      ).resolves.toBe(true);
+    });
+
+    it("should apply the smaller limit to expensive routes", async () => {
+      await expect(
+        allowedRequests(() =>
+          createMockExecutionContext(user(["viewer"]), "expensive")
+        )
+      ).resolves.toBe(2);
+
+      // The regular limit still has room
+      await expect(
+        guard.canActivate(
+          createMockExecutionContext(user(["viewer"]), "cheap").context
+        )
+      ).resolves.toBe(true);
+    });
+
+    it("should count file exports of exportable routes as expensive", async () => {
+      await expect(
+        allowedRequests(() =>
+          createMockExecutionContext(
+            user(["analyst"]),
+            "exportable",
+            undefined,
+            {
+              format: "csv",
+            }
+          )
+        )
+      ).resolves.toBe(3);
+
+      // Accept: text/csv selects a file as well
+      await expect(
+        guard.canActivate(
+          createMockExecutionContext(
+            user(["analyst"]),
+            "exportable",
+            undefined,
+            {},
+            { accept: "text/csv" }
+          ).context
+        )
+      ).rejects.toThrow("for expensive routes exceeded");
+
+      // JSON responses of the same route only use the regular limit
+      await expect(
+        guard.canActivate(
+          createMockExecutionContext(
+            user(["analyst"]),
+            "exportable",
+            undefined,
+            {
+              format: "json",
+            }
+          ).context
+        )
+      ).resolves.toBe(true);
+    });
+
+    it("should set RateLimit headers", async () => {
+      const { context, headers } = createMockExecutionContext(user(["viewer"]));
+
+      await guard.canActivate(context);
+
+      expect(headers.get("RateLimit-Limit")).toBe("4");
+      expect(headers.get("RateLimit-Remaining")).toBe("3");
+      expect(Number(headers.get("RateLimit-Reset"))).toBeGreaterThan(0);
+      expect(headers.get("RateLimit-Policy")).toBe("4;w=60");
+    });
+
+    it("should report the most restrictive limit on expensive routes", async () => {
+      const { context, headers } = createMockExecutionContext(
+        user(["viewer"]),
+        "expensive"
+      );
+
+      await guard.canActivate(context);
+
+      expect(headers.get("RateLimit-Limit")).toBe("2");
+      expect(headers.get("RateLimit-Remaining")).toBe("1");
+      expect(headers.get("RateLimit-Policy")).toBe("4;w=60, 2;w=60");
+    });
+
+    it("should reject with 429 and Retry-After once the limit is used", async () => {
+      await allowedRequests(() => createMockExecutionContext(undefined));
+      const { context, headers } = createMockExecutionContext(undefined);
+
+      let caught: any;
+      try {
+        await guard.canActivate(context);
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(ThrottlerException);
+      expect(caught.getStatus()).toBe(429);
+      expect(caught.message).toBe(
+        "Rate limit of 2 requests per minute exceeded"
+      );
+      expect(Number(headers.get("Retry-After"))).toBeGreaterThan(0);
+      expect(headers.get("RateLimit-Remaining")).toBe("0");
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tiered Throttler Guard
+ *
+ * Per-client rate limiting. Registered globally after ApiKeyGuard and
+ * JwtAuthGuard, so the caller is known when limits are chosen:
+ * - API keys with a rateLimitPerMinute use that limit
+ * - other callers get the limit of their highest role
+ *   (RATE_LIMIT_VIEWER / RATE_LIMIT_ANALYST / RATE_LIMIT_ADMIN)
+ * - unauthenticated requests to @Public() routes get RATE_LIMIT_ANONYMOUS
+ *   per client IP
+ *
+ * Routes marked @Expensive() also count against a smaller limit shared by
+ * all expensive routes (RATE_LIMIT_EXPENSIVE_RATIO of the client's limit);
+ * on routes marked @Expensive({ fileExportsOnly: true }) only CSV/XLSX
+ * downloads count.
+ *
+ * Counters are kept in Redis (RedisThrottlerStorage), so limits hold across
+ * instances. Responses carry the standard RateLimit-Limit,
+ * RateLimit-Remaining, RateLimit-Reset and RateLimit-Policy headers;
+ * 429 responses add Retry-After.
+ *
+ * Requests with invalid credentials are rejected by the authentication
+ * guards before they reach this guard; they are counted per IP by
+ * AuthFailureThrottlerGuard instead.
+ */
+
+import { ExecutionContext, Injectable } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import {
+  ThrottlerException,
+  ThrottlerGuard,
+  ThrottlerModuleOptions,
+  ThrottlerRequest,
+} from "@nestjs/throttler";
+import { Redis } from "ioredis";
+import { config } from "../../config/configuration";
+import { RedisThrottlerStorage } from "../../redis/redis-throttler.storage";
+import {
+  EXPENSIVE_FILE_EXPORTS,
+  IS_EXPENSIVE_KEY,
+} from "../decorators/expensive.decorator";
+import { ROLE_HIERARCHY, Role } from "../decorators/roles.decorator";
+import { resolveExportFormat } from "../utils/export.helper";
+import { AuthenticatedUser } from "./jwt-auth.guard";
+
+/**
+ * Rate limit window; all limits are per minute
+ */
+export const RATE_LIMIT_WINDOW_MS = 60_000;
+
+/**
+ * Throttler counting every request
+ */
+export const DEFAULT_THROTTLER = "default";
+
+/**
+ * Throttler counting only requests to @Expensive() routes
+ */
+export const EXPENSIVE_THROTTLER = "expensive";
+
+type RateLimits = ReturnType<typeof config>["rateLimit"];
+
+/**
+ * Requests per minute allowed for a caller
+ *
+ * @param user - request.user, undefined for unauthenticated requests
+ * @param limits - Tier limits from configuration
+ */
+export function clientLimit(
+  user: AuthenticatedUser | undefined,
+  limits: RateLimits
+): number {
+  if (!user) {
+    return limits.anonymous;
+  }
+  if (user.rateLimitPerMinute) {
+    return user.rateLimitPerMinute;
+  }
+
+  const rank = Math.max(
+    0,
+    ...user.roles.map((role) => ROLE_HIERARCHY[role as Role] ?? 0)
+  );
+  if (rank >= ROLE_HIERARCHY[Role.Admin]) return limits.admin;
+  if (rank >= ROLE_HIERARCHY[Role.Analyst]) return limits.analyst;
+  return limits.viewer;
+}
+
+/**
+ * ThrottlerModule options: Redis storage, per-client tiers and the
+ * expensive-route throttler
+ *
+ * @param redis - Shared Redis client (REDIS_CLIENT)
+ */
+export function createThrottlerOptions(redis: Redis): ThrottlerModuleOptions {
+  const limits = config().rateLimit;
+  const reflector = new Reflector();
+
+  const userOf = (context: ExecutionContext): AuthenticatedUser | undefined =>
+    context.switchToHttp().getRequest().user;
+
+  const isExpensive = (context: ExecutionContext): boolean => {
+    const expensive = reflector.getAllAndOverride<
+      true | typeof EXPENSIVE_FILE_EXPORTS | undefined
+    >(IS_EXPENSIVE_KEY, [context.getHandler(), context.getClass()]);
+    if (expensive !== EXPENSIVE_FILE_EXPORTS) {
+      return expensive === true;
+    }
+
+    // Same format resolution as the controllers
+    const request = context.switchToHttp().getRequest();
+    const format = request.query?.format;
+    return (
+      resolveExportFormat(
+        typeof format === "string" ? format : undefined,
+        request.headers?.accept
+      ) !== null
+    );
+  };
+
+  return {
+    storage: new RedisThrottlerStorage(redis),
+    throttlers: [
+      {
+        name: DEFAULT_THROTTLER,
+        ttl: RATE_LIMIT_WINDOW_MS,
+        limit: (context) => clientLimit(userOf(context), limits),
+      },
+      {
+        name: EXPENSIVE_THROTTLER,
+        ttl: RATE_LIMIT_WINDOW_MS,
+        limit: (context) =>
+          Math.max(
+            1,
+            Math.floor(
+              clientLimit(userOf(context), limits) * limits.expensiveRatio
+            )
+          ),
+        skipIf: (context) => !isExpensive(context),
+      },
+    ],
+    // One bucket per caller and throttler across all routes
+    // (the default is per route)
+    getTracker: (req) => (req.user ? `user:${req.user.id}` : `ip:${req.ip}`),
+    generateKey: (_context, tracker, name) => `${name}:${tracker}`,
+  };
+}
+
+/**
+ * TieredThrottlerGuard
+ *
+ * ThrottlerGuard with standard RateLimit-* headers. When several
+ * throttlers apply, the headers describe the one closest to its limit and
+ * RateLimit-Policy lists all of them.
+ */
+@Injectable()
+export class TieredThrottlerGuard extends ThrottlerGuard {
+  protected async handleRequest(
+    requestProps: ThrottlerRequest
+  ): Promise<boolean> {
+    const {
+      context,
+      limit,
+      ttl,
+      throttler,
+      blockDuration,
+      getTracker,
+      generateKey,
+    } = requestProps;
+    const { req, res } = this.getRequestResponse(context);
+    const name = throttler.name ?? DEFAULT_THROTTLER;
+
+    const tracker = await getTracker(req, context);
+    const key = generateKey(context, tracker, name);
+    const { totalHits, timeToExpire, isBlocked, timeToBlockExpire } =
+      await this.storageService.increment(key, ttl, limit, blockDuration, name);
+
+    const remaining = isBlocked ? 0 : Math.max(0, limit - totalHits);
+    const windowSeconds = Math.ceil(ttl / 1000);
+    const policy = `${limit};w=${windowSeconds}`;
+    const existingPolicy = res.getHeader("RateLimit-Policy");
+    res.header(
+      "RateLimit-Policy",
+      existingPolicy ? `${existingPolicy}, ${policy}` : policy
+    );
+
+    const currentRemaining = res.getHeader("RateLimit-Remaining");
+    if (
+      currentRemaining === undefined ||
+      remaining < Number(currentRemaining)
+    ) {
+      res.header("RateLimit-Limit", limit);
+      res.header("RateLimit-Remaining", remaining);
+      res.header(
+        "RateLimit-Reset",
+        isBlocked ? timeToBlockExpire : timeToExpire
+      );
+    }
+
+    if (isBlocked) {
+      res.header("Retry-After", timeToBlockExpire);
+      throw new ThrottlerException(
+        name === EXPENSIVE_THROTTLER
+          ? `Rate limit of ${limit} requests per minute for expensive routes exceeded`
+          : `Rate limit of ${limit} requests per minute exceeded`
+      );
+    }
+
+    return true;
+  }
+}
@@ -2,25 +2,16 @@
  * Audit Log Interceptor
  *
  * Logs all API requests and responses for audit trail and compliance.
- * Captures request metadata, response status, and execution time.
+ * Captures request metadata, response status, and execution time, writes
+ * an [AUDIT] log line and records the request in the audit_logs table.
  *
- * Usage (future):
- * ```typescript
- * // Global application in main.ts
- * app.useGlobalInterceptors(new AuditLogInterceptor());
+ * Registered globally in AppModule (APP_INTERCEPTOR). Interceptors run
+ * after guards, so requests rejected by ApiKeyGuard, JwtAuthGuard,
+ * TieredThrottlerGuard or RolesGuard (401/429/403) are not recorded.
  *
- * // Or per-controller
- * @UseInterceptors(AuditLogInterceptor)
- * @Controller('plants')
- * export class PlantsController { ... }
- * ```
- *
- * TODO: Implement when audit logging is required
- * 1. Store logs in database (audit_logs table)
- * 2. Integrate with external logging service (Datadog, ELK, Splunk)
- * 3. Add data masking for sensitive fields (passwords, tokens)
- * 4. Configure retention policy (e.g., 90 days)
- * 5. Add filtering to exclude health checks and static assets
+ * Health checks are logged but not persisted. Entries are queued with
+ * AuditLogsService and written in batches, so recording never delays
+ * the response.
  */
 
 import {
@@ -32,99 +23,120 @@ import {
 } from "@nestjs/common";
 import { Observable } from "rxjs";
 import { tap, catchError } from "rxjs/operators";
+import { AuditLogsService } from "../../modules/audit-logs/audit-logs.service";
+import { getTraceId } from "../utils/request-context";
+
+/**
+ * Placeholder for masked values
+ */
+const MASK = "***";
+
+/**
+ * Body fields whose values are always masked (matched case-insensitively,
+ * ignoring "-" and "_")
+ */
+const SENSITIVE_FIELD_PATTERN =
+  /password|passwd|secret|token|apikey|authorization|cookie|credential|^key$/i;
+
+/**
+ * Query string parameters whose values are masked in the recorded path
+ */
+const SENSITIVE_QUERY_PATTERN =
+  /([?&](?:token|access_token|id_token|refresh_token|api_key|apikey|key|secret|password)=)[^&#]*/gi;
+
+/**
+ * Credentials that may appear inside otherwise harmless values:
+ * JWTs (three base64url segments starting with "eyJ") and API keys ("aiq_")
+ */
+const EMBEDDED_CREDENTIAL_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]*|aiq_[\w-]+/g;
+
+/**
+ * Body values that are exactly one email address
+ */
+const EMAIL_PATTERN = /^([^@\s])[^@\s]*(@[^@\s]+)$/;
+
+/**
+ * Paths that are not persisted (load balancer and uptime probes)
+ */
+const UNRECORDED_PATH_PATTERN = /\/health\/?$/;
+
+/**
+ * Maximum stored length of the user agent and error message
+ */
+const MAX_TEXT_LENGTH = 500;
 
 /**
  * AuditLogInterceptor
  *
  * Intercepts HTTP requests to log audit trail information.
- * Logs are structured JSON for easy parsing and analysis.
- *
- * @future Audit log schema:
- * ```typescript
- * interface AuditLog {
- *   timestamp: string;         // ISO 8601 format
- *   traceId: string;           // Correlation ID
- *   userId?: string;           // From JWT token
- *   username?: string;         // From JWT token
- *   method: string;            // GET, POST, PUT, DELETE
- *   path: string;              // /api/v1/plants?top=10
- *   statusCode: number;        // 200, 404, 500
- *   executionTime: number;     // Milliseconds
- *   ip: string;                // Client IP address
- *   userAgent: string;         // Browser/client info
- *   error?: string;            // Error message if failed
- *   requestBody?: any;         // For POST/PUT (masked)
- *   responseBody?: any;        // For audit requirements (masked)
- * }
- * ```
+ * Persisted entries follow the AuditLog model in prisma/schema.prisma:
+ * trace ID (from the request context), caller (from request.user),
+ * method, masked path, status, duration, client IP, user agent, error
+ * message and, for write requests, the masked request body.
  */
 @Injectable()
 export class AuditLogInterceptor implements NestInterceptor {
   private readonly logger = new Logger(AuditLogInterceptor.name);
 
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
   /**
    * Intercepts request execution to log audit information
    *
    * @param context - Execution context with request details
    * @param next - Call handler for downstream execution
    * @returns Observable with response
-   *
-   * @future Implementation:
-   * ```typescript
-   * const request = context.switchToHttp().getRequest();
-   * const response = context.switchToHttp().getResponse();
-   * const startTime = Date.now();
-   *
-   * const auditLog = {
-   *   timestamp: new Date().toISOString(),
-   *   traceId: request.headers['x-trace-id'],
-   *   userId: request.user?.id,
-   *   username: request.user?.username,
-   *   method: request.method,
-   *   path: request.url,
-   *   ip: request.ip,
-   *   userAgent: request.headers['user-agent'],
-   * };
-   *
-   * return next.handle().pipe(
-   *   tap(() => {
-   *     const executionTime = Date.now() - startTime;
-   *     this.logger.log({
-   *       ...auditLog,
-   *       statusCode: response.statusCode,
-   *       executionTime,
-   *     });
-   *     // Store in database or send to external service
-   *   }),
-   *   catchError((error) => {
-   *     const executionTime = Date.now() - startTime;
-   *     this.logger.error({
-   *       ...auditLog,
-   *       statusCode: error.status || 500,
-   *       executionTime,
-   *       error: error.message,
-   *     });
-   *     throw error;
-   *   }),
-   * );
-   * ```
    */
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
-    // STUB: Basic logging implementation
     const request = context.switchToHttp().getRequest();
     const response = context.switchToHttp().getResponse();
+    const timestamp = new Date();
     const startTime = Date.now();
 
-    const { method, url, ip } = request;
+    const { method } = request;
+    const url = this.maskUrl(request.url || "");
+    const ip = request.ip ? String(request.ip).split(",")[0]!.trim() : "";
     const userAgent = request.get("user-agent") || "";
 
     // Log incoming request (basic info only)
     this.logger.log(
-      `[AUDIT] ${method} ${url} - IP: ${
-        ip.split(",")[0]
-      } - Agent: ${userAgent.substring(0, 50)}`
+      `[AUDIT] ${method} ${url} - IP: ${ip} - Agent: ${userAgent.substring(0, 50)}`
     );
 
+    const record = (statusCode: number, error?: string) => {
+      if (UNRECORDED_PATH_PATTERN.test(url.split("?")[0]!)) {
+        return;
+      }
+
+      const user = request.user;
+      const hasBody =
+        method !== "GET" &&
+        method !== "HEAD" &&
+        request.body !== undefined &&
+        request.body !== null &&
+        Object.keys(request.body).length > 0;
+
+      this.auditLogsService.record({
+        timestamp,
+        traceId: getTraceId() ?? null,
+        userId: user?.id ?? null,
+        username: user?.username ?? null,
+        authMethod: user?.authMethod ?? null,
+        method,
+        path: url,
+        statusCode,
+        durationMs: Date.now() - startTime,
+        ip: ip || null,
+        userAgent: userAgent ? userAgent.substring(0, MAX_TEXT_LENGTH) : null,
+        error: error
+          ? this.maskString(error).substring(0, MAX_TEXT_LENGTH)
+          : null,
+        ...(hasBody
+          ? { requestBody: this.maskSensitiveData(request.body) }
+          : {}),
+      });
+    };
+
     return next.handle().pipe(
       tap(() => {
         // Log successful response
@@ -134,9 +146,7 @@ export class AuditLogInterceptor implements NestInterceptor {
         this.logger.log(
           `[AUDIT] ${method} ${url} - ${statusCode} - ${executionTime}ms`
         );
-
-        // Future: Store in database
-        // await this.auditLogService.create({ ... });
+        record(statusCode);
       }),
       catchError((error) => {
         // Log error response
@@ -146,9 +156,7 @@ export class AuditLogInterceptor implements NestInterceptor {
         this.logger.error(
           `[AUDIT] ${method} ${url} - ${statusCode} - ${executionTime}ms - Error: ${error.message}`
         );
-
-        // Future: Store in database with error details
-        // await this.auditLogService.create({ ... });
+        record(statusCode, error.message);
 
         throw error;
       })
@@ -156,10 +164,11 @@ export class AuditLogInterceptor implements NestInterceptor {
   }
 
   /**
-   * Masks sensitive data in request/response bodies
+   * Masks sensitive data in request bodies
    *
-   * @private
-   * @future Helper for data masking
+   * - Fields named like passwords, secrets, tokens or keys -> '***'
+   * - JWTs and API keys inside other strings -> '***'
+   * - Email addresses -> 'j***@example.com'
    *
    * @example
    * ```typescript
@@ -172,11 +181,36 @@ export class AuditLogInterceptor implements NestInterceptor {
    * ```
    */
   private maskSensitiveData(data: any): any {
-    // Future: Implement field masking
-    // - password -> '***'
-    // - ssn -> '***-**-1234'
-    // - creditCard -> '****-****-****-1234'
-    // - email -> 'j***@example.com'
+    if (typeof data === "string") {
+      return this.maskString(data).replace(EMAIL_PATTERN, `$1${MASK}$2`);
+    }
+    if (Array.isArray(data)) {
+      return data.map((item) => this.maskSensitiveData(item));
+    }
+    if (data instanceof Date) {
+      return data;
+    }
+    if (data !== null && typeof data === "object") {
+      return Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [
+          key,
+          SENSITIVE_FIELD_PATTERN.test(key.replace(/[-_]/g, ""))
+            ? MASK
+            : this.maskSensitiveData(value),
+        ])
+      );
+    }
     return data;
   }
+
+  /**
+   * Mask credentials passed as query parameters, e.g. ?token=...
+   */
+  private maskUrl(url: string): string {
+    return this.maskString(url.replace(SENSITIVE_QUERY_PATTERN, `$1${MASK}`));
+  }
+
+  private maskString(value: string): string {
+    return value.replace(EMBEDDED_CREDENTIAL_PATTERN, MASK);
+  }
 }
@@ -0,0 +1,158 @@
+/**
+ * Unit Tests for AppLogger
+ *
+ * Verifies the structured entries handed to sinks (trace ID, module,
+ * extra fields, errors), level filtering and the console formats.
+ */
+
+import { Logger } from "@nestjs/common";
+import { AppLogger } from "./app.logger";
+import { JsonConsoleSink, LogEntry, PrettyConsoleSink } from "./log-sinks";
+import { runWithRequestContext } from "../utils/request-context";
+
+describe("AppLogger", () => {
+  const options = {
+    level: "log" as const,
+    format: "json" as const,
+    sinks: [],
+    file: "logs/test.log",
+    slowQueryMs: 500,
+    slowRedisMs: 100,
+  };
+
+  let logger: AppLogger;
+  let entries: LogEntry[];
+
+  beforeEach(() => {
+    entries = [];
+    logger = new AppLogger(options, [
+      { write: (entry) => entries.push(entry) },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("entries", () => {
+    it("should write level, timestamp, module and message", () => {
+      logger.log("Started", "Bootstrap");
+
+      expect(entries).toEqual([
+        {
+          timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+          level: "log",
+          module: "Bootstrap",
+          message: "Started",
+        },
+      ]);
+    });
+
+    it("should add the trace ID inside a request", () => {
+      runWithRequestContext({ traceId: "trace-123" }, () =>
+        logger.warn("Cache miss", "PlantsService")
+      );
+
+      expect(entries[0]).toMatchObject({
+        level: "warn",
+        module: "PlantsService",
+        traceId: "trace-123",
+      });
+    });
+
+    it("should spread fields of object messages", () => {
+      logger.log(
+        { message: "GET /api/v1/plants", statusCode: 200, durationMs: 42 },
+        "LoggerMiddleware"
+      );
+
+      expect(entries[0]).toMatchObject({
+        module: "LoggerMiddleware",
+        message: "GET /api/v1/plants",
+        statusCode: 200,
+        durationMs: 42,
+      });
+    });
+
+    it("should keep the stack of logged errors", () => {
+      const error = new Error("Connection refused");
+
+      logger.error("Failed to connect to database", error);
+      logger.error("Request failed", error.stack, "HttpExceptionFilter");
+
+      expect(entries[0]).toMatchObject({
+        level: "error",
+        message: "Failed to connect to database",
+        stack: error.stack,
+      });
+      expect(entries[1]).toMatchObject({
+        module: "HttpExceptionFilter",
+        stack: error.stack,
+      });
+    });
+
+    it("should write through Nest Logger instances", () => {
+      Logger.overrideLogger(logger);
+
+      new Logger("IngestService").log("Parsed 42 plants");
+      Logger.overrideLogger(false);
+
+      expect(entries[0]).toMatchObject({
+        module: "IngestService",
+        message: "Parsed 42 plants",
+      });
+    });
+  });
+
+  describe("levels", () => {
+    it("should drop levels below LOG_LEVEL", () => {
+      logger = new AppLogger({ ...options, level: "warn" }, [
+        { write: (entry) => entries.push(entry) },
+      ]);
+
+      logger.debug("Cache key computed");
+      logger.log("Request handled");
+      logger.warn("Slow query");
+      logger.error("Query failed");
+
+      expect(entries.map((entry) => entry.level)).toEqual(["warn", "error"]);
+    });
+  });
+
+  describe("sinks", () => {
+    const entry: LogEntry = {
+      timestamp: "2025-11-14T09:00:00.123Z",
+      level: "warn",
+      module: "PrismaService",
+      traceId: "trace-123",
+      message: "Slow query: Plant.findMany took 812ms",
+      durationMs: 812,
+    };
+
+    let output: string[];
+
+    beforeEach(() => {
+      output = [];
+      jest.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+        output.push(String(chunk));
+        return true;
+      });
+    });
+
+    it("should write one JSON object per line", () => {
+      new JsonConsoleSink().write(entry);
+
+      expect(output).toHaveLength(1);
+      expect(output[0]!.endsWith("\n")).toBe(true);
+      expect(JSON.parse(output[0]!)).toEqual(entry);
+    });
+
+    it("should write readable lines in pretty format", () => {
+      new PrettyConsoleSink(false).write(entry);
+
+      expect(output[0]).toBe(
+        "09:00:00.123    WARN [PrismaService] [trace-123] Slow query: Plant.findMany took 812ms durationMs=812\n"
+      );
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { ConsoleLogger, LogLevel } from "@nestjs/common";
+import { inspect } from "util";
+import { Config, LOG_LEVELS, config } from "../../config/configuration";
+import { getTraceId } from "../utils/request-context";
+import { LogEntry, LogSink, createLogSinks } from "./log-sinks";
+
+/**
+ * AppLogger
+ *
+ * Structured application logger. Every line becomes a LogEntry (level,
+ * timestamp, module, the current request's trace ID, message and any extra
+ * fields) and is written to the sinks chosen by LOG_SINKS: JSON lines or
+ * pretty text on the console (LOG_FORMAT), and/or a JSON lines file
+ * (LOG_FILE). Levels below LOG_LEVEL are dropped.
+ *
+ * Installed as the application logger in main.ts, so Nest's own output and
+ * `new Logger(...)` instances throughout the code write through it. Scripts
+ * install it with `Logger.overrideLogger(new AppLogger())`.
+ *
+ * Log an object with a `message` to add fields:
+ * ```typescript
+ * this.logger.log({ message: "Cache warmed", keys: 12, durationMs: 340 });
+ * ```
+ */
+export class AppLogger extends ConsoleLogger {
+  private readonly sinks: LogSink[];
+
+  /**
+   * @param options - Logging configuration (defaults to the environment)
+   * @param sinks - Destinations; chosen from `options` unless given
+   */
+  constructor(
+    options: Config["logging"] = config().logging,
+    sinks: LogSink[] = createLogSinks(options)
+  ) {
+    super({
+      logLevels: LOG_LEVELS.slice(LOG_LEVELS.indexOf(options.level)),
+    });
+    this.sinks = sinks;
+  }
+
+  /**
+   * Flush sinks that buffer output (the log file)
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.sinks.map((sink) => sink.close?.()));
+  }
+
+  protected printMessages(
+    messages: unknown[],
+    context: unknown = "",
+    logLevel: LogLevel = "log",
+    _writeStreamType?: "stdout" | "stderr",
+    errorStack?: unknown
+  ): void {
+    // logger.error("message", error) passes the error where the context goes
+    const module =
+      (typeof context === "string" ? context : this.context) || undefined;
+    let stack = typeof errorStack === "string" ? errorStack : undefined;
+    if (context instanceof Error) {
+      stack ??= context.stack;
+    }
+
+    for (const message of messages) {
+      const entry = this.toLogEntry(message, logLevel, module, stack);
+      for (const sink of this.sinks) {
+        sink.write(entry);
+      }
+    }
+  }
+
+  /**
+   * Stack traces are written as part of the entry
+   */
+  protected printStackTrace(): void {}
+
+  private toLogEntry(
+    message: unknown,
+    level: LogLevel,
+    module: string | undefined,
+    stack: string | undefined
+  ): LogEntry {
+    let text: string;
+    let fields: Record<string, unknown> = {};
+
+    if (typeof message === "string") {
+      text = message;
+    } else if (message instanceof Error) {
+      text = message.message;
+      stack ??= message.stack;
+    } else if (
+      message !== null &&
+      typeof message === "object" &&
+      typeof (message as { message?: unknown }).message === "string"
+    ) {
+      const { message: messageText, ...rest } = message as {
+        message: string;
+      };
+      text = messageText;
+      fields = rest;
+    } else {
+      text = inspect(message, { depth: 5, breakLength: Infinity });
+    }
+
+    const traceId = getTraceId();
+    return {
+      timestamp: new Date().toISOString(),
+      level,
+      ...(module ? { module } : {}),
+      ...(traceId ? { traceId } : {}),
+      message: text,
+      ...fields,
+      ...(stack ? { stack } : {}),
+    };
+  }
+}
@@ -0,0 +1,158 @@
+import { LogLevel } from "@nestjs/common";
+import { createWriteStream, mkdirSync, WriteStream } from "fs";
+import { dirname } from "path";
+import { Config } from "../../config/configuration";
+
+/**
+ * One log line
+ *
+ * Serialised as-is by the JSON sinks. Callers add fields by logging an
+ * object with a `message`, e.g.
+ * `logger.log({ message: "GET /api/v1/plants - 200", statusCode: 200, durationMs: 42 })`.
+ */
+export interface LogEntry {
+  /** ISO 8601 time the entry was written */
+  timestamp: string;
+  level: LogLevel;
+  /** Logger context, usually the class name */
+  module?: string;
+  /** Trace ID of the request being handled, if any */
+  traceId?: string;
+  message: string;
+  /** Duration of the operation being reported, in ms */
+  durationMs?: number;
+  /** Stack trace of logged errors */
+  stack?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Destination for log entries
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+  /** Flush buffered output; called on shutdown */
+  close?(): Promise<void>;
+}
+
+/**
+ * Fields shown in the fixed part of pretty lines
+ */
+const PRETTY_BASE_FIELDS = new Set([
+  "timestamp",
+  "level",
+  "module",
+  "traceId",
+  "message",
+  "stack",
+]);
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  verbose: "\x1b[36m", // cyan
+  debug: "\x1b[35m", // magenta
+  log: "\x1b[32m", // green
+  warn: "\x1b[33m", // yellow
+  error: "\x1b[31m", // red
+  fatal: "\x1b[1m\x1b[31m", // bold red
+};
+const DIM = "\x1b[2m";
+const RESET = "\x1b[0m";
+
+function isError(level: LogLevel): boolean {
+  return level === "error" || level === "fatal";
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+}
+
+/**
+ * Writes one JSON object per line to stdout (errors to stderr),
+ * for log collectors
+ */
+export class JsonConsoleSink implements LogSink {
+  write(entry: LogEntry): void {
+    const stream = isError(entry.level) ? process.stderr : process.stdout;
+    stream.write(`${toJson(entry)}\n`);
+  }
+}
+
+/**
+ * Writes human-readable lines for local development:
+ *
+ * 09:00:00.123    WARN [PrismaService] [0b6c...] Slow query: Plant.findMany took 812ms durationMs=812
+ */
+export class PrettyConsoleSink implements LogSink {
+  constructor(
+    private readonly colors = process.stdout.isTTY === true &&
+      !process.env.NO_COLOR
+  ) {}
+
+  write(entry: LogEntry): void {
+    const color = (text: string, code: string) =>
+      this.colors ? `${code}${text}${RESET}` : text;
+
+    const time = entry.timestamp.slice(11, 23);
+    const level = color(
+      entry.level.toUpperCase().padStart(7),
+      LEVEL_COLORS[entry.level]
+    );
+    const module = entry.module ? ` [${entry.module}]` : "";
+    const traceId = entry.traceId ? ` [${entry.traceId}]` : "";
+    const fields = Object.entries(entry)
+      .filter(
+        ([key, value]) => !PRETTY_BASE_FIELDS.has(key) && value !== undefined
+      )
+      .map(([key, value]) => `${key}=${toJson(value)}`)
+      .join(" ");
+
+    let line = `${color(time, DIM)} ${level}${module}${traceId} ${entry.message}`;
+    if (fields) {
+      line += ` ${color(fields, DIM)}`;
+    }
+    if (entry.stack) {
+      line += `\n${entry.stack}`;
+    }
+
+    const stream = isError(entry.level) ? process.stderr : process.stdout;
+    stream.write(`${line}\n`);
+  }
+}
+
+/**
+ * Appends JSON lines to a file, creating its directory if needed
+ */
+export class FileSink implements LogSink {
+  private readonly stream: WriteStream;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.stream = createWriteStream(path, { flags: "a" });
+  }
+
+  write(entry: LogEntry): void {
+    this.stream.write(`${toJson(entry)}\n`);
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+}
+
+/**
+ * Sinks selected by LOG_SINKS, LOG_FORMAT and LOG_FILE
+ *
+ * @param options - Logging configuration
+ */
+export function createLogSinks(options: Config["logging"]): LogSink[] {
+  return options.sinks.map((name) => {
+    if (name === "file") {
+      return new FileSink(options.file);
+    }
+    return options.format === "json"
+      ? new JsonConsoleSink()
+      : new PrettyConsoleSink();
+  });
+}
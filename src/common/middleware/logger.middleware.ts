@@ -1,5 +1,6 @@
 import { Injectable, NestMiddleware, Logger } from "@nestjs/common";
 import { Request, Response, NextFunction } from "express";
+import { AsyncResource } from "async_hooks";
 
 /**
  * HTTP Request Logger Middleware
@@ -11,18 +12,14 @@ import { Request, Response, NextFunction } from "express";
  * 3. Listens for the 'finish' event on the response object
  * 4. Logs the full request details with duration when response is sent
  *
- * Log format: METHOD PATH - STATUS_CODE - DURATIONms
- * Example: GET /api/plants?top=10 - 200 - 42ms
+ * Log format: message "METHOD PATH" with statusCode and durationMs fields
+ * Example (JSON): {"message":"GET /api/v1/plants","statusCode":200,"durationMs":42,...}
  *
- * Usage:
- * Apply to all routes in app.module.ts:
- * ```
- * export class AppModule implements NestModule {
- *   configure(consumer: MiddlewareConsumer) {
- *     consumer.apply(LoggerMiddleware).forRoutes('*');
- *   }
- * }
- * ```
+ * The query string is left out, as it may carry credentials (?token=...).
+ * Unlike AuditLogInterceptor, this also logs requests rejected by guards.
+ *
+ * Applied to all routes in AppModule.configure, after TraceIdMiddleware,
+ * so each line carries the request's trace ID.
  */
 @Injectable()
 export class LoggerMiddleware implements NestMiddleware {
@@ -36,30 +33,36 @@ export class LoggerMiddleware implements NestMiddleware {
    * @param next - Callback to pass control to next middleware/handler
    */
   use(req: Request, res: Response, next: NextFunction) {
-    const { method, originalUrl } = req;
+    const { method } = req;
+    const path = req.originalUrl.split("?")[0];
     const start = Date.now();
 
     // Listen for the 'finish' event which fires when response is sent
-    // This allows us to capture the response status code and duration
-    res.on("finish", () => {
-      const { statusCode } = res;
-      const duration = Date.now() - start;
+    // This allows us to capture the response status code and duration.
+    // Bound to the request context: 'finish' may be emitted from socket
+    // callbacks that no longer carry the trace ID
+    res.on(
+      "finish",
+      AsyncResource.bind(() => {
+        const { statusCode } = res;
+        const duration = Date.now() - start;
+
+        const entry = {
+          message: `${method} ${path}`,
+          statusCode,
+          durationMs: duration,
+        };
 
-      // Use appropriate log level based on status code
-      if (statusCode >= 500) {
-        this.logger.error(
-          `${method} ${originalUrl} - ${statusCode} - ${duration}ms`
-        );
-      } else if (statusCode >= 400) {
-        this.logger.warn(
-          `${method} ${originalUrl} - ${statusCode} - ${duration}ms`
-        );
-      } else {
-        this.logger.log(
-          `${method} ${originalUrl} - ${statusCode} - ${duration}ms`
-        );
-      }
-    });
+        // Use appropriate log level based on status code
+        if (statusCode >= 500) {
+          this.logger.error(entry);
+        } else if (statusCode >= 400) {
+          this.logger.warn(entry);
+        } else {
+          this.logger.log(entry);
+        }
+      })
+    );
 
     // Pass control to the next middleware/handler
     next();
@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for TraceIdMiddleware
+ *
+ * Verifies that incoming trace IDs are reused or replaced, echoed in the
+ * response header and visible to everything the request runs.
+ */
+
+import { Request, Response } from "express";
+import { TraceIdMiddleware } from "./trace-id.middleware";
+import { getTraceId } from "../utils/request-context";
+
+describe("TraceIdMiddleware", () => {
+  let middleware: TraceIdMiddleware;
+
+  const UUID_PATTERN =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+  beforeEach(() => {
+    middleware = new TraceIdMiddleware();
+  });
+
+  /**
+   * Run the middleware and return the trace ID seen by the next handler
+   * and the one sent in the response header
+   */
+  const run = async (incoming?: string) => {
+    const req = {
+      get: (header: string) =>
+        header.toLowerCase() === "x-trace-id" ? incoming : undefined,
+    } as unknown as Request;
+    const res = { setHeader: jest.fn() } as unknown as Response;
+
+    const seen = await new Promise<string | undefined>((resolve) =>
+      middleware.use(req, res, () => {
+        // Still visible after an async hop
+        setImmediate(() => resolve(getTraceId()));
+      })
+    );
+
+    const header = (res.setHeader as jest.Mock).mock.calls[0];
+    return { seen, header };
+  };
+
+  it("should reuse a well-formed incoming trace ID", async () => {
+    const { seen, header } = await run("checkout-7f3a:42");
+
+    expect(seen).toBe("checkout-7f3a:42");
+    expect(header).toEqual(["X-Trace-Id", "checkout-7f3a:42"]);
+  });
+
+  it("should generate a trace ID when none is sent", async () => {
+    const { seen, header } = await run();
+
+    expect(seen).toMatch(UUID_PATTERN);
+    expect(header).toEqual(["X-Trace-Id", seen]);
+  });
+
+  it("should replace malformed trace IDs", async () => {
+    const withSpaces = await run("abc def");
+    const tooLong = await run("a".repeat(129));
+
+    expect(withSpaces.seen).toMatch(UUID_PATTERN);
+    expect(tooLong.seen).toMatch(UUID_PATTERN);
+  });
+
+  it("should not leak the trace ID outside the request", async () => {
+    await run("request-1");
+
+    expect(getTraceId()).toBeUndefined();
+  });
+});
@@ -0,0 +1,44 @@
+import { Injectable, NestMiddleware } from "@nestjs/common";
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import {
+  TRACE_ID_HEADER,
+  runWithRequestContext,
+} from "../utils/request-context";
+
+/**
+ * Incoming trace IDs we accept as-is. Anything else (too long, spaces,
+ * control characters) is replaced so callers cannot inject text into logs.
+ */
+const VALID_TRACE_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Trace ID Middleware
+ *
+ * Gives every request a correlation ID:
+ * 1. Reuses the caller's X-Trace-Id header when it is well-formed,
+ *    otherwise generates a UUID
+ * 2. Echoes it in the X-Trace-Id response header (including error responses)
+ * 3. Runs the rest of the request inside a request context, so log lines,
+ *    error responses, audit entries and slow-query warnings carry it
+ *
+ * Must be applied before any other middleware (see AppModule.configure).
+ */
+@Injectable()
+export class TraceIdMiddleware implements NestMiddleware {
+  /**
+   * Execute middleware for each HTTP request
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Callback to pass control to next middleware/handler
+   */
+  use(req: Request, res: Response, next: NextFunction) {
+    const incoming = req.get(TRACE_ID_HEADER);
+    const traceId =
+      incoming && VALID_TRACE_ID.test(incoming) ? incoming : randomUUID();
+
+    res.setHeader(TRACE_ID_HEADER, traceId);
+    runWithRequestContext({ traceId }, next);
+  }
+}
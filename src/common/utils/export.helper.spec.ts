@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for export helpers
+ *
+ * Verifies CSV escaping, XLSX workbook contents and format negotiation.
+ */
+
+import { StreamableFile } from "@nestjs/common";
+import * as ExcelJS from "exceljs";
+import {
+  ExportColumn,
+  resolveExportFormat,
+  toCsv,
+  toExportFile,
+  toXlsx,
+} from "./export.helper";
+
+interface Row {
+  name: string;
+  generation: number | null;
+}
+
+const columns: ExportColumn<Row>[] = [
+  { header: "Plant Name", value: (row) => row.name },
+  { header: "Net Generation (MWh)", value: (row) => row.generation },
+];
+
+describe("toCsv", () => {
+  it("should render a header row and CRLF-terminated records", () => {
+    const csv = toCsv([{ name: "Palo Verde", generation: 31522590 }], columns);
+
+    expect(csv).toBe(
+      "Plant Name,Net Generation (MWh)\r\nPalo Verde,31522590\r\n"
+    );
+  });
+
+  it("should quote cells containing commas, quotes and newlines", () => {
+    const csv = toCsv(
+      [
+        { name: 'Plant "A", Unit 1', generation: 1 },
+        { name: "Line\nBreak", generation: 2 },
+      ],
+      columns
+    );
+
+    expect(csv).toContain('"Plant ""A"", Unit 1",1');
+    expect(csv).toContain('"Line\nBreak",2');
+  });
+
+  it("should render missing values as empty cells", () => {
+    const csv = toCsv([{ name: "Idle", generation: null }], columns);
+
+    expect(csv.split("\r\n")[1]).toBe("Idle,");
+  });
+
+  it("should neutralise formula-like text but not negative numbers", () => {
+    const csv = toCsv(
+      [
+        { name: '=HYPERLINK("x")', generation: -5 },
+        { name: "@SUM(A1)", generation: 0 },
+      ],
+      columns
+    );
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")",-5`);
+    expect(csv).toContain("'@SUM(A1),0");
+  });
+});
+
+describe("toXlsx", () => {
+  it("should write one worksheet per sheet with a header row", async () => {
+    const buffer = await toXlsx([
+      {
+        name: "Plants",
+        rows: [{ name: "Palo Verde", generation: 31522590 }],
+        columns,
+      },
+      { name: "Empty", rows: [], columns },
+    ]);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+    const sheet = workbook.getWorksheet("Plants")!;
+
+    expect(workbook.worksheets.map((ws) => ws.name)).toEqual([
+      "Plants",
+      "Empty",
+    ]);
+    expect(sheet.getRow(1).getCell(1).value).toBe("Plant Name");
+    expect(sheet.getRow(2).getCell(1).value).toBe("Palo Verde");
+    expect(sheet.getRow(2).getCell(2).value).toBe(31522590);
+  });
+});
+
+describe("toExportFile", () => {
+  it("should set content type and attachment file name", async () => {
+    const file = await toExportFile("csv", "plants", [
+      { name: "Plants", rows: [], columns },
+    ]);
+
+    expect(file).toBeInstanceOf(StreamableFile);
+    expect(file.options.type).toBe("text/csv; charset=utf-8");
+    expect(file.options.disposition).toBe('attachment; filename="plants.csv"');
+  });
+});
+
+describe("resolveExportFormat", () => {
+  it("should prefer the format query parameter", () => {
+    expect(resolveExportFormat("xlsx", "text/csv")).toBe("xlsx");
+    expect(resolveExportFormat("json", "text/csv")).toBeNull();
+    expect(resolveExportFormat("geojson", undefined)).toBeNull();
+  });
+
+  it("should negotiate from the Accept header", () => {
+    expect(resolveExportFormat(undefined, "text/csv")).toBe("csv");
+    expect(
+      resolveExportFormat(undefined, "text/csv;q=0.9, application/json")
+    ).toBe("csv");
+    expect(
+      resolveExportFormat(
+        undefined,
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      )
+    ).toBe("xlsx");
+  });
+
+  it("should default to JSON", () => {
+    expect(resolveExportFormat(undefined, undefined)).toBeNull();
+    expect(resolveExportFormat(undefined, "*/*")).toBeNull();
+    expect(resolveExportFormat(undefined, "application/json")).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+import { StreamableFile } from "@nestjs/common";
+import * as ExcelJS from "exceljs";
+
+/**
+ * Tabular export helpers (CSV and XLSX) for downloadable query results
+ */
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Column of an exported table
+ */
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+/**
+ * Named table; becomes one worksheet in XLSX exports
+ */
+export interface ExportSheet<T> {
+  name: string;
+  rows: T[];
+  columns: ExportColumn<T>[];
+}
+
+/**
+ * One ExportSheet per entry of a tuple of row types, so each sheet's column
+ * accessors are checked against its own rows
+ */
+export type ExportSheets<Rows extends unknown[]> = {
+  [K in keyof Rows]: ExportSheet<Rows[K]>;
+};
+
+/**
+ * Pick the export format for a request
+ *
+ * An explicit `format` query parameter wins; otherwise the Accept header is
+ * consulted so `curl -H "Accept: text/csv"` works without changing the URL.
+ *
+ * @param format - `format` query parameter, if any
+ * @param accept - Accept request header, if any
+ * @returns Export format, or null to respond with JSON
+ */
+export function resolveExportFormat(
+  format: string | undefined,
+  accept: string | undefined
+): ExportFormat | null {
+  if (format) {
+    return (EXPORT_FORMATS as readonly string[]).includes(format)
+      ? (format as ExportFormat)
+      : null;
+  }
+
+  const accepted = (accept ?? "")
+    .split(",")
+    .map((type) => type.split(";")[0]!.trim().toLowerCase());
+  if (accepted.includes("text/csv")) return "csv";
+  if (accepted.includes(EXPORT_CONTENT_TYPES.xlsx)) return "xlsx";
+  return null;
+}
+
+/**
+ * Render rows as RFC 4180 CSV (CRLF line endings, header row first)
+ *
+ * Text cells starting with =, +, -, @ or a control character are prefixed
+ * with a single quote so spreadsheets do not evaluate them as formulas.
+ */
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  return [
+    toCsvRow(columns.map((column) => column.header)),
+    ...rows.map((row) => toCsvRow(columns.map((column) => column.value(row)))),
+  ].join("");
+}
+
+/**
+ * Render a single CSV record (escaped, CRLF-terminated)
+ * Used directly when streaming rows instead of building the whole file
+ */
+export function toCsvRow(
+  values: Array<string | number | null | undefined>
+): string {
+  return values.map(escapeCsvCell).join(",") + "\r\n";
+}
+
+/**
+ * Render one or more tables as an Excel workbook
+ *
+ * @returns XLSX file contents
+ */
+export async function toXlsx<Rows extends unknown[]>(
+  sheets: ExportSheets<Rows>
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(sheet.name);
+    worksheet.columns = sheet.columns.map((column) => ({
+      header: column.header,
+      width: Math.max(12, column.header.length + 2),
+    }));
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.views = [{ state: "frozen", ySplit: 1 }];
+
+    for (const row of sheet.rows) {
+      worksheet.addRow(
+        sheet.columns.map((column) => column.value(row) ?? null)
+      );
+    }
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Build a downloadable file response for tabular results
+ *
+ * CSV only contains the first sheet; XLSX contains all of them.
+ *
+ * @param format - Export format
+ * @param filename - Download name without extension
+ * @param sheets - Tables to export
+ */
+export async function toExportFile<Rows extends unknown[]>(
+  format: ExportFormat,
+  filename: string,
+  sheets: ExportSheets<Rows>
+): Promise<StreamableFile> {
+  const contents =
+    format === "csv"
+      ? Buffer.from(toCsv(sheets[0]?.rows ?? [], sheets[0]?.columns ?? []))
+      : await toXlsx(sheets);
+
+  return new StreamableFile(contents, {
+    type: EXPORT_CONTENT_TYPES[format],
+    disposition: `attachment; filename="${filename}.${format}"`,
+    length: contents.length,
+  });
+}
+
+/**
+ * Quote a CSV cell when needed and neutralise formula-like text
+ */
+function escapeCsvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
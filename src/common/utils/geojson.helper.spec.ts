@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for GeoJSON helpers
+ *
+ * Verifies FeatureCollection shape, coordinate order and handling of
+ * records without coordinates.
+ */
+
+import { toPointFeatureCollection } from "./geojson.helper";
+
+describe("toPointFeatureCollection", () => {
+  it("should emit Point geometry in [longitude, latitude] order", () => {
+    const collection = toPointFeatureCollection(
+      [
+        {
+          id: 1,
+          name: "South Texas Project",
+          latitude: 28.7953,
+          longitude: -96.0486,
+        },
+      ],
+      ({ name }) => ({ name })
+    );
+
+    expect(collection).toEqual({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          id: 1,
+          geometry: { type: "Point", coordinates: [-96.0486, 28.7953] },
+          properties: { name: "South Texas Project" },
+        },
+      ],
+    });
+  });
+
+  it("should keep records without coordinates with null geometry", () => {
+    const collection = toPointFeatureCollection(
+      [
+        { id: 1, latitude: null, longitude: -96.0486 },
+        { id: 2, latitude: undefined, longitude: undefined },
+      ],
+      ({ id }) => ({ id })
+    );
+
+    expect(collection.features).toHaveLength(2);
+    collection.features.forEach((feature) =>
+      expect(feature.geometry).toBeNull()
+    );
+  });
+
+  it("should accept zero coordinates", () => {
+    const collection = toPointFeatureCollection(
+      [{ latitude: 0, longitude: 0 }],
+      () => ({})
+    );
+
+    expect(collection.features[0]!.geometry).toEqual({
+      type: "Point",
+      coordinates: [0, 0],
+    });
+    expect(collection.features[0]).not.toHaveProperty("id");
+  });
+
+  it("should return an empty collection for no records", () => {
+    expect(toPointFeatureCollection([], () => ({}))).toEqual({
+      type: "FeatureCollection",
+      features: [],
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * GeoJSON (RFC 7946) helpers for map-ready responses
+ * Coordinates are emitted in [longitude, latitude] order as the spec requires
+ */
+
+/**
+ * Media type registered for GeoJSON documents
+ */
+export const GEOJSON_CONTENT_TYPE = "application/geo+json";
+
+export interface GeoJsonPoint {
+  type: "Point";
+  coordinates: [number, number];
+}
+
+export interface GeoJsonFeature<P> {
+  type: "Feature";
+  id?: number | string;
+  geometry: GeoJsonPoint | null;
+  properties: P;
+}
+
+export interface GeoJsonFeatureCollection<P> {
+  type: "FeatureCollection";
+  features: GeoJsonFeature<P>[];
+}
+
+/**
+ * Record that may carry WGS84 coordinates
+ */
+export interface Locatable {
+  id?: number;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+/**
+ * Build a FeatureCollection of Point features
+ *
+ * Records without coordinates keep their place with a null geometry (valid
+ * GeoJSON; Leaflet and QGIS skip them when drawing) so feature counts and
+ * ranks still match the JSON response.
+ *
+ * @param items - Records to convert, in output order
+ * @param toProperties - Maps a record to its feature properties
+ * @returns FeatureCollection with one feature per record
+ *
+ * @example
+ * toPointFeatureCollection(plants, ({ name }) => ({ name }));
+ * // => { type: "FeatureCollection", features: [{ type: "Feature", ... }] }
+ */
+export function toPointFeatureCollection<T extends Locatable, P>(
+  items: T[],
+  toProperties: (item: T) => P
+): GeoJsonFeatureCollection<P> {
+  return {
+    type: "FeatureCollection",
+    features: items.map((item) => ({
+      type: "Feature",
+      ...(item.id !== undefined && { id: item.id }),
+      geometry:
+        item.latitude != null && item.longitude != null
+          ? { type: "Point", coordinates: [item.longitude, item.latitude] }
+          : null,
+      properties: toProperties(item),
+    })),
+  };
+}
@@ -0,0 +1,107 @@
+import { generateKeyPairSync } from "crypto";
+import { JwtVerificationError, signJwt, verifyJwt } from "./jwt.helper";
+
+describe("jwt.helper", () => {
+  const SECRET = "helper-secret";
+  const NOW = 1_700_000_000;
+
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  describe("verifyJwt", () => {
+    it("should round-trip an HS256 token", () => {
+      const token = signJwt({ sub: "a", exp: NOW + 60, scope: "x" }, SECRET);
+
+      expect(verifyJwt(token, { secret: SECRET, now: NOW })).toEqual({
+        sub: "a",
+        exp: NOW + 60,
+        scope: "x",
+      });
+    });
+
+    it("should round-trip an RS256 token", () => {
+      const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+        modulusLength: 2048,
+      });
+      const token = signJwt({ sub: "a", exp: NOW + 60 }, privateKey, "RS256");
+
+      expect(
+        verifyJwt(token, { publicKeys: [{ key: publicKey }], now: NOW }).sub
+      ).toBe("a");
+    });
+
+    it("should reject alg none", () => {
+      const token = `${encode({ alg: "none" })}.${encode({
+        sub: "a",
+        exp: NOW + 60,
+      })}.c2ln`;
+
+      expect(() => verifyJwt(token, { secret: SECRET, now: NOW })).toThrow(
+        "Unsupported token algorithm: none"
+      );
+    });
+
+    it("should reject HS256 when no secret is configured", () => {
+      const token = signJwt({ sub: "a", exp: NOW + 60 }, SECRET);
+
+      expect(() => verifyJwt(token, { now: NOW })).toThrow(
+        "HS256 tokens are not accepted"
+      );
+    });
+
+    it("should reject a tampered payload", () => {
+      const [header, , signature] = signJwt(
+        { sub: "a", exp: NOW + 60 },
+        SECRET
+      ).split(".");
+      const token = `${header}.${encode({ sub: "admin", exp: NOW + 60 })}.${signature}`;
+
+      expect(() => verifyJwt(token, { secret: SECRET, now: NOW })).toThrow(
+        "Invalid token signature"
+      );
+    });
+
+    it("should require an exp claim", () => {
+      const token = signJwt({ sub: "a" }, SECRET);
+
+      expect(() => verifyJwt(token, { secret: SECRET, now: NOW })).toThrow(
+        "Token has no expiry"
+      );
+    });
+
+    it("should flag expired tokens", () => {
+      const token = signJwt({ sub: "a", exp: NOW - 1 }, SECRET);
+
+      let caught: unknown;
+      try {
+        verifyJwt(token, { secret: SECRET, now: NOW });
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(JwtVerificationError);
+      expect((caught as JwtVerificationError).expired).toBe(true);
+    });
+
+    it("should apply clock tolerance to exp and nbf", () => {
+      const expired = signJwt({ sub: "a", exp: NOW - 10 }, SECRET);
+      const early = signJwt({ sub: "a", exp: NOW + 60, nbf: NOW + 10 }, SECRET);
+      const options = { secret: SECRET, now: NOW, clockToleranceSec: 30 };
+
+      expect(() => verifyJwt(expired, options)).not.toThrow();
+      expect(() => verifyJwt(early, options)).not.toThrow();
+      expect(() =>
+        verifyJwt(early, { ...options, clockToleranceSec: 0 })
+      ).toThrow("Token is not yet valid");
+    });
+
+    it("should reject malformed tokens", () => {
+      expect(() => verifyJwt("abc", { secret: SECRET })).toThrow(
+        "Malformed token"
+      );
+      expect(() => verifyJwt("a.b.c", { secret: SECRET })).toThrow(
+        "Malformed token"
+      );
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  createHmac,
+  createPublicKey,
+  createSign,
+  createVerify,
+  JsonWebKey,
+  KeyObject,
+  timingSafeEqual,
+} from "crypto";
+import { readFileSync } from "fs";
+
+/**
+ * Minimal JWS (compact JWT) signing and verification helpers
+ *
+ * Only the algorithms this API accepts are supported: HS256 with a shared
+ * secret, and RS256 with public keys loaded from a PEM or JWKS file.
+ * Anything else (including `alg: "none"`) is rejected.
+ */
+
+export const JWT_ALGORITHMS = ["HS256", "RS256"] as const;
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+/**
+ * Registered claims we validate, plus any custom claims
+ */
+export interface JwtPayload {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * RS256 verification key, optionally identified by a JWKS `kid`
+ */
+export interface JwtPublicKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+export interface JwtVerifyOptions {
+  /** Shared secret for HS256 tokens (HS256 is rejected when absent) */
+  secret?: string;
+  /** Public keys for RS256 tokens (RS256 is rejected when empty) */
+  publicKeys?: JwtPublicKey[];
+  /** Expected `iss` claim, if any */
+  issuer?: string;
+  /** Expected `aud` claim, if any */
+  audience?: string;
+  /** Allowed clock skew for exp/nbf checks, in seconds */
+  clockToleranceSec?: number;
+  /** Current time in seconds since the epoch (defaults to now) */
+  now?: number;
+}
+
+/**
+ * Raised when a token is malformed, badly signed or not currently valid
+ */
+export class JwtVerificationError extends Error {
+  constructor(
+    message: string,
+    readonly expired = false
+  ) {
+    super(message);
+    this.name = "JwtVerificationError";
+  }
+}
+
+/**
+ * Verify a compact JWT and return its payload
+ *
+ * The token must carry an `exp` claim; `nbf`, `iss` and `aud` are checked
+ * when present or configured.
+ *
+ * @throws JwtVerificationError when the token is not acceptable
+ */
+export function verifyJwt(
+  token: string,
+  options: JwtVerifyOptions
+): JwtPayload {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts.some((part) => part.length === 0)) {
+    throw new JwtVerificationError("Malformed token");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts as [
+    string,
+    string,
+    string,
+  ];
+
+  const header = decodeSegment(encodedHeader);
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  const signature = Buffer.from(encodedSignature, "base64url");
+
+  if (header.alg === "HS256") {
+    if (!options.secret) {
+      throw new JwtVerificationError("HS256 tokens are not accepted");
+    }
+    const expected = createHmac("sha256", options.secret)
+      .update(signingInput)
+      .digest();
+    if (
+      expected.length !== signature.length ||
+      !timingSafeEqual(expected, signature)
+    ) {
+      throw new JwtVerificationError("Invalid token signature");
+    }
+  } else if (header.alg === "RS256") {
+    const candidates = (options.publicKeys ?? []).filter(
+      (candidate) =>
+        header.kid === undefined ||
+        candidate.kid === undefined ||
+        candidate.kid === header.kid
+    );
+    if (candidates.length === 0) {
+      throw new JwtVerificationError("No public key matches this token");
+    }
+    const valid = candidates.some(({ key }) =>
+      createVerify("RSA-SHA256").update(signingInput).verify(key, signature)
+    );
+    if (!valid) {
+      throw new JwtVerificationError("Invalid token signature");
+    }
+  } else {
+    throw new JwtVerificationError(
+      `Unsupported token algorithm: ${String(header.alg)}`
+    );
+  }
+
+  const payload = decodeSegment(encodedPayload) as JwtPayload;
+  validateClaims(payload, options);
+  return payload;
+}
+
+/**
+ * Sign a payload as a compact JWT
+ *
+ * Used by the token script and tests; the API itself never issues tokens.
+ *
+ * @param key - HS256 secret, or RS256 private key (PEM or KeyObject)
+ */
+export function signJwt(
+  payload: JwtPayload,
+  key: string | KeyObject,
+  algorithm: JwtAlgorithm = "HS256",
+  kid?: string
+): string {
+  const header = { alg: algorithm, typ: "JWT", ...(kid ? { kid } : {}) };
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const signature =
+    algorithm === "HS256"
+      ? createHmac("sha256", key as string)
+          .update(signingInput)
+          .digest()
+      : createSign("RSA-SHA256").update(signingInput).sign(key);
+
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Load RS256 verification keys from a PEM public key and/or a JWKS file
+ *
+ * Only RSA keys from the JWKS are used; keys marked for another `use` or
+ * algorithm are skipped.
+ */
+export function loadJwtPublicKeys(
+  publicKeyFile?: string,
+  jwksFile?: string
+): JwtPublicKey[] {
+  const keys: JwtPublicKey[] = [];
+
+  if (publicKeyFile) {
+    keys.push({ key: createPublicKey(readFileSync(publicKeyFile, "utf8")) });
+  }
+
+  if (jwksFile) {
+    const jwks = JSON.parse(readFileSync(jwksFile, "utf8")) as {
+      keys?: JsonWebKey[];
+    };
+    for (const jwk of jwks.keys ?? []) {
+      if (jwk.kty !== "RSA") continue;
+      if (jwk.use !== undefined && jwk.use !== "sig") continue;
+      if (jwk.alg !== undefined && jwk.alg !== "RS256") continue;
+      keys.push({
+        ...(typeof jwk.kid === "string" ? { kid: jwk.kid } : {}),
+        key: createPublicKey({ key: jwk, format: "jwk" }),
+      });
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Check exp / nbf / iss / aud claims
+ */
+function validateClaims(payload: JwtPayload, options: JwtVerifyOptions): void {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSec ?? 0;
+
+  if (typeof payload.exp !== "number") {
+    throw new JwtVerificationError("Token has no expiry");
+  }
+  if (now - tolerance >= payload.exp) {
+    throw new JwtVerificationError("Token has expired", true);
+  }
+  if (typeof payload.nbf === "number" && now + tolerance < payload.nbf) {
+    throw new JwtVerificationError("Token is not yet valid");
+  }
+  if (options.issuer && payload.iss !== options.issuer) {
+    throw new JwtVerificationError("Token issuer is not accepted");
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new JwtVerificationError("Token audience is not accepted");
+    }
+  }
+}
+
+/**
+ * Decode a base64url JSON segment (header or payload)
+ */
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, "base64url").toString());
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return value;
+    }
+  } catch {
+    // fall through
+  }
+  throw new JwtVerificationError("Malformed token");
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
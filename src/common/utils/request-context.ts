@@ -0,0 +1,51 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Request-scoped context
+ *
+ * TraceIdMiddleware opens a context for every HTTP request; everything that
+ * runs on behalf of the request (guards, handlers, Prisma and Redis calls,
+ * log lines) can read it without the request object being passed around.
+ * Outside a request (startup, timers) there is no context.
+ */
+
+/**
+ * Header carrying the correlation ID, accepted from callers and echoed on
+ * every response
+ */
+export const TRACE_ID_HEADER = "X-Trace-Id";
+
+export interface RequestContext {
+  /** Correlation ID of the request */
+  traceId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function inside a request context
+ *
+ * @param context - Context visible to everything `fn` starts
+ * @param fn - Function to run
+ * @returns Whatever `fn` returns
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T
+): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context of the current request, undefined outside a request
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Trace ID of the current request, undefined outside a request
+ */
+export function getTraceId(): string | undefined {
+  return storage.getStore()?.traceId;
+}
@@ -1,3 +1,22 @@
+import { LogLevel } from "@nestjs/common";
+
+/**
+ * Log levels from most to least verbose
+ */
+export const LOG_LEVELS: LogLevel[] = [
+  "verbose",
+  "debug",
+  "log",
+  "warn",
+  "error",
+  "fatal",
+];
+
+/**
+ * Log destinations (see src/common/logger/log-sinks.ts)
+ */
+export type LogSinkName = "console" | "file";
+
 /**
  * Application Configuration Interface
  *
@@ -22,12 +41,82 @@ export interface Config {
     database: string;
   };
 
-  /** JWT authentication settings (for future use) */
+  /** JWT authentication settings */
   jwt: {
-    /** Secret key for signing JWT tokens */
+    /** Shared secret for HS256 tokens */
     secret: string;
-    /** Token expiration time (e.g., "24h", "7d") */
+    /** Token expiration time for issued tokens (e.g., "24h", "7d") */
     expiresIn: string;
+    /** PEM public key file for RS256 tokens (optional) */
+    publicKeyFile: string | undefined;
+    /** JWKS file with RS256 public keys, selected by `kid` (optional) */
+    jwksFile: string | undefined;
+    /** Required `iss` claim (optional) */
+    issuer: string | undefined;
+    /** Required `aud` claim (optional) */
+    audience: string | undefined;
+    /** Allowed clock skew when checking exp/nbf, in seconds */
+    clockToleranceSec: number;
+  };
+
+  /** Persisted audit log settings */
+  auditLog: {
+    /** Days to keep audit log rows before they are purged */
+    retentionDays: number;
+    /** Maximum time a recorded entry waits before being written, in ms */
+    flushIntervalMs: number;
+    /** Entries written per insert; a full batch is written immediately */
+    batchSize: number;
+  };
+
+  /** Per-client rate limits, in requests per minute */
+  rateLimit: {
+    /** Unauthenticated requests to public routes, per client IP */
+    anonymous: number;
+    /** Callers whose highest role is viewer (or who have no role) */
+    viewer: number;
+    /** Callers whose highest role is analyst */
+    analyst: number;
+    /** Callers whose highest role is admin */
+    admin: number;
+    /** Fraction of a client's limit available to expensive routes */
+    expensiveRatio: number;
+  };
+
+  /** API response cache settings */
+  cache: {
+    /** Entries older than this are served while being refreshed, in seconds */
+    softTtlSec: number;
+    /** Entries older than this are gone and must be reloaded, in seconds */
+    hardTtlSec: number;
+    /** Lock held while one instance loads a key; others wait this long, in ms */
+    lockTimeoutMs: number;
+    /** Total size of the in-process tier, in bytes of JSON; 0 disables it */
+    l1MaxBytes: number;
+    /** Larger entries are only cached in Redis, in bytes of JSON */
+    l1MaxEntryBytes: number;
+    /** Longest time an entry stays in the in-process tier, in seconds */
+    l1TtlSec: number;
+    /** Most-requested keys warmed after an ingestion */
+    warmSetSize: number;
+    /** Days of recorded requests the warm-set is learned from */
+    warmWindowDays: number;
+  };
+
+  /** Log output settings */
+  logging: {
+    /** Least severe level written ("log" is also accepted as "info") */
+    level: LogLevel;
+    /** Console output: one JSON object per line, or colored text */
+    format: "json" | "pretty";
+    /** Where log entries are written */
+    sinks: LogSinkName[];
+    /** JSON lines file written by the "file" sink */
+    file: string;
+    /** Prisma operations slower than this are logged as warnings, in ms */
+    slowQueryMs: number;
+    /** Redis commands slower than this are logged as warnings, in ms */
+    slowRedisMs: number;
   };
 }
 
@@ -46,6 +135,33 @@ export interface Config {
  * - DB_NAME: Database name (default: aiq_energy_insights)
  * - JWT_SECRET: JWT secret key (default: your-secret-key)
  * - JWT_EXPIRES_IN: JWT expiration (default: 24h)
+ * - JWT_PUBLIC_KEY_FILE: PEM public key for RS256 tokens (optional)
+ * - JWT_JWKS_FILE: Local JWKS file for RS256 tokens (optional)
+ * - JWT_ISSUER: Required token issuer (optional)
+ * - JWT_AUDIENCE: Required token audience (optional)
+ * - JWT_CLOCK_TOLERANCE: Clock skew allowance in seconds (default: 30)
+ * - AUDIT_LOG_RETENTION_DAYS: Audit log retention (default: 90)
+ * - AUDIT_LOG_FLUSH_INTERVAL_MS: Audit log write delay (default: 1000)
+ * - AUDIT_LOG_BATCH_SIZE: Audit log rows per insert (default: 100)
+ * - RATE_LIMIT_ANONYMOUS: Requests/min per IP without credentials (default: 60)
+ * - RATE_LIMIT_VIEWER: Requests/min for viewers (default: 100)
+ * - RATE_LIMIT_ANALYST: Requests/min for analysts (default: 300)
+ * - RATE_LIMIT_ADMIN: Requests/min for admins (default: 1000)
+ * - RATE_LIMIT_EXPENSIVE_RATIO: Share of the limit for expensive routes (default: 0.1)
+ * - CACHE_SOFT_TTL: Seconds a cached response is fresh (default: 3600)
+ * - CACHE_HARD_TTL: Seconds a stale response may still be served (default: 21600)
+ * - CACHE_LOCK_TIMEOUT_MS: Cache load lock expiry and wait (default: 10000)
+ * - CACHE_L1_MAX_BYTES: In-process cache size, 0 disables it (default: 16777216)
+ * - CACHE_L1_MAX_ENTRY_BYTES: Largest entry kept in process (default: 65536)
+ * - CACHE_L1_TTL: Seconds an entry is kept in process (default: 60)
+ * - CACHE_WARM_SET_SIZE: Most-requested keys warmed after ingestion (default: 100)
+ * - CACHE_WARM_WINDOW_DAYS: Days of requests the warm-set is learned from (default: 7)
+ * - LOG_LEVEL: fatal, error, warn, info, debug or verbose (default: info)
+ * - LOG_FORMAT: json or pretty (default: json in production, pretty otherwise)
+ * - LOG_SINKS: Comma-separated log destinations: console, file (default: console)
+ * - LOG_FILE: File for the file sink (default: logs/app.log)
+ * - SLOW_QUERY_MS: Slow database query threshold (default: 500)
+ * - SLOW_REDIS_MS: Slow Redis command threshold (default: 100)
  *
  * Note: In production, always set these via environment variables.
  * Never use default values in production deployments.
@@ -64,5 +180,72 @@ export const config = (): Config => ({
   jwt: {
     secret: process.env.JWT_SECRET || "your-secret-key",
     expiresIn: process.env.JWT_EXPIRES_IN || "24h",
+    publicKeyFile: process.env.JWT_PUBLIC_KEY_FILE || undefined,
+    jwksFile: process.env.JWT_JWKS_FILE || undefined,
+    issuer: process.env.JWT_ISSUER || undefined,
+    audience: process.env.JWT_AUDIENCE || undefined,
+    clockToleranceSec: parseInt(process.env.JWT_CLOCK_TOLERANCE || "30", 10),
+  },
+  auditLog: {
+    retentionDays: parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || "90", 10),
+    flushIntervalMs: parseInt(
+      process.env.AUDIT_LOG_FLUSH_INTERVAL_MS || "1000",
+      10
+    ),
+    batchSize: parseInt(process.env.AUDIT_LOG_BATCH_SIZE || "100", 10),
+  },
+  rateLimit: {
+    anonymous: parseInt(process.env.RATE_LIMIT_ANONYMOUS || "60", 10),
+    viewer: parseInt(process.env.RATE_LIMIT_VIEWER || "100", 10),
+    analyst: parseInt(process.env.RATE_LIMIT_ANALYST || "300", 10),
+    admin: parseInt(process.env.RATE_LIMIT_ADMIN || "1000", 10),
+    expensiveRatio: parseFloat(process.env.RATE_LIMIT_EXPENSIVE_RATIO || "0.1"),
+  },
+  cache: {
+    softTtlSec: parseInt(process.env.CACHE_SOFT_TTL || "3600", 10),
+    hardTtlSec: parseInt(process.env.CACHE_HARD_TTL || "21600", 10),
+    lockTimeoutMs: parseInt(process.env.CACHE_LOCK_TIMEOUT_MS || "10000", 10),
+    l1MaxBytes: parseInt(process.env.CACHE_L1_MAX_BYTES || "16777216", 10),
+    l1MaxEntryBytes: parseInt(
+      process.env.CACHE_L1_MAX_ENTRY_BYTES || "65536",
+      10
+    ),
+    l1TtlSec: parseInt(process.env.CACHE_L1_TTL || "60", 10),
+    warmSetSize: parseInt(process.env.CACHE_WARM_SET_SIZE || "100", 10),
+    warmWindowDays: parseInt(process.env.CACHE_WARM_WINDOW_DAYS || "7", 10),
+  },
+  logging: {
+    level: parseLogLevel(process.env.LOG_LEVEL),
+    format: parseLogFormat(process.env.LOG_FORMAT),
+    sinks: (process.env.LOG_SINKS || "console")
+      .split(",")
+      .map((sink) => sink.trim())
+      .filter(
+        (sink): sink is LogSinkName => sink === "console" || sink === "file"
+      ),
+    file: process.env.LOG_FILE || "logs/app.log",
+    slowQueryMs: parseInt(process.env.SLOW_QUERY_MS || "500", 10),
+    slowRedisMs: parseInt(process.env.SLOW_REDIS_MS || "100", 10),
   },
 });
+
+/**
+ * Map LOG_LEVEL to a Nest log level; unknown values fall back to "log"
+ */
+function parseLogLevel(value: string | undefined): LogLevel {
+  const level = value?.trim().toLowerCase();
+  if (level === "info") {
+    return "log";
+  }
+  return LOG_LEVELS.find((known) => known === level) ?? "log";
+}
+
+/**
+ * Map LOG_FORMAT to a console format; defaults to JSON in production
+ */
+function parseLogFormat(value: string | undefined): "json" | "pretty" {
+  if (value === "json" || value === "pretty") {
+    return value;
+  }
+  return process.env.NODE_ENV === "production" ? "json" : "pretty";
+}
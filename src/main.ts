@@ -10,6 +10,8 @@
  * Environment Variables:
  * - PORT: Server port (default: 3000)
  * - ALLOWED_ORIGINS: Comma-separated list of allowed CORS origins (default: *)
+ * - TRUST_PROXY: Express "trust proxy" setting, e.g. 1 behind one load
+ *   balancer (default: off)
  *
  * Endpoints:
  * - http://localhost:3000/api - API base
@@ -19,9 +21,11 @@
 import "dotenv/config"; // Load .env file into process.env
 import { NestFactory } from "@nestjs/core";
 import { ValidationPipe, Logger } from "@nestjs/common";
+import { NestExpressApplication } from "@nestjs/platform-express";
 import { SwaggerModule, DocumentBuilder } from "@nestjs/swagger";
 import helmet from "helmet";
 import { AppModule } from "./app.module";
+import { AppLogger } from "./common/logger/app.logger";
 import {
   HttpExceptionFilter,
   AllExceptionsFilter,
@@ -35,7 +39,27 @@ import {
  */
 async function bootstrap() {
   const logger = new Logger("Bootstrap");
-  const app = await NestFactory.create(AppModule);
+  // Structured logs (LOG_LEVEL, LOG_FORMAT, LOG_SINKS), tagged with the
+  // request's trace ID
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    logger: new AppLogger(),
+  });
+
+  // ===========================
+  // Reverse Proxy
+  // ===========================
+  // Behind a load balancer, req.ip is the balancer's address unless Express
+  // trusts X-Forwarded-For. Anonymous rate limits and audit logs use req.ip.
+  // TRUST_PROXY: hop count (e.g. 1), "true", or subnets like "loopback"
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set(
+      "trust proxy",
+      /^\d+$/.test(trustProxy)
+        ? parseInt(trustProxy, 10)
+        : trustProxy === "true" || trustProxy
+    );
+  }
 
   // ===========================
   // Security Middleware (Helmet)
@@ -66,6 +90,7 @@ async function bootstrap() {
   app.enableCors({
     origin: process.env.ALLOWED_ORIGINS?.split(",") || "*",
     credentials: true, // Allow cookies and authorization headers
+    exposedHeaders: ["X-Trace-Id"], // Let browser clients read the trace ID
   });
 
   // ===========================
@@ -118,6 +143,8 @@ async function bootstrap() {
     .addTag("System", "Health checks and system information")
     .addTag("Plants", "Power plant generation endpoints")
     .addTag("States", "State-level generation summary endpoints")
+    .addBearerAuth()
+    .addApiKey({ type: "apiKey", name: "X-API-Key", in: "header" }, "api-key")
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
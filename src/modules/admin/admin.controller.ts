@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Query,
+  Logger,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from "@nestjs/swagger";
+import { Roles, Role } from "../../common/decorators/roles.decorator";
+import { AdminService } from "./admin.service";
+import {
+  CacheStatsResponseDto,
+  ClearCacheQueryDto,
+  ClearCacheResponseDto,
+  ErrorResponseDto,
+} from "./dto/admin.dto";
+
+/**
+ * AdminController
+ *
+ * Administrative endpoints, restricted to the admin role:
+ * - DELETE /admin/cache - Clear cached API responses
+ * - GET /admin/cache/stats - Cache hit/miss counters
+ */
+@Controller("admin")
+@ApiTags("Admin")
+@ApiBearerAuth()
+@ApiSecurity("api-key")
+@Roles(Role.Admin)
+@ApiResponse({
+  status: 401,
+  description: "Missing, invalid or expired credentials",
+  type: ErrorResponseDto,
+})
+@ApiResponse({
+  status: 403,
+  description: "Caller does not have the admin role",
+  type: ErrorResponseDto,
+})
+export class AdminController {
+  private readonly logger = new Logger(AdminController.name);
+
+  constructor(private readonly adminService: AdminService) {}
+
+  /**
+   * DELETE /admin/cache
+   * Clear cached API responses
+   *
+   * @param query - Query parameters (tag)
+   * @returns Number of keys deleted
+   */
+  @Delete("cache")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Clear response caches",
+    description:
+      "Deletes cached API responses from Redis, either all of them or only those carrying one tag (a namespace such as `plants`, or an entity tag such as `state:TX`, `year:2023` or `plant:42`). Requires the admin role.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Cache cleared",
+    type: ClearCacheResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Malformed cache tag",
+    type: ErrorResponseDto,
+  })
+  async clearCache(@Query() query: ClearCacheQueryDto) {
+    this.logger.log(`DELETE /admin/cache - Tag: ${query.tag || "ALL"}`);
+    return this.adminService.clearCache(query.tag);
+  }
+
+  /**
+   * GET /admin/cache/stats
+   * Cache hit/miss counters
+   *
+   * @returns Dataset version and counters per namespace and in total
+   */
+  @Get("cache/stats")
+  @ApiOperation({
+    summary: "Cache hit/miss statistics",
+    description:
+      "Current cache dataset version, and in-process cache size, and in-process hits, Redis hits, stale hits, misses and Redis errors of the response cache per namespace, counted by this instance since it started. Requires the admin role.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Cache statistics",
+    type: CacheStatsResponseDto,
+  })
+  async getCacheStats(): Promise<CacheStatsResponseDto> {
+    this.logger.log("GET /admin/cache/stats");
+    return this.adminService.getCacheStats();
+  }
+}
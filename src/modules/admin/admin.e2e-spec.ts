@@ -0,0 +1,254 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { INestApplication, ValidationPipe } from "@nestjs/common";
+import request from "supertest";
+import { AppModule } from "../../app.module";
+import { config } from "../../config/configuration";
+import { signJwt } from "../../common/utils/jwt.helper";
+import { AuditLogsService } from "../audit-logs/audit-logs.service";
+
+/**
+ * E2E tests for Admin API endpoints
+ *
+ * Tests role enforcement on admin-only routes:
+ * - 401 without a token
+ * - 403 for non-admin roles
+ * - Cache clearing and statistics for admins
+ * - API key lifecycle (create, use, rotate, revoke)
+ * - Audit log recording and queries
+ *
+ * Prerequisites:
+ * - Database must be running with seed data
+ * - Redis is optional (graceful fallback)
+ */
+describe("Admin API (E2E)", () => {
+  let app: INestApplication;
+
+  /**
+   * Bearer header for a caller with the given roles
+   */
+  const bearer = (...roles: string[]) =>
+    `Bearer ${signJwt(
+      { sub: "e2e", roles, exp: Math.floor(Date.now() / 1000) + 3600 },
+      config().jwt.secret
+    )}`;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+
+    // Apply same configuration as main.ts
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: {
+          enableImplicitConversion: true,
+        },
+      })
+    );
+
+    app.setGlobalPrefix("api/v1");
+
+    await app.init();
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  }, 10000);
+
+  describe("DELETE /api/v1/admin/cache", () => {
+    it("should require authentication", () => {
+      return request(app.getHttpServer())
+        .delete("/api/v1/admin/cache")
+        .expect(401);
+    });
+
+    it("should reject non-admin roles", () => {
+      return request(app.getHttpServer())
+        .delete("/api/v1/admin/cache")
+        .set("Authorization", bearer("analyst"))
+        .expect(403)
+        .expect((res) => {
+          expect(res.body.message).toBe("Requires one of: admin");
+        });
+    });
+
+    it("should clear caches for admins", () => {
+      return request(app.getHttpServer())
+        .delete("/api/v1/admin/cache")
+        .set("Authorization", bearer("admin"))
+        .expect(200)
+        .expect((res) => {
+          expect(typeof res.body.deletedKeys).toBe("number");
+          expect(res.body.tags).toHaveProperty("plants");
+        });
+    });
+
+    it("should clear a single tag", () => {
+      return request(app.getHttpServer())
+        .delete("/api/v1/admin/cache?tag=state:TX")
+        .set("Authorization", bearer("admin"))
+        .expect(200)
+        .expect((res) => {
+          expect(Object.keys(res.body.tags)).toEqual(["state:TX"]);
+        });
+    });
+
+    it("should validate the tag", () => {
+      return request(app.getHttpServer())
+        .delete("/api/v1/admin/cache?tag=sessions")
+        .set("Authorization", bearer("admin"))
+        .expect(400);
+    });
+  });
+
+  describe("GET /api/v1/admin/cache/stats", () => {
+    it("should reject non-admin roles", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/admin/cache/stats")
+        .set("Authorization", bearer("analyst"))
+        .expect(403);
+    });
+
+    it("should count cache lookups", async () => {
+      const server = app.getHttpServer();
+
+      await request(server)
+        .get("/api/v1/states?year=2023")
+        .set("Authorization", bearer("analyst"))
+        .expect(200);
+
+      const res = await request(server)
+        .get("/api/v1/admin/cache/stats")
+        .set("Authorization", bearer("admin"))
+        .expect(200);
+
+      const { hits, misses } = res.body.namespaces.states;
+      expect(hits + misses).toBeGreaterThanOrEqual(1);
+      expect(res.body.total).toHaveProperty("hitRate");
+      expect(typeof res.body.datasetVersion).toBe("number");
+      expect(res.body).toHaveProperty("l1");
+    });
+  });
+
+  describe("/api/v1/admin/api-keys", () => {
+    it("should create, use, rotate and revoke a key", async () => {
+      const server = app.getHttpServer();
+
+      const created = await request(server)
+        .post("/api/v1/admin/api-keys")
+        .set("Authorization", bearer("admin"))
+        .send({ name: "e2e-client", scopes: ["viewer"] })
+        .expect(201);
+      expect(created.body.key).toMatch(/^aiq_/);
+      expect(created.body).not.toHaveProperty("keyHash");
+
+      await request(server)
+        .get("/api/v1/plants?top=1")
+        .set("X-API-Key", created.body.key)
+        .expect(200);
+
+      // viewer scope does not grant admin routes
+      await request(server)
+        .delete("/api/v1/admin/cache")
+        .set("X-API-Key", created.body.key)
+        .expect(403);
+
+      const rotated = await request(server)
+        .post(`/api/v1/admin/api-keys/${created.body.id}/rotate`)
+        .set("Authorization", bearer("admin"))
+        .expect(200);
+
+      await request(server)
+        .get("/api/v1/plants?top=1")
+        .set("X-API-Key", created.body.key)
+        .expect(401);
+
+      await request(server)
+        .delete(`/api/v1/admin/api-keys/${created.body.id}`)
+        .set("Authorization", bearer("admin"))
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.revokedAt).not.toBeNull();
+        });
+
+      await request(server)
+        .get("/api/v1/plants?top=1")
+        .set("X-API-Key", rotated.body.key)
+        .expect(401);
+    });
+
+    it("should validate scopes", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/admin/api-keys")
+        .set("Authorization", bearer("admin"))
+        .send({ name: "bad", scopes: ["root"] })
+        .expect(400);
+    });
+
+    it("should return 404 for unknown keys", () => {
+      return request(app.getHttpServer())
+        .delete("/api/v1/admin/api-keys/999999")
+        .set("Authorization", bearer("admin"))
+        .expect(404);
+    });
+  });
+
+  describe("GET /api/v1/admin/audit-logs", () => {
+    it("should reject non-admin roles", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/admin/audit-logs")
+        .set("Authorization", bearer("analyst"))
+        .expect(403);
+    });
+
+    it("should record requests with masked query parameters", async () => {
+      const server = app.getHttpServer();
+      const subject = `audit-${Date.now()}`;
+      const token = signJwt(
+        {
+          sub: subject,
+          roles: ["viewer"],
+          exp: Math.floor(Date.now() / 1000) + 3600,
+        },
+        config().jwt.secret
+      );
+
+      await request(server)
+        .get("/api/v1/plants?top=1&token=leaked")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(200);
+
+      // Entries are written in batches; write this one now
+      await app.get(AuditLogsService).flush();
+
+      const res = await request(server)
+        .get(`/api/v1/admin/audit-logs?userId=${subject}&status=200`)
+        .set("Authorization", bearer("admin"))
+        .expect(200);
+
+      expect(res.body.data).toHaveLength(1);
+      expect(res.body.data[0]).toMatchObject({
+        userId: subject,
+        authMethod: "jwt",
+        method: "GET",
+        path: "/api/v1/plants?top=1&token=***",
+        statusCode: 200,
+      });
+      expect(res.body.meta.hasMore).toBe(false);
+    });
+
+    it("should validate filters", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/admin/audit-logs?status=700&from=yesterday")
+        .set("Authorization", bearer("admin"))
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,15 @@
+import { Module } from "@nestjs/common";
+import { AdminController } from "./admin.controller";
+import { AdminService } from "./admin.service";
+
+/**
+ * AdminModule
+ *
+ * Administrative operations restricted to the admin role
+ * (enforced by the global RolesGuard)
+ */
+@Module({
+  controllers: [AdminController],
+  providers: [AdminService],
+})
+export class AdminModule {}
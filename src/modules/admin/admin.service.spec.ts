@@ -0,0 +1,135 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { AdminService } from "./admin.service";
+import { CacheService } from "../../cache/cache.service";
+
+/**
+ * Unit tests for AdminService
+ *
+ * Tests cache clearing by tag and cache statistics
+ */
+describe("AdminService", () => {
+  let service: AdminService;
+  let cache: {
+    invalidateTags: jest.Mock;
+    getStats: jest.Mock;
+    getDatasetVersion: jest.Mock;
+    getL1Stats: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    cache = {
+      invalidateTags: jest.fn(),
+      getStats: jest.fn(),
+      getDatasetVersion: jest.fn().mockResolvedValue(3),
+      getL1Stats: jest.fn().mockReturnValue({
+        entries: 2,
+        size: 512,
+        maxSize: 1024,
+        evictions: 0,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminService,
+        {
+          provide: CacheService,
+          useValue: cache,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AdminService>(AdminService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("clearCache", () => {
+    it("should clear every cache namespace by default", async () => {
+      // Arrange
+      cache.invalidateTags.mockResolvedValue(new Map([["plants", 2]]));
+
+      // Act
+      const result = await service.clearCache();
+
+      // Assert
+      expect(result).toEqual({
+        deletedKeys: 2,
+        tags: {
+          plants: 2,
+          plant: 0,
+          states: 0,
+          state: 0,
+          "fuel-mix": 0,
+        },
+      });
+      expect(cache.invalidateTags).toHaveBeenCalledWith([
+        "plants",
+        "plant",
+        "states",
+        "state",
+        "fuel-mix",
+      ]);
+    });
+
+    it("should only clear the requested tag", async () => {
+      // Arrange
+      cache.invalidateTags.mockResolvedValue(new Map([["state:TX", 7]]));
+
+      // Act
+      const result = await service.clearCache("state:TX");
+
+      // Assert
+      expect(result).toEqual({ deletedKeys: 7, tags: { "state:TX": 7 } });
+      expect(cache.invalidateTags).toHaveBeenCalledWith(["state:TX"]);
+    });
+
+    it("should propagate Redis errors", async () => {
+      // Arrange
+      cache.invalidateTags.mockRejectedValue(new Error("Connection lost"));
+
+      // Act & Assert
+      await expect(service.clearCache("plants")).rejects.toThrow(
+        "Connection lost"
+      );
+    });
+  });
+
+  describe("getCacheStats", () => {
+    it("should add totals, hit rates, the in-process tier and the dataset version", async () => {
+      // Arrange
+      cache.getStats.mockReturnValue({
+        plants: { l1Hits: 0, hits: 2, stale: 1, misses: 1, errors: 0 },
+        plant: { l1Hits: 0, hits: 0, stale: 0, misses: 0, errors: 0 },
+        states: { l1Hits: 1, hits: 0, stale: 0, misses: 1, errors: 2 },
+        state: { l1Hits: 0, hits: 0, stale: 0, misses: 0, errors: 0 },
+        "fuel-mix": { l1Hits: 0, hits: 0, stale: 0, misses: 0, errors: 0 },
+      });
+
+      // Act
+      const result = await service.getCacheStats();
+
+      // Assert
+      expect(result.datasetVersion).toBe(3);
+      expect(result.l1).toEqual({
+        entries: 2,
+        size: 512,
+        maxSize: 1024,
+        evictions: 0,
+      });
+      expect(result.total).toEqual({
+        l1Hits: 1,
+        hits: 2,
+        stale: 1,
+        misses: 2,
+        errors: 2,
+        hitRate: 4 / 6,
+      });
+      expect(result.namespaces.plants!.hitRate).toBe(0.75);
+      expect(result.namespaces.states!.hitRate).toBe(0.5);
+      expect(result.namespaces.plant!.hitRate).toBeNull();
+    });
+  });
+});
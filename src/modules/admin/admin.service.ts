@@ -0,0 +1,95 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { CacheService, CacheCounters } from "../../cache/cache.service";
+import { CACHE_NAMESPACES } from "../../cache/cache-keys";
+import {
+  CacheNamespaceStatsDto,
+  CacheStatsResponseDto,
+  ClearCacheResponseDto,
+} from "./dto/admin.dto";
+
+/**
+ * AdminService
+ *
+ * Operational tasks restricted to administrators
+ */
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(private readonly cache: CacheService) {}
+
+  /**
+   * Delete cached API responses
+   *
+   * @param tag - Only clear entries with this tag (default: every namespace)
+   * @returns Number of entries deleted, in total and per tag
+   */
+  async clearCache(tag?: string): Promise<ClearCacheResponseDto> {
+    const tags = tag ? [tag] : [...CACHE_NAMESPACES];
+
+    try {
+      const results = await this.cache.invalidateTags(tags);
+      const counts = Object.fromEntries(
+        tags.map((key) => [key, results.get(key) ?? 0])
+      );
+      const deletedKeys = Object.values(counts).reduce(
+        (sum, count) => sum + count,
+        0
+      );
+
+      this.logger.log(
+        `Cleared ${deletedKeys} cache keys for tags: ${tags.join(", ")}`
+      );
+      return { deletedKeys, tags: counts };
+    } catch (error) {
+      this.logger.error(`Failed to clear cache: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Cache hit/stale/miss counters of this instance since it started
+   *
+   * @returns Dataset version, in-process tier size, and counters and hit rate
+   * per namespace and in total
+   */
+  async getCacheStats(): Promise<CacheStatsResponseDto> {
+    const datasetVersion = await this.cache.getDatasetVersion();
+    const stats = this.cache.getStats();
+    const total: CacheCounters = {
+      l1Hits: 0,
+      hits: 0,
+      stale: 0,
+      misses: 0,
+      errors: 0,
+    };
+    for (const counters of Object.values(stats)) {
+      total.l1Hits += counters.l1Hits;
+      total.hits += counters.hits;
+      total.stale += counters.stale;
+      total.misses += counters.misses;
+      total.errors += counters.errors;
+    }
+
+    return {
+      datasetVersion,
+      l1: this.cache.getL1Stats(),
+      total: this.withHitRate(total),
+      namespaces: Object.fromEntries(
+        Object.entries(stats).map(([namespace, counters]) => [
+          namespace,
+          this.withHitRate(counters),
+        ])
+      ),
+    };
+  }
+
+  private withHitRate(counters: CacheCounters): CacheNamespaceStatsDto {
+    const served = counters.l1Hits + counters.hits + counters.stale;
+    const lookups = served + counters.misses;
+    return {
+      ...counters,
+      hitRate: lookups > 0 ? served / lookups : null,
+    };
+  }
+}
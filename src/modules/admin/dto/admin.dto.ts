@@ -0,0 +1,162 @@
+import { IsOptional, Matches } from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { CACHE_NAMESPACES, CACHE_TAG_PATTERN } from "../../../cache/cache-keys";
+
+/**
+ * DTO for DELETE /admin/cache query parameters
+ */
+export class ClearCacheQueryDto {
+  @ApiPropertyOptional({
+    description: `Only clear entries with this tag: a namespace (${CACHE_NAMESPACES.join(
+      ", "
+    )}) or an entity tag (state:TX, year:2023, plant:42). Omit to clear all caches.`,
+    example: "state:TX",
+  })
+  @IsOptional()
+  @Matches(CACHE_TAG_PATTERN, {
+    message: `tag must be one of ${CACHE_NAMESPACES.join(
+      ", "
+    )}, or state:<CODE>, year:<YYYY> or plant:<ID>`,
+  })
+  tag?: string;
+}
+
+/**
+ * Response DTO for DELETE /admin/cache
+ */
+export class ClearCacheResponseDto {
+  @ApiProperty({
+    description: "Total number of cache entries deleted",
+    example: 42,
+  })
+  deletedKeys!: number;
+
+  @ApiProperty({
+    description: "Entries deleted per tag",
+    type: "object",
+    additionalProperties: { type: "number" },
+    example: { plants: 30, states: 12 },
+  })
+  tags!: Record<string, number>;
+}
+
+/**
+ * Hit, stale, miss and error counts of one cache namespace
+ */
+export class CacheNamespaceStatsDto {
+  @ApiProperty({
+    description: "Requests served from this instance's in-process cache",
+    example: 700,
+  })
+  l1Hits!: number;
+
+  @ApiProperty({ description: "Requests served from Redis", example: 240 })
+  hits!: number;
+
+  @ApiProperty({
+    description:
+      "Requests served a stale value while it was refreshed in the background",
+    example: 12,
+  })
+  stale!: number;
+
+  @ApiProperty({
+    description: "Requests that had to be loaded from the database",
+    example: 60,
+  })
+  misses!: number;
+
+  @ApiProperty({
+    description: "Failed Redis reads/writes (served from the database)",
+    example: 0,
+  })
+  errors!: number;
+
+  @ApiProperty({
+    description:
+      "(l1Hits + hits + stale) / (l1Hits + hits + stale + misses), or null before the first request",
+    example: 0.94,
+    nullable: true,
+    type: Number,
+  })
+  hitRate!: number | null;
+}
+
+/**
+ * Size of this instance's in-process cache tier
+ */
+export class CacheL1StatsDto {
+  @ApiProperty({ description: "Entries held", example: 42 })
+  entries!: number;
+
+  @ApiProperty({ description: "Bytes of JSON held", example: 183406 })
+  size!: number;
+
+  @ApiProperty({
+    description: "Capacity in bytes (CACHE_L1_MAX_BYTES)",
+    example: 16777216,
+  })
+  maxSize!: number;
+
+  @ApiProperty({
+    description: "Entries dropped to make room since the instance started",
+    example: 0,
+  })
+  evictions!: number;
+}
+
+/**
+ * Response DTO for GET /admin/cache/stats
+ */
+export class CacheStatsResponseDto {
+  @ApiProperty({
+    description:
+      "Dataset version embedded in cache keys; bumped by every ingestion",
+    example: 3,
+  })
+  datasetVersion!: number;
+
+  @ApiProperty({
+    description:
+      "In-process cache tier of this instance, or null while it is disabled",
+    type: CacheL1StatsDto,
+    nullable: true,
+  })
+  l1!: CacheL1StatsDto | null;
+
+  @ApiProperty({
+    description: "Counters across all namespaces",
+    type: CacheNamespaceStatsDto,
+  })
+  total!: CacheNamespaceStatsDto;
+
+  @ApiProperty({
+    description: "Counters per namespace",
+    type: "object",
+    additionalProperties: {
+      $ref: "#/components/schemas/CacheNamespaceStatsDto",
+    },
+    example: {
+      plants: {
+        l1Hits: 0,
+        hits: 900,
+        stale: 10,
+        misses: 50,
+        errors: 0,
+        hitRate: 0.948,
+      },
+      states: {
+        l1Hits: 35,
+        hits: 5,
+        stale: 0,
+        misses: 10,
+        errors: 0,
+        hitRate: 0.8,
+      },
+    },
+  })
+  namespaces!: Record<string, CacheNamespaceStatsDto>;
+}
+
+// Re-export common DTOs
+export { ErrorResponseDto } from "../../../common/dto/common.dto";
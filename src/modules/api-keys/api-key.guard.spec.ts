@@ -0,0 +1,108 @@
+import { ExecutionContext } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { ApiKeyGuard } from "./api-key.guard";
+import { ApiKeysService } from "./api-keys.service";
+
+/**
+ * Unit Tests for ApiKeyGuard
+ *
+ * Tests X-API-Key authentication and fall-through to JWT
+ */
+describe("ApiKeyGuard", () => {
+  let guard: ApiKeyGuard;
+  let reflector: Reflector;
+  let apiKeysService: {
+    authenticate: jest.Mock;
+  };
+
+  const record = {
+    id: 7,
+    name: "partner-dashboard",
+    scopes: ["analyst"],
+    rateLimitPerMinute: null as number | null,
+  };
+
+  /**
+   * Helper function to create a mock ExecutionContext
+   */
+  const createMockExecutionContext = (headers: Record<string, string> = {}) => {
+    const request: any = { headers };
+    const response = { setHeader: jest.fn() };
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+      getHandler: () => jest.fn(),
+      getClass: () => jest.fn(),
+    } as unknown as ExecutionContext;
+    return { context, request, response };
+  };
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    jest.spyOn(reflector, "getAllAndOverride").mockReturnValue(undefined);
+    apiKeysService = {
+      authenticate: jest.fn().mockResolvedValue(record),
+    };
+    guard = new ApiKeyGuard(
+      reflector,
+      apiKeysService as unknown as ApiKeysService
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should fall through when no X-API-Key header is sent", async () => {
+    const { context, request } = createMockExecutionContext({});
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.user).toBeUndefined();
+    expect(apiKeysService.authenticate).not.toHaveBeenCalled();
+  });
+
+  it("should skip @Public() routes", async () => {
+    jest.spyOn(reflector, "getAllAndOverride").mockReturnValue(true);
+    const { context } = createMockExecutionContext({ "x-api-key": "aiq_x" });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(apiKeysService.authenticate).not.toHaveBeenCalled();
+  });
+
+  it("should populate request.user with scopes as roles", async () => {
+    const { context, request } = createMockExecutionContext({
+      "x-api-key": "aiq_x",
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(apiKeysService.authenticate).toHaveBeenCalledWith("aiq_x");
+    expect(request.user).toEqual({
+      id: "api-key:7",
+      username: "partner-dashboard",
+      roles: ["analyst"],
+      authMethod: "api-key",
+    });
+  });
+
+  it("should propagate authentication failures", async () => {
+    apiKeysService.authenticate.mockRejectedValue(new Error("Invalid API key"));
+    const { context } = createMockExecutionContext({ "x-api-key": "aiq_x" });
+
+    await expect(guard.canActivate(context)).rejects.toThrow("Invalid API key");
+  });
+
+  it("should pass the key's rate limit on to the throttler", async () => {
+    apiKeysService.authenticate.mockResolvedValue({
+      ...record,
+      rateLimitPerMinute: 60,
+    });
+    const { context, request } = createMockExecutionContext({
+      "x-api-key": "aiq_x",
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.user.rateLimitPerMinute).toBe(60);
+  });
+});
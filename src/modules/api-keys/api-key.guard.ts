@@ -0,0 +1,60 @@
+import { CanActivate, ExecutionContext, Injectable } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { IS_PUBLIC_KEY } from "../../common/decorators/public.decorator";
+import { AuthenticatedUser } from "../../common/guards/jwt-auth.guard";
+import { ApiKeysService } from "./api-keys.service";
+
+/**
+ * Header carrying API keys for machine clients
+ */
+export const API_KEY_HEADER = "x-api-key";
+
+/**
+ * ApiKeyGuard
+ *
+ * Authenticates machine clients that send an `X-API-Key` header.
+ * Registered globally before JwtAuthGuard: when the header is present the
+ * key is verified and request.user is populated (scopes become roles, so
+ * @Roles() works unchanged); when it is absent the request falls through
+ * to bearer-token authentication.
+ *
+ * A key's rateLimitPerMinute is passed on in request.user and enforced by
+ * TieredThrottlerGuard.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const key = request.headers?.[API_KEY_HEADER];
+    if (typeof key !== "string" || key.length === 0) {
+      return true; // No API key; JwtAuthGuard handles the request
+    }
+
+    const record = await this.apiKeysService.authenticate(key);
+
+    const user: AuthenticatedUser = {
+      id: `api-key:${record.id}`,
+      username: record.name,
+      roles: record.scopes,
+      authMethod: "api-key",
+      ...(record.rateLimitPerMinute
+        ? { rateLimitPerMinute: record.rateLimitPerMinute }
+        : {}),
+    };
+    request.user = user;
+    return true;
+  }
+}
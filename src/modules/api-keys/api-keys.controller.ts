@@ -0,0 +1,172 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  ParseIntPipe,
+  Post,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiSecurity,
+} from "@nestjs/swagger";
+import { Roles, Role } from "../../common/decorators/roles.decorator";
+import { ApiKeysService } from "./api-keys.service";
+import {
+  ApiKeyResponseDto,
+  ApiKeySecretResponseDto,
+  CreateApiKeyDto,
+  ErrorResponseDto,
+} from "./dto/api-keys.dto";
+
+/**
+ * ApiKeysController
+ *
+ * Admin-only API key management:
+ * - POST /admin/api-keys - Create a key
+ * - GET /admin/api-keys - List keys
+ * - POST /admin/api-keys/:id/rotate - Replace a key's secret
+ * - DELETE /admin/api-keys/:id - Revoke a key
+ */
+@Controller("admin/api-keys")
+@ApiTags("Admin")
+@ApiBearerAuth()
+@ApiSecurity("api-key")
+@Roles(Role.Admin)
+@ApiResponse({
+  status: 401,
+  description: "Missing, invalid or expired credentials",
+  type: ErrorResponseDto,
+})
+@ApiResponse({
+  status: 403,
+  description: "Caller does not have the admin role",
+  type: ErrorResponseDto,
+})
+export class ApiKeysController {
+  private readonly logger = new Logger(ApiKeysController.name);
+
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * POST /admin/api-keys
+   * Create a key
+   *
+   * @param dto - Name, scopes, optional rate limit and expiry
+   * @returns Key metadata and the plaintext key
+   */
+  @Post()
+  @ApiOperation({
+    summary: "Create an API key",
+    description:
+      "Creates an API key for a machine client. The key is returned once in the response and only its hash is stored.",
+  })
+  @ApiResponse({
+    status: 201,
+    description: "API key created",
+    type: ApiKeySecretResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid request body",
+    type: ErrorResponseDto,
+  })
+  async createKey(@Body() dto: CreateApiKeyDto) {
+    this.logger.log(`POST /admin/api-keys - Name: ${dto.name}`);
+    return this.apiKeysService.createKey(dto);
+  }
+
+  /**
+   * GET /admin/api-keys
+   * List keys
+   *
+   * @returns Metadata for every key, newest first
+   */
+  @Get()
+  @ApiOperation({
+    summary: "List API keys",
+    description:
+      "Returns metadata for every API key, including revoked ones. Keys themselves are never returned.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "API keys",
+    type: [ApiKeyResponseDto],
+  })
+  async listKeys() {
+    this.logger.log("GET /admin/api-keys");
+    return this.apiKeysService.listKeys();
+  }
+
+  /**
+   * POST /admin/api-keys/:id/rotate
+   * Replace a key's secret
+   *
+   * @param id - API key ID
+   * @returns Key metadata and the new plaintext key
+   */
+  @Post(":id/rotate")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Rotate an API key",
+    description:
+      "Issues a new key for an existing API key, keeping its name, scopes and limits. The previous key stops working immediately.",
+  })
+  @ApiParam({ name: "id", type: Number, description: "API key ID", example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: "API key rotated",
+    type: ApiKeySecretResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "API key has been revoked",
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: "API key not found",
+    type: ErrorResponseDto,
+  })
+  async rotateKey(@Param("id", ParseIntPipe) id: number) {
+    this.logger.log(`POST /admin/api-keys/${id}/rotate`);
+    return this.apiKeysService.rotateKey(id);
+  }
+
+  /**
+   * DELETE /admin/api-keys/:id
+   * Revoke a key
+   *
+   * @param id - API key ID
+   * @returns Revoked key metadata
+   */
+  @Delete(":id")
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Revoke an API key",
+    description:
+      "Revokes an API key. Requests using it are rejected immediately; the record is kept for auditing.",
+  })
+  @ApiParam({ name: "id", type: Number, description: "API key ID", example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: "API key revoked",
+    type: ApiKeyResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: "API key not found",
+    type: ErrorResponseDto,
+  })
+  async revokeKey(@Param("id", ParseIntPipe) id: number) {
+    this.logger.log(`DELETE /admin/api-keys/${id}`);
+    return this.apiKeysService.revokeKey(id);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from "@nestjs/common";
+import { ApiKeysController } from "./api-keys.controller";
+import { ApiKeysService } from "./api-keys.service";
+import { ApiKeyRepository } from "./repositories/api-key.repository";
+
+/**
+ * ApiKeysModule
+ *
+ * API keys for machine clients:
+ * - Admin endpoints to create, list, rotate and revoke keys
+ * - ApiKeysService, used by the global ApiKeyGuard to authenticate
+ *   X-API-Key headers
+ */
+@Module({
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, ApiKeyRepository],
+  exports: [ApiKeysService], // Used by ApiKeyGuard (registered in AppModule)
+})
+export class ApiKeysModule {}
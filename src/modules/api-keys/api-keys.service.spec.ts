@@ -0,0 +1,241 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ApiKey } from "@prisma/client";
+import { createHash } from "crypto";
+import { ApiKeysService } from "./api-keys.service";
+import { ApiKeyRepository } from "./repositories/api-key.repository";
+import { Role } from "../../common/decorators/roles.decorator";
+
+/**
+ * Unit tests for ApiKeysService
+ *
+ * Tests key issuance, rotation, revocation and authentication
+ */
+describe("ApiKeysService", () => {
+  let service: ApiKeysService;
+  let apiKeyRepository: jest.Mocked<ApiKeyRepository>;
+
+  const sha256 = (value: string) =>
+    createHash("sha256").update(value).digest("hex");
+
+  // Mock data fixtures
+  const mockKey: ApiKey = {
+    id: 1,
+    name: "warehouse-sync",
+    keyPrefix: "aiq_abcdefgh",
+    keyHash: sha256("aiq_abcdefghsecret"),
+    scopes: ["viewer"],
+    rateLimitPerMinute: null,
+    createdAt: new Date("2025-11-01T00:00:00Z"),
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+  };
+
+  beforeEach(async () => {
+    const mockRepo = {
+      create: jest.fn(),
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      findByHash: jest.fn(),
+      replaceKey: jest.fn(),
+      revoke: jest.fn(),
+      touchLastUsed: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        {
+          provide: ApiKeyRepository,
+          useValue: mockRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+    apiKeyRepository = module.get(ApiKeyRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("createKey", () => {
+    it("should store only the hash and return the key once", async () => {
+      // Arrange
+      apiKeyRepository.create.mockImplementation(async (data) => ({
+        ...mockKey,
+        ...data,
+      }));
+
+      // Act
+      const result = await service.createKey({
+        name: "warehouse-sync",
+        scopes: [Role.Viewer],
+        rateLimitPerMinute: 600,
+      });
+
+      // Assert
+      expect(result.key).toMatch(/^aiq_[A-Za-z0-9_-]{43}$/);
+      expect(result.keyPrefix).toBe(result.key.slice(0, 12));
+      expect(result.rateLimitPerMinute).toBe(600);
+      expect(result).not.toHaveProperty("keyHash");
+
+      const stored = apiKeyRepository.create.mock.calls[0]![0];
+      expect(stored.keyHash).toBe(sha256(result.key));
+      expect(JSON.stringify(stored)).not.toContain(result.key);
+      expect(stored.expiresAt).toBeNull();
+    });
+
+    it("should issue a different key each time", async () => {
+      // Arrange
+      apiKeyRepository.create.mockImplementation(async (data) => ({
+        ...mockKey,
+        ...data,
+      }));
+      const dto = { name: "a", scopes: [Role.Viewer] };
+
+      // Act
+      const first = await service.createKey(dto);
+      const second = await service.createKey(dto);
+
+      // Assert
+      expect(first.key).not.toBe(second.key);
+    });
+  });
+
+  describe("rotateKey", () => {
+    it("should replace the key hash and return the new key", async () => {
+      // Arrange
+      apiKeyRepository.findById.mockResolvedValue(mockKey);
+      apiKeyRepository.replaceKey.mockImplementation(
+        async (id, keyPrefix, keyHash) => ({ ...mockKey, keyPrefix, keyHash })
+      );
+
+      // Act
+      const result = await service.rotateKey(1);
+
+      // Assert
+      const [, , keyHash] = apiKeyRepository.replaceKey.mock.calls[0]!;
+      expect(keyHash).toBe(sha256(result.key));
+      expect(keyHash).not.toBe(mockKey.keyHash);
+    });
+
+    it("should throw NotFoundException for unknown keys", async () => {
+      apiKeyRepository.findById.mockResolvedValue(null);
+
+      await expect(service.rotateKey(99)).rejects.toThrow(
+        new NotFoundException("API key 99 not found")
+      );
+    });
+
+    it("should refuse to rotate revoked keys", async () => {
+      apiKeyRepository.findById.mockResolvedValue({
+        ...mockKey,
+        revokedAt: new Date(),
+      });
+
+      await expect(service.rotateKey(1)).rejects.toThrow(BadRequestException);
+      expect(apiKeyRepository.replaceKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("revokeKey", () => {
+    it("should set revokedAt", async () => {
+      // Arrange
+      const revokedAt = new Date();
+      apiKeyRepository.findById.mockResolvedValue(mockKey);
+      apiKeyRepository.revoke.mockResolvedValue({ ...mockKey, revokedAt });
+
+      // Act
+      const result = await service.revokeKey(1);
+
+      // Assert
+      expect(result.revokedAt).toBe(revokedAt);
+      expect(apiKeyRepository.revoke).toHaveBeenCalledWith(1, expect.any(Date));
+    });
+
+    it("should not revoke a key twice", async () => {
+      apiKeyRepository.findById.mockResolvedValue({
+        ...mockKey,
+        revokedAt: new Date(),
+      });
+
+      await service.revokeKey(1);
+
+      expect(apiKeyRepository.revoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("authenticate", () => {
+    it("should look up keys by hash", async () => {
+      // Arrange
+      apiKeyRepository.findByHash.mockResolvedValue(mockKey);
+
+      // Act
+      const result = await service.authenticate("aiq_abcdefghsecret");
+
+      // Assert
+      expect(result).toBe(mockKey);
+      expect(apiKeyRepository.findByHash).toHaveBeenCalledWith(mockKey.keyHash);
+    });
+
+    it("should record lastUsedAt when stale", async () => {
+      apiKeyRepository.findByHash.mockResolvedValue({
+        ...mockKey,
+        lastUsedAt: new Date(Date.now() - 5 * 60_000),
+      });
+
+      await service.authenticate("aiq_abcdefghsecret");
+
+      expect(apiKeyRepository.touchLastUsed).toHaveBeenCalledWith(
+        1,
+        expect.any(Date)
+      );
+    });
+
+    it("should not write lastUsedAt on every request", async () => {
+      apiKeyRepository.findByHash.mockResolvedValue({
+        ...mockKey,
+        lastUsedAt: new Date(Date.now() - 1000),
+      });
+
+      await service.authenticate("aiq_abcdefghsecret");
+
+      expect(apiKeyRepository.touchLastUsed).not.toHaveBeenCalled();
+    });
+
+    it("should not fail the request when lastUsedAt cannot be written", async () => {
+      apiKeyRepository.findByHash.mockResolvedValue(mockKey);
+      apiKeyRepository.touchLastUsed.mockRejectedValue(new Error("DB down"));
+
+      await expect(service.authenticate("aiq_abcdefghsecret")).resolves.toBe(
+        mockKey
+      );
+    });
+
+    it.each([
+      ["unknown", null],
+      ["revoked", { ...mockKey, revokedAt: new Date() }],
+      ["expired", { ...mockKey, expiresAt: new Date(Date.now() - 1000) }],
+    ])("should reject %s keys", async (_label, record) => {
+      apiKeyRepository.findByHash.mockResolvedValue(record);
+
+      await expect(service.authenticate("aiq_abcdefghsecret")).rejects.toThrow(
+        new UnauthorizedException("Invalid API key")
+      );
+    });
+
+    it("should reject values without the key prefix without a lookup", async () => {
+      await expect(service.authenticate("not-a-key")).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(apiKeyRepository.findByHash).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ApiKey } from "@prisma/client";
+import { createHash, randomBytes } from "crypto";
+import { ApiKeyRepository } from "./repositories/api-key.repository";
+import {
+  ApiKeyResponseDto,
+  ApiKeySecretResponseDto,
+  CreateApiKeyDto,
+} from "./dto/api-keys.dto";
+
+/**
+ * Prefix of every issued key; makes leaked keys easy to grep for
+ */
+const API_KEY_PREFIX = "aiq_";
+
+/**
+ * Characters of the key kept in plaintext for identification
+ */
+const KEY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+/**
+ * lastUsedAt is only written when older than this, to avoid a database
+ * write on every request
+ */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * ApiKeysService
+ *
+ * Issues, rotates and revokes API keys for machine clients, and
+ * authenticates X-API-Key headers. Only SHA-256 hashes of keys are stored;
+ * keys are 256-bit random values, so a fast hash is sufficient.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(private readonly apiKeyRepository: ApiKeyRepository) {}
+
+  /**
+   * Create a key
+   *
+   * @returns Key metadata and the plaintext key (shown only once)
+   */
+  async createKey(dto: CreateApiKeyDto): Promise<ApiKeySecretResponseDto> {
+    const key = this.generateKey();
+    const record = await this.apiKeyRepository.create({
+      name: dto.name,
+      keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      scopes: dto.scopes,
+      rateLimitPerMinute: dto.rateLimitPerMinute ?? null,
+      expiresAt: dto.expiresAt ?? null,
+    });
+
+    this.logger.log(`Created API key ${record.id} (${record.name})`);
+    return { ...this.toResponse(record), key };
+  }
+
+  /**
+   * List all keys, including revoked ones
+   */
+  async listKeys(): Promise<ApiKeyResponseDto[]> {
+    const records = await this.apiKeyRepository.findAll();
+    return records.map((record) => this.toResponse(record));
+  }
+
+  /**
+   * Issue a new key for an existing record; the old key stops working
+   * immediately while name, scopes and limits are kept
+   *
+   * @throws NotFoundException if the key does not exist
+   * @throws BadRequestException if the key has been revoked
+   */
+  async rotateKey(id: number): Promise<ApiKeySecretResponseDto> {
+    const existing = await this.findOrThrow(id);
+    if (existing.revokedAt) {
+      throw new BadRequestException(`API key ${id} has been revoked`);
+    }
+
+    const key = this.generateKey();
+    const record = await this.apiKeyRepository.replaceKey(
+      id,
+      key.slice(0, KEY_PREFIX_LENGTH),
+      this.hashKey(key)
+    );
+
+    this.logger.log(`Rotated API key ${id} (${record.name})`);
+    return { ...this.toResponse(record), key };
+  }
+
+  /**
+   * Revoke a key; revoking twice is a no-op
+   *
+   * @throws NotFoundException if the key does not exist
+   */
+  async revokeKey(id: number): Promise<ApiKeyResponseDto> {
+    const existing = await this.findOrThrow(id);
+    if (existing.revokedAt) {
+      return this.toResponse(existing);
+    }
+
+    const record = await this.apiKeyRepository.revoke(id, new Date());
+    this.logger.log(`Revoked API key ${id} (${record.name})`);
+    return this.toResponse(record);
+  }
+
+  /**
+   * Resolve an X-API-Key header to an active key
+   *
+   * @throws UnauthorizedException for unknown, revoked or expired keys
+   */
+  async authenticate(key: string): Promise<ApiKey> {
+    const record = key.startsWith(API_KEY_PREFIX)
+      ? await this.apiKeyRepository.findByHash(this.hashKey(key))
+      : null;
+
+    const now = new Date();
+    if (
+      !record ||
+      record.revokedAt ||
+      (record.expiresAt && record.expiresAt <= now)
+    ) {
+      throw new UnauthorizedException("Invalid API key");
+    }
+
+    if (
+      !record.lastUsedAt ||
+      now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+    ) {
+      // Not awaited: bookkeeping must not slow down or fail the request
+      this.apiKeyRepository
+        .touchLastUsed(record.id, now)
+        .catch((error) =>
+          this.logger.warn(
+            `Failed to update lastUsedAt for API key ${record.id}: ${error}`
+          )
+        );
+    }
+
+    return record;
+  }
+
+  private async findOrThrow(id: number): Promise<ApiKey> {
+    const record = await this.apiKeyRepository.findById(id);
+    if (!record) {
+      throw new NotFoundException(`API key ${id} not found`);
+    }
+    return record;
+  }
+
+  private generateKey(): string {
+    return `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  }
+
+  private hashKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+  }
+
+  private toResponse(record: ApiKey): ApiKeyResponseDto {
+    return {
+      id: record.id,
+      name: record.name,
+      keyPrefix: record.keyPrefix,
+      scopes: record.scopes,
+      rateLimitPerMinute: record.rateLimitPerMinute,
+      createdAt: record.createdAt,
+      expiresAt: record.expiresAt,
+      lastUsedAt: record.lastUsedAt,
+      revokedAt: record.revokedAt,
+    };
+  }
+}
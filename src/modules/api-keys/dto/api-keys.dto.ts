@@ -0,0 +1,161 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Max,
+  Min,
+} from "class-validator";
+import { Transform, Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Role } from "../../../common/decorators/roles.decorator";
+
+/**
+ * Scopes an API key can hold; each grants the permissions of the matching
+ * role (and, through the role hierarchy, of every lower role)
+ */
+export const API_KEY_SCOPES = [Role.Viewer, Role.Analyst, Role.Admin] as const;
+
+/**
+ * Request body for POST /admin/api-keys
+ */
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: "Human-readable label, e.g. the client or job using the key",
+    example: "nightly-warehouse-sync",
+    maxLength: 100,
+  })
+  @Transform(({ value }) => (typeof value === "string" ? value.trim() : value))
+  @IsString({ message: "name must be a string" })
+  @IsNotEmpty({ message: "name must not be empty" })
+  @MaxLength(100, { message: "name cannot exceed 100 characters" })
+  name!: string;
+
+  @ApiProperty({
+    description: "Roles granted to the key",
+    enum: API_KEY_SCOPES,
+    isArray: true,
+    example: ["viewer"],
+  })
+  @IsArray({ message: "scopes must be an array" })
+  @ArrayNotEmpty({ message: "scopes must not be empty" })
+  @ArrayUnique({ message: "scopes must not contain duplicates" })
+  @IsIn(API_KEY_SCOPES, {
+    each: true,
+    message: `each scope must be one of: ${API_KEY_SCOPES.join(", ")}`,
+  })
+  scopes!: Role[];
+
+  @ApiPropertyOptional({
+    description:
+      "Maximum requests per minute for this key (omit to use the global limit only)",
+    minimum: 1,
+    maximum: 100000,
+    example: 600,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "rateLimitPerMinute must be an integer" })
+  @Min(1, { message: "rateLimitPerMinute must be at least 1" })
+  @Max(100000, { message: "rateLimitPerMinute cannot exceed 100000" })
+  rateLimitPerMinute?: number;
+
+  @ApiPropertyOptional({
+    description: "When the key stops working (omit for no expiry)",
+    example: "2026-12-31T23:59:59.000Z",
+    type: String,
+    format: "date-time",
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: "expiresAt must be an ISO 8601 date" })
+  expiresAt?: Date;
+}
+
+/**
+ * API key metadata (never includes the key itself)
+ */
+export class ApiKeyResponseDto {
+  @ApiProperty({ description: "API key ID", example: 1 })
+  id!: number;
+
+  @ApiProperty({
+    description: "Human-readable label",
+    example: "nightly-warehouse-sync",
+  })
+  name!: string;
+
+  @ApiProperty({
+    description: "First characters of the key, for identification",
+    example: "aiq_3kT9xQ2b",
+  })
+  keyPrefix!: string;
+
+  @ApiProperty({
+    description: "Roles granted to the key",
+    enum: API_KEY_SCOPES,
+    isArray: true,
+    example: ["viewer"],
+  })
+  scopes!: string[];
+
+  @ApiProperty({
+    description: "Maximum requests per minute, or null for the global limit",
+    example: 600,
+    nullable: true,
+    type: Number,
+  })
+  rateLimitPerMinute!: number | null;
+
+  @ApiProperty({
+    description: "Creation time",
+    example: "2025-11-11T09:00:00.000Z",
+  })
+  createdAt!: Date;
+
+  @ApiProperty({
+    description: "Expiry time",
+    example: null,
+    nullable: true,
+    type: Date,
+  })
+  expiresAt!: Date | null;
+
+  @ApiProperty({
+    description: "Last successful use (updated at most once a minute)",
+    example: "2025-11-12T03:15:00.000Z",
+    nullable: true,
+    type: Date,
+  })
+  lastUsedAt!: Date | null;
+
+  @ApiProperty({
+    description: "Revocation time",
+    example: null,
+    nullable: true,
+    type: Date,
+  })
+  revokedAt!: Date | null;
+}
+
+/**
+ * Response for key creation and rotation: metadata plus the plaintext key,
+ * which is only ever returned once
+ */
+export class ApiKeySecretResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description: "The API key. Store it now; it cannot be retrieved again.",
+    example: "aiq_3kT9xQ2bV8mN1pL4sR7wY0zA6cE5fH2jK9gD3uT1oI",
+  })
+  key!: string;
+}
+
+// Re-export common DTOs
+export { ErrorResponseDto } from "../../../common/dto/common.dto";
@@ -0,0 +1,76 @@
+import { Injectable } from "@nestjs/common";
+import { ApiKey } from "@prisma/client";
+import { PrismaService } from "../../../prisma/prisma.service";
+
+/**
+ * Fields stored when creating an API key
+ */
+export interface CreateApiKeyRecord {
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  scopes: string[];
+  rateLimitPerMinute: number | null;
+  expiresAt: Date | null;
+}
+
+/**
+ * API key repository
+ *
+ * Keys are looked up by hash on every authenticated request, so results are
+ * deliberately not cached: revocation must take effect immediately.
+ */
+@Injectable()
+export class ApiKeyRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateApiKeyRecord): Promise<ApiKey> {
+    return this.prisma.apiKey.create({ data });
+  }
+
+  /**
+   * List keys, newest first (revoked keys included)
+   */
+  async findAll(): Promise<ApiKey[]> {
+    return this.prisma.apiKey.findMany({ orderBy: { id: "desc" } });
+  }
+
+  async findById(id: number): Promise<ApiKey | null> {
+    return this.prisma.apiKey.findUnique({ where: { id } });
+  }
+
+  /**
+   * Uses unique index: api_keys_key_hash_key
+   */
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    return this.prisma.apiKey.findUnique({ where: { keyHash } });
+  }
+
+  /**
+   * Replace the key material, invalidating the previous key
+   */
+  async replaceKey(
+    id: number,
+    keyPrefix: string,
+    keyHash: string
+  ): Promise<ApiKey> {
+    return this.prisma.apiKey.update({
+      where: { id },
+      data: { keyPrefix, keyHash, lastUsedAt: null },
+    });
+  }
+
+  async revoke(id: number, revokedAt: Date): Promise<ApiKey> {
+    return this.prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt },
+    });
+  }
+
+  async touchLastUsed(id: number, lastUsedAt: Date): Promise<void> {
+    await this.prisma.apiKey.update({
+      where: { id },
+      data: { lastUsedAt },
+    });
+  }
+}
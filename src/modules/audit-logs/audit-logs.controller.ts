@@ -0,0 +1,70 @@
+import { Controller, Get, Logger, Query } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from "@nestjs/swagger";
+import { Roles, Role } from "../../common/decorators/roles.decorator";
+import { AuditLogsService } from "./audit-logs.service";
+import {
+  ErrorResponseDto,
+  GetAuditLogsQueryDto,
+  PaginatedAuditLogsResponseDto,
+} from "./dto/audit-logs.dto";
+
+/**
+ * AuditLogsController
+ *
+ * Admin-only access to the audit trail:
+ * - GET /admin/audit-logs - Query recorded requests
+ */
+@Controller("admin/audit-logs")
+@ApiTags("Admin")
+@ApiBearerAuth()
+@ApiSecurity("api-key")
+@Roles(Role.Admin)
+@ApiResponse({
+  status: 401,
+  description: "Missing, invalid or expired credentials",
+  type: ErrorResponseDto,
+})
+@ApiResponse({
+  status: 403,
+  description: "Caller does not have the admin role",
+  type: ErrorResponseDto,
+})
+export class AuditLogsController {
+  private readonly logger = new Logger(AuditLogsController.name);
+
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
+  /**
+   * GET /admin/audit-logs
+   * Query recorded requests, newest first
+   *
+   * @param query - user, path prefix, status, time range and pagination
+   * @returns Page of audit log entries
+   */
+  @Get()
+  @ApiOperation({
+    summary: "Query audit logs",
+    description:
+      "Returns recorded API requests, newest first, filtered by user, path prefix, status code and time range. Use meta.nextCursor as cursor to fetch the next page. Entries are written in batches, so the latest requests may take a moment to appear.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Audit log entries",
+    type: PaginatedAuditLogsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid query parameters",
+    type: ErrorResponseDto,
+  })
+  async getAuditLogs(@Query() query: GetAuditLogsQueryDto) {
+    this.logger.log(`GET /admin/audit-logs - Query: ${JSON.stringify(query)}`);
+    return this.auditLogsService.getAuditLogs(query);
+  }
+}
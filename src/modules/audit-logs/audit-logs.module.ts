@@ -0,0 +1,19 @@
+import { Module } from "@nestjs/common";
+import { AuditLogsController } from "./audit-logs.controller";
+import { AuditLogsService } from "./audit-logs.service";
+import { AuditLogRepository } from "./repositories/audit-log.repository";
+
+/**
+ * AuditLogsModule
+ *
+ * Persistent audit trail of API requests:
+ * - AuditLogsService, used by the global AuditLogInterceptor to record
+ *   requests in batches, and purging entries past their retention period
+ * - Admin endpoint to query recorded requests
+ */
+@Module({
+  controllers: [AuditLogsController],
+  providers: [AuditLogsService, AuditLogRepository],
+  exports: [AuditLogsService], // Used by AuditLogInterceptor (registered in AppModule)
+})
+export class AuditLogsModule {}
@@ -0,0 +1,244 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { AuditLog } from "@prisma/client";
+import { AuditLogEntry, AuditLogsService } from "./audit-logs.service";
+import { AuditLogRepository } from "./repositories/audit-log.repository";
+
+/**
+ * Unit tests for AuditLogsService
+ *
+ * Tests batched writes, failure handling, retention purging and queries
+ */
+describe("AuditLogsService", () => {
+  let service: AuditLogsService;
+  let auditLogRepository: jest.Mocked<AuditLogRepository>;
+
+  // Mock data fixtures
+  const entry = (path: string): AuditLogEntry => ({
+    timestamp: new Date("2025-11-12T09:00:00Z"),
+    method: "GET",
+    path,
+    statusCode: 200,
+    durationMs: 5,
+  });
+
+  const mockLog = (id: number): AuditLog => ({
+    id,
+    timestamp: new Date("2025-11-12T09:00:00Z"),
+    traceId: null,
+    userId: "alice",
+    username: "alice",
+    authMethod: "jwt",
+    method: "GET",
+    path: "/api/v1/plants",
+    statusCode: 200,
+    durationMs: 5,
+    ip: "127.0.0.1",
+    userAgent: "jest",
+    error: null,
+    requestBody: null,
+  });
+
+  beforeEach(async () => {
+    process.env.AUDIT_LOG_BATCH_SIZE = "3";
+    process.env.AUDIT_LOG_RETENTION_DAYS = "30";
+
+    const mockRepo = {
+      createMany: jest.fn().mockResolvedValue(0),
+      findMany: jest.fn(),
+      deleteOlderThan: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditLogsService,
+        {
+          provide: AuditLogRepository,
+          useValue: mockRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditLogsService>(AuditLogsService);
+    auditLogRepository = module.get(AuditLogRepository);
+
+    jest.spyOn((service as any).logger, "log").mockImplementation();
+    jest.spyOn((service as any).logger, "warn").mockImplementation();
+    jest.spyOn((service as any).logger, "error").mockImplementation();
+  });
+
+  afterEach(() => {
+    delete process.env.AUDIT_LOG_BATCH_SIZE;
+    delete process.env.AUDIT_LOG_RETENTION_DAYS;
+    jest.restoreAllMocks();
+  });
+
+  describe("record", () => {
+    it("should buffer entries without writing", () => {
+      service.record(entry("/a"));
+      service.record(entry("/b"));
+
+      expect(auditLogRepository.createMany).not.toHaveBeenCalled();
+    });
+
+    it("should write immediately once a batch is full", async () => {
+      service.record(entry("/a"));
+      service.record(entry("/b"));
+      service.record(entry("/c"));
+      await service.flush();
+
+      expect(auditLogRepository.createMany).toHaveBeenCalledTimes(1);
+      expect(auditLogRepository.createMany).toHaveBeenCalledWith([
+        entry("/a"),
+        entry("/b"),
+        entry("/c"),
+      ]);
+    });
+
+    it("should drop entries when the buffer is full", () => {
+      auditLogRepository.createMany.mockReturnValue(new Promise(() => {}));
+
+      // The first batch is in flight; the buffer holds 10 more batches
+      for (let i = 0; i < 34; i++) {
+        service.record(entry(`/${i}`));
+      }
+
+      expect((service as any).buffer.length).toBe(30);
+      expect((service as any).logger.warn).toHaveBeenCalledTimes(1);
+      expect((service as any).logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("dropping entry for GET /33")
+      );
+    });
+  });
+
+  describe("flush", () => {
+    it("should write buffered entries", async () => {
+      for (let i = 0; i < 2; i++) {
+        service.record(entry(`/${i}`));
+      }
+      await service.flush();
+
+      expect(auditLogRepository.createMany).toHaveBeenCalledWith([
+        entry("/0"),
+        entry("/1"),
+      ]);
+      expect((service as any).buffer).toEqual([]);
+    });
+
+    it("should do nothing when the buffer is empty", async () => {
+      await service.flush();
+
+      expect(auditLogRepository.createMany).not.toHaveBeenCalled();
+    });
+
+    it("should keep entries for the next flush when a write fails", async () => {
+      auditLogRepository.createMany.mockRejectedValueOnce(
+        new Error("Connection refused")
+      );
+      service.record(entry("/a"));
+
+      await service.flush();
+      expect((service as any).buffer).toEqual([entry("/a")]);
+      expect((service as any).logger.error).toHaveBeenCalledWith(
+        expect.stringContaining("Failed to write 1 audit log entries")
+      );
+
+      await service.flush();
+      expect(auditLogRepository.createMany).toHaveBeenCalledTimes(2);
+      expect((service as any).buffer).toEqual([]);
+    });
+
+    it("should write remaining entries on shutdown", async () => {
+      service.onModuleInit();
+      service.record(entry("/a"));
+
+      await service.onModuleDestroy();
+
+      expect(auditLogRepository.createMany).toHaveBeenCalledWith([entry("/a")]);
+    });
+  });
+
+  describe("purgeExpired", () => {
+    it("should delete entries older than the retention period", async () => {
+      auditLogRepository.deleteOlderThan.mockResolvedValue(12);
+      const before = Date.now();
+
+      const deleted = await service.purgeExpired();
+
+      expect(deleted).toBe(12);
+      const cutoff = auditLogRepository.deleteOlderThan.mock.calls[0]![0];
+      const expected = before - 30 * 24 * 60 * 60 * 1000;
+      expect(cutoff.getTime()).toBeGreaterThanOrEqual(expected);
+      expect(cutoff.getTime()).toBeLessThan(expected + 1000);
+    });
+
+    it("should log and return 0 when the purge fails", async () => {
+      auditLogRepository.deleteOlderThan.mockRejectedValue(
+        new Error("Connection refused")
+      );
+
+      await expect(service.purgeExpired()).resolves.toBe(0);
+      expect((service as any).logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe("getAuditLogs", () => {
+    it("should map query filters to repository filters", async () => {
+      auditLogRepository.findMany.mockResolvedValue([]);
+      const from = new Date("2025-11-01T00:00:00Z");
+      const to = new Date("2025-11-30T00:00:00Z");
+
+      await service.getAuditLogs({
+        userId: "alice",
+        path: "/api/v1/plants",
+        status: 403,
+        from,
+        to,
+        cursor: 500,
+        limit: 50,
+      });
+
+      expect(auditLogRepository.findMany).toHaveBeenCalledWith({
+        userId: "alice",
+        pathPrefix: "/api/v1/plants",
+        statusCode: 403,
+        from,
+        to,
+        beforeId: 500,
+        limit: 51,
+      });
+    });
+
+    it("should return a cursor when more entries exist", async () => {
+      auditLogRepository.findMany.mockResolvedValue([
+        mockLog(10),
+        mockLog(9),
+        mockLog(8),
+      ]);
+
+      const result = await service.getAuditLogs({ limit: 2 });
+
+      expect(result.data.map((log) => log.id)).toEqual([10, 9]);
+      expect(result.meta).toEqual({ limit: 2, nextCursor: 9, hasMore: true });
+    });
+
+    it("should return no cursor on the last page", async () => {
+      auditLogRepository.findMany.mockResolvedValue([mockLog(2), mockLog(1)]);
+
+      const result = await service.getAuditLogs({ limit: 2 });
+
+      expect(result.meta).toEqual({
+        limit: 2,
+        nextCursor: null,
+        hasMore: false,
+      });
+    });
+
+    it("should default to 100 entries per page", async () => {
+      auditLogRepository.findMany.mockResolvedValue([]);
+
+      await service.getAuditLogs({});
+
+      expect(auditLogRepository.findMany).toHaveBeenCalledWith({ limit: 101 });
+    });
+  });
+});
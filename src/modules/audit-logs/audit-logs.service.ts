@@ -0,0 +1,180 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { config } from "../../config/configuration";
+import { AuditLogRepository } from "./repositories/audit-log.repository";
+import {
+  GetAuditLogsQueryDto,
+  PaginatedAuditLogsResponseDto,
+} from "./dto/audit-logs.dto";
+
+/**
+ * A request to record; secrets must already be masked
+ */
+export type AuditLogEntry = Prisma.AuditLogCreateManyInput;
+
+/**
+ * Retention purge runs once a day (and once shortly after startup)
+ */
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Entries buffered beyond this many batches are dropped, so a database
+ * outage cannot exhaust memory
+ */
+const MAX_BUFFERED_BATCHES = 10;
+
+/**
+ * AuditLogsService
+ *
+ * Persists audit log entries without slowing requests down:
+ * - record() only appends to an in-memory buffer
+ * - the buffer is written with one INSERT per batch, when a batch fills up
+ *   or every AUDIT_LOG_FLUSH_INTERVAL_MS, and on shutdown
+ * - entries older than AUDIT_LOG_RETENTION_DAYS are purged daily
+ */
+@Injectable()
+export class AuditLogsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AuditLogsService.name);
+  private readonly options = config().auditLog;
+  private buffer: AuditLogEntry[] = [];
+  private flushing: Promise<void> | null = null;
+  private flushTimer: NodeJS.Timeout | undefined;
+  private purgeTimer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly auditLogRepository: AuditLogRepository) {}
+
+  onModuleInit() {
+    // unref(): pending audit timers must not keep the process alive
+    this.flushTimer = setInterval(
+      () => void this.flush(),
+      this.options.flushIntervalMs
+    ).unref();
+    this.purgeTimer = setInterval(
+      () => void this.purgeExpired(),
+      PURGE_INTERVAL_MS
+    ).unref();
+    setTimeout(() => void this.purgeExpired(), 60_000).unref();
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.flushTimer);
+    clearInterval(this.purgeTimer);
+    await this.flush();
+  }
+
+  /**
+   * Queue an entry for writing
+   */
+  record(entry: AuditLogEntry): void {
+    const capacity = this.options.batchSize * MAX_BUFFERED_BATCHES;
+    if (this.buffer.length >= capacity) {
+      this.logger.warn(
+        `Audit log buffer full (${capacity} entries); dropping entry for ${entry.method} ${entry.path}`
+      );
+      return;
+    }
+
+    this.buffer.push(entry);
+    if (this.buffer.length >= this.options.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Write all buffered entries
+   *
+   * Concurrent calls share the in-flight write. A failed batch is put back
+   * at the front of the buffer and retried on the next flush.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      while (this.buffer.length > 0) {
+        const batch = this.buffer.splice(0, this.options.batchSize);
+        try {
+          await this.auditLogRepository.createMany(batch);
+        } catch (error) {
+          this.logger.error(
+            `Failed to write ${batch.length} audit log entries: ${error}`
+          );
+          this.buffer.unshift(...batch);
+          break;
+        }
+      }
+    })().finally(() => {
+      this.flushing = null;
+    });
+
+    return this.flushing;
+  }
+
+  /**
+   * Delete entries older than the retention period
+   *
+   * @returns Number of entries deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - this.options.retentionDays * 24 * 60 * 60 * 1000
+    );
+
+    try {
+      const deleted = await this.auditLogRepository.deleteOlderThan(cutoff);
+      this.logger.log(
+        `Purged ${deleted} audit log entries older than ${cutoff.toISOString()}`
+      );
+      return deleted;
+    } catch (error) {
+      this.logger.error(`Failed to purge audit logs: ${error}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Query recorded entries, newest first
+   *
+   * @param query - Filters and keyset pagination
+   * @returns Entries with pagination metadata
+   */
+  async getAuditLogs(
+    query: GetAuditLogsQueryDto
+  ): Promise<PaginatedAuditLogsResponseDto> {
+    const limit = query.limit || 100;
+
+    try {
+      // Fetch one extra row to know whether another page exists
+      const rows = await this.auditLogRepository.findMany({
+        ...(query.userId ? { userId: query.userId } : {}),
+        ...(query.path ? { pathPrefix: query.path } : {}),
+        ...(query.status ? { statusCode: query.status } : {}),
+        ...(query.from ? { from: query.from } : {}),
+        ...(query.to ? { to: query.to } : {}),
+        ...(query.cursor ? { beforeId: query.cursor } : {}),
+        limit: limit + 1,
+      });
+
+      const hasMore = rows.length > limit;
+      const data = rows.slice(0, limit);
+
+      return {
+        data,
+        meta: {
+          limit,
+          nextCursor: hasMore ? data[data.length - 1]!.id : null,
+          hasMore,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Failed to fetch audit logs: ${error}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import {
+  IsDate,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+/**
+ * DTO for GET /admin/audit-logs query parameters
+ */
+export class GetAuditLogsQueryDto {
+  @ApiPropertyOptional({
+    description: "Only entries for this caller (JWT subject or api-key:<id>)",
+    example: "alice",
+  })
+  @IsOptional()
+  @IsString({ message: "userId must be a string" })
+  @MaxLength(200, { message: "userId cannot exceed 200 characters" })
+  userId?: string;
+
+  @ApiPropertyOptional({
+    description: "Only entries whose path starts with this prefix",
+    example: "/api/v1/plants",
+  })
+  @IsOptional()
+  @IsString({ message: "path must be a string" })
+  @MaxLength(500, { message: "path cannot exceed 500 characters" })
+  path?: string;
+
+  @ApiPropertyOptional({
+    description: "Only entries with this HTTP status code",
+    minimum: 100,
+    maximum: 599,
+    example: 403,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "status must be an integer" })
+  @Min(100, { message: "status must be at least 100" })
+  @Max(599, { message: "status cannot exceed 599" })
+  status?: number;
+
+  @ApiPropertyOptional({
+    description: "Only entries at or after this time (ISO 8601)",
+    example: "2025-11-01T00:00:00Z",
+    type: String,
+    format: "date-time",
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: "from must be an ISO 8601 date" })
+  from?: Date;
+
+  @ApiPropertyOptional({
+    description: "Only entries at or before this time (ISO 8601)",
+    example: "2025-11-30T23:59:59Z",
+    type: String,
+    format: "date-time",
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: "to must be an ISO 8601 date" })
+  to?: Date;
+
+  @ApiPropertyOptional({
+    description: "Number of entries per page",
+    minimum: 1,
+    maximum: 500,
+    default: 100,
+    example: 100,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "limit must be an integer" })
+  @Min(1, { message: "limit must be at least 1" })
+  @Max(500, { message: "limit cannot exceed 500" })
+  limit?: number = 100;
+
+  @ApiPropertyOptional({
+    description:
+      "meta.nextCursor of the previous page; omit for the newest entries",
+    example: 1500,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "cursor must be an integer" })
+  @Min(1, { message: "cursor must be at least 1" })
+  cursor?: number;
+}
+
+/**
+ * A recorded API request
+ */
+export class AuditLogResponseDto {
+  @ApiProperty({ description: "Audit log ID", example: 1501 })
+  id!: number;
+
+  @ApiProperty({
+    description: "When the request was received",
+    example: "2025-11-12T09:15:02.120Z",
+  })
+  timestamp!: Date;
+
+  @ApiProperty({
+    description: "Correlation ID from X-Trace-Id",
+    example: null,
+    nullable: true,
+    type: String,
+  })
+  traceId!: string | null;
+
+  @ApiProperty({
+    description: "Caller ID (JWT subject or api-key:<id>)",
+    example: "alice",
+    nullable: true,
+    type: String,
+  })
+  userId!: string | null;
+
+  @ApiProperty({
+    description: "Caller name",
+    example: "alice",
+    nullable: true,
+    type: String,
+  })
+  username!: string | null;
+
+  @ApiProperty({
+    description: "How the caller authenticated",
+    example: "jwt",
+    enum: ["jwt", "api-key"],
+    nullable: true,
+  })
+  authMethod!: string | null;
+
+  @ApiProperty({ description: "HTTP method", example: "GET" })
+  method!: string;
+
+  @ApiProperty({
+    description: "Request path and query string (secrets masked)",
+    example: "/api/v1/plants?state=TX&top=5",
+  })
+  path!: string;
+
+  @ApiProperty({ description: "Response status code", example: 200 })
+  statusCode!: number;
+
+  @ApiProperty({ description: "Handling time in milliseconds", example: 12 })
+  durationMs!: number;
+
+  @ApiProperty({
+    description: "Client IP address",
+    example: "203.0.113.7",
+    nullable: true,
+    type: String,
+  })
+  ip!: string | null;
+
+  @ApiProperty({
+    description: "Client user agent",
+    example: "curl/8.5.0",
+    nullable: true,
+    type: String,
+  })
+  userAgent!: string | null;
+
+  @ApiProperty({
+    description: "Error message for failed requests",
+    example: null,
+    nullable: true,
+    type: String,
+  })
+  error!: string | null;
+
+  @ApiProperty({
+    description: "Request body for write requests (secrets masked)",
+    example: { name: "nightly-sync", scopes: ["viewer"] },
+    nullable: true,
+    type: Object,
+  })
+  requestBody!: unknown;
+}
+
+/**
+ * Paginated response wrapper for GET /admin/audit-logs
+ */
+export class PaginatedAuditLogsResponseDto {
+  @ApiProperty({
+    description: "Audit log entries, newest first",
+    isArray: true,
+    type: AuditLogResponseDto,
+  })
+  data!: AuditLogResponseDto[];
+
+  @ApiProperty({
+    description: "Page metadata",
+    example: { limit: 100, nextCursor: 1401, hasMore: true },
+  })
+  meta!: {
+    limit: number;
+    nextCursor: number | null;
+    hasMore: boolean;
+  };
+}
+
+// Re-export common DTOs
+export { ErrorResponseDto } from "../../../common/dto/common.dto";
@@ -0,0 +1,76 @@
+import { Injectable } from "@nestjs/common";
+import { AuditLog, Prisma } from "@prisma/client";
+import { PrismaService } from "../../../prisma/prisma.service";
+
+/**
+ * Filters for querying audit logs (newest first)
+ */
+export interface AuditLogFilters {
+  userId?: string;
+  pathPrefix?: string;
+  statusCode?: number;
+  from?: Date;
+  to?: Date;
+  /** Only return entries with an ID below this (keyset pagination) */
+  beforeId?: number;
+  limit: number;
+}
+
+/**
+ * Audit log repository
+ *
+ * Writes are batched by AuditLogsService; reads are admin-only and uncached.
+ */
+@Injectable()
+export class AuditLogRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Insert a batch of entries in one statement
+   *
+   * @returns Number of rows inserted
+   */
+  async createMany(entries: Prisma.AuditLogCreateManyInput[]): Promise<number> {
+    const result = await this.prisma.auditLog.createMany({ data: entries });
+    return result.count;
+  }
+
+  /**
+   * Uses indexes: audit_logs_user_id_timestamp_idx,
+   * audit_logs_status_code_timestamp_idx, audit_logs_timestamp_idx
+   */
+  async findMany(filters: AuditLogFilters): Promise<AuditLog[]> {
+    return this.prisma.auditLog.findMany({
+      where: {
+        ...(filters.userId ? { userId: filters.userId } : {}),
+        ...(filters.pathPrefix
+          ? { path: { startsWith: filters.pathPrefix } }
+          : {}),
+        ...(filters.statusCode ? { statusCode: filters.statusCode } : {}),
+        ...(filters.from || filters.to
+          ? {
+              timestamp: {
+                ...(filters.from ? { gte: filters.from } : {}),
+                ...(filters.to ? { lte: filters.to } : {}),
+              },
+            }
+          : {}),
+        ...(filters.beforeId ? { id: { lt: filters.beforeId } } : {}),
+      },
+      orderBy: { id: "desc" },
+      take: filters.limit,
+    });
+  }
+
+  /**
+   * Delete entries recorded before the cutoff
+   *
+   * @returns Number of rows deleted
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const result = await this.prisma.auditLog.deleteMany({
+      where: { timestamp: { lt: cutoff } },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,25 @@
+import { IsInt, IsOptional, Min, Max } from "class-validator";
+import { Type } from "class-transformer";
+import { ApiPropertyOptional } from "@nestjs/swagger";
+
+/**
+ * DTO for GET /exports/* query parameters
+ */
+export class ExportQueryDto {
+  @ApiPropertyOptional({
+    description: "Only export generation for this year (omit for all years)",
+    minimum: 1900,
+    maximum: 2100,
+    example: 2023,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "year must be an integer" })
+  @Min(1900, { message: "year must be 1900 or later" })
+  @Max(2100, { message: "year cannot exceed 2100" })
+  year?: number;
+}
+
+// Re-export common DTOs
+export { ErrorResponseDto } from "../../../common/dto/common.dto";
@@ -0,0 +1,150 @@
+import { Controller, Get, Query, Logger, Headers, Res } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiProduces,
+  ApiHeader,
+} from "@nestjs/swagger";
+import { Response } from "express";
+import { Expensive } from "../../common/decorators/expensive.decorator";
+import { ExportsService } from "./exports.service";
+import { ExportQueryDto, ErrorResponseDto } from "./dto/exports.dto";
+
+/**
+ * ExportsController
+ *
+ * Streams the full dataset for bulk loads:
+ * - GET /exports/plants.ndjson - Every plant with its generation records
+ * - GET /exports/plant-generations.csv - Every plant generation record
+ *
+ * Responses are gzip-encoded when the client sends Accept-Encoding: gzip.
+ * Exports count against the smaller expensive-route rate limit.
+ */
+@Controller("exports")
+@ApiTags("Exports")
+@ApiBearerAuth()
+@ApiSecurity("api-key")
+@Expensive()
+@ApiResponse({
+  status: 401,
+  description: "Missing, invalid or expired credentials",
+  type: ErrorResponseDto,
+})
+export class ExportsController {
+  private readonly logger = new Logger(ExportsController.name);
+
+  constructor(private readonly exportsService: ExportsService) {}
+
+  /**
+   * GET /exports/plants.ndjson
+   * Stream every plant as newline-delimited JSON
+   *
+   * @param query - Query parameters (year)
+   * @returns Streamed NDJSON file
+   */
+  @Get("plants.ndjson")
+  @ApiOperation({
+    summary: "Stream all plants as NDJSON",
+    description:
+      "Streams one JSON object per line for every plant (attributes, state and generation records). With `year`, only plants reporting that year are included, with that year's generation. Send Accept-Encoding: gzip for a compressed response.",
+  })
+  @ApiQuery({
+    name: "year",
+    required: false,
+    type: Number,
+    description: "Only export generation for this year",
+    example: 2023,
+  })
+  @ApiHeader({
+    name: "Accept-Encoding",
+    required: false,
+    description: "gzip to compress the response",
+  })
+  @ApiProduces("application/x-ndjson")
+  @ApiResponse({
+    status: 200,
+    description: "NDJSON stream of plants",
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid query parameters",
+    type: ErrorResponseDto,
+  })
+  exportPlants(
+    @Query() query: ExportQueryDto,
+    @Headers("accept-encoding") acceptEncoding: string | undefined,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    this.logger.log(
+      `GET /exports/plants.ndjson - Query: ${JSON.stringify(query)}`
+    );
+    const gzip = this.setContentEncoding(res, acceptEncoding);
+    return this.exportsService.exportPlants(query, gzip);
+  }
+
+  /**
+   * GET /exports/plant-generations.csv
+   * Stream every plant generation record as CSV
+   *
+   * @param query - Query parameters (year)
+   * @returns Streamed CSV file
+   */
+  @Get("plant-generations.csv")
+  @ApiOperation({
+    summary: "Stream all plant generation records as CSV",
+    description:
+      "Streams every plant generation record (id, plant_id, oris_code, plant_name, state_code, year, net_generation) as CSV with a header row. Send Accept-Encoding: gzip for a compressed response.",
+  })
+  @ApiQuery({
+    name: "year",
+    required: false,
+    type: Number,
+    description: "Only export records for this year",
+    example: 2023,
+  })
+  @ApiHeader({
+    name: "Accept-Encoding",
+    required: false,
+    description: "gzip to compress the response",
+  })
+  @ApiProduces("text/csv")
+  @ApiResponse({
+    status: 200,
+    description: "CSV stream of plant generation records",
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid query parameters",
+    type: ErrorResponseDto,
+  })
+  exportPlantGenerations(
+    @Query() query: ExportQueryDto,
+    @Headers("accept-encoding") acceptEncoding: string | undefined,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    this.logger.log(
+      `GET /exports/plant-generations.csv - Query: ${JSON.stringify(query)}`
+    );
+    const gzip = this.setContentEncoding(res, acceptEncoding);
+    return this.exportsService.exportPlantGenerations(query, gzip);
+  }
+
+  /**
+   * Negotiate gzip and set the matching response headers
+   */
+  private setContentEncoding(
+    res: Response,
+    acceptEncoding: string | undefined
+  ): boolean {
+    const gzip = this.exportsService.acceptsGzip(acceptEncoding);
+    res.setHeader("Vary", "Accept-Encoding");
+    if (gzip) {
+      res.setHeader("Content-Encoding", "gzip");
+    }
+    return gzip;
+  }
+}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { INestApplication, ValidationPipe } from "@nestjs/common";
+import request from "supertest";
+import { AppModule } from "../../app.module";
+import { config } from "../../config/configuration";
+import { signJwt } from "../../common/utils/jwt.helper";
+
+/**
+ * E2E tests for Exports API endpoints
+ *
+ * Tests streamed bulk downloads including:
+ * - Content types and download headers
+ * - Year filtering and validation
+ * - gzip Content-Encoding negotiation
+ *
+ * Prerequisites:
+ * - Database must be running with seed data
+ * - Redis is optional (graceful fallback)
+ */
+describe("Exports API (E2E)", () => {
+  let app: INestApplication;
+  let api: ReturnType<typeof request.agent>;
+
+  /**
+   * Collect the raw (still encoded) response body
+   */
+  const rawBody = (res: any, callback: (err: any, body: Buffer) => void) => {
+    const chunks: Buffer[] = [];
+    res.on("data", (chunk: Buffer) => chunks.push(chunk));
+    res.on("end", () => callback(null, Buffer.concat(chunks)));
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+
+    // Apply same configuration as main.ts
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: {
+          enableImplicitConversion: true,
+        },
+      })
+    );
+
+    app.setGlobalPrefix("api/v1");
+
+    await app.init();
+
+    // Every request carries a valid bearer token unless a test opts out
+    const token = signJwt(
+      { sub: "e2e", exp: Math.floor(Date.now() / 1000) + 3600 },
+      config().jwt.secret
+    );
+    api = request
+      .agent(app.getHttpServer())
+      .set("Authorization", `Bearer ${token}`);
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  }, 10000);
+
+  describe("GET /api/v1/exports/plants.ndjson", () => {
+    it("should stream plants as NDJSON", () => {
+      return api
+        .get("/api/v1/exports/plants.ndjson?year=2023")
+        .set("Accept-Encoding", "identity")
+        .buffer(true)
+        .parse(rawBody)
+        .expect(200)
+        .expect("Content-Type", /application\/x-ndjson/)
+        .expect((res) => {
+          const lines = res.body.toString().trim().split("\n");
+          expect(lines.length).toBeGreaterThan(0);
+          const plant = JSON.parse(lines[0]);
+          expect(plant).toHaveProperty("id");
+          expect(plant).toHaveProperty("state");
+          expect(plant.generations[0].year).toBe(2023);
+        });
+    });
+
+    it("should gzip the response when accepted", () => {
+      return api
+        .get("/api/v1/exports/plants.ndjson")
+        .set("Accept-Encoding", "gzip")
+        .buffer(true)
+        .parse(rawBody)
+        .expect(200)
+        .expect("Content-Encoding", "gzip")
+        .expect((res) => {
+          // supertest transparently decodes gzip-encoded bodies
+          const lines = res.body.toString().trim().split("\n");
+          expect(() => lines.map((line) => JSON.parse(line))).not.toThrow();
+        });
+    });
+
+    it("should validate year", () => {
+      return api.get("/api/v1/exports/plants.ndjson?year=abc").expect(400);
+    });
+  });
+
+  describe("GET /api/v1/exports/plant-generations.csv", () => {
+    it("should stream generation records as CSV", () => {
+      return api
+        .get("/api/v1/exports/plant-generations.csv")
+        .set("Accept-Encoding", "identity")
+        .buffer(true)
+        .parse(rawBody)
+        .expect(200)
+        .expect("Content-Type", /text\/csv/)
+        .expect(
+          "Content-Disposition",
+          'attachment; filename="plant-generations.csv"'
+        )
+        .expect((res) => {
+          const lines = res.body.toString().trim().split("\r\n");
+          expect(lines[0]).toBe(
+            "id,plant_id,oris_code,plant_name,state_code,year,net_generation"
+          );
+          expect(lines.length).toBeGreaterThan(1);
+        });
+    });
+  });
+});
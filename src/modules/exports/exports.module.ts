@@ -0,0 +1,21 @@
+import { Module } from "@nestjs/common";
+import { ExportsController } from "./exports.controller";
+import { ExportsService } from "./exports.service";
+import { PlantRepository } from "../plants/repositories/plant.repository";
+
+/**
+ * ExportsModule
+ *
+ * Encapsulates streaming bulk exports of the full dataset:
+ * - Controllers for HTTP endpoints
+ * - Services for serialization and compression
+ * - PlantRepository for batched reads
+ */
+@Module({
+  controllers: [ExportsController],
+  providers: [
+    ExportsService,
+    PlantRepository, // Provides the keyset-batched export streams
+  ],
+})
+export class ExportsModule {}
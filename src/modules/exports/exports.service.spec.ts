@@ -0,0 +1,186 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { StreamableFile } from "@nestjs/common";
+import { gunzipSync } from "zlib";
+import { ExportsService } from "./exports.service";
+import { PlantRepository } from "../plants/repositories/plant.repository";
+
+/**
+ * Unit tests for ExportsService
+ *
+ * Tests NDJSON/CSV serialization, gzip encoding and Accept-Encoding
+ * negotiation with a mocked streaming repository
+ */
+describe("ExportsService", () => {
+  let service: ExportsService;
+  let plantRepository: jest.Mocked<PlantRepository>;
+
+  // Mock data fixtures
+  const mockPlants = [
+    {
+      id: 1,
+      name: "Palo Verde",
+      state: { code: "AZ", name: "Arizona" },
+      orisCode: 6008,
+      primaryFuelCategory: "NUCLEAR",
+      nameplateCapacityMw: 4209.6,
+      latitude: 33.3881,
+      longitude: -112.8617,
+      county: null,
+      operatorName: null,
+      utilityName: null,
+      balancingAuthorityCode: null,
+      balancingAuthorityName: null,
+      generations: [{ year: 2023, netGeneration: 31522590 }],
+    },
+    {
+      id: 2,
+      name: "Comanche Peak",
+      state: { code: "TX", name: "Texas" },
+      orisCode: 6145,
+      primaryFuelCategory: "NUCLEAR",
+      nameplateCapacityMw: 2430,
+      latitude: 32.2983,
+      longitude: -97.7853,
+      county: null,
+      operatorName: null,
+      utilityName: null,
+      balancingAuthorityCode: null,
+      balancingAuthorityName: null,
+      generations: [{ year: 2023, netGeneration: 19885345 }],
+    },
+  ];
+
+  const mockGenerations = [
+    {
+      id: 10,
+      plantId: 1,
+      orisCode: 6008,
+      plantName: "Palo Verde",
+      stateCode: "AZ",
+      year: 2023,
+      netGeneration: 31522590,
+    },
+    {
+      id: 11,
+      plantId: 3,
+      orisCode: null,
+      plantName: "Smith, Jones & Co",
+      stateCode: "TX",
+      year: 2023,
+      netGeneration: 1200.5,
+    },
+  ];
+
+  async function* iterate<T>(rows: T[]) {
+    for (const row of rows) yield row;
+  }
+
+  const readFile = async (file: StreamableFile) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of file.getStream()) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    const mockRepo = {
+      streamPlants: jest.fn(() => iterate(mockPlants)),
+      streamPlantGenerations: jest.fn(() => iterate(mockGenerations)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportsService,
+        {
+          provide: PlantRepository,
+          useValue: mockRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExportsService>(ExportsService);
+    plantRepository = module.get(PlantRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("exportPlants", () => {
+    it("should stream one JSON object per line", async () => {
+      // Act
+      const file = service.exportPlants({}, false);
+      const lines = (await readFile(file)).toString().trim().split("\n");
+
+      // Assert
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0]!)).toEqual(mockPlants[0]);
+      expect(JSON.parse(lines[1]!).name).toBe("Comanche Peak");
+      expect(file.options.type).toBe("application/x-ndjson");
+      expect(file.options.disposition).toBe(
+        'attachment; filename="plants.ndjson"'
+      );
+    });
+
+    it("should pass the year filter to the repository", async () => {
+      // Act
+      await readFile(service.exportPlants({ year: 2023 }, false));
+
+      // Assert
+      expect(plantRepository.streamPlants).toHaveBeenCalledWith({
+        year: 2023,
+      });
+    });
+
+    it("should gzip the stream when requested", async () => {
+      // Act
+      const file = service.exportPlants({}, true);
+      const body = gunzipSync(await readFile(file)).toString();
+
+      // Assert
+      expect(body.trim().split("\n")).toHaveLength(2);
+    });
+  });
+
+  describe("exportPlantGenerations", () => {
+    it("should stream a CSV header followed by one row per record", async () => {
+      // Act
+      const file = service.exportPlantGenerations({}, false);
+      const lines = (await readFile(file)).toString().split("\r\n");
+
+      // Assert
+      expect(lines[0]).toBe(
+        "id,plant_id,oris_code,plant_name,state_code,year,net_generation"
+      );
+      expect(lines[1]).toBe("10,1,6008,Palo Verde,AZ,2023,31522590");
+      expect(lines[2]).toBe('11,3,,"Smith, Jones & Co",TX,2023,1200.5');
+      expect(file.options.type).toBe("text/csv; charset=utf-8");
+      expect(plantRepository.streamPlantGenerations).toHaveBeenCalledWith({});
+    });
+
+    it("should gzip the stream when requested", async () => {
+      // Act
+      const file = service.exportPlantGenerations({ year: 2023 }, true);
+      const body = gunzipSync(await readFile(file)).toString();
+
+      // Assert
+      expect(body.split("\r\n")[0]).toMatch(/^id,plant_id/);
+    });
+  });
+
+  describe("acceptsGzip", () => {
+    it("should accept gzip and wildcard encodings", () => {
+      expect(service.acceptsGzip("gzip, deflate, br")).toBe(true);
+      expect(service.acceptsGzip("br;q=1.0, gzip;q=0.8")).toBe(true);
+      expect(service.acceptsGzip("*")).toBe(true);
+    });
+
+    it("should reject missing or refused gzip", () => {
+      expect(service.acceptsGzip(undefined)).toBe(false);
+      expect(service.acceptsGzip("identity")).toBe(false);
+      expect(service.acceptsGzip("deflate, br")).toBe(false);
+      expect(service.acceptsGzip("gzip;q=0")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { Injectable, Logger, StreamableFile } from "@nestjs/common";
+import { Readable, pipeline } from "stream";
+import { createGzip } from "zlib";
+import { ExportQueryDto } from "./dto/exports.dto";
+import { PlantRepository } from "../plants/repositories/plant.repository";
+import { toCsvRow } from "../../common/utils/export.helper";
+
+/**
+ * Options for a streamed export response
+ */
+export interface StreamExportFileOptions {
+  type: string;
+  filename: string;
+  gzip: boolean;
+}
+
+/**
+ * ExportsService
+ *
+ * Streams the full dataset for data-warehouse loads
+ * Rows are pulled from the repository in keyset batches and serialized line
+ * by line, so memory stays flat no matter how many rows are exported
+ */
+@Injectable()
+export class ExportsService {
+  private readonly logger = new Logger(ExportsService.name);
+
+  constructor(private readonly plantRepository: PlantRepository) {}
+
+  /**
+   * Stream every plant (with generation records) as newline-delimited JSON
+   *
+   * @param query - Optional year filter
+   * @param gzip - Whether to gzip the response body
+   */
+  exportPlants(query: ExportQueryDto, gzip: boolean): StreamableFile {
+    this.logger.log(
+      `Streaming plants.ndjson for year: ${query.year || "ALL"}, gzip: ${gzip}`
+    );
+
+    return this.toStreamableFile(this.plantsNdjson(query), {
+      type: "application/x-ndjson",
+      filename: "plants.ndjson",
+      gzip,
+    });
+  }
+
+  /**
+   * Stream every plant generation record as CSV
+   *
+   * @param query - Optional year filter
+   * @param gzip - Whether to gzip the response body
+   */
+  exportPlantGenerations(query: ExportQueryDto, gzip: boolean): StreamableFile {
+    this.logger.log(
+      `Streaming plant-generations.csv for year: ${
+        query.year || "ALL"
+      }, gzip: ${gzip}`
+    );
+
+    return this.toStreamableFile(this.plantGenerationsCsv(query), {
+      type: "text/csv; charset=utf-8",
+      filename: "plant-generations.csv",
+      gzip,
+    });
+  }
+
+  /**
+   * Whether the client accepts a gzip-encoded response
+   *
+   * @param acceptEncoding - Accept-Encoding request header
+   */
+  acceptsGzip(acceptEncoding: string | undefined): boolean {
+    return (acceptEncoding ?? "")
+      .split(",")
+      .map((encoding) => encoding.trim().toLowerCase())
+      .some(
+        (encoding) =>
+          /^(gzip|\*)(;|$)/.test(encoding) && !/;\s*q=0(\.0*)?$/.test(encoding)
+      );
+  }
+
+  /**
+   * Serialize plants as NDJSON lines
+   */
+  private async *plantsNdjson(query: ExportQueryDto): AsyncGenerator<string> {
+    const startTime = Date.now();
+    let count = 0;
+
+    for await (const plant of this.plantRepository.streamPlants(
+      query.year ? { year: query.year } : {}
+    )) {
+      count++;
+      yield JSON.stringify(plant) + "\n";
+    }
+
+    this.logger.log(`Exported ${count} plants in ${Date.now() - startTime}ms`);
+  }
+
+  /**
+   * Serialize plant generation records as CSV lines (header first)
+   */
+  private async *plantGenerationsCsv(
+    query: ExportQueryDto
+  ): AsyncGenerator<string> {
+    const startTime = Date.now();
+    let count = 0;
+
+    yield toCsvRow([
+      "id",
+      "plant_id",
+      "oris_code",
+      "plant_name",
+      "state_code",
+      "year",
+      "net_generation",
+    ]);
+
+    for await (const row of this.plantRepository.streamPlantGenerations(
+      query.year ? { year: query.year } : {}
+    )) {
+      count++;
+      yield toCsvRow([
+        row.id,
+        row.plantId,
+        row.orisCode,
+        row.plantName,
+        row.stateCode,
+        row.year,
+        row.netGeneration,
+      ]);
+    }
+
+    this.logger.log(
+      `Exported ${count} plant generations in ${Date.now() - startTime}ms`
+    );
+  }
+
+  /**
+   * Wrap serialized lines in a (optionally gzipped) file download
+   *
+   * Readable.from only pulls the next line when the previous one has been
+   * consumed, so a slow client throttles the database reads.
+   */
+  private toStreamableFile(
+    lines: AsyncIterable<string>,
+    options: StreamExportFileOptions
+  ): StreamableFile {
+    const source = Readable.from(lines);
+    const stream = options.gzip
+      ? pipeline(source, createGzip(), (error) => {
+          if (error) {
+            this.logger.error(`Failed to stream ${options.filename}: ${error}`);
+          }
+        })
+      : source;
+
+    // gzip is a Content-Encoding, so the file name stays uncompressed
+    return new StreamableFile(stream, {
+      type: options.type,
+      disposition: `attachment; filename="${options.filename}"`,
+    });
+  }
+}
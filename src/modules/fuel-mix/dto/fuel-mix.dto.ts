@@ -0,0 +1,107 @@
+import { IsInt, IsOptional, Min, Max } from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty } from "@nestjs/swagger";
+
+/**
+ * Fuel categories exposed by the fuel-mix endpoints
+ *
+ * eGRID primary fuel categories that do not map to one of these (oil,
+ * biomass, geothermal, other fossil, unknown) are reported as "other".
+ */
+export const FUEL_CATEGORIES = [
+  "coal",
+  "gas",
+  "nuclear",
+  "hydro",
+  "wind",
+  "solar",
+  "other",
+] as const;
+
+export type FuelCategory = (typeof FUEL_CATEGORIES)[number];
+
+/**
+ * DTO for GET /fuel-mix and GET /states/:code/fuel-mix query parameters
+ */
+export class GetFuelMixQueryDto {
+  @ApiProperty({
+    description:
+      "Year to query the fuel mix (defaults to the latest ingested year)",
+    minimum: 1900,
+    maximum: 2100,
+    example: 2023,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "year must be an integer" })
+  @Min(1900, { message: "year must be 1900 or later" })
+  @Max(2100, { message: "year cannot exceed 2100" })
+  year?: number;
+}
+
+/**
+ * Generation for a single fuel category
+ */
+export class FuelMixEntryDto {
+  @ApiProperty({
+    description: "Fuel category",
+    enum: FUEL_CATEGORIES,
+    example: "gas",
+  })
+  fuel!: FuelCategory;
+
+  @ApiProperty({
+    description: "Net generation in MWh",
+    example: 270000000.5,
+  })
+  generation!: number;
+
+  @ApiProperty({
+    description: "Percentage of total generation",
+    example: 49.6,
+  })
+  percentage!: number;
+
+  @ApiProperty({
+    description: "Number of plants whose primary fuel is this category",
+    example: 312,
+  })
+  plantCount!: number;
+}
+
+/**
+ * Response DTO for GET /fuel-mix and GET /states/:code/fuel-mix
+ */
+export class FuelMixResponseDto {
+  @ApiProperty({
+    description: "State information (null for the national mix)",
+    example: { id: 1, code: "TX", name: "Texas" },
+    nullable: true,
+    type: Object,
+  })
+  state!: {
+    id: number;
+    code: string;
+    name: string;
+  } | null;
+
+  @ApiProperty({ description: "Year", example: 2023 })
+  year!: number;
+
+  @ApiProperty({
+    description: "Total generation in MWh across all fuel categories",
+    example: 544038647.01,
+  })
+  totalGeneration!: number;
+
+  @ApiProperty({
+    description:
+      "Generation per fuel category, always listing every category in a fixed order",
+    type: [FuelMixEntryDto],
+  })
+  fuels!: FuelMixEntryDto[];
+}
+
+// Re-export common DTOs
+export { ErrorResponseDto } from "../../../common/dto/common.dto";
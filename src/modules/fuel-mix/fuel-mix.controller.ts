@@ -0,0 +1,78 @@
+import { Controller, Get, Query, Logger } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiSecurity,
+} from "@nestjs/swagger";
+import { FuelMixService } from "./fuel-mix.service";
+import {
+  GetFuelMixQueryDto,
+  FuelMixResponseDto,
+  ErrorResponseDto,
+} from "./dto/fuel-mix.dto";
+
+/**
+ * FuelMixController
+ *
+ * Handles national fuel-mix endpoints:
+ * - GET /fuel-mix - Get national generation by fuel category
+ *
+ * The per-state breakdown lives at GET /states/:code/fuel-mix.
+ */
+@Controller("fuel-mix")
+@ApiTags("Fuel Mix")
+@ApiBearerAuth()
+@ApiSecurity("api-key")
+@ApiResponse({
+  status: 401,
+  description: "Missing, invalid or expired credentials",
+  type: ErrorResponseDto,
+})
+export class FuelMixController {
+  private readonly logger = new Logger(FuelMixController.name);
+
+  constructor(private readonly fuelMixService: FuelMixService) {}
+
+  /**
+   * GET /fuel-mix
+   * Get national generation by fuel category
+   *
+   * @param query - Query parameters (year)
+   * @returns Generation and share of national total per fuel category
+   */
+  @Get()
+  @ApiOperation({
+    summary: "Get national fuel mix",
+    description:
+      "Returns national net generation (MWh) and percentage share for each fuel category: coal, gas, nuclear, hydro, wind, solar and other.",
+  })
+  @ApiQuery({
+    name: "year",
+    required: false,
+    type: Number,
+    description: "Year to filter (defaults to the latest ingested year)",
+    example: 2023,
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Successfully retrieved national fuel mix",
+    type: FuelMixResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid query parameters",
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: "No generation data has been loaded",
+    type: ErrorResponseDto,
+  })
+  async getNationalFuelMix(@Query() query: GetFuelMixQueryDto) {
+    this.logger.log(`GET /fuel-mix - Year: ${query.year ?? "latest"}`);
+    return this.fuelMixService.getFuelMix(query.year);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from "@nestjs/common";
+import { FuelMixController } from "./fuel-mix.controller";
+import { FuelMixService } from "./fuel-mix.service";
+import { FuelMixRepository } from "./repositories/fuel-mix.repository";
+
+/**
+ * FuelMixModule
+ *
+ * Encapsulates fuel-mix breakdowns backed by state_fuel_mix_mv:
+ * - Controllers for HTTP endpoints
+ * - Services for business logic
+ * - Repositories for data access
+ */
+@Module({
+  controllers: [FuelMixController],
+  providers: [FuelMixService, FuelMixRepository],
+  exports: [FuelMixService], // Used by StatesModule for state fuel mix
+})
+export class FuelMixModule {}
@@ -0,0 +1,172 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { NotFoundException } from "@nestjs/common";
+import { FuelMixService } from "./fuel-mix.service";
+import {
+  FuelMixRepository,
+  FuelMixRow,
+} from "./repositories/fuel-mix.repository";
+
+/**
+ * Unit tests for FuelMixService
+ *
+ * Tests percentage derivation and state handling for fuel-mix breakdowns
+ */
+describe("FuelMixService", () => {
+  let service: FuelMixService;
+  let fuelMixRepository: jest.Mocked<FuelMixRepository>;
+
+  // Mock data fixtures
+  const mockRows: FuelMixRow[] = [
+    { fuel: "coal", generation: 100000, plantCount: 10 },
+    { fuel: "gas", generation: 250000, plantCount: 40 },
+    { fuel: "nuclear", generation: 100000, plantCount: 2 },
+    { fuel: "hydro", generation: 0, plantCount: 0 },
+    { fuel: "wind", generation: 40000, plantCount: 25 },
+    { fuel: "solar", generation: 10000, plantCount: 30 },
+    { fuel: "other", generation: 0, plantCount: 0 },
+  ];
+
+  beforeEach(async () => {
+    const mockRepo = {
+      getFuelMix: jest.fn(),
+      getLatestYear: jest.fn().mockResolvedValue(2024),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FuelMixService,
+        {
+          provide: FuelMixRepository,
+          useValue: mockRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get<FuelMixService>(FuelMixService);
+    fuelMixRepository = module.get(FuelMixRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("getFuelMix", () => {
+    it("should return the national mix when no state is given", async () => {
+      // Arrange
+      fuelMixRepository.getFuelMix.mockResolvedValue(mockRows);
+
+      // Act
+      const result = await service.getFuelMix(2023);
+
+      // Assert
+      expect(result.state).toBeNull();
+      expect(result.year).toBe(2023);
+      expect(result.totalGeneration).toBe(500000);
+      expect(fuelMixRepository.getFuelMix).toHaveBeenCalledWith(
+        2023,
+        undefined
+      );
+    });
+
+    it("should compute each category's share of the total", async () => {
+      // Arrange
+      fuelMixRepository.getFuelMix.mockResolvedValue(mockRows);
+
+      // Act
+      const result = await service.getFuelMix(2023);
+
+      // Assert
+      const shares = Object.fromEntries(
+        result.fuels.map((f) => [f.fuel, f.percentage])
+      );
+      expect(shares["gas"]).toBeCloseTo(50);
+      expect(shares["coal"]).toBeCloseTo(20);
+      expect(shares["solar"]).toBeCloseTo(2);
+      expect(shares["hydro"]).toBe(0);
+    });
+
+    it("should keep every category in a fixed order", async () => {
+      // Arrange
+      fuelMixRepository.getFuelMix.mockResolvedValue(mockRows);
+
+      // Act
+      const result = await service.getFuelMix(2023);
+
+      // Assert
+      expect(result.fuels.map((f) => f.fuel)).toEqual([
+        "coal",
+        "gas",
+        "nuclear",
+        "hydro",
+        "wind",
+        "solar",
+        "other",
+      ]);
+    });
+
+    it("should scope the query to the given state", async () => {
+      // Arrange
+      const state = { id: 45, code: "TX", name: "Texas" };
+      fuelMixRepository.getFuelMix.mockResolvedValue(mockRows);
+
+      // Act
+      const result = await service.getFuelMix(2022, state);
+
+      // Assert
+      expect(result.state).toEqual(state);
+      expect(fuelMixRepository.getFuelMix).toHaveBeenCalledWith(2022, "TX");
+    });
+
+    it("should return zero percentages when there is no generation", async () => {
+      // Arrange
+      fuelMixRepository.getFuelMix.mockResolvedValue(
+        mockRows.map((row) => ({ ...row, generation: 0, plantCount: 0 }))
+      );
+
+      // Act
+      const result = await service.getFuelMix(1990);
+
+      // Assert
+      expect(result.totalGeneration).toBe(0);
+      result.fuels.forEach((f) => expect(f.percentage).toBe(0));
+    });
+
+    it("should default to the latest ingested year", async () => {
+      // Arrange
+      fuelMixRepository.getFuelMix.mockResolvedValue(mockRows);
+
+      // Act
+      const result = await service.getFuelMix(undefined);
+
+      // Assert
+      expect(result.year).toBe(2024);
+      expect(fuelMixRepository.getFuelMix).toHaveBeenCalledWith(
+        2024,
+        undefined
+      );
+    });
+
+    it("should throw NotFoundException before any data is loaded", async () => {
+      // Arrange
+      fuelMixRepository.getLatestYear.mockResolvedValue(undefined);
+
+      // Act & Assert
+      await expect(service.getFuelMix(undefined)).rejects.toThrow(
+        NotFoundException
+      );
+      expect(fuelMixRepository.getFuelMix).not.toHaveBeenCalled();
+    });
+
+    it("should propagate repository errors", async () => {
+      // Arrange
+      fuelMixRepository.getFuelMix.mockRejectedValue(
+        new Error("Database connection failed")
+      );
+
+      // Act & Assert
+      await expect(service.getFuelMix(2023)).rejects.toThrow(
+        "Database connection failed"
+      );
+    });
+  });
+});
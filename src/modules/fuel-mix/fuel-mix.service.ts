@@ -0,0 +1,71 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { FuelMixResponseDto } from "./dto/fuel-mix.dto";
+import { FuelMixRepository } from "./repositories/fuel-mix.repository";
+
+/**
+ * FuelMixService
+ *
+ * Business logic layer for fuel-mix breakdowns
+ * Raw per-fuel totals are cached by FuelMixRepository; percentages are
+ * derived here since they are cheap to compute.
+ */
+@Injectable()
+export class FuelMixService {
+  private readonly logger = new Logger(FuelMixService.name);
+
+  constructor(private readonly fuelMixRepository: FuelMixRepository) {}
+
+  /**
+   * Get the fuel mix for a year, nationally or for a single state
+   *
+   * @param requestedYear - Year to query; the latest ingested year when
+   * omitted
+   * @param state - Optional state (already validated by the caller)
+   * @returns Generation and share of total per fuel category
+   * @throws NotFoundException when no year is given and no data is loaded
+   */
+  async getFuelMix(
+    requestedYear: number | undefined,
+    state?: { id: number; code: string; name: string }
+  ): Promise<FuelMixResponseDto> {
+    const startTime = Date.now();
+
+    try {
+      // Resolved before the cache lookup, so keys and tags carry the year
+      const year =
+        requestedYear ?? (await this.fuelMixRepository.getLatestYear());
+      if (year === undefined) {
+        throw new NotFoundException("No fuel mix data has been loaded");
+      }
+
+      const rows = await this.fuelMixRepository.getFuelMix(year, state?.code);
+
+      const totalGeneration = rows.reduce(
+        (sum, row) => sum + row.generation,
+        0
+      );
+
+      this.logger.log(
+        `Retrieved fuel mix for ${state?.code ?? "US"} (${year}) in ${
+          Date.now() - startTime
+        }ms`
+      );
+
+      return {
+        state: state ?? null,
+        year,
+        totalGeneration,
+        fuels: rows.map((row) => ({
+          fuel: row.fuel,
+          generation: row.generation,
+          percentage:
+            totalGeneration > 0 ? (row.generation / totalGeneration) * 100 : 0,
+          plantCount: row.plantCount,
+        })),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get fuel mix: ${error}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "../../../prisma/prisma.service";
+import { CacheService } from "../../../cache/cache.service";
+import { CacheKeys } from "../../../cache/cache-keys";
+import { FUEL_CATEGORIES, FuelCategory } from "../dto/fuel-mix.dto";
+
+/**
+ * Generation and plant count for one fuel category
+ */
+export interface FuelMixRow {
+  fuel: FuelCategory;
+  generation: number;
+  plantCount: number;
+}
+
+/**
+ * Fuel-mix repository with caching layer
+ * Reads per-state, per-fuel totals from state_fuel_mix_mv
+ */
+@Injectable()
+export class FuelMixRepository {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cache: CacheService
+  ) {}
+
+  /**
+   * Get generation grouped by fuel category for a year
+   *
+   * Categories without generation are returned with zeros so every response
+   * lists the same categories in the same order.
+   *
+   * @param year - Year to query
+   * @param stateCode - Optional state code; national totals when omitted
+   * @returns One row per fuel category in FUEL_CATEGORIES order
+   */
+  async getFuelMix(year: number, stateCode?: string): Promise<FuelMixRow[]> {
+    return this.cache.getOrSet(CacheKeys.fuelMix(year, stateCode), () =>
+      this.queryFuelMix(year, stateCode)
+    );
+  }
+
+  /**
+   * Most recent year in state_fuel_mix_mv
+   *
+   * @returns undefined when no generation data is loaded
+   */
+  async getLatestYear(): Promise<number | undefined> {
+    const [row] = await this.prisma.$queryRaw<Array<{ year: number | null }>>`
+      SELECT MAX(year) AS year FROM state_fuel_mix_mv
+    `;
+    return row?.year ?? undefined;
+  }
+
+  private async queryFuelMix(
+    year: number,
+    stateCode: string | undefined
+  ): Promise<FuelMixRow[]> {
+    // Uses index: state_fuel_mix_mv_unique_idx / idx_state_fuel_mix_mv_year_fuel
+    const rows = await this.prisma.$queryRaw<
+      Array<{
+        fuel_category: string;
+        total_generation: string;
+        plant_count: bigint;
+      }>
+    >`
+      SELECT
+        fuel_category,
+        SUM(total_generation) AS total_generation,
+        SUM(plant_count) AS plant_count
+      FROM state_fuel_mix_mv
+      WHERE year = ${year}
+      ${
+        stateCode
+          ? Prisma.sql`AND state_id = (SELECT id FROM states WHERE code = ${stateCode})`
+          : Prisma.empty
+      }
+      GROUP BY fuel_category
+    `;
+
+    const byFuel = new Map(rows.map((row) => [row.fuel_category, row]));
+    return FUEL_CATEGORIES.map((fuel) => {
+      const row = byFuel.get(fuel);
+      return {
+        fuel,
+        generation: row ? parseFloat(row.total_generation) : 0,
+        plantCount: row ? Number(row.plant_count) : 0,
+      };
+    });
+  }
+}
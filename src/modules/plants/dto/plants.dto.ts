@@ -1,5 +1,7 @@
 import {
+  IsIn,
   IsInt,
+  IsNumber,
   IsOptional,
   Min,
   Max,
@@ -7,13 +9,30 @@ import {
   Length,
   Matches,
   IsPositive,
+  IsNotEmpty,
+  MaxLength,
 } from "class-validator";
-import { Type } from "class-transformer";
-import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional, OmitType } from "@nestjs/swagger";
+import { FUEL_CATEGORIES, FuelCategory } from "../../fuel-mix/dto/fuel-mix.dto";
+import { EXPORT_FORMATS } from "../../../common/utils/export.helper";
+
+/**
+ * Response formats for plant endpoints that return plant locations
+ * `geojson` returns a FeatureCollection of Point features; `csv` and `xlsx`
+ * return a file download
+ */
+export const PLANT_RESPONSE_FORMATS = [
+  "json",
+  "geojson",
+  ...EXPORT_FORMATS,
+] as const;
+export type PlantResponseFormat = (typeof PLANT_RESPONSE_FORMATS)[number];
 
 /**
  * DTO for GET /plants query parameters
- * Validates top N query with optional state and year filters
+ * Validates top N query with optional state, year, fuel, capacity and
+ * generation filters
  */
 export class GetPlantsQueryDto {
   @ApiProperty({
@@ -33,23 +52,172 @@ export class GetPlantsQueryDto {
   top?: number = 10;
 
   @ApiPropertyOptional({
-    description: "State code (2 uppercase letters, e.g., TX, CA, FL)",
-    minLength: 2,
-    maxLength: 2,
-    pattern: "^[A-Z]{2}$",
+    description:
+      "State code (2 uppercase letters, e.g., TX) or a comma-separated list of codes (e.g., TX,OK,NM)",
+    pattern: "^[A-Z]{2}(,[A-Z]{2})*$",
     example: "TX",
     type: String,
   })
   @IsOptional()
   @IsString({ message: "state must be a string" })
-  @Length(2, 2, { message: "state must be exactly 2 characters" })
+  @Matches(/^[^,]{2}(,[^,]{2})*$/, {
+    message: "state must be exactly 2 characters per state code",
+  })
+  @Matches(/^[A-Z]{2}(,[A-Z]{2})*$/, {
+    message:
+      "state must be 2 uppercase letters (e.g., TX, CA, FL) or a comma-separated list (e.g., TX,OK,NM)",
+  })
+  state?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Year to filter generation data (defaults to the latest ingested year)",
+    minimum: 1900,
+    maximum: 2100,
+    example: 2023,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "year must be an integer" })
+  @Min(1900, { message: "year must be 1900 or later" })
+  @Max(2100, { message: "year cannot exceed 2100" })
+  year?: number;
+
+  @ApiPropertyOptional({
+    description: "Primary fuel category",
+    enum: FUEL_CATEGORIES,
+    example: "solar",
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === "string" ? value.toLowerCase() : value
+  )
+  @IsIn(FUEL_CATEGORIES, {
+    message: `fuel must be one of: ${FUEL_CATEGORIES.join(", ")}`,
+  })
+  fuel?: FuelCategory;
+
+  @ApiPropertyOptional({
+    description: "Minimum nameplate capacity in MW (inclusive)",
+    minimum: 0,
+    example: 100,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: "minCapacityMw must be a number" })
+  @Min(0, { message: "minCapacityMw must be 0 or greater" })
+  minCapacityMw?: number;
+
+  @ApiPropertyOptional({
+    description: "Maximum nameplate capacity in MW (inclusive)",
+    minimum: 0,
+    example: 500,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: "maxCapacityMw must be a number" })
+  @Min(0, { message: "maxCapacityMw must be 0 or greater" })
+  maxCapacityMw?: number;
+
+  @ApiPropertyOptional({
+    description: "Minimum net generation in MWh (inclusive)",
+    example: 1000000,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: "minGeneration must be a number" })
+  minGeneration?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Response format (geojson returns a FeatureCollection; csv/xlsx return a file download)",
+    enum: PLANT_RESPONSE_FORMATS,
+    default: "json",
+    example: "geojson",
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === "string" ? value.toLowerCase() : value
+  )
+  @IsIn(PLANT_RESPONSE_FORMATS, {
+    message: `format must be one of: ${PLANT_RESPONSE_FORMATS.join(", ")}`,
+  })
+  format?: PlantResponseFormat;
+}
+
+/**
+ * DTO for GET /plants/list query parameters
+ * Accepts the same filters as GET /plants, with a page size and an opaque
+ * keyset cursor instead of `top`
+ */
+export class GetPlantsListQueryDto extends OmitType(GetPlantsQueryDto, [
+  "top",
+  "format",
+] as const) {
+  @ApiPropertyOptional({
+    description: "Number of plants per page",
+    minimum: 1,
+    maximum: 1000,
+    default: 100,
+    example: 100,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "limit must be an integer" })
+  @Min(1, { message: "limit must be at least 1" })
+  @Max(1000, { message: "limit cannot exceed 1000" })
+  limit?: number = 100;
+
+  @ApiPropertyOptional({
+    description:
+      "Opaque cursor from meta.nextCursor of the previous page; omit for the first page. Only valid with the filters of the first page.",
+    example:
+      "eyJuIjoiMzE1MjI1OTAuMDAiLCJpIjoxMiwiciI6MTAwLCJ5IjoyMDIzLCJmIjoiUkJOdm8xV3paNG9SUnEwVyJ9",
+    type: String,
+  })
+  @IsOptional()
+  @IsString({ message: "cursor must be a string" })
+  cursor?: string;
+}
+
+/**
+ * DTO for GET /plants/search query parameters
+ */
+export class SearchPlantsQueryDto {
+  @ApiProperty({
+    description:
+      "Plant name (or part of it); matching is case-insensitive and typo-tolerant",
+    maxLength: 100,
+    example: "diablo canyon",
+    type: String,
+  })
+  @Transform(({ value }) => (typeof value === "string" ? value.trim() : value))
+  @IsString({ message: "q must be a string" })
+  @IsNotEmpty({ message: "q must not be empty" })
+  @MaxLength(100, { message: "q cannot exceed 100 characters" })
+  q!: string;
+
+  @ApiPropertyOptional({
+    description: "State code (2 uppercase letters)",
+    pattern: "^[A-Z]{2}$",
+    example: "CA",
+    type: String,
+  })
+  @IsOptional()
+  @IsString({ message: "state must be a string" })
   @Matches(/^[A-Z]{2}$/, {
     message: "state must be 2 uppercase letters (e.g., TX, CA, FL)",
   })
   state?: string;
 
   @ApiPropertyOptional({
-    description: "Year to filter generation data",
+    description:
+      "Only match plants reporting generation in this year (and return that year's figure)",
     minimum: 1900,
     maximum: 2100,
     example: 2023,
@@ -61,6 +229,176 @@ export class GetPlantsQueryDto {
   @Min(1900, { message: "year must be 1900 or later" })
   @Max(2100, { message: "year cannot exceed 2100" })
   year?: number;
+
+  @ApiPropertyOptional({
+    description: "Maximum number of matches to return",
+    minimum: 1,
+    maximum: 50,
+    default: 10,
+    example: 10,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "limit must be an integer" })
+  @Min(1, { message: "limit must be at least 1" })
+  @Max(50, { message: "limit cannot exceed 50" })
+  limit?: number = 10;
+}
+
+/**
+ * Shared query parameters for geospatial plant lookups
+ */
+export class PlantLocationQueryDto {
+  @ApiPropertyOptional({
+    description:
+      "Year of the generation figure returned for each plant (defaults to the latest ingested year)",
+    minimum: 1900,
+    maximum: 2100,
+    example: 2023,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "year must be an integer" })
+  @Min(1900, { message: "year must be 1900 or later" })
+  @Max(2100, { message: "year cannot exceed 2100" })
+  year?: number;
+
+  @ApiPropertyOptional({
+    description: "Maximum number of plants to return",
+    minimum: 1,
+    maximum: 5000,
+    default: 500,
+    example: 500,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "limit must be an integer" })
+  @Min(1, { message: "limit must be at least 1" })
+  @Max(5000, { message: "limit cannot exceed 5000" })
+  limit?: number = 500;
+
+  @ApiPropertyOptional({
+    description:
+      "Response format (geojson returns a FeatureCollection; csv/xlsx return a file download)",
+    enum: PLANT_RESPONSE_FORMATS,
+    default: "json",
+    example: "geojson",
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === "string" ? value.toLowerCase() : value
+  )
+  @IsIn(PLANT_RESPONSE_FORMATS, {
+    message: `format must be one of: ${PLANT_RESPONSE_FORMATS.join(", ")}`,
+  })
+  format?: PlantResponseFormat;
+}
+
+/**
+ * DTO for GET /plants/nearby query parameters
+ */
+export class NearbyPlantsQueryDto extends PlantLocationQueryDto {
+  @ApiProperty({
+    description: "Latitude of the center point (WGS84)",
+    minimum: -90,
+    maximum: 90,
+    example: 29.76,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsNumber({}, { message: "lat must be a number" })
+  @Min(-90, { message: "lat must be -90 or greater" })
+  @Max(90, { message: "lat cannot exceed 90" })
+  lat!: number;
+
+  @ApiProperty({
+    description: "Longitude of the center point (WGS84)",
+    minimum: -180,
+    maximum: 180,
+    example: -95.37,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsNumber({}, { message: "lon must be a number" })
+  @Min(-180, { message: "lon must be -180 or greater" })
+  @Max(180, { message: "lon cannot exceed 180" })
+  lon!: number;
+
+  @ApiPropertyOptional({
+    description: "Search radius in kilometres",
+    minimum: 0,
+    maximum: 1000,
+    default: 50,
+    example: 50,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: "radiusKm must be a number" })
+  @IsPositive({ message: "radiusKm must be a positive number" })
+  @Max(1000, { message: "radiusKm cannot exceed 1000" })
+  radiusKm?: number = 50;
+}
+
+/**
+ * DTO for GET /plants/bbox query parameters
+ * minLon greater than maxLon selects a box crossing the antimeridian
+ */
+export class BoundingBoxPlantsQueryDto extends PlantLocationQueryDto {
+  @ApiProperty({
+    description: "Southern edge latitude (WGS84)",
+    minimum: -90,
+    maximum: 90,
+    example: 29.5,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsNumber({}, { message: "minLat must be a number" })
+  @Min(-90, { message: "minLat must be -90 or greater" })
+  @Max(90, { message: "minLat cannot exceed 90" })
+  minLat!: number;
+
+  @ApiProperty({
+    description: "Western edge longitude (WGS84)",
+    minimum: -180,
+    maximum: 180,
+    example: -95.8,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsNumber({}, { message: "minLon must be a number" })
+  @Min(-180, { message: "minLon must be -180 or greater" })
+  @Max(180, { message: "minLon cannot exceed 180" })
+  minLon!: number;
+
+  @ApiProperty({
+    description: "Northern edge latitude (WGS84)",
+    minimum: -90,
+    maximum: 90,
+    example: 30.1,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsNumber({}, { message: "maxLat must be a number" })
+  @Min(-90, { message: "maxLat must be -90 or greater" })
+  @Max(90, { message: "maxLat cannot exceed 90" })
+  maxLat!: number;
+
+  @ApiProperty({
+    description: "Eastern edge longitude (WGS84)",
+    minimum: -180,
+    maximum: 180,
+    example: -95,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsNumber({}, { message: "maxLon must be a number" })
+  @Min(-180, { message: "maxLon must be -180 or greater" })
+  @Max(180, { message: "maxLon cannot exceed 180" })
+  maxLon!: number;
 }
 
 /**
@@ -142,6 +480,86 @@ export class PlantResponseDto {
     name: string;
   };
 
+  @ApiPropertyOptional({
+    description: "DOE/EIA ORIS plant code",
+    example: 6251,
+    nullable: true,
+    type: Number,
+  })
+  orisCode?: number | null;
+
+  @ApiPropertyOptional({
+    description: "eGRID plant primary fuel category",
+    example: "NUCLEAR",
+    nullable: true,
+    type: String,
+  })
+  primaryFuelCategory?: string | null;
+
+  @ApiPropertyOptional({
+    description: "Nameplate capacity in MW",
+    example: 2708.6,
+    nullable: true,
+    type: Number,
+  })
+  nameplateCapacityMw?: number | null;
+
+  @ApiPropertyOptional({
+    description: "Plant latitude (WGS84)",
+    example: 28.795,
+    nullable: true,
+    type: Number,
+  })
+  latitude?: number | null;
+
+  @ApiPropertyOptional({
+    description: "Plant longitude (WGS84)",
+    example: -96.048,
+    nullable: true,
+    type: Number,
+  })
+  longitude?: number | null;
+
+  @ApiPropertyOptional({
+    description: "County name",
+    example: "Matagorda",
+    nullable: true,
+    type: String,
+  })
+  county?: string | null;
+
+  @ApiPropertyOptional({
+    description: "Plant operator name",
+    example: "STP Nuclear Operating Co",
+    nullable: true,
+    type: String,
+  })
+  operatorName?: string | null;
+
+  @ApiPropertyOptional({
+    description: "Utility name",
+    example: "Texas-New Mexico Power Co",
+    nullable: true,
+    type: String,
+  })
+  utilityName?: string | null;
+
+  @ApiPropertyOptional({
+    description: "Balancing authority code",
+    example: "ERCO",
+    nullable: true,
+    type: String,
+  })
+  balancingAuthorityCode?: string | null;
+
+  @ApiPropertyOptional({
+    description: "Balancing authority name",
+    example: "Electric Reliability Council of Texas, Inc.",
+    nullable: true,
+    type: String,
+  })
+  balancingAuthorityName?: string | null;
+
   @ApiProperty({ description: "Generation year", example: 2023 })
   year!: number;
 
@@ -165,6 +583,242 @@ export class PlantResponseDto {
   rank?: number;
 }
 
+/**
+ * Response DTO for a plant name search match
+ */
+export class PlantSearchResultDto {
+  @ApiProperty({ description: "Plant ID", example: 1001 })
+  id!: number;
+
+  @ApiProperty({ description: "Plant name", example: "Diablo Canyon" })
+  name!: string;
+
+  @ApiProperty({
+    description: "DOE/EIA ORIS plant code",
+    example: 6099,
+    nullable: true,
+    type: Number,
+  })
+  orisCode!: number | null;
+
+  @ApiProperty({
+    description: "eGRID plant primary fuel category",
+    example: "NUCLEAR",
+    nullable: true,
+    type: String,
+  })
+  primaryFuelCategory!: string | null;
+
+  @ApiProperty({
+    description: "Nameplate capacity in MW",
+    example: 2323,
+    nullable: true,
+    type: Number,
+  })
+  nameplateCapacityMw!: number | null;
+
+  @ApiProperty({
+    description: "State information",
+    example: { id: 6, code: "CA", name: "California" },
+  })
+  state!: {
+    id: number;
+    code: string;
+    name: string;
+  };
+
+  @ApiProperty({
+    description:
+      "Match score from 0 to 1 (1 = query found verbatim in the name)",
+    example: 1,
+  })
+  score!: number;
+
+  @ApiProperty({
+    description:
+      "Generation for the requested year, or the most recent year on record",
+    example: { year: 2023, netGeneration: 17892234.5 },
+    nullable: true,
+  })
+  latestGeneration!: {
+    year: number;
+    netGeneration: number;
+  } | null;
+
+  @ApiProperty({ description: "Rank in result set", example: 1 })
+  rank!: number;
+}
+
+/**
+ * Response DTO for geospatial plant lookups
+ */
+export class PlantLocationResponseDto {
+  @ApiProperty({ description: "Plant ID", example: 1001 })
+  id!: number;
+
+  @ApiProperty({ description: "Plant name", example: "W A Parish" })
+  name!: string;
+
+  @ApiProperty({
+    description: "DOE/EIA ORIS plant code",
+    example: 3470,
+    nullable: true,
+    type: Number,
+  })
+  orisCode!: number | null;
+
+  @ApiProperty({
+    description: "eGRID plant primary fuel category",
+    example: "GAS",
+    nullable: true,
+    type: String,
+  })
+  primaryFuelCategory!: string | null;
+
+  @ApiProperty({
+    description: "Nameplate capacity in MW",
+    example: 3653,
+    nullable: true,
+    type: Number,
+  })
+  nameplateCapacityMw!: number | null;
+
+  @ApiProperty({ description: "Plant latitude (WGS84)", example: 29.4828 })
+  latitude!: number;
+
+  @ApiProperty({ description: "Plant longitude (WGS84)", example: -95.6311 })
+  longitude!: number;
+
+  @ApiProperty({
+    description: "State information",
+    example: { id: 44, code: "TX", name: "Texas" },
+  })
+  state!: {
+    id: number;
+    code: string;
+    name: string;
+  };
+
+  @ApiProperty({ description: "Generation year", example: 2023 })
+  year!: number;
+
+  @ApiProperty({
+    description: "Net generation in MWh (null if not reported that year)",
+    example: 12345678.9,
+    nullable: true,
+    type: Number,
+  })
+  netGeneration!: number | null;
+
+  @ApiPropertyOptional({
+    description: "Great-circle distance from the search point in km",
+    example: 31.42,
+  })
+  distanceKm?: number;
+}
+
+/**
+ * Single year entry in a plant trend
+ */
+export class PlantTrendYearDto {
+  @ApiProperty({ description: "Generation year", example: 2023 })
+  year!: number;
+
+  @ApiProperty({
+    description: "Net generation in MWh",
+    example: 21787144.5,
+  })
+  netGeneration!: number;
+
+  @ApiProperty({
+    description:
+      "Change in MWh versus the previous available year (null for the first year)",
+    example: 512340.25,
+    nullable: true,
+    type: Number,
+  })
+  yoyChange!: number | null;
+
+  @ApiProperty({
+    description:
+      "Percent change versus the previous available year (null for the first year or when the previous year was zero)",
+    example: 2.41,
+    nullable: true,
+    type: Number,
+  })
+  yoyPercentChange!: number | null;
+
+  @ApiProperty({ description: "Rank within the plant's state", example: 1 })
+  stateRank!: number;
+
+  @ApiProperty({
+    description: "Number of plants reporting in the state that year",
+    example: 824,
+  })
+  statePlantCount!: number;
+
+  @ApiProperty({ description: "Rank among all U.S. plants", example: 3 })
+  nationalRank!: number;
+
+  @ApiProperty({
+    description: "Number of plants reporting nationally that year",
+    example: 12016,
+  })
+  nationalPlantCount!: number;
+}
+
+/**
+ * Response DTO for GET /plants/:id/trend
+ */
+export class PlantTrendResponseDto {
+  @ApiProperty({ description: "Plant ID", example: 1001 })
+  plantId!: number;
+
+  @ApiProperty({ description: "Plant name", example: "South Texas Project" })
+  name!: string;
+
+  @ApiProperty({
+    description: "State information",
+    example: { id: 1, code: "TX", name: "Texas" },
+  })
+  state!: {
+    id: number;
+    code: string;
+    name: string;
+  };
+
+  @ApiProperty({
+    description: "First year with data",
+    example: 2018,
+    nullable: true,
+    type: Number,
+  })
+  fromYear!: number | null;
+
+  @ApiProperty({
+    description: "Last year with data",
+    example: 2023,
+    nullable: true,
+    type: Number,
+  })
+  toYear!: number | null;
+
+  @ApiProperty({
+    description:
+      "Compound annual growth rate in percent between fromYear and toYear (null when fewer than two years or a non-positive endpoint)",
+    example: 1.35,
+    nullable: true,
+    type: Number,
+  })
+  cagr!: number | null;
+
+  @ApiProperty({
+    description: "Per-year generation, deltas and rankings (ascending by year)",
+    type: [PlantTrendYearDto],
+  })
+  years!: PlantTrendYearDto[];
+}
+
 /**
  * Response DTO for state summary
  */
@@ -200,8 +854,42 @@ export class StateSummaryResponseDto {
   plantCount!: number;
 }
 
+/**
+ * Paginated response wrapper for GET /plants/list
+ */
+export class PaginatedPlantsResponseDto {
+  @ApiProperty({
+    description: "Ranked plants for this page",
+    isArray: true,
+    type: PlantResponseDto,
+  })
+  data!: PlantResponseDto[];
+
+  @ApiProperty({
+    description: "Page metadata",
+    example: {
+      year: 2023,
+      state: "TX",
+      total: 11935,
+      limit: 100,
+      nextCursor:
+        "eyJuIjoiMzE1MjI1OTAuMDAiLCJpIjoxMiwiciI6MTAwLCJ5IjoyMDIzLCJmIjoiUkJOdm8xV3paNG9SUnEwVyJ9",
+      hasMore: true,
+    },
+  })
+  meta!: {
+    year?: number;
+    state?: string;
+    total: number;
+    limit: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
 // Re-export common DTOs
 export {
   ErrorResponseDto,
+  GeoJsonFeatureCollectionDto,
   PaginatedResponseDto,
 } from "../../../common/dto/common.dto";
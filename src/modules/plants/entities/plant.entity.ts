@@ -16,6 +16,39 @@ export class Plant {
   @ApiProperty({ description: 'State ID (foreign key)', example: 1 })
   stateId!: number;
 
+  @ApiProperty({ description: 'DOE/EIA ORIS plant code', example: 6251, required: false })
+  orisCode?: number | null;
+
+  @ApiProperty({ description: 'eGRID primary fuel category', example: 'NUCLEAR', required: false })
+  primaryFuelCategory?: string | null;
+
+  @ApiProperty({ description: 'Nameplate capacity in MW', example: 2708.6, required: false })
+  nameplateCapacityMw?: number | null;
+
+  @ApiProperty({ description: 'Latitude (WGS84)', example: 28.795, required: false })
+  latitude?: number | null;
+
+  @ApiProperty({ description: 'Longitude (WGS84)', example: -96.048, required: false })
+  longitude?: number | null;
+
+  @ApiProperty({ description: 'County name', example: 'Matagorda', required: false })
+  county?: string | null;
+
+  @ApiProperty({ description: 'Plant operator name', required: false })
+  operatorName?: string | null;
+
+  @ApiProperty({ description: 'Utility name', required: false })
+  utilityName?: string | null;
+
+  @ApiProperty({ description: 'Balancing authority code', example: 'ERCO', required: false })
+  balancingAuthorityCode?: string | null;
+
+  @ApiProperty({ description: 'Balancing authority name', required: false })
+  balancingAuthorityName?: string | null;
+
+  @ApiProperty({ description: 'eGRID year the attributes were taken from', example: 2023, required: false })
+  attributesYear?: number | null;
+
   @ApiProperty({ description: 'Creation timestamp' })
   createdAt!: Date;
 
@@ -5,30 +5,68 @@ import {
   Param,
   Logger,
   ParseIntPipe,
+  Res,
+  Headers,
 } from "@nestjs/common";
 import {
   ApiTags,
+  ApiBearerAuth,
+  ApiSecurity,
   ApiOperation,
   ApiResponse,
   ApiQuery,
   ApiParam,
+  ApiProduces,
+  ApiExtraModels,
 } from "@nestjs/swagger";
+import { Response } from "express";
 import { PlantsService } from "./plants.service";
 import {
+  BoundingBoxPlantsQueryDto,
   GetPlantsQueryDto,
+  GetPlantsListQueryDto,
+  NearbyPlantsQueryDto,
+  PaginatedPlantsResponseDto,
+  PlantLocationResponseDto,
   PlantResponseDto,
+  PlantSearchResultDto,
+  PlantTrendResponseDto,
+  SearchPlantsQueryDto,
   ErrorResponseDto,
+  GeoJsonFeatureCollectionDto,
+  PLANT_RESPONSE_FORMATS,
 } from "./dto/plants.dto";
+import { FUEL_CATEGORIES } from "../fuel-mix/dto/fuel-mix.dto";
+import { GEOJSON_CONTENT_TYPE } from "../../common/utils/geojson.helper";
+import { Expensive } from "../../common/decorators/expensive.decorator";
+import {
+  EXPORT_CONTENT_TYPES,
+  resolveExportFormat,
+} from "../../common/utils/export.helper";
 
 /**
  * PlantsController
  *
  * Handles all plant-related API endpoints:
  * - GET /plants - Get top N plants (global or by state)
+ * - GET /plants/list - Get the full ranking with cursor pagination
+ * - GET /plants/search - Search plants by name
+ * - GET /plants/nearby - Get plants within a radius of a point
+ * - GET /plants/bbox - Get plants inside a bounding box
+ * - GET /plants/oris/:orisCode - Get plant details by ORIS code
  * - GET /plants/:id - Get individual plant details
+ * - GET /plants/:id/trend - Get year-over-year generation trend
  */
 @Controller("plants")
 @ApiTags("Plants")
+@ApiBearerAuth()
+@ApiSecurity("api-key")
+@ApiResponse({
+  status: 401,
+  description: "Missing, invalid or expired credentials",
+  type: ErrorResponseDto,
+})
+@ApiExtraModels(GeoJsonFeatureCollectionDto)
 export class PlantsController {
   private readonly logger = new Logger(PlantsController.name);
 
@@ -38,14 +76,16 @@ export class PlantsController {
    * GET /plants
    * Get top N plants by net generation
    *
-   * @param query - Query parameters (top, state, year)
+   * @param query - Query parameters (top, state, year, fuel, minCapacityMw,
+   * maxCapacityMw, minGeneration)
    * @returns Array of top plants with generation data
    */
   @Get()
+  @Expensive({ fileExportsOnly: true })
   @ApiOperation({
     summary: "Get top N plants by net generation",
     description:
-      "Returns top plants globally or filtered by state code. Includes percentage of state total generation.",
+      "Returns top plants globally or filtered by one or more state codes, fuel category, nameplate capacity range and minimum generation. Includes percentage of state total generation.",
   })
   @ApiQuery({
     name: "top",
@@ -58,19 +98,62 @@ export class PlantsController {
     name: "state",
     required: false,
     type: String,
-    description: "State code (2 letters)",
+    description: "State code (2 letters) or comma-separated list (TX,OK,NM)",
     example: "TX",
   })
   @ApiQuery({
     name: "year",
     required: false,
     type: Number,
-    description: "Year to filter",
+    description: "Year to filter (defaults to the latest ingested year)",
     example: 2023,
   })
+  @ApiQuery({
+    name: "fuel",
+    required: false,
+    enum: FUEL_CATEGORIES,
+    description: "Primary fuel category",
+    example: "solar",
+  })
+  @ApiQuery({
+    name: "minCapacityMw",
+    required: false,
+    type: Number,
+    description: "Minimum nameplate capacity in MW",
+    example: 100,
+  })
+  @ApiQuery({
+    name: "maxCapacityMw",
+    required: false,
+    type: Number,
+    description: "Maximum nameplate capacity in MW",
+    example: 500,
+  })
+  @ApiQuery({
+    name: "minGeneration",
+    required: false,
+    type: Number,
+    description: "Minimum net generation in MWh",
+    example: 1000000,
+  })
+  @ApiQuery({
+    name: "format",
+    required: false,
+    enum: PLANT_RESPONSE_FORMATS,
+    description:
+      "Response format; geojson returns a FeatureCollection (application/geo+json), csv/xlsx a file download. Accept: text/csv also selects CSV.",
+    example: "geojson",
+  })
+  @ApiProduces(
+    "application/json",
+    GEOJSON_CONTENT_TYPE,
+    EXPORT_CONTENT_TYPES.csv,
+    EXPORT_CONTENT_TYPES.xlsx
+  )
   @ApiResponse({
     status: 200,
-    description: "Successfully retrieved top plants",
+    description:
+      "Successfully retrieved top plants (GeoJsonFeatureCollectionDto when format=geojson, a file for csv/xlsx)",
     type: [PlantResponseDto],
   })
   @ApiResponse({
@@ -83,9 +166,357 @@ export class PlantsController {
     description: "State not found",
     type: ErrorResponseDto,
   })
-  async getTopPlants(@Query() query: GetPlantsQueryDto) {
+  async getTopPlants(
+    @Query() query: GetPlantsQueryDto,
+    @Headers("accept") accept: string | undefined,
+    @Res({ passthrough: true }) res: Response
+  ) {
     this.logger.log(`GET /plants - Query: ${JSON.stringify(query)}`);
-    return this.plantsService.getTopPlants(query);
+    const plants = await this.plantsService.getTopPlants(query);
+
+    const exportFormat = resolveExportFormat(query.format, accept);
+    if (exportFormat) {
+      return this.plantsService.exportPlants(plants, exportFormat);
+    }
+    if (query.format === "geojson") {
+      res.type(GEOJSON_CONTENT_TYPE);
+      return this.plantsService.toFeatureCollection(plants);
+    }
+    return plants;
+  }
+
+  /**
+   * GET /plants/list
+   * Get the full plant ranking one page at a time
+   *
+   * @param query - Filters, page size and optional cursor
+   * @returns Page of ranked plants with total count and next cursor
+   */
+  @Get("list")
+  @ApiOperation({
+    summary: "List all plants by net generation (paginated)",
+    description:
+      "Returns the full ranking ordered by net generation then ID, using keyset cursors. Pass meta.nextCursor as `cursor`, with the same filters, to fetch the next page; it is null on the last page. Accepts the same filters as GET /plants; without `year`, the latest ingested year is ranked.",
+  })
+  @ApiQuery({
+    name: "limit",
+    required: false,
+    type: Number,
+    description: "Plants per page (1-1000)",
+    example: 100,
+  })
+  @ApiQuery({
+    name: "cursor",
+    required: false,
+    type: String,
+    description: "Cursor from the previous page's meta.nextCursor",
+  })
+  @ApiQuery({
+    name: "state",
+    required: false,
+    type: String,
+    description: "State code (2 letters) or comma-separated list (TX,OK,NM)",
+    example: "TX",
+  })
+  @ApiQuery({
+    name: "year",
+    required: false,
+    type: Number,
+    description: "Year to rank (defaults to the latest ingested year)",
+    example: 2023,
+  })
+  @ApiQuery({
+    name: "fuel",
+    required: false,
+    enum: FUEL_CATEGORIES,
+    description: "Primary fuel category",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Successfully retrieved page of plants",
+    type: PaginatedPlantsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid query parameters or cursor",
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: "State not found",
+    type: ErrorResponseDto,
+  })
+  async getPlantsList(@Query() query: GetPlantsListQueryDto) {
+    this.logger.log(`GET /plants/list - Query: ${JSON.stringify(query)}`);
+    return this.plantsService.getPlantsList(query);
+  }
+
+  /**
+   * GET /plants/search
+   * Find plants by name
+   *
+   * @param query - Search text with optional state, year and limit
+   * @returns Ranked matches with their latest generation figure
+   */
+  @Get("search")
+  @Expensive()
+  @ApiOperation({
+    summary: "Search plants by name",
+    description:
+      "Case-insensitive, typo-tolerant (trigram) search on plant name. Results are ranked by match score, then by latest generation. With `year`, only plants reporting that year match and its generation is returned.",
+  })
+  @ApiQuery({
+    name: "q",
+    required: true,
+    type: String,
+    description: "Plant name or part of it",
+    example: "diablo canyon",
+  })
+  @ApiQuery({
+    name: "state",
+    required: false,
+    type: String,
+    description: "State code (2 letters)",
+    example: "CA",
+  })
+  @ApiQuery({
+    name: "year",
+    required: false,
+    type: Number,
+    description: "Only match plants reporting generation in this year",
+    example: 2023,
+  })
+  @ApiQuery({
+    name: "limit",
+    required: false,
+    type: Number,
+    description: "Maximum number of matches (1-50)",
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Successfully searched plants",
+    type: [PlantSearchResultDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Missing or invalid query parameters",
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: "State not found",
+    type: ErrorResponseDto,
+  })
+  async searchPlants(@Query() query: SearchPlantsQueryDto) {
+    this.logger.log(`GET /plants/search - Query: ${JSON.stringify(query)}`);
+    return this.plantsService.searchPlants(query);
+  }
+
+  /**
+   * GET /plants/nearby
+   * Get plants within a radius of a point
+   *
+   * @param query - Query parameters (lat, lon, radiusKm, year, limit)
+   * @returns Plants nearest first, with distance and generation
+   */
+  @Get("nearby")
+  @Expensive()
+  @ApiOperation({
+    summary: "Get plants within a radius of a point",
+    description:
+      "Returns plants whose coordinates lie within radiusKm (great-circle distance) of lat/lon, nearest first, with their net generation for the year (null if not reported). Plants without coordinates are never returned.",
+  })
+  @ApiQuery({ name: "lat", required: true, type: Number, example: 29.76 })
+  @ApiQuery({ name: "lon", required: true, type: Number, example: -95.37 })
+  @ApiQuery({
+    name: "radiusKm",
+    required: false,
+    type: Number,
+    description: "Search radius in km (default 50, max 1000)",
+    example: 50,
+  })
+  @ApiQuery({
+    name: "year",
+    required: false,
+    type: Number,
+    description: "Generation year (defaults to the latest ingested year)",
+    example: 2023,
+  })
+  @ApiQuery({
+    name: "limit",
+    required: false,
+    type: Number,
+    description: "Maximum number of plants (1-5000)",
+    example: 500,
+  })
+  @ApiQuery({
+    name: "format",
+    required: false,
+    enum: PLANT_RESPONSE_FORMATS,
+    description:
+      "Response format; geojson returns a FeatureCollection (application/geo+json), csv/xlsx a file download. Accept: text/csv also selects CSV.",
+    example: "geojson",
+  })
+  @ApiProduces(
+    "application/json",
+    GEOJSON_CONTENT_TYPE,
+    EXPORT_CONTENT_TYPES.csv,
+    EXPORT_CONTENT_TYPES.xlsx
+  )
+  @ApiResponse({
+    status: 200,
+    description:
+      "Successfully retrieved nearby plants (GeoJsonFeatureCollectionDto when format=geojson, a file for csv/xlsx)",
+    type: [PlantLocationResponseDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid query parameters",
+    type: ErrorResponseDto,
+  })
+  async getNearbyPlants(
+    @Query() query: NearbyPlantsQueryDto,
+    @Headers("accept") accept: string | undefined,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    this.logger.log(`GET /plants/nearby - Query: ${JSON.stringify(query)}`);
+    const plants = await this.plantsService.getNearbyPlants(query);
+
+    const exportFormat = resolveExportFormat(query.format, accept);
+    if (exportFormat) {
+      return this.plantsService.exportPlantLocations(
+        plants,
+        exportFormat,
+        "plants-nearby"
+      );
+    }
+    if (query.format === "geojson") {
+      res.type(GEOJSON_CONTENT_TYPE);
+      return this.plantsService.toFeatureCollection(plants);
+    }
+    return plants;
+  }
+
+  /**
+   * GET /plants/bbox
+   * Get plants inside a bounding box
+   *
+   * @param query - Query parameters (minLat, minLon, maxLat, maxLon, year,
+   * limit)
+   * @returns Plants by net generation with coordinates
+   */
+  @Get("bbox")
+  @Expensive()
+  @ApiOperation({
+    summary: "Get plants inside a bounding box",
+    description:
+      "Returns plants whose coordinates lie inside the box, largest generators first, with their net generation for the year (null if not reported). Use minLon > maxLon for a box crossing the antimeridian.",
+  })
+  @ApiQuery({ name: "minLat", required: true, type: Number, example: 29.5 })
+  @ApiQuery({ name: "minLon", required: true, type: Number, example: -95.8 })
+  @ApiQuery({ name: "maxLat", required: true, type: Number, example: 30.1 })
+  @ApiQuery({ name: "maxLon", required: true, type: Number, example: -95 })
+  @ApiQuery({
+    name: "year",
+    required: false,
+    type: Number,
+    description: "Generation year (defaults to the latest ingested year)",
+    example: 2023,
+  })
+  @ApiQuery({
+    name: "limit",
+    required: false,
+    type: Number,
+    description: "Maximum number of plants (1-5000)",
+    example: 500,
+  })
+  @ApiQuery({
+    name: "format",
+    required: false,
+    enum: PLANT_RESPONSE_FORMATS,
+    description:
+      "Response format; geojson returns a FeatureCollection (application/geo+json), csv/xlsx a file download. Accept: text/csv also selects CSV.",
+    example: "geojson",
+  })
+  @ApiProduces(
+    "application/json",
+    GEOJSON_CONTENT_TYPE,
+    EXPORT_CONTENT_TYPES.csv,
+    EXPORT_CONTENT_TYPES.xlsx
+  )
+  @ApiResponse({
+    status: 200,
+    description:
+      "Successfully retrieved plants in bounding box (GeoJsonFeatureCollectionDto when format=geojson, a file for csv/xlsx)",
+    type: [PlantLocationResponseDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid query parameters or inverted latitude range",
+    type: ErrorResponseDto,
+  })
+  async getPlantsInBoundingBox(
+    @Query() query: BoundingBoxPlantsQueryDto,
+    @Headers("accept") accept: string | undefined,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    this.logger.log(`GET /plants/bbox - Query: ${JSON.stringify(query)}`);
+    const plants = await this.plantsService.getPlantsInBoundingBox(query);
+
+    const exportFormat = resolveExportFormat(query.format, accept);
+    if (exportFormat) {
+      return this.plantsService.exportPlantLocations(
+        plants,
+        exportFormat,
+        "plants-bbox"
+      );
+    }
+    if (query.format === "geojson") {
+      res.type(GEOJSON_CONTENT_TYPE);
+      return this.plantsService.toFeatureCollection(plants);
+    }
+    return plants;
+  }
+
+  /**
+   * GET /plants/oris/:orisCode
+   * Get plant details by DOE/EIA ORIS code
+   *
+   * Declared before GET /plants/:id so "oris" is not parsed as a plant ID.
+   *
+   * @param orisCode - ORIS plant code
+   * @returns Plant details with generation records and name history
+   */
+  @Get("oris/:orisCode")
+  @ApiOperation({
+    summary: "Get plant by ORIS code",
+    description:
+      "Returns a plant by its DOE/EIA ORIS code, the stable identifier across eGRID vintages. Includes generation history and every name the plant has been reported under.",
+  })
+  @ApiParam({
+    name: "orisCode",
+    type: Number,
+    description: "DOE/EIA ORIS plant code",
+    example: 6008,
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Successfully retrieved plant details",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Plant not found",
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid ORIS code format",
+    type: ErrorResponseDto,
+  })
+  async getPlantByOrisCode(@Param("orisCode", ParseIntPipe) orisCode: number) {
+    this.logger.log(`GET /plants/oris/${orisCode}`);
+    return this.plantsService.getPlantByOrisCode(orisCode);
   }
 
   /**
@@ -125,4 +556,43 @@ export class PlantsController {
     this.logger.log(`GET /plants/${id}`);
     return this.plantsService.getPlantById(id);
   }
+
+  /**
+   * GET /plants/:id/trend
+   * Get year-over-year generation trend with state and national rankings
+   *
+   * @param id - Plant ID
+   * @returns Per-year generation, YoY deltas, rankings and CAGR
+   */
+  @Get(":id/trend")
+  @ApiOperation({
+    summary: "Get plant generation trend",
+    description:
+      "Returns per-year net generation with absolute and percent year-over-year changes, CAGR across the available range, and the plant's rank within its state and nationally for each year.",
+  })
+  @ApiParam({
+    name: "id",
+    type: Number,
+    description: "Plant ID",
+    example: 1001,
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Successfully retrieved plant trend",
+    type: PlantTrendResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Plant not found",
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid plant ID format",
+    type: ErrorResponseDto,
+  })
+  async getPlantTrend(@Param("id", ParseIntPipe) id: number) {
+    this.logger.log(`GET /plants/${id}/trend`);
+    return this.plantsService.getPlantTrend(id);
+  }
 }
@@ -2,6 +2,8 @@ import { Test, TestingModule } from "@nestjs/testing";
 import { INestApplication, ValidationPipe } from "@nestjs/common";
 import request from "supertest";
 import { AppModule } from "../../app.module";
+import { config } from "../../config/configuration";
+import { signJwt } from "../../common/utils/jwt.helper";
 
 /**
  * E2E tests for Plants API endpoints
@@ -18,6 +20,7 @@ import { AppModule } from "../../app.module";
  */
 describe("Plants API (E2E)", () => {
   let app: INestApplication;
+  let api: ReturnType<typeof request.agent>;
   const TEST_YEAR = parseInt(process.env.TEST_SEED_YEAR || "2023", 10);
 
   beforeAll(async () => {
@@ -42,6 +45,15 @@ describe("Plants API (E2E)", () => {
     app.setGlobalPrefix("api/v1");
 
     await app.init();
+
+    // Every request carries a valid bearer token unless a test opts out
+    const token = signJwt(
+      { sub: "e2e", exp: Math.floor(Date.now() / 1000) + 3600 },
+      config().jwt.secret
+    );
+    api = request
+      .agent(app.getHttpServer())
+      .set("Authorization", `Bearer ${token}`);
   });
 
   afterAll(async () => {
@@ -52,7 +64,7 @@ describe("Plants API (E2E)", () => {
 
   describe("GET /api/v1/plants", () => {
     it("should return top 10 plants by default", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants")
         .expect(200)
         .expect((res) => {
@@ -73,7 +85,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should respect top parameter", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?top=5")
         .expect(200)
         .expect((res) => {
@@ -82,7 +94,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should filter by state code", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?state=TX")
         .expect(200)
         .expect((res) => {
@@ -93,7 +105,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should filter by year", () => {
-      return request(app.getHttpServer())
+      return api
         .get(`/api/v1/plants?year=${TEST_YEAR}`)
         .expect(200)
         .expect((res) => {
@@ -104,7 +116,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should combine multiple filters", () => {
-      return request(app.getHttpServer())
+      return api
         .get(`/api/v1/plants?top=3&state=CA&year=${TEST_YEAR}`)
         .expect(200)
         .expect((res) => {
@@ -116,8 +128,54 @@ describe("Plants API (E2E)", () => {
         });
     });
 
+    it("should filter by multiple state codes", () => {
+      return api
+        .get("/api/v1/plants?state=TX,CA")
+        .expect(200)
+        .expect((res) => {
+          res.body.forEach((plant: any) => {
+            expect(["TX", "CA"]).toContain(plant.state.code);
+          });
+        });
+    });
+
+    it("should filter by fuel and capacity range", () => {
+      return api
+        .get(
+          "/api/v1/plants?fuel=nuclear&minCapacityMw=2400&maxCapacityMw=3000"
+        )
+        .expect(200)
+        .expect((res) => {
+          res.body.forEach((plant: any) => {
+            expect(plant.primaryFuelCategory).toBe("NUCLEAR");
+            expect(plant.nameplateCapacityMw).toBeGreaterThanOrEqual(2400);
+            expect(plant.nameplateCapacityMw).toBeLessThanOrEqual(3000);
+          });
+        });
+    });
+
+    it("should validate fuel category", () => {
+      return api
+        .get("/api/v1/plants?fuel=plutonium")
+        .expect(400)
+        .expect((res) => {
+          const messages = Array.isArray(res.body.message)
+            ? res.body.message
+            : [res.body.message];
+          expect(
+            messages.some((msg: string) => msg.includes("fuel must be one of"))
+          ).toBe(true);
+        });
+    });
+
+    it("should reject an inverted capacity range", () => {
+      return api
+        .get("/api/v1/plants?minCapacityMw=500&maxCapacityMw=100")
+        .expect(400);
+    });
+
     it("should validate top parameter minimum", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?top=0")
         .expect(400)
         .expect((res) => {
@@ -126,7 +184,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should validate top parameter maximum", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?top=101")
         .expect(400)
         .expect((res) => {
@@ -135,7 +193,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should validate state code format", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?state=TEX")
         .expect(400)
         .expect((res) => {
@@ -146,7 +204,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should validate state code pattern", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?state=t1")
         .expect(400)
         .expect((res) => {
@@ -160,7 +218,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should return 404 for invalid state code", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?state=XX")
         .expect(404)
         .expect((res) => {
@@ -169,7 +227,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should validate year minimum", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?year=1899")
         .expect(400)
         .expect((res) => {
@@ -178,7 +236,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should validate year maximum", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?year=2101")
         .expect(400)
         .expect((res) => {
@@ -187,7 +245,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should reject non-whitelisted parameters", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?hacker=injection")
         .expect(400)
         .expect((res) => {
@@ -201,7 +259,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should transform query parameters to correct types", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?top=5")
         .expect(200)
         .expect((res) => {
@@ -211,7 +269,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should return plants ordered by generation DESC", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?top=3")
         .expect(200)
         .expect((res) => {
@@ -224,7 +282,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should include correct rank values", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?top=5")
         .expect(200)
         .expect((res) => {
@@ -235,14 +293,126 @@ describe("Plants API (E2E)", () => {
     });
   });
 
+  describe("GET /api/v1/plants?format=geojson", () => {
+    it("should return a GeoJSON FeatureCollection", () => {
+      return api
+        .get("/api/v1/plants?top=5&format=geojson")
+        .expect(200)
+        .expect("Content-Type", /application\/geo\+json/)
+        .expect((res) => {
+          expect(res.body.type).toBe("FeatureCollection");
+          expect(res.body.features.length).toBeLessThanOrEqual(5);
+          res.body.features.forEach((feature: any) => {
+            expect(feature.type).toBe("Feature");
+            expect(feature.properties).toHaveProperty("netGeneration");
+            expect(feature.properties).toHaveProperty("percentOfState");
+            if (feature.geometry) {
+              expect(feature.geometry.type).toBe("Point");
+              expect(feature.geometry.coordinates).toHaveLength(2);
+            }
+          });
+        });
+    });
+
+    it("should support geojson for bounding box lookups", () => {
+      return api
+        .get(
+          "/api/v1/plants/bbox?minLat=25&minLon=-107&maxLat=37&maxLon=-93&format=geojson"
+        )
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.type).toBe("FeatureCollection");
+          res.body.features.forEach((feature: any) => {
+            expect(feature.geometry.type).toBe("Point");
+          });
+        });
+    });
+
+    it("should reject unknown formats", () => {
+      return api.get("/api/v1/plants?format=kml").expect(400);
+    });
+  });
+
+  describe("GET /api/v1/plants (CSV/XLSX export)", () => {
+    it("should return CSV for format=csv", () => {
+      return api
+        .get("/api/v1/plants?top=5&format=csv")
+        .expect(200)
+        .expect("Content-Type", /text\/csv/)
+        .expect("Content-Disposition", 'attachment; filename="plants.csv"')
+        .expect((res) => {
+          const lines = res.text.trim().split("\r\n");
+          expect(lines[0]).toMatch(/^Rank,Plant ID,/);
+          expect(lines.length).toBeLessThanOrEqual(6);
+        });
+    });
+
+    it("should negotiate CSV from the Accept header", () => {
+      return api
+        .get("/api/v1/plants?top=5")
+        .set("Accept", "text/csv")
+        .expect(200)
+        .expect("Content-Type", /text\/csv/);
+    });
+
+    it("should return an Excel workbook for format=xlsx", () => {
+      return api
+        .get("/api/v1/plants?top=5&format=xlsx")
+        .expect(200)
+        .expect("Content-Type", /spreadsheetml\.sheet/)
+        .expect("Content-Disposition", 'attachment; filename="plants.xlsx"');
+    });
+  });
+
+  describe("GET /api/v1/plants/list", () => {
+    it("should return a page with pagination metadata", () => {
+      return api
+        .get("/api/v1/plants/list?limit=2")
+        .expect(200)
+        .expect((res) => {
+          expect(Array.isArray(res.body.data)).toBe(true);
+          expect(res.body.data.length).toBeLessThanOrEqual(2);
+          expect(res.body.meta).toHaveProperty("total");
+          expect(res.body.meta.limit).toBe(2);
+          expect(res.body.meta).toHaveProperty("nextCursor");
+          expect(res.body.meta).toHaveProperty("hasMore");
+        });
+    });
+
+    it("should follow nextCursor to the next page", async () => {
+      const first = await api.get("/api/v1/plants/list?limit=2").expect(200);
+
+      if (!first.body.meta.nextCursor) {
+        return;
+      }
+
+      const second = await api
+        .get(`/api/v1/plants/list?limit=2&cursor=${first.body.meta.nextCursor}`)
+        .expect(200);
+
+      expect(second.body.data[0].rank).toBe(3);
+    });
+
+    it("should reject an invalid cursor", () => {
+      return api.get("/api/v1/plants/list?cursor=garbage").expect(400);
+    });
+
+    it("should validate limit maximum", () => {
+      return api
+        .get("/api/v1/plants/list?limit=1001")
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain("limit cannot exceed 1000");
+        });
+    });
+  });
+
   describe("GET /api/v1/plants/:id", () => {
     let validPlantId: number;
 
     beforeAll(async () => {
       // Get a valid plant ID for tests
-      const res = await request(app.getHttpServer())
-        .get("/api/v1/plants?top=1")
-        .expect(200);
+      const res = await api.get("/api/v1/plants?top=1").expect(200);
 
       if (res.body.length > 0) {
         validPlantId = res.body[0].plantId;
@@ -254,7 +424,7 @@ describe("Plants API (E2E)", () => {
         return;
       }
 
-      return request(app.getHttpServer())
+      return api
         .get(`/api/v1/plants/${validPlantId}`)
         .expect(200)
         .expect((res) => {
@@ -267,7 +437,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should return 404 for non-existent plant ID", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants/999999")
         .expect(404)
         .expect((res) => {
@@ -276,7 +446,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should handle invalid ID format", () => {
-      return request(app.getHttpServer()).get("/api/v1/plants/abc").expect(400);
+      return api.get("/api/v1/plants/abc").expect(400);
     });
 
     it("should include generation history", () => {
@@ -284,7 +454,7 @@ describe("Plants API (E2E)", () => {
         return;
       }
 
-      return request(app.getHttpServer())
+      return api
         .get(`/api/v1/plants/${validPlantId}`)
         .expect(200)
         .expect((res) => {
@@ -300,9 +470,237 @@ describe("Plants API (E2E)", () => {
     });
   });
 
+  describe("GET /api/v1/plants/search", () => {
+    it("should return ranked matches with latest generation", () => {
+      return api
+        .get("/api/v1/plants/search?q=diablo")
+        .expect(200)
+        .expect((res) => {
+          expect(Array.isArray(res.body)).toBe(true);
+          if (res.body.length > 0) {
+            expect(res.body[0]).toHaveProperty("score");
+            expect(res.body[0]).toHaveProperty("latestGeneration");
+            expect(res.body[0].rank).toBe(1);
+          }
+        });
+    });
+
+    it("should require q", () => {
+      return api
+        .get("/api/v1/plants/search")
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain("q must not be empty");
+        });
+    });
+
+    it("should validate limit maximum", () => {
+      return api.get("/api/v1/plants/search?q=diablo&limit=51").expect(400);
+    });
+
+    it("should return 404 for unknown state", () => {
+      return api.get("/api/v1/plants/search?q=diablo&state=XX").expect(404);
+    });
+  });
+
+  describe("GET /api/v1/plants/nearby", () => {
+    it("should return plants with distance and generation", () => {
+      return api
+        .get("/api/v1/plants/nearby?lat=28.8&lon=-96.05&radiusKm=100")
+        .expect(200)
+        .expect((res) => {
+          expect(Array.isArray(res.body)).toBe(true);
+          res.body.forEach((plant: any) => {
+            expect(plant.distanceKm).toBeLessThanOrEqual(100);
+            expect(plant).toHaveProperty("netGeneration");
+            expect(plant.year).toBe(2023);
+          });
+        });
+    });
+
+    it("should require lat and lon", () => {
+      return api.get("/api/v1/plants/nearby?radiusKm=10").expect(400);
+    });
+
+    it("should validate latitude range", () => {
+      return api
+        .get("/api/v1/plants/nearby?lat=91&lon=0")
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain("lat cannot exceed 90");
+        });
+    });
+  });
+
+  describe("GET /api/v1/plants/bbox", () => {
+    it("should return plants inside the box", () => {
+      return api
+        .get(
+          "/api/v1/plants/bbox?minLat=25.8&minLon=-106.6&maxLat=36.5&maxLon=-93.5"
+        )
+        .expect(200)
+        .expect((res) => {
+          expect(Array.isArray(res.body)).toBe(true);
+          res.body.forEach((plant: any) => {
+            expect(plant.latitude).toBeGreaterThanOrEqual(25.8);
+            expect(plant.latitude).toBeLessThanOrEqual(36.5);
+          });
+        });
+    });
+
+    it("should reject an inverted latitude range", () => {
+      return api
+        .get(
+          "/api/v1/plants/bbox?minLat=36.5&minLon=-106.6&maxLat=25.8&maxLon=-93.5"
+        )
+        .expect(400);
+    });
+  });
+
+  describe("GET /api/v1/plants/oris/:orisCode", () => {
+    it("should return plant details with name history", () => {
+      return api
+        .get("/api/v1/plants/oris/6008")
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.orisCode).toBe(6008);
+          expect(res.body).toHaveProperty("generations");
+          expect(Array.isArray(res.body.nameHistory)).toBe(true);
+        });
+    });
+
+    it("should return 404 for unknown ORIS code", () => {
+      return api
+        .get("/api/v1/plants/oris/999999")
+        .expect(404)
+        .expect((res) => {
+          expect(res.body.message).toContain(
+            "Plant with ORIS code 999999 not found"
+          );
+        });
+    });
+
+    it("should handle invalid ORIS code format", () => {
+      return api.get("/api/v1/plants/oris/abc").expect(400);
+    });
+  });
+
+  describe("GET /api/v1/plants/:id/trend", () => {
+    let validPlantId: number;
+
+    beforeAll(async () => {
+      // Get a valid plant ID for tests
+      const res = await api.get("/api/v1/plants?top=1").expect(200);
+
+      if (res.body.length > 0) {
+        validPlantId = res.body[0].plantId;
+      }
+    });
+
+    it("should return trend with per-year rankings", () => {
+      if (!validPlantId) {
+        return;
+      }
+
+      return api
+        .get(`/api/v1/plants/${validPlantId}/trend`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.plantId).toBe(validPlantId);
+          expect(res.body).toHaveProperty("cagr");
+          expect(Array.isArray(res.body.years)).toBe(true);
+
+          if (res.body.years.length > 0) {
+            const year = res.body.years[0];
+            expect(year).toHaveProperty("netGeneration");
+            expect(year).toHaveProperty("yoyChange");
+            expect(year).toHaveProperty("stateRank");
+            expect(year).toHaveProperty("nationalRank");
+          }
+        });
+    });
+
+    it("should return 404 for non-existent plant ID", () => {
+      return api.get("/api/v1/plants/999999/trend").expect(404);
+    });
+  });
+
+  describe("Authentication", () => {
+    it("should reject requests without a bearer token", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/plants")
+        .expect(401)
+        .expect((res) => {
+          expect(res.body.message).toBe("Missing authentication token");
+        });
+    });
+
+    it("should reject expired tokens", () => {
+      const expired = signJwt(
+        { sub: "e2e", exp: Math.floor(Date.now() / 1000) - 3600 },
+        config().jwt.secret
+      );
+
+      return request(app.getHttpServer())
+        .get("/api/v1/plants")
+        .set("Authorization", `Bearer ${expired}`)
+        .expect(401)
+        .expect((res) => {
+          expect(res.body.message).toBe("Token has expired");
+        });
+    });
+
+    it("should keep the health check public", () => {
+      return request(app.getHttpServer()).get("/api/v1/health").expect(200);
+    });
+  });
+
+  describe("Rate limiting", () => {
+    it("should send RateLimit headers", () => {
+      return api
+        .get("/api/v1/plants?top=1")
+        .expect(200)
+        .expect((res) => {
+          expect(res.headers).toHaveProperty("ratelimit-limit");
+          expect(res.headers).toHaveProperty("ratelimit-remaining");
+          expect(res.headers).toHaveProperty("ratelimit-reset");
+        });
+    });
+
+    it("should report the expensive-route budget on search", () => {
+      return api
+        .get("/api/v1/plants/search?q=canyon")
+        .expect(200)
+        .expect((res) => {
+          expect(res.headers["ratelimit-policy"]).toMatch(
+            /^\d+;w=60, \d+;w=60$/
+          );
+        });
+    });
+  });
+
+  describe("Trace IDs", () => {
+    it("should echo the caller's X-Trace-Id", () => {
+      return api
+        .get("/api/v1/plants?top=1")
+        .set("X-Trace-Id", "e2e-trace-1")
+        .expect(200)
+        .expect("X-Trace-Id", "e2e-trace-1");
+    });
+
+    it("should generate a trace ID for error responses", () => {
+      return api
+        .get("/api/v1/plants/999999")
+        .expect(404)
+        .expect((res) => {
+          expect(res.headers["x-trace-id"]).toMatch(/^[0-9a-f-]{36}$/);
+        });
+    });
+  });
+
   describe("Error handling", () => {
     it("should return structured error response", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants?top=0")
         .expect(400)
         .expect((res) => {
@@ -314,7 +712,7 @@ describe("Plants API (E2E)", () => {
     });
 
     it("should handle database errors gracefully", () => {
-      return request(app.getHttpServer())
+      return api
         .get("/api/v1/plants/999999")
         .expect(404)
         .expect((res) => {
@@ -327,7 +725,7 @@ describe("Plants API (E2E)", () => {
     it("should respond within 200ms for simple query", (done) => {
       const start = Date.now();
 
-      request(app.getHttpServer())
+      api
         .get("/api/v1/plants?top=10")
         .expect(200)
         .end(() => {
@@ -1,9 +1,11 @@
 import { Test, TestingModule } from "@nestjs/testing";
-import { NotFoundException } from "@nestjs/common";
+import { NotFoundException, BadRequestException } from "@nestjs/common";
 import { PlantsService } from "./plants.service";
 import { PlantRepository } from "./repositories/plant.repository";
 import { PrismaService } from "../../prisma/prisma.service";
-import { GetPlantsQueryDto } from "./dto/plants.dto";
+import { GetPlantsListQueryDto, GetPlantsQueryDto } from "./dto/plants.dto";
+import { CacheService } from "../../cache/cache.service";
+import { CacheKey } from "../../cache/cache-keys";
 
 /**
  * Unit tests for PlantsService
@@ -14,7 +16,13 @@ import { GetPlantsQueryDto } from "./dto/plants.dto";
 describe("PlantsService", () => {
   let service: PlantsService;
   let plantRepository: jest.Mocked<PlantRepository>;
-  let mockRedis: any;
+  let mockCache: any;
+
+  /**
+   * Keys read through CacheService, in call order
+   */
+  const cachedKeys = (): string[] =>
+    mockCache.getOrSet.mock.calls.map((call: [CacheKey]) => call[0].key);
 
   // Mock data fixtures
   const mockPlants = [
@@ -51,13 +59,54 @@ describe("PlantsService", () => {
     ],
   };
 
+  const mockHistory = {
+    plant: {
+      id: 1,
+      name: "Palo Verde",
+      state: { id: 4, code: "AZ", name: "Arizona" },
+    },
+    years: [
+      {
+        year: 2021,
+        netGeneration: 30000000,
+        stateRank: 1,
+        statePlantCount: 150,
+        nationalRank: 2,
+        nationalPlantCount: 11800,
+      },
+      {
+        year: 2022,
+        netGeneration: 33000000,
+        stateRank: 1,
+        statePlantCount: 152,
+        nationalRank: 1,
+        nationalPlantCount: 11900,
+      },
+      {
+        year: 2023,
+        netGeneration: 36300000,
+        stateRank: 1,
+        statePlantCount: 155,
+        nationalRank: 1,
+        nationalPlantCount: 12000,
+      },
+    ],
+  };
+
   beforeEach(async () => {
     // Create mock repository with jest.fn() for all methods
     const mockRepo = {
       getTopNPlants: jest.fn(),
+      getPlantsPage: jest.fn(),
+      searchPlants: jest.fn(),
+      getNearbyPlants: jest.fn(),
+      getPlantsInBoundingBox: jest.fn(),
       getStatesSummary: jest.fn(),
       getStateDetail: jest.fn(),
       getPlantById: jest.fn(),
+      getPlantByOrisCode: jest.fn(),
+      getPlantGenerationHistory: jest.fn(),
+      getLatestYear: jest.fn().mockResolvedValue(2023),
     };
 
     // Create mock Prisma service
@@ -66,11 +115,11 @@ describe("PlantsService", () => {
       $disconnect: jest.fn(),
     };
 
-    // Create mock Redis client
-    mockRedis = {
-      get: jest.fn().mockResolvedValue(null), // Default: cache miss
-      setex: jest.fn().mockResolvedValue("OK"),
-      del: jest.fn().mockResolvedValue(1),
+    // Create mock cache (default: cache miss, so the loader runs)
+    mockCache = {
+      getOrSet: jest.fn((_key: CacheKey, loader: () => Promise<unknown>) =>
+        loader()
+      ),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -85,15 +134,14 @@ describe("PlantsService", () => {
           useValue: mockPrisma,
         },
         {
-          provide: "REDIS_CLIENT",
-          useValue: mockRedis,
+          provide: CacheService,
+          useValue: mockCache,
         },
       ],
     }).compile();
 
     service = module.get<PlantsService>(PlantsService);
     plantRepository = module.get(PlantRepository);
-    mockRedis = module.get("REDIS_CLIENT");
   });
 
   afterEach(() => {
@@ -114,11 +162,39 @@ describe("PlantsService", () => {
       expect(plantRepository.getTopNPlants).toHaveBeenCalledWith({
         top: 10,
         stateCode: undefined,
-        year: undefined,
+        year: 2023,
       });
       expect(plantRepository.getTopNPlants).toHaveBeenCalledTimes(1);
     });
 
+    it("should default to the latest ingested year", async () => {
+      // Arrange
+      plantRepository.getLatestYear.mockResolvedValueOnce(2024);
+      plantRepository.getTopNPlants.mockResolvedValue(mockPlants);
+
+      // Act
+      await service.getTopPlants({ top: 10 });
+
+      // Assert
+      expect(plantRepository.getTopNPlants).toHaveBeenCalledWith({
+        top: 10,
+        year: 2024,
+      });
+      expect(cachedKeys()).toEqual(["plants:top:10:ALL:2024:ALL:ANY:ANY:ANY"]);
+    });
+
+    it("should return no plants before any data is loaded", async () => {
+      // Arrange
+      plantRepository.getLatestYear.mockResolvedValueOnce(undefined);
+
+      // Act
+      const result = await service.getTopPlants({ top: 10 });
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(plantRepository.getTopNPlants).not.toHaveBeenCalled();
+    });
+
     it("should handle custom top parameter", async () => {
       // Arrange
       const query: GetPlantsQueryDto = { top: 5 };
@@ -132,7 +208,7 @@ describe("PlantsService", () => {
       expect(plantRepository.getTopNPlants).toHaveBeenCalledWith({
         top: 5,
         stateCode: undefined,
-        year: undefined,
+        year: 2023,
       });
     });
 
@@ -150,7 +226,7 @@ describe("PlantsService", () => {
       expect(plantRepository.getTopNPlants).toHaveBeenCalledWith({
         top: 10,
         stateCode: "AZ",
-        year: undefined,
+        year: 2023,
       });
     });
 
@@ -228,22 +304,347 @@ describe("PlantsService", () => {
       );
     });
 
+    it("should include plant attributes from the PLNT sheet", async () => {
+      // Arrange
+      const query: GetPlantsQueryDto = { top: 1 };
+      plantRepository.getTopNPlants.mockResolvedValue([
+        {
+          ...mockPlants[0]!,
+          orisCode: 6008,
+          primaryFuelCategory: "NUCLEAR",
+          nameplateCapacityMw: 4209.6,
+          latitude: 33.3881,
+          longitude: -112.8617,
+          county: "Maricopa",
+          operatorName: "Arizona Public Service Co",
+          utilityName: null,
+          balancingAuthorityCode: "AZPS",
+          balancingAuthorityName: null,
+        },
+      ]);
+
+      // Act
+      const result = await service.getTopPlants(query);
+
+      // Assert
+      expect(result[0]).toMatchObject({
+        orisCode: 6008,
+        primaryFuelCategory: "NUCLEAR",
+        nameplateCapacityMw: 4209.6,
+        latitude: 33.3881,
+        longitude: -112.8617,
+        balancingAuthorityCode: "AZPS",
+      });
+    });
+
+    it("should pass multiple states to the repository", async () => {
+      // Arrange
+      const query: GetPlantsQueryDto = { top: 10, state: "TX,OK,NM" };
+      plantRepository.getTopNPlants.mockResolvedValue([]);
+
+      // Act
+      await service.getTopPlants(query);
+
+      // Assert
+      expect(plantRepository.getTopNPlants).toHaveBeenCalledWith({
+        top: 10,
+        stateCodes: ["NM", "OK", "TX"],
+        year: 2023,
+      });
+    });
+
+    it("should pass fuel, capacity and generation filters", async () => {
+      // Arrange
+      const query: GetPlantsQueryDto = {
+        top: 20,
+        state: "CA",
+        fuel: "solar",
+        minCapacityMw: 100,
+        maxCapacityMw: 500,
+        minGeneration: 0,
+      };
+      plantRepository.getTopNPlants.mockResolvedValue([]);
+
+      // Act
+      await service.getTopPlants(query);
+
+      // Assert
+      expect(plantRepository.getTopNPlants).toHaveBeenCalledWith({
+        top: 20,
+        stateCode: "CA",
+        fuel: "solar",
+        minCapacityMw: 100,
+        maxCapacityMw: 500,
+        minGeneration: 0,
+        year: 2023,
+      });
+    });
+
+    it("should include every filter in the cache key", async () => {
+      // Arrange
+      const query: GetPlantsQueryDto = {
+        top: 20,
+        state: "CA",
+        year: 2023,
+        fuel: "solar",
+        minCapacityMw: 100,
+      };
+      plantRepository.getTopNPlants.mockResolvedValue([]);
+
+      // Act
+      await service.getTopPlants(query);
+
+      // Assert
+      expect(cachedKeys()).toEqual(["plants:top:20:CA:2023:solar:100:ANY:ANY"]);
+    });
+
+    it("should use the same cache key regardless of state order", async () => {
+      // Arrange
+      plantRepository.getTopNPlants.mockResolvedValue([]);
+
+      // Act
+      await service.getTopPlants({ top: 10, state: "TX,OK" });
+      await service.getTopPlants({ top: 10, state: "OK,TX" });
+
+      // Assert
+      const keys = cachedKeys();
+      expect(keys[0]).toBe(keys[1]);
+    });
+
+    it("should reject minCapacityMw greater than maxCapacityMw", async () => {
+      // Arrange
+      const query: GetPlantsQueryDto = {
+        top: 10,
+        minCapacityMw: 500,
+        maxCapacityMw: 100,
+      };
+
+      // Act & Assert
+      await expect(service.getTopPlants(query)).rejects.toThrow(
+        BadRequestException
+      );
+      expect(plantRepository.getTopNPlants).not.toHaveBeenCalled();
+    });
+
     it("should return cached data on cache hit", async () => {
       // Arrange
       const query: GetPlantsQueryDto = { top: 10 };
-      const cachedData = JSON.stringify(mockPlants);
-      mockRedis.get.mockResolvedValueOnce(cachedData);
+      const cachedData = mockPlants;
+      mockCache.getOrSet.mockResolvedValueOnce(cachedData);
 
       // Act
       const result = await service.getTopPlants(query);
 
       // Assert
       expect(result).toEqual(mockPlants);
-      expect(mockRedis.get).toHaveBeenCalled();
+      expect(mockCache.getOrSet).toHaveBeenCalled();
       expect(plantRepository.getTopNPlants).not.toHaveBeenCalled(); // Should not hit repository
     });
   });
 
+  describe("getPlantsList", () => {
+    const encode = (payload: object) =>
+      Buffer.from(JSON.stringify(payload)).toString("base64url");
+    const decode = (cursor: string) =>
+      JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+
+    /**
+     * Fetch a first page for the query and return its cursor
+     */
+    const firstPageCursor = async (
+      query: Omit<GetPlantsListQueryDto, "cursor">
+    ): Promise<string> => {
+      plantRepository.getPlantsPage.mockResolvedValueOnce({
+        plants: mockPlants as any,
+        total: 11935,
+        nextCursor: {
+          netGeneration: "21787144.00",
+          id: 2,
+          rank: 100,
+          year: 2023,
+        },
+        year: 2023,
+      });
+      const { meta } = await service.getPlantsList(query);
+      plantRepository.getPlantsPage.mockClear();
+      return meta.nextCursor!;
+    };
+
+    it("should return the first page with paginated metadata", async () => {
+      // Arrange
+      plantRepository.getPlantsPage.mockResolvedValue({
+        plants: mockPlants as any,
+        total: 11935,
+        nextCursor: {
+          netGeneration: "21787144.00",
+          id: 2,
+          rank: 2,
+          year: 2023,
+        },
+        year: 2023,
+      });
+
+      // Act
+      const result = await service.getPlantsList({ limit: 2, year: 2023 });
+
+      // Assert
+      expect(result.data).toHaveLength(2);
+      expect(result.data[1]!.rank).toBe(2);
+      expect(result.meta).toEqual({
+        year: 2023,
+        total: 11935,
+        limit: 2,
+        nextCursor: expect.any(String),
+        hasMore: true,
+      });
+      expect(decode(result.meta.nextCursor!)).toMatchObject({
+        n: "21787144.00",
+        i: 2,
+        r: 2,
+        y: 2023,
+      });
+      expect(plantRepository.getPlantsPage).toHaveBeenCalledWith({
+        limit: 2,
+        year: 2023,
+      });
+    });
+
+    it("should report the year the repository defaulted to", async () => {
+      // Arrange
+      plantRepository.getPlantsPage.mockResolvedValue({
+        plants: [],
+        total: 0,
+        nextCursor: null,
+        year: 2024,
+      });
+
+      // Act
+      const result = await service.getPlantsList({ limit: 100 });
+
+      // Assert
+      expect(result.meta.year).toBe(2024);
+      expect(plantRepository.getPlantsPage).toHaveBeenCalledWith({
+        limit: 100,
+      });
+    });
+
+    it("should decode the cursor into a keyset position", async () => {
+      // Arrange
+      const cursor = await firstPageCursor({ limit: 100 });
+      plantRepository.getPlantsPage.mockResolvedValue({
+        plants: [],
+        total: 11935,
+        nextCursor: null,
+        year: 2023,
+      });
+
+      // Act
+      const result = await service.getPlantsList({ limit: 100, cursor });
+
+      // Assert
+      expect(plantRepository.getPlantsPage).toHaveBeenCalledWith({
+        limit: 100,
+        after: { netGeneration: "21787144.00", id: 2, rank: 100, year: 2023 },
+      });
+      expect(result.meta.nextCursor).toBeNull();
+      expect(result.meta.hasMore).toBe(false);
+    });
+
+    it("should keep ranks from the repository across pages", async () => {
+      // Arrange
+      const cursor = await firstPageCursor({ limit: 100 });
+      plantRepository.getPlantsPage.mockResolvedValue({
+        plants: [{ ...mockPlants[0]!, rank: 101 }] as any,
+        total: 11935,
+        nextCursor: null,
+        year: 2023,
+      });
+
+      // Act
+      const result = await service.getPlantsList({ limit: 100, cursor });
+
+      // Assert
+      expect(result.data[0]!.rank).toBe(101);
+    });
+
+    it("should reject malformed cursors", async () => {
+      // Act & Assert
+      await expect(
+        service.getPlantsList({ limit: 100, cursor: "not-a-cursor" })
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.getPlantsList({
+          limit: 100,
+          cursor: encode({ n: "1; DROP TABLE", i: 1, r: 1 }),
+        })
+      ).rejects.toThrow(BadRequestException);
+      expect(plantRepository.getPlantsPage).not.toHaveBeenCalled();
+    });
+
+    it("should reject cursors issued for other filters", async () => {
+      // Arrange
+      const cursor = await firstPageCursor({ limit: 100, state: "TX" });
+
+      // Act & Assert
+      await expect(
+        service.getPlantsList({ limit: 100, state: "CA", cursor })
+      ).rejects.toThrow("cursor was issued for different filters");
+      await expect(
+        service.getPlantsList({ limit: 100, cursor })
+      ).rejects.toThrow(BadRequestException);
+      expect(plantRepository.getPlantsPage).not.toHaveBeenCalled();
+    });
+
+    it("should accept cursors with equivalent filters", async () => {
+      // Arrange
+      const cursor = await firstPageCursor({ limit: 100, state: "TX,OK" });
+      plantRepository.getPlantsPage.mockResolvedValue({
+        plants: [],
+        total: 0,
+        nextCursor: null,
+        year: 2023,
+      });
+
+      // Act & Assert
+      await expect(
+        service.getPlantsList({ limit: 100, state: "OK,TX", cursor })
+      ).resolves.toBeDefined();
+    });
+
+    it("should cache each page under a cursor-specific key", async () => {
+      // Arrange
+      plantRepository.getPlantsPage.mockResolvedValue({
+        plants: [],
+        total: 0,
+        nextCursor: null,
+      });
+
+      // Act
+      await service.getPlantsList({ limit: 50, state: "TX" });
+
+      // Assert
+      expect(cachedKeys()).toEqual([
+        "plants:list:50:TX:ALL:ALL:ANY:ANY:ANY:start",
+      ]);
+    });
+
+    it("should return cached page on cache hit", async () => {
+      // Arrange
+      const cachedPage = {
+        data: [],
+        meta: { total: 0, limit: 100, nextCursor: null, hasMore: false },
+      };
+      mockCache.getOrSet.mockResolvedValueOnce(cachedPage);
+
+      // Act
+      const result = await service.getPlantsList({ limit: 100 });
+
+      // Assert
+      expect(result).toEqual(cachedPage);
+      expect(plantRepository.getPlantsPage).not.toHaveBeenCalled();
+    });
+  });
+
   describe("getPlantById", () => {
     it("should return plant details by ID", async () => {
       // Arrange
@@ -311,15 +712,15 @@ describe("PlantsService", () => {
     it("should return cached plant data on cache hit", async () => {
       // Arrange
       const plantId = 1;
-      const cachedData = JSON.stringify(mockPlantDetail);
-      mockRedis.get.mockResolvedValueOnce(cachedData);
+      const cachedData = mockPlantDetail;
+      mockCache.getOrSet.mockResolvedValueOnce(cachedData);
 
       // Act
       const result = await service.getPlantById(plantId);
 
       // Assert
       expect(result).toEqual(mockPlantDetail);
-      expect(mockRedis.get).toHaveBeenCalled();
+      expect(mockCache.getOrSet).toHaveBeenCalled();
       expect(plantRepository.getPlantById).not.toHaveBeenCalled(); // Should not hit repository
     });
 
@@ -338,6 +739,586 @@ describe("PlantsService", () => {
     });
   });
 
+  describe("searchPlants", () => {
+    const mockMatches = [
+      {
+        id: 5,
+        name: "Diablo Canyon",
+        orisCode: 6099,
+        primaryFuelCategory: "NUCLEAR",
+        nameplateCapacityMw: 2323,
+        state: { id: 6, code: "CA", name: "California" },
+        score: 1,
+        latestGeneration: { year: 2023, netGeneration: 17892234.5 },
+      },
+      {
+        id: 9,
+        name: "Diablo Wind",
+        orisCode: null,
+        primaryFuelCategory: "WIND",
+        nameplateCapacityMw: 20.5,
+        state: { id: 6, code: "CA", name: "California" },
+        score: 0.55,
+        latestGeneration: null,
+      },
+    ];
+
+    it("should return ranked matches from the repository", async () => {
+      // Arrange
+      plantRepository.searchPlants.mockResolvedValue(mockMatches);
+
+      // Act
+      const result = await service.searchPlants({ q: "diablo", limit: 10 });
+
+      // Assert
+      expect(result.map((r) => r.rank)).toEqual([1, 2]);
+      expect(result[0]!.latestGeneration).toEqual({
+        year: 2023,
+        netGeneration: 17892234.5,
+      });
+      expect(result[1]!.latestGeneration).toBeNull();
+      expect(plantRepository.searchPlants).toHaveBeenCalledWith({
+        query: "diablo",
+        limit: 10,
+      });
+    });
+
+    it("should pass state and year scope to the repository", async () => {
+      // Arrange
+      plantRepository.searchPlants.mockResolvedValue([]);
+
+      // Act
+      await service.searchPlants({
+        q: "diablo",
+        state: "CA",
+        year: 2022,
+        limit: 5,
+      });
+
+      // Assert
+      expect(plantRepository.searchPlants).toHaveBeenCalledWith({
+        query: "diablo",
+        limit: 5,
+        stateCode: "CA",
+        year: 2022,
+      });
+    });
+
+    it("should cache results under a case-insensitive key", async () => {
+      // Arrange
+      plantRepository.searchPlants.mockResolvedValue(mockMatches);
+
+      // Act
+      await service.searchPlants({ q: "Diablo", limit: 10 });
+
+      // Assert
+      expect(cachedKeys()).toEqual(["plants:search:diablo:ALL:LATEST:10"]);
+    });
+
+    it("should return cached matches on cache hit", async () => {
+      // Arrange
+      mockCache.getOrSet.mockResolvedValueOnce([mockMatches[0]]);
+
+      // Act
+      const result = await service.searchPlants({ q: "diablo", limit: 10 });
+
+      // Assert
+      expect(result).toHaveLength(1);
+      expect(plantRepository.searchPlants).not.toHaveBeenCalled();
+    });
+
+    it("should propagate NotFoundException for unknown state", async () => {
+      // Arrange
+      plantRepository.searchPlants.mockRejectedValue(
+        new NotFoundException("State with code 'XX' not found")
+      );
+
+      // Act & Assert
+      await expect(
+        service.searchPlants({ q: "diablo", state: "XX", limit: 10 })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe("getNearbyPlants", () => {
+    const mockLocations = [
+      {
+        id: 1,
+        name: "South Texas Project",
+        orisCode: 6251,
+        primaryFuelCategory: "NUCLEAR",
+        nameplateCapacityMw: 2708.6,
+        latitude: 28.7953,
+        longitude: -96.0486,
+        state: { id: 1, code: "TX", name: "Texas" },
+        year: 2023,
+        netGeneration: 21787144,
+        distanceKm: 0.52,
+      },
+    ];
+
+    it("should apply default radius, year and limit", async () => {
+      // Arrange
+      plantRepository.getNearbyPlants.mockResolvedValue(mockLocations);
+
+      // Act
+      const result = await service.getNearbyPlants({ lat: 28.8, lon: -96.05 });
+
+      // Assert
+      expect(result).toEqual(mockLocations);
+      expect(plantRepository.getNearbyPlants).toHaveBeenCalledWith({
+        latitude: 28.8,
+        longitude: -96.05,
+        radiusKm: 50,
+        year: 2023,
+        limit: 500,
+      });
+      expect(cachedKeys()).toEqual(["plants:nearby:28.8:-96.05:50:2023:500"]);
+    });
+
+    it("should default to the latest ingested year", async () => {
+      // Arrange
+      plantRepository.getLatestYear.mockResolvedValue(2024);
+      plantRepository.getNearbyPlants.mockResolvedValue([]);
+
+      // Act
+      await service.getNearbyPlants({ lat: 28.8, lon: -96.05 });
+
+      // Assert
+      expect(plantRepository.getNearbyPlants).toHaveBeenCalledWith(
+        expect.objectContaining({ year: 2024 })
+      );
+      expect(cachedKeys()).toEqual(["plants:nearby:28.8:-96.05:50:2024:500"]);
+    });
+
+    it("should return no plants before any data is loaded", async () => {
+      // Arrange
+      plantRepository.getLatestYear.mockResolvedValue(undefined);
+
+      // Act & Assert
+      await expect(
+        service.getNearbyPlants({ lat: 28.8, lon: -96.05 })
+      ).resolves.toEqual([]);
+      expect(plantRepository.getNearbyPlants).not.toHaveBeenCalled();
+    });
+
+    it("should return cached plants on cache hit", async () => {
+      // Arrange
+      mockCache.getOrSet.mockResolvedValueOnce(mockLocations);
+
+      // Act
+      const result = await service.getNearbyPlants({
+        lat: 28.8,
+        lon: -96.05,
+        radiusKm: 10,
+      });
+
+      // Assert
+      expect(result).toEqual(mockLocations);
+      expect(plantRepository.getNearbyPlants).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getPlantsInBoundingBox", () => {
+    it("should map query corners to repository options", async () => {
+      // Arrange
+      plantRepository.getPlantsInBoundingBox.mockResolvedValue([]);
+
+      // Act
+      await service.getPlantsInBoundingBox({
+        minLat: 25,
+        minLon: -107,
+        maxLat: 37,
+        maxLon: -93,
+        year: 2022,
+        limit: 100,
+      });
+
+      // Assert
+      expect(plantRepository.getPlantsInBoundingBox).toHaveBeenCalledWith({
+        minLatitude: 25,
+        minLongitude: -107,
+        maxLatitude: 37,
+        maxLongitude: -93,
+        year: 2022,
+        limit: 100,
+      });
+    });
+
+    it("should default to the latest ingested year", async () => {
+      // Arrange
+      plantRepository.getLatestYear.mockResolvedValue(2024);
+      plantRepository.getPlantsInBoundingBox.mockResolvedValue([]);
+
+      // Act
+      await service.getPlantsInBoundingBox({
+        minLat: 25,
+        minLon: -107,
+        maxLat: 37,
+        maxLon: -93,
+      });
+
+      // Assert
+      expect(plantRepository.getPlantsInBoundingBox).toHaveBeenCalledWith(
+        expect.objectContaining({ year: 2024 })
+      );
+    });
+
+    it("should allow boxes crossing the antimeridian", async () => {
+      // Arrange
+      plantRepository.getPlantsInBoundingBox.mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(
+        service.getPlantsInBoundingBox({
+          minLat: 50,
+          minLon: 170,
+          maxLat: 55,
+          maxLon: -170,
+        })
+      ).resolves.toEqual([]);
+    });
+
+    it("should reject an inverted latitude range", async () => {
+      // Act & Assert
+      await expect(
+        service.getPlantsInBoundingBox({
+          minLat: 37,
+          minLon: -107,
+          maxLat: 25,
+          maxLon: -93,
+        })
+      ).rejects.toThrow(BadRequestException);
+      expect(plantRepository.getPlantsInBoundingBox).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("toFeatureCollection", () => {
+    it("should convert plants to Point features with flat properties", () => {
+      // Arrange
+      const plant = {
+        id: 1,
+        plantId: 1,
+        name: "South Texas Project",
+        state: { id: 1, code: "TX", name: "Texas" },
+        year: 2023,
+        netGeneration: 21787144,
+        percentOfState: 4.52,
+        rank: 1,
+        latitude: 28.7953,
+        longitude: -96.0486,
+      };
+
+      // Act
+      const result = service.toFeatureCollection([plant]);
+
+      // Assert
+      expect(result.type).toBe("FeatureCollection");
+      expect(result.features[0]).toEqual({
+        type: "Feature",
+        id: 1,
+        geometry: { type: "Point", coordinates: [-96.0486, 28.7953] },
+        properties: {
+          id: 1,
+          plantId: 1,
+          name: "South Texas Project",
+          stateCode: "TX",
+          stateName: "Texas",
+          year: 2023,
+          netGeneration: 21787144,
+          percentOfState: 4.52,
+          rank: 1,
+        },
+      });
+    });
+
+    it("should use null geometry for plants without coordinates", () => {
+      // Act
+      const result = service.toFeatureCollection([
+        {
+          id: 2,
+          plantId: 2,
+          name: "Unknown Site",
+          state: { id: 1, code: "TX", name: "Texas" },
+          year: 2023,
+          netGeneration: 10,
+          percentOfState: 0,
+          latitude: null,
+          longitude: null,
+        },
+      ]);
+
+      // Assert
+      expect(result.features[0]!.geometry).toBeNull();
+      expect(result.features[0]!.properties).not.toHaveProperty("latitude");
+    });
+  });
+
+  describe("exportPlants", () => {
+    it("should build a CSV download with one row per plant", async () => {
+      // Arrange
+      const plants = [
+        {
+          id: 1,
+          plantId: 1,
+          name: "Palo Verde",
+          state: { id: 1, code: "AZ", name: "Arizona" },
+          year: 2023,
+          netGeneration: 31522590,
+          percentOfState: 28.1,
+          rank: 1,
+        },
+      ];
+
+      // Act
+      const file = await service.exportPlants(plants, "csv");
+      const chunks: Buffer[] = [];
+      for await (const chunk of file.getStream()) chunks.push(chunk);
+      const [header, row] = Buffer.concat(chunks).toString().split("\r\n");
+
+      // Assert
+      expect(file.options.disposition).toBe(
+        'attachment; filename="plants.csv"'
+      );
+      expect(header).toMatch(/^Rank,Plant ID,ORIS Code,Plant Name,State,Year/);
+      expect(row).toMatch(/^1,1,,Palo Verde,AZ,2023,31522590,28.1,/);
+    });
+
+    it("should build an XLSX download for geospatial results", async () => {
+      // Act
+      const file = await service.exportPlantLocations(
+        [],
+        "xlsx",
+        "plants-nearby"
+      );
+
+      // Assert
+      expect(file.options.type).toBe(
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      expect(file.options.disposition).toBe(
+        'attachment; filename="plants-nearby.xlsx"'
+      );
+    });
+  });
+
+  describe("getPlantByOrisCode", () => {
+    const mockRenamedPlant = {
+      ...mockPlantDetail,
+      orisCode: 6008,
+      nameHistory: [
+        {
+          id: 1,
+          plantId: 1,
+          name: "Palo Verde NGS",
+          firstYear: 2019,
+          lastYear: 2021,
+        },
+        {
+          id: 2,
+          plantId: 1,
+          name: "Palo Verde",
+          firstYear: 2022,
+          lastYear: 2023,
+        },
+      ],
+    };
+
+    it("should return plant details with name history", async () => {
+      // Arrange
+      plantRepository.getPlantByOrisCode.mockResolvedValue(mockRenamedPlant);
+
+      // Act
+      const result = await service.getPlantByOrisCode(6008);
+
+      // Assert
+      expect(result).toEqual(mockRenamedPlant);
+      expect(result.nameHistory).toHaveLength(2);
+      expect(plantRepository.getPlantByOrisCode).toHaveBeenCalledWith(6008);
+    });
+
+    it("should cache the result under an ORIS-specific key", async () => {
+      // Arrange
+      plantRepository.getPlantByOrisCode.mockResolvedValue(mockRenamedPlant);
+
+      // Act
+      await service.getPlantByOrisCode(6008);
+
+      // Assert
+      expect(cachedKeys()).toEqual(["plant:oris:6008"]);
+      const { tagsFrom } = mockCache.getOrSet.mock.calls[0][2];
+      expect(tagsFrom(mockRenamedPlant)).toEqual([
+        `plant:${mockRenamedPlant.id}`,
+      ]);
+    });
+
+    it("should return cached plant data on cache hit", async () => {
+      // Arrange
+      mockCache.getOrSet.mockResolvedValueOnce(mockRenamedPlant);
+
+      // Act
+      const result = await service.getPlantByOrisCode(6008);
+
+      // Assert
+      expect(result).toEqual(mockRenamedPlant);
+      expect(plantRepository.getPlantByOrisCode).not.toHaveBeenCalled();
+    });
+
+    it("should propagate NotFoundException for unknown ORIS codes", async () => {
+      // Arrange
+      plantRepository.getPlantByOrisCode.mockRejectedValue(
+        new NotFoundException("Plant with ORIS code 999999 not found")
+      );
+
+      // Act & Assert
+      await expect(service.getPlantByOrisCode(999999)).rejects.toThrow(
+        "Plant with ORIS code 999999 not found"
+      );
+    });
+  });
+
+  describe("getPlantTrend", () => {
+    it("should compute year-over-year deltas", async () => {
+      // Arrange
+      plantRepository.getPlantGenerationHistory.mockResolvedValue(mockHistory);
+
+      // Act
+      const result = await service.getPlantTrend(1);
+
+      // Assert
+      expect(result.plantId).toBe(1);
+      expect(result.state.code).toBe("AZ");
+      expect(result.years).toHaveLength(3);
+      expect(result.years[0]!.yoyChange).toBeNull();
+      expect(result.years[0]!.yoyPercentChange).toBeNull();
+      expect(result.years[1]!.yoyChange).toBe(3000000);
+      expect(result.years[1]!.yoyPercentChange).toBeCloseTo(10);
+      expect(result.years[2]!.yoyPercentChange).toBeCloseTo(10);
+    });
+
+    it("should compute CAGR across the available range", async () => {
+      // Arrange
+      plantRepository.getPlantGenerationHistory.mockResolvedValue(mockHistory);
+
+      // Act
+      const result = await service.getPlantTrend(1);
+
+      // Assert
+      expect(result.fromYear).toBe(2021);
+      expect(result.toYear).toBe(2023);
+      expect(result.cagr).toBeCloseTo(10);
+    });
+
+    it("should keep state and national rankings per year", async () => {
+      // Arrange
+      plantRepository.getPlantGenerationHistory.mockResolvedValue(mockHistory);
+
+      // Act
+      const result = await service.getPlantTrend(1);
+
+      // Assert
+      expect(result.years[0]!.nationalRank).toBe(2);
+      expect(result.years[2]!.nationalRank).toBe(1);
+      expect(result.years[2]!.stateRank).toBe(1);
+      expect(result.years[2]!.statePlantCount).toBe(155);
+    });
+
+    it("should return null CAGR for a single year", async () => {
+      // Arrange
+      plantRepository.getPlantGenerationHistory.mockResolvedValue({
+        ...mockHistory,
+        years: [mockHistory.years[2]!],
+      });
+
+      // Act
+      const result = await service.getPlantTrend(1);
+
+      // Assert
+      expect(result.fromYear).toBe(2023);
+      expect(result.toYear).toBe(2023);
+      expect(result.cagr).toBeNull();
+    });
+
+    it("should handle plants with no generation records", async () => {
+      // Arrange
+      plantRepository.getPlantGenerationHistory.mockResolvedValue({
+        ...mockHistory,
+        years: [],
+      });
+
+      // Act
+      const result = await service.getPlantTrend(1);
+
+      // Assert
+      expect(result.years).toEqual([]);
+      expect(result.fromYear).toBeNull();
+      expect(result.toYear).toBeNull();
+      expect(result.cagr).toBeNull();
+    });
+
+    it("should not divide by zero generation", async () => {
+      // Arrange
+      plantRepository.getPlantGenerationHistory.mockResolvedValue({
+        ...mockHistory,
+        years: [
+          { ...mockHistory.years[0]!, netGeneration: 0 },
+          { ...mockHistory.years[1]!, netGeneration: 1000 },
+        ],
+      });
+
+      // Act
+      const result = await service.getPlantTrend(1);
+
+      // Assert
+      expect(result.years[1]!.yoyChange).toBe(1000);
+      expect(result.years[1]!.yoyPercentChange).toBeNull();
+      expect(result.cagr).toBeNull();
+    });
+
+    it("should use absolute previous value for negative generation", async () => {
+      // Arrange
+      plantRepository.getPlantGenerationHistory.mockResolvedValue({
+        ...mockHistory,
+        years: [
+          { ...mockHistory.years[0]!, netGeneration: -100 },
+          { ...mockHistory.years[1]!, netGeneration: -50 },
+        ],
+      });
+
+      // Act
+      const result = await service.getPlantTrend(1);
+
+      // Assert
+      expect(result.years[1]!.yoyChange).toBe(50);
+      expect(result.years[1]!.yoyPercentChange).toBeCloseTo(50);
+    });
+
+    it("should propagate NotFoundException", async () => {
+      // Arrange
+      const error = new NotFoundException("Plant with ID 999 not found");
+      plantRepository.getPlantGenerationHistory.mockRejectedValue(error);
+
+      // Act & Assert
+      await expect(service.getPlantTrend(999)).rejects.toThrow(
+        NotFoundException
+      );
+    });
+
+    it("should return cached trend on cache hit", async () => {
+      // Arrange
+      const cachedTrend = { plantId: 1, years: [] };
+      mockCache.getOrSet.mockResolvedValueOnce(cachedTrend);
+
+      // Act
+      const result = await service.getPlantTrend(1);
+
+      // Assert
+      expect(result).toEqual(cachedTrend);
+      expect(cachedKeys()).toEqual(["plant:1:trend"]);
+      expect(plantRepository.getPlantGenerationHistory).not.toHaveBeenCalled();
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle maximum top value (100)", async () => {
       // Arrange
@@ -357,7 +1338,7 @@ describe("PlantsService", () => {
       expect(plantRepository.getTopNPlants).toHaveBeenCalledWith({
         top: 100,
         stateCode: undefined,
-        year: undefined,
+        year: 2023,
       });
     });
 
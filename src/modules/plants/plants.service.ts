@@ -1,8 +1,89 @@
-import { Injectable, Logger, NotFoundException, Inject } from "@nestjs/common";
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  StreamableFile,
+} from "@nestjs/common";
+import { createHash } from "crypto";
 import { PrismaService } from "../../prisma/prisma.service";
-import { GetPlantsQueryDto, PlantResponseDto } from "./dto/plants.dto";
-import { PlantRepository } from "./repositories/plant.repository";
-import { Redis } from "ioredis";
+import {
+  BoundingBoxPlantsQueryDto,
+  GetPlantsQueryDto,
+  GetPlantsListQueryDto,
+  NearbyPlantsQueryDto,
+  PaginatedPlantsResponseDto,
+  PlantLocationResponseDto,
+  PlantResponseDto,
+  PlantSearchResultDto,
+  PlantTrendResponseDto,
+  PlantTrendYearDto,
+  SearchPlantsQueryDto,
+} from "./dto/plants.dto";
+import {
+  PlantRepository,
+  PlantFilterOptions,
+  PlantPageCursor,
+  PlantWithGeneration,
+  PlantYearRanking,
+} from "./repositories/plant.repository";
+import { CacheService } from "../../cache/cache.service";
+import { CacheKeys, CacheTags } from "../../cache/cache-keys";
+import {
+  GeoJsonFeatureCollection,
+  toPointFeatureCollection,
+} from "../../common/utils/geojson.helper";
+import {
+  ExportColumn,
+  ExportFormat,
+  toExportFile,
+} from "../../common/utils/export.helper";
+
+/**
+ * Descriptive columns shared by every plant export
+ */
+const PLANT_ATTRIBUTE_EXPORT_COLUMNS: ExportColumn<
+  PlantResponseDto | PlantLocationResponseDto
+>[] = [
+  { header: "Primary Fuel", value: (p) => p.primaryFuelCategory },
+  { header: "Nameplate Capacity (MW)", value: (p) => p.nameplateCapacityMw },
+  { header: "Latitude", value: (p) => p.latitude },
+  { header: "Longitude", value: (p) => p.longitude },
+];
+
+/**
+ * Spreadsheet columns for ranked plant exports (GET /plants)
+ */
+const PLANT_EXPORT_COLUMNS: ExportColumn<PlantResponseDto>[] = [
+  { header: "Rank", value: (p) => p.rank },
+  { header: "Plant ID", value: (p) => p.plantId },
+  { header: "ORIS Code", value: (p) => p.orisCode },
+  { header: "Plant Name", value: (p) => p.name },
+  { header: "State", value: (p) => p.state.code },
+  { header: "Year", value: (p) => p.year },
+  { header: "Net Generation (MWh)", value: (p) => p.netGeneration },
+  { header: "% of State", value: (p) => p.percentOfState },
+  ...PLANT_ATTRIBUTE_EXPORT_COLUMNS,
+  { header: "County", value: (p) => p.county },
+  { header: "Operator", value: (p) => p.operatorName },
+  { header: "Utility", value: (p) => p.utilityName },
+  { header: "Balancing Authority", value: (p) => p.balancingAuthorityCode },
+];
+
+/**
+ * Spreadsheet columns for geospatial plant exports (GET /plants/nearby|bbox)
+ */
+const PLANT_LOCATION_EXPORT_COLUMNS: ExportColumn<PlantLocationResponseDto>[] =
+  [
+    { header: "Plant ID", value: (p) => p.id },
+    { header: "ORIS Code", value: (p) => p.orisCode },
+    { header: "Plant Name", value: (p) => p.name },
+    { header: "State", value: (p) => p.state.code },
+    { header: "Year", value: (p) => p.year },
+    { header: "Net Generation (MWh)", value: (p) => p.netGeneration },
+    { header: "Distance (km)", value: (p) => p.distanceKm },
+    ...PLANT_ATTRIBUTE_EXPORT_COLUMNS,
+  ];
 
 /**
  * PlantsService
@@ -13,81 +94,340 @@ import { Redis } from "ioredis";
 @Injectable()
 export class PlantsService {
   private readonly logger = new Logger(PlantsService.name);
-  private readonly CACHE_TTL = 3600; // 1 hour in seconds
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly plantRepository: PlantRepository,
-    @Inject("REDIS_CLIENT") private readonly redis: Redis
+    private readonly cache: CacheService
   ) {}
 
   /**
    * Get top N plants by net generation
    *
-   * @param query - Query parameters (top, state, year)
+   * @param query - Query parameters (top, state, year (default: the latest
+   * ingested year), fuel, capacity range, minimum generation)
    * @returns Array of top plants with percentage calculations
    */
   async getTopPlants(query: GetPlantsQueryDto): Promise<PlantResponseDto[]> {
     const startTime = Date.now();
 
     try {
-      // Generate cache key
-      const cacheKey = `plants:top:${query.top || 10}:${query.state || "ALL"}:${
-        query.year || "ALL"
-      }`;
-
-      // Try to get from cache
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.log(`Cache hit for ${cacheKey}`);
-        return JSON.parse(cached);
+      // Resolved before the cache lookup, so keys and tags carry the year
+      const year = await this.resolveYear(query.year);
+      if (year === undefined) {
+        return []; // No generation data loaded yet
       }
 
-      this.logger.log(
-        `Cache miss for ${cacheKey}. Getting top ${
-          query.top || 10
-        } plants for state: ${query.state || "ALL"}, year: ${
-          query.year || "ALL"
-        }`
+      const filters = this.toFilterOptions({ ...query, year });
+      const top = query.top || 10;
+
+      return await this.cache.getOrSet(
+        CacheKeys.topPlants(top, filters),
+        async () => {
+          this.logger.log(
+            `Getting top ${top} plants for state: ${
+              query.state || "ALL"
+            }, year: ${year}, fuel: ${query.fuel || "ALL"}`
+          );
+
+          // Delegate to repository layer
+          const plants = await this.plantRepository.getTopNPlants({
+            top,
+            ...filters,
+          });
+
+          this.logger.log(
+            `Retrieved ${plants.length} plants in ${Date.now() - startTime}ms`
+          );
+
+          return plants.map((plant, index) =>
+            this.toPlantResponse(plant, index + 1)
+          );
+        }
       );
+    } catch (error) {
+      this.logger.error(`Failed to get top plants: ${error}`);
+      throw error;
+    }
+  }
 
-      // Delegate to repository layer
-      const options: any = {
-        top: query.top || 10,
-      };
-      if (query.state) options.stateCode = query.state;
-      if (query.year) options.year = query.year;
+  /**
+   * Get one page of the full plant ranking
+   *
+   * Pages are addressed by an opaque keyset cursor (net generation + ID of the
+   * last row, plus its rank) so clients can walk all ~12k plants without the
+   * `top` cap of GET /plants.
+   *
+   * @param query - Filters, page size and optional cursor
+   * @returns Ranked plants with total count and the cursor for the next page
+   */
+  async getPlantsList(
+    query: GetPlantsListQueryDto
+  ): Promise<PaginatedPlantsResponseDto> {
+    const startTime = Date.now();
+    const limit = query.limit || 100;
 
-      const plants = await this.plantRepository.getTopNPlants(options);
+    try {
+      const filters = this.toFilterOptions(query);
+      const after = query.cursor
+        ? this.decodeCursor(query.cursor, filters)
+        : undefined;
+
+      return await this.cache.getOrSet(
+        CacheKeys.plantsPage(limit, filters, query.cursor),
+        async (): Promise<PaginatedPlantsResponseDto> => {
+          this.logger.log(
+            `Getting ${limit} plants ${
+              after ? `after rank ${after.rank}` : "from the start"
+            }`
+          );
+
+          const page = await this.plantRepository.getPlantsPage({
+            limit,
+            ...filters,
+            ...(after && { after }),
+          });
 
-      this.logger.log(
-        `Retrieved ${plants.length} plants in ${Date.now() - startTime}ms`
+          this.logger.log(
+            `Retrieved ${page.plants.length}/${page.total} plants in ${
+              Date.now() - startTime
+            }ms`
+          );
+
+          return {
+            data: page.plants.map((plant) =>
+              this.toPlantResponse(plant, plant.rank ?? 0)
+            ),
+            meta: {
+              ...(page.year && { year: page.year }),
+              ...(query.state && { state: query.state }),
+              total: page.total,
+              limit,
+              nextCursor: page.nextCursor
+                ? this.encodeCursor(page.nextCursor, filters)
+                : null,
+              hasMore: page.nextCursor !== null,
+            },
+          };
+        }
       );
+    } catch (error) {
+      this.logger.error(`Failed to get plants list: ${error}`);
+      throw error;
+    }
+  }
 
-      const result = plants.map((plant, index) => ({
-        id: plant.id,
-        plantId: plant.plantId,
-        name: plant.name,
-        state: plant.state,
-        year: plant.year,
-        netGeneration: plant.netGeneration,
-        percentOfState: plant.percentOfState,
-        rank: index + 1,
-      }));
-
-      // Cache the result
-      await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(result));
-      this.logger.log(
-        `Cached result with key ${cacheKey} for ${this.CACHE_TTL}s`
+  /**
+   * Search plants by name
+   *
+   * Matching is case-insensitive and tolerates typos (pg_trgm), optionally
+   * scoped to a state and to plants reporting in a given year.
+   *
+   * @param query - Search text with optional state, year and limit
+   * @returns Ranked matches with their latest generation figure
+   */
+  async searchPlants(
+    query: SearchPlantsQueryDto
+  ): Promise<PlantSearchResultDto[]> {
+    const startTime = Date.now();
+    const limit = query.limit || 10;
+
+    try {
+      return await this.cache.getOrSet(
+        CacheKeys.plantSearch(query.q, limit, query.state, query.year),
+        async (): Promise<PlantSearchResultDto[]> => {
+          this.logger.log(
+            `Searching plants for "${query.q}", state: ${
+              query.state || "ALL"
+            }, year: ${query.year || "LATEST"}`
+          );
+
+          const matches = await this.plantRepository.searchPlants({
+            query: query.q,
+            limit,
+            ...(query.state && { stateCode: query.state }),
+            ...(query.year && { year: query.year }),
+          });
+
+          this.logger.log(
+            `Found ${matches.length} plants in ${Date.now() - startTime}ms`
+          );
+
+          return matches.map((match, index) => ({
+            ...match,
+            rank: index + 1,
+          }));
+        }
       );
+    } catch (error) {
+      this.logger.error(`Failed to search plants: ${error}`);
+      throw error;
+    }
+  }
 
-      return result;
+  /**
+   * Get plants within a radius of a point
+   *
+   * @param query - Center point, radius (default 50 km), year (default: the
+   * latest ingested year) and limit
+   * @returns Plants nearest first, with distance and generation for the year
+   */
+  async getNearbyPlants(
+    query: NearbyPlantsQueryDto
+  ): Promise<PlantLocationResponseDto[]> {
+    const startTime = Date.now();
+    const radiusKm = query.radiusKm || 50;
+    const limit = query.limit || 500;
+
+    try {
+      const year = await this.resolveYear(query.year);
+      if (year === undefined) {
+        return []; // No generation data loaded yet
+      }
+
+      return await this.cache.getOrSet(
+        CacheKeys.nearbyPlants(query.lat, query.lon, radiusKm, year, limit),
+        async () => {
+          this.logger.log(
+            `Getting plants within ${radiusKm}km of (${query.lat}, ${query.lon}) for year ${year}`
+          );
+
+          const result = await this.plantRepository.getNearbyPlants({
+            latitude: query.lat,
+            longitude: query.lon,
+            radiusKm,
+            year,
+            limit,
+          });
+
+          this.logger.log(
+            `Retrieved ${result.length} plants in ${Date.now() - startTime}ms`
+          );
+
+          return result;
+        }
+      );
     } catch (error) {
-      this.logger.error(`Failed to get top plants: ${error}`);
+      this.logger.error(`Failed to get nearby plants: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get plants inside a bounding box
+   *
+   * @param query - Box corners, year (default: the latest ingested year) and
+   * limit
+   * @returns Plants by net generation for the year (DESC)
+   */
+  async getPlantsInBoundingBox(
+    query: BoundingBoxPlantsQueryDto
+  ): Promise<PlantLocationResponseDto[]> {
+    const startTime = Date.now();
+    const limit = query.limit || 500;
+
+    try {
+      if (query.minLat > query.maxLat) {
+        throw new BadRequestException(
+          "minLat must be less than or equal to maxLat"
+        );
+      }
+
+      const year = await this.resolveYear(query.year);
+      if (year === undefined) {
+        return []; // No generation data loaded yet
+      }
+
+      const box = {
+        minLatitude: query.minLat,
+        minLongitude: query.minLon,
+        maxLatitude: query.maxLat,
+        maxLongitude: query.maxLon,
+      };
+
+      return await this.cache.getOrSet(
+        CacheKeys.plantsInBoundingBox(box, year, limit),
+        async () => {
+          this.logger.log(
+            `Getting plants in box (${query.minLat}, ${query.minLon}) - (${query.maxLat}, ${query.maxLon}) for year ${year}`
+          );
+
+          const result = await this.plantRepository.getPlantsInBoundingBox({
+            ...box,
+            year,
+            limit,
+          });
+
+          this.logger.log(
+            `Retrieved ${result.length} plants in ${Date.now() - startTime}ms`
+          );
+
+          return result;
+        }
+      );
+    } catch (error) {
+      this.logger.error(`Failed to get plants in bounding box: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Convert plant results to a GeoJSON FeatureCollection
+   *
+   * Coordinates become Point geometry; the remaining fields become flat
+   * feature properties (state is split into stateCode/stateName) so GIS
+   * tools can style and filter on them without unnesting.
+   *
+   * @param plants - Plant results in output order
+   * @returns FeatureCollection with one feature per plant
+   */
+  toFeatureCollection(
+    plants: Array<PlantResponseDto | PlantLocationResponseDto>
+  ): GeoJsonFeatureCollection<Record<string, unknown>> {
+    return toPointFeatureCollection(plants, (plant) => {
+      const { latitude, longitude, state, ...properties } = plant;
+      return {
+        ...properties,
+        stateCode: state.code,
+        stateName: state.name,
+      };
+    });
+  }
+
+  /**
+   * Export ranked plants as a CSV or XLSX download
+   *
+   * @param plants - Results of getTopPlants
+   * @param format - Export format
+   * @param filename - Download name without extension
+   */
+  async exportPlants(
+    plants: PlantResponseDto[],
+    format: ExportFormat,
+    filename = "plants"
+  ): Promise<StreamableFile> {
+    return toExportFile(format, filename, [
+      { name: "Plants", rows: plants, columns: PLANT_EXPORT_COLUMNS },
+    ]);
+  }
+
+  /**
+   * Export geospatial lookup results as a CSV or XLSX download
+   *
+   * @param plants - Results of getNearbyPlants or getPlantsInBoundingBox
+   * @param format - Export format
+   * @param filename - Download name without extension
+   */
+  async exportPlantLocations(
+    plants: PlantLocationResponseDto[],
+    format: ExportFormat,
+    filename: string
+  ): Promise<StreamableFile> {
+    return toExportFile(format, filename, [
+      { name: "Plants", rows: plants, columns: PLANT_LOCATION_EXPORT_COLUMNS },
+    ]);
+  }
+
   /**
    * Get individual plant by ID with generation history
    *
@@ -98,40 +438,296 @@ export class PlantsService {
     const startTime = Date.now();
 
     try {
-      // Generate cache key
-      const cacheKey = `plant:${plantId}`;
-
-      // Try to get from cache
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.log(`Cache hit for ${cacheKey}`);
-        return JSON.parse(cached);
-      }
+      return await this.cache.getOrSet(CacheKeys.plant(plantId), async () => {
+        this.logger.log(`Getting plant details for ID: ${plantId}`);
 
-      this.logger.log(
-        `Cache miss for ${cacheKey}. Getting plant details for ID: ${plantId}`
-      );
+        const plant = await this.plantRepository.getPlantById(plantId);
 
-      const plant = await this.plantRepository.getPlantById(plantId);
+        if (!plant) {
+          throw new NotFoundException(`Plant with ID ${plantId} not found`);
+        }
 
-      if (!plant) {
-        throw new NotFoundException(`Plant with ID ${plantId} not found`);
-      }
+        this.logger.log(
+          `Retrieved plant ${plantId} in ${Date.now() - startTime}ms`
+        );
 
-      this.logger.log(
-        `Retrieved plant ${plantId} in ${Date.now() - startTime}ms`
-      );
+        return plant;
+      });
+    } catch (error) {
+      this.logger.error(`Failed to get plant by ID: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get individual plant by DOE/EIA ORIS code
+   *
+   * @param orisCode - ORIS plant code
+   * @returns Plant details with generation records and name history
+   */
+  async getPlantByOrisCode(orisCode: number) {
+    const startTime = Date.now();
 
-      // Cache the result
-      await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(plant));
-      this.logger.log(
-        `Cached result with key ${cacheKey} for ${this.CACHE_TTL}s`
+    try {
+      return await this.cache.getOrSet(
+        CacheKeys.plantByOrisCode(orisCode),
+        async () => {
+          this.logger.log(`Getting plant details for ORIS code: ${orisCode}`);
+
+          const plant = await this.plantRepository.getPlantByOrisCode(orisCode);
+
+          this.logger.log(
+            `Retrieved plant with ORIS code ${orisCode} in ${
+              Date.now() - startTime
+            }ms`
+          );
+
+          return plant;
+        },
+        { tagsFrom: (plant) => [CacheTags.plant(plant.id)] }
       );
+    } catch (error) {
+      this.logger.error(`Failed to get plant by ORIS code: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get year-over-year generation trend for a plant
+   *
+   * Deltas compare each year with the previous year that has data, so a gap
+   * in reporting (e.g. 2019 -> 2021) yields a single two-year delta.
+   *
+   * @param plantId - Plant ID
+   * @returns Per-year generation with YoY deltas, rankings and CAGR
+   */
+  async getPlantTrend(plantId: number): Promise<PlantTrendResponseDto> {
+    const startTime = Date.now();
+
+    try {
+      return await this.cache.getOrSet(
+        CacheKeys.plantTrend(plantId),
+        async (): Promise<PlantTrendResponseDto> => {
+          this.logger.log(`Getting generation trend for plant ID: ${plantId}`);
+
+          const history =
+            await this.plantRepository.getPlantGenerationHistory(plantId);
 
-      return plant;
+          const years = this.computeYearOverYear(history.years);
+          const first = years[0];
+          const last = years[years.length - 1];
+
+          this.logger.log(
+            `Computed ${years.length}-year trend for plant ${plantId} in ${
+              Date.now() - startTime
+            }ms`
+          );
+
+          return {
+            plantId: history.plant.id,
+            name: history.plant.name,
+            state: history.plant.state,
+            fromYear: first ? first.year : null,
+            toYear: last ? last.year : null,
+            cagr: first && last ? this.computeCagr(first, last) : null,
+            years,
+          };
+        }
+      );
     } catch (error) {
-      this.logger.error(`Failed to get plant by ID: ${error}`);
+      this.logger.error(`Failed to get plant trend: ${error}`);
       throw error;
     }
   }
+
+  /**
+   * Translate plant query filters into repository options
+   *
+   * The state list is de-duplicated and sorted so "TX,OK" and "OK,TX" share
+   * a cache entry; a single state is passed as `stateCode`.
+   */
+  private toFilterOptions(
+    query: Omit<GetPlantsQueryDto, "top">
+  ): PlantFilterOptions {
+    if (
+      query.minCapacityMw !== undefined &&
+      query.maxCapacityMw !== undefined &&
+      query.minCapacityMw > query.maxCapacityMw
+    ) {
+      throw new BadRequestException(
+        "minCapacityMw must be less than or equal to maxCapacityMw"
+      );
+    }
+
+    const stateCodes = query.state
+      ? [...new Set(query.state.split(","))].sort()
+      : [];
+
+    const options: PlantFilterOptions = {};
+    if (stateCodes.length === 1) options.stateCode = stateCodes[0]!;
+    if (stateCodes.length > 1) options.stateCodes = stateCodes;
+    if (query.year) options.year = query.year;
+    if (query.fuel) options.fuel = query.fuel;
+    if (query.minCapacityMw !== undefined) {
+      options.minCapacityMw = query.minCapacityMw;
+    }
+    if (query.maxCapacityMw !== undefined) {
+      options.maxCapacityMw = query.maxCapacityMw;
+    }
+    if (query.minGeneration !== undefined) {
+      options.minGeneration = query.minGeneration;
+    }
+    return options;
+  }
+
+  /**
+   * Shape a ranked repository row as a PlantResponseDto
+   */
+  private toPlantResponse(
+    plant: PlantWithGeneration,
+    rank: number
+  ): PlantResponseDto {
+    return {
+      id: plant.id,
+      plantId: plant.plantId,
+      name: plant.name,
+      state: plant.state,
+      orisCode: plant.orisCode,
+      primaryFuelCategory: plant.primaryFuelCategory,
+      nameplateCapacityMw: plant.nameplateCapacityMw,
+      latitude: plant.latitude,
+      longitude: plant.longitude,
+      county: plant.county,
+      operatorName: plant.operatorName,
+      utilityName: plant.utilityName,
+      balancingAuthorityCode: plant.balancingAuthorityCode,
+      balancingAuthorityName: plant.balancingAuthorityName,
+      year: plant.year,
+      netGeneration: plant.netGeneration,
+      percentOfState: plant.percentOfState,
+      rank,
+    };
+  }
+
+  /**
+   * Requested year, or the latest ingested year when omitted
+   *
+   * @returns undefined only when no generation data is loaded
+   */
+  private async resolveYear(
+    year: number | undefined
+  ): Promise<number | undefined> {
+    return year ?? this.plantRepository.getLatestYear();
+  }
+
+  /**
+   * Encode a keyset position as an opaque URL-safe cursor, bound to the
+   * filters of the page it came from
+   */
+  private encodeCursor(
+    cursor: PlantPageCursor,
+    filters: PlantFilterOptions
+  ): string {
+    return Buffer.from(
+      JSON.stringify({
+        n: cursor.netGeneration,
+        i: cursor.id,
+        r: cursor.rank,
+        ...(cursor.year !== undefined && { y: cursor.year }),
+        f: this.filtersFingerprint(filters),
+      })
+    ).toString("base64url");
+  }
+
+  /**
+   * Decode a cursor produced by encodeCursor
+   *
+   * @throws BadRequestException if the cursor is malformed or was issued
+   * for other filters (its rank and position would not apply)
+   */
+  private decodeCursor(
+    cursor: string,
+    filters: PlantFilterOptions
+  ): PlantPageCursor {
+    let payload: PlantPageCursor & { filters: unknown };
+    try {
+      const { n, i, r, y, f } = JSON.parse(
+        Buffer.from(cursor, "base64url").toString("utf8")
+      );
+      if (
+        typeof n !== "string" ||
+        !/^-?\d+(\.\d+)?$/.test(n) ||
+        !Number.isInteger(i) ||
+        !Number.isInteger(r) ||
+        r < 0 ||
+        (y !== undefined && !Number.isInteger(y))
+      ) {
+        throw new Error("unexpected cursor payload");
+      }
+      payload = {
+        netGeneration: n,
+        id: i,
+        rank: r,
+        ...(y !== undefined && { year: y }),
+        filters: f,
+      };
+    } catch {
+      throw new BadRequestException("cursor is invalid or expired");
+    }
+
+    const { filters: fingerprint, ...position } = payload;
+    if (fingerprint !== this.filtersFingerprint(filters)) {
+      throw new BadRequestException(
+        "cursor was issued for different filters; repeat the filters of the first page"
+      );
+    }
+    return position;
+  }
+
+  /**
+   * Short hash of normalized filters (see toFilterOptions), stored in cursors
+   */
+  private filtersFingerprint(filters: PlantFilterOptions): string {
+    return createHash("sha256")
+      .update(JSON.stringify(filters))
+      .digest("base64url")
+      .slice(0, 16);
+  }
+
+  /**
+   * Attach absolute and percent deltas versus the previous year
+   * Expects rows ordered by year ascending
+   */
+  private computeYearOverYear(rows: PlantYearRanking[]): PlantTrendYearDto[] {
+    return rows.map((row, index) => {
+      const previous = index > 0 ? rows[index - 1] : undefined;
+      const yoyChange = previous
+        ? row.netGeneration - previous.netGeneration
+        : null;
+      // Divide by |previous| so a storage plant going from -100 to -50 reads as +50%
+      const yoyPercentChange =
+        previous && yoyChange !== null && previous.netGeneration !== 0
+          ? (yoyChange / Math.abs(previous.netGeneration)) * 100
+          : null;
+
+      return { ...row, yoyChange, yoyPercentChange };
+    });
+  }
+
+  /**
+   * Compound annual growth rate in percent
+   * Undefined for a single year or when either endpoint is not positive
+   */
+  private computeCagr(
+    first: PlantTrendYearDto,
+    last: PlantTrendYearDto
+  ): number | null {
+    const span = last.year - first.year;
+    if (span <= 0 || first.netGeneration <= 0 || last.netGeneration <= 0) {
+      return null;
+    }
+
+    const ratio = last.netGeneration / first.netGeneration;
+    return (Math.pow(ratio, 1 / span) - 1) * 100;
+  }
 }
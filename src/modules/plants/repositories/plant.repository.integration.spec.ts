@@ -1,6 +1,6 @@
 import { Test, TestingModule } from "@nestjs/testing";
 import { PrismaService } from "../../../prisma/prisma.service";
-import { PlantRepository } from "./plant.repository";
+import { PlantPageCursor, PlantRepository } from "./plant.repository";
 import { NotFoundException } from "@nestjs/common";
 
 /**
@@ -83,6 +83,75 @@ describe("PlantRepository (Integration)", () => {
       }
     });
 
+    it("should include plant attributes", async () => {
+      // Act
+      const result = await repository.getTopNPlants({ top: 1 });
+
+      // Assert
+      if (result.length > 0) {
+        const plant = result[0]!;
+        expect(plant).toHaveProperty("orisCode");
+        expect(plant).toHaveProperty("primaryFuelCategory");
+        expect(plant).toHaveProperty("latitude");
+        expect(plant).toHaveProperty("longitude");
+        expect(
+          plant.nameplateCapacityMw === null ||
+            typeof plant.nameplateCapacityMw === "number"
+        ).toBe(true);
+      }
+    });
+
+    it("should filter by multiple states", async () => {
+      // Act
+      const result = await repository.getTopNPlants({
+        top: 10,
+        stateCodes: ["TX", "CA"],
+      });
+
+      // Assert
+      expect(result.length).toBeGreaterThan(0);
+      result.forEach((plant) => {
+        expect(["TX", "CA"]).toContain(plant.state.code);
+      });
+    });
+
+    it("should filter by fuel category and capacity range", async () => {
+      // Act
+      const result = await repository.getTopNPlants({
+        top: 10,
+        fuel: "nuclear",
+        minCapacityMw: 2400,
+        maxCapacityMw: 3000,
+      });
+
+      // Assert
+      result.forEach((plant) => {
+        expect(plant.primaryFuelCategory).toBe("NUCLEAR");
+        expect(plant.nameplateCapacityMw).toBeGreaterThanOrEqual(2400);
+        expect(plant.nameplateCapacityMw).toBeLessThanOrEqual(3000);
+      });
+    });
+
+    it("should filter by minimum generation", async () => {
+      // Act
+      const result = await repository.getTopNPlants({
+        top: 10,
+        minGeneration: 20000000,
+      });
+
+      // Assert
+      result.forEach((plant) => {
+        expect(plant.netGeneration).toBeGreaterThanOrEqual(20000000);
+      });
+    });
+
+    it("should throw NotFoundException listing unknown states", async () => {
+      // Act & Assert
+      await expect(
+        repository.getTopNPlants({ top: 10, stateCodes: ["TX", "XX", "YY"] })
+      ).rejects.toThrow("States with codes 'XX', 'YY' not found");
+    });
+
     it("should return top 5 plants for specific state", async () => {
       // Act
       const result = await repository.getTopNPlants({
@@ -169,6 +238,56 @@ describe("PlantRepository (Integration)", () => {
     });
   });
 
+  describe("getPlantsPage", () => {
+    it("should walk the full ranking without gaps or duplicates", async () => {
+      // Arrange
+      const top = await repository.getTopNPlants({ top: 100, year: TEST_YEAR });
+      const seen: number[] = [];
+      let after: PlantPageCursor | undefined;
+
+      // Act
+      do {
+        const page = await repository.getPlantsPage({
+          limit: 2,
+          year: TEST_YEAR,
+          ...(after && { after }),
+        });
+        seen.push(...page.plants.map((plant) => plant.id));
+        expect(page.total).toBe(top.length);
+        after = page.nextCursor ?? undefined;
+      } while (after);
+
+      // Assert
+      expect(seen).toEqual(top.map((plant) => plant.id));
+    });
+
+    it("should rank the latest year once per plant without a year", async () => {
+      // Act
+      const page = await repository.getPlantsPage({ limit: 1000 });
+
+      // Assert
+      const ids = page.plants.map((plant) => plant.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(page.plants.every((plant) => plant.year === page.year)).toBe(true);
+    });
+
+    it("should continue ranks across pages", async () => {
+      // Act
+      const first = await repository.getPlantsPage({ limit: 2 });
+      if (!first.nextCursor) {
+        return;
+      }
+      const second = await repository.getPlantsPage({
+        limit: 2,
+        after: first.nextCursor,
+      });
+
+      // Assert
+      expect(first.plants.map((p) => p.rank)).toEqual([1, 2]);
+      expect(second.plants[0]!.rank).toBe(3);
+    });
+  });
+
   describe("getStatesSummary", () => {
     it("should return all states for given year", async () => {
       // Act
@@ -341,6 +460,278 @@ describe("PlantRepository (Integration)", () => {
     });
   });
 
+  describe("searchPlants", () => {
+    it("should match plant names case-insensitively", async () => {
+      // Act
+      const matches = await repository.searchPlants({
+        query: "diablo canyon",
+        limit: 10,
+      });
+
+      // Assert
+      expect(matches[0]!.name).toBe("Diablo Canyon");
+      expect(matches[0]!.score).toBe(1);
+      expect(matches[0]!.latestGeneration).not.toBeNull();
+    });
+
+    it("should tolerate typos", async () => {
+      // Act
+      const matches = await repository.searchPlants({
+        query: "Diabllo Canyn",
+        limit: 10,
+      });
+
+      // Assert
+      expect(matches.map((m) => m.name)).toContain("Diablo Canyon");
+    });
+
+    it("should scope matches to a state", async () => {
+      // Act
+      const matches = await repository.searchPlants({
+        query: "diablo",
+        stateCode: "TX",
+        limit: 10,
+      });
+
+      // Assert
+      matches.forEach((match) => expect(match.state.code).toBe("TX"));
+    });
+
+    it("should return the requested year's generation", async () => {
+      // Act
+      const matches = await repository.searchPlants({
+        query: "diablo",
+        year: 2023,
+        limit: 10,
+      });
+
+      // Assert
+      matches.forEach((match) =>
+        expect(match.latestGeneration!.year).toBe(2023)
+      );
+    });
+
+    it("should throw NotFoundException for unknown state", async () => {
+      // Act & Assert
+      await expect(
+        repository.searchPlants({ query: "diablo", stateCode: "XX", limit: 10 })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe("getNearbyPlants", () => {
+    it("should return plants within the radius nearest first", async () => {
+      // Act
+      const plants = await repository.getNearbyPlants({
+        latitude: 28.8,
+        longitude: -96.05,
+        radiusKm: 500,
+        year: 2023,
+        limit: 100,
+      });
+
+      // Assert
+      expect(plants[0]!.name).toBe("South Texas Project");
+      expect(plants[0]!.distanceKm).toBeLessThan(1);
+      for (let i = 1; i < plants.length; i++) {
+        expect(plants[i]!.distanceKm!).toBeGreaterThanOrEqual(
+          plants[i - 1]!.distanceKm!
+        );
+      }
+      plants.forEach((plant) => expect(plant.distanceKm!).toBeLessThan(500));
+    });
+
+    it("should exclude plants outside the radius", async () => {
+      // Act
+      const plants = await repository.getNearbyPlants({
+        latitude: 28.8,
+        longitude: -96.05,
+        radiusKm: 10,
+        year: 2023,
+        limit: 100,
+      });
+
+      // Assert
+      expect(plants.map((p) => p.name)).toEqual(["South Texas Project"]);
+      expect(plants[0]!.netGeneration).toBeGreaterThan(0);
+    });
+
+    it("should return null generation for years without data", async () => {
+      // Act
+      const plants = await repository.getNearbyPlants({
+        latitude: 28.8,
+        longitude: -96.05,
+        radiusKm: 10,
+        year: 1990,
+        limit: 100,
+      });
+
+      // Assert
+      expect(plants[0]!.netGeneration).toBeNull();
+    });
+  });
+
+  describe("getPlantsInBoundingBox", () => {
+    it("should return plants inside the box by generation", async () => {
+      // Act
+      const plants = await repository.getPlantsInBoundingBox({
+        minLatitude: 25.8,
+        minLongitude: -106.6,
+        maxLatitude: 36.5,
+        maxLongitude: -93.5,
+        year: 2023,
+        limit: 100,
+      });
+
+      // Assert
+      plants.forEach((plant) => {
+        expect(plant.latitude).toBeGreaterThanOrEqual(25.8);
+        expect(plant.latitude).toBeLessThanOrEqual(36.5);
+        expect(plant.longitude).toBeGreaterThanOrEqual(-106.6);
+        expect(plant.longitude).toBeLessThanOrEqual(-93.5);
+        expect(plant.distanceKm).toBeUndefined();
+      });
+      expect(plants.map((p) => p.name)).toContain("South Texas Project");
+      for (let i = 1; i < plants.length; i++) {
+        expect(plants[i]!.netGeneration!).toBeLessThanOrEqual(
+          plants[i - 1]!.netGeneration!
+        );
+      }
+    });
+
+    it("should support boxes crossing the antimeridian", async () => {
+      // Act
+      const plants = await repository.getPlantsInBoundingBox({
+        minLatitude: 20,
+        minLongitude: -100,
+        maxLatitude: 40,
+        maxLongitude: -110,
+        year: 2023,
+        limit: 100,
+      });
+
+      // Assert
+      plants.forEach((plant) =>
+        expect(plant.longitude >= -100 || plant.longitude <= -110).toBe(true)
+      );
+    });
+  });
+
+  describe("streamPlants", () => {
+    it("should stream every plant across batches in ID order", async () => {
+      // Arrange
+      const expected = await prisma.plant.count();
+      const ids: number[] = [];
+
+      // Act
+      for await (const plant of repository.streamPlants({ batchSize: 2 })) {
+        ids.push(plant.id);
+      }
+
+      // Assert
+      expect(ids).toHaveLength(expected);
+      expect([...ids].sort((a, b) => a - b)).toEqual(ids);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it("should only include the requested year's generation", async () => {
+      // Act
+      for await (const plant of repository.streamPlants({ year: 2023 })) {
+        // Assert
+        expect(plant.generations.length).toBe(1);
+        expect(plant.generations[0]!.year).toBe(2023);
+        expect(typeof plant.generations[0]!.netGeneration).toBe("number");
+      }
+    });
+  });
+
+  describe("streamPlantGenerations", () => {
+    it("should stream every generation record across batches", async () => {
+      // Arrange
+      const expected = await prisma.plantGeneration.count();
+      let count = 0;
+
+      // Act
+      for await (const row of repository.streamPlantGenerations({
+        batchSize: 3,
+      })) {
+        count++;
+        expect(row.stateCode).toHaveLength(2);
+      }
+
+      // Assert
+      expect(count).toBe(expected);
+    });
+  });
+
+  describe("getPlantByOrisCode", () => {
+    it("should return the same plant as lookup by ID", async () => {
+      const topPlants = await repository.getTopNPlants({ top: 1 });
+      const orisCode = topPlants[0]?.orisCode;
+
+      if (orisCode === undefined || orisCode === null) {
+        return;
+      }
+
+      // Act
+      const result = await repository.getPlantByOrisCode(orisCode);
+
+      // Assert
+      expect(result.id).toBe(topPlants[0]!.plantId);
+      expect(result.orisCode).toBe(orisCode);
+      expect(Array.isArray(result.generations)).toBe(true);
+      expect(Array.isArray(result.nameHistory)).toBe(true);
+    });
+
+    it("should throw NotFoundException for unknown ORIS code", async () => {
+      // Act & Assert
+      await expect(repository.getPlantByOrisCode(999999)).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+
+  describe("getPlantGenerationHistory", () => {
+    it("should return ranked history ordered by year ASC", async () => {
+      const topPlants = await repository.getTopNPlants({
+        top: 1,
+        year: TEST_YEAR,
+      });
+
+      if (topPlants.length === 0) {
+        return;
+      }
+
+      const plantId = topPlants[0]!.plantId;
+
+      // Act
+      const result = await repository.getPlantGenerationHistory(plantId);
+
+      // Assert
+      expect(result.plant.id).toBe(plantId);
+      expect(result.years.length).toBeGreaterThan(0);
+      for (let i = 1; i < result.years.length; i++) {
+        expect(result.years[i]!.year).toBeGreaterThan(
+          result.years[i - 1]!.year
+        );
+      }
+
+      const current = result.years.find((y) => y.year === TEST_YEAR)!;
+      expect(current.nationalRank).toBe(1);
+      expect(current.stateRank).toBe(1);
+      expect(current.statePlantCount).toBeLessThanOrEqual(
+        current.nationalPlantCount
+      );
+    });
+
+    it("should throw NotFoundException for invalid plant ID", async () => {
+      // Act & Assert
+      await expect(
+        repository.getPlantGenerationHistory(999999)
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
   describe("performance tests", () => {
     it("should execute top plants query in < 100ms", async () => {
       const start = Date.now();
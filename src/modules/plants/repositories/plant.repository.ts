@@ -1,10 +1,29 @@
 import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
 import { PrismaService } from "../../../prisma/prisma.service";
+import { FUEL_CATEGORIES, FuelCategory } from "../../fuel-mix/dto/fuel-mix.dto";
+
+/**
+ * Descriptive plant attributes captured from the eGRID PLNT sheet
+ * All fields are nullable since older vintages omit some columns
+ */
+export interface PlantAttributes {
+  orisCode: number | null;
+  primaryFuelCategory: string | null;
+  nameplateCapacityMw: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  county: string | null;
+  operatorName: string | null;
+  utilityName: string | null;
+  balancingAuthorityCode: string | null;
+  balancingAuthorityName: string | null;
+}
 
 /**
  * Plant data transfer object with computed fields
  */
-export interface PlantWithGeneration {
+export interface PlantWithGeneration extends PlantAttributes {
   id: number;
   name: string;
   plantId: number;
@@ -32,13 +51,226 @@ export interface StateSummary {
   plantCount: number;
 }
 
+/**
+ * Filters shared by plant ranking queries
+ *
+ * `stateCode` and `stateCodes` are combined, so callers that only ever
+ * filter by one state can keep passing `stateCode`.
+ */
+export interface PlantFilterOptions {
+  stateCode?: string;
+  stateCodes?: string[];
+  year?: number;
+  fuel?: FuelCategory;
+  minCapacityMw?: number;
+  maxCapacityMw?: number;
+  minGeneration?: number;
+}
+
 /**
  * Query options for top N plants
  */
-export interface GetTopNPlantsOptions {
+export interface GetTopNPlantsOptions extends PlantFilterOptions {
   top: number;
+}
+
+/**
+ * Keyset position of the last row of a page
+ *
+ * netGeneration is kept as a string so the Decimal(18,2) value round-trips
+ * exactly; rank lets the next page continue the ranking without counting.
+ */
+export interface PlantPageCursor {
+  netGeneration: string;
+  id: number;
+  rank: number;
+  /** Year the ranking was resolved to on the first page */
+  year?: number;
+}
+
+/**
+ * Query options for a page of the full plant ranking
+ */
+export interface GetPlantsPageOptions extends PlantFilterOptions {
+  limit: number;
+  after?: PlantPageCursor;
+}
+
+/**
+ * One page of the plant ranking with the total number of matching rows
+ * nextCursor is null on the last page
+ */
+export interface PlantPage {
+  plants: PlantWithGeneration[];
+  total: number;
+  nextCursor: PlantPageCursor | null;
+  /** Year ranked; undefined only when no generation data is loaded */
+  year?: number;
+}
+
+/**
+ * Options for fuzzy plant name search
+ */
+export interface SearchPlantsOptions {
+  query: string;
   stateCode?: string;
   year?: number;
+  limit: number;
+}
+
+/**
+ * Plant matched by name search with its latest generation figure
+ *
+ * `latestGeneration` is the requested year's figure when a year is given,
+ * otherwise the most recent year on record (null if none was ingested).
+ */
+export interface PlantSearchMatch {
+  id: number;
+  name: string;
+  orisCode: number | null;
+  primaryFuelCategory: string | null;
+  nameplateCapacityMw: number | null;
+  state: {
+    id: number;
+    code: string;
+    name: string;
+  };
+  score: number;
+  latestGeneration: {
+    year: number;
+    netGeneration: number;
+  } | null;
+}
+
+/**
+ * Options for plants within a radius of a point
+ */
+export interface NearbyPlantsOptions {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  year: number;
+  limit: number;
+}
+
+/**
+ * Options for plants within a bounding box
+ * A box with minLongitude > maxLongitude crosses the antimeridian
+ */
+export interface BoundingBoxPlantsOptions {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+  year: number;
+  limit: number;
+}
+
+/**
+ * Plant location with generation for the requested year
+ * netGeneration is null when the plant did not report that year;
+ * distanceKm is only set for radius searches
+ */
+export interface PlantLocation {
+  id: number;
+  name: string;
+  orisCode: number | null;
+  primaryFuelCategory: string | null;
+  nameplateCapacityMw: number | null;
+  latitude: number;
+  longitude: number;
+  state: {
+    id: number;
+    code: string;
+    name: string;
+  };
+  year: number;
+  netGeneration: number | null;
+  distanceKm?: number;
+}
+
+/**
+ * Raw row shape shared by the geospatial queries
+ */
+interface PlantLocationRow {
+  id: number;
+  name: string;
+  oris_code: number | null;
+  primary_fuel_category: string | null;
+  nameplate_capacity_mw: string | null;
+  latitude: number;
+  longitude: number;
+  state_id: number;
+  state_code: string;
+  state_name: string;
+  net_generation: string | null;
+  distance_km?: number;
+}
+
+/**
+ * Options for streaming bulk exports
+ * Rows are read in keyset batches of `batchSize` (default 1000)
+ */
+export interface StreamExportOptions {
+  year?: number;
+  batchSize?: number;
+}
+
+/**
+ * Plant row in bulk exports with its generation records
+ */
+export interface PlantExportRecord extends PlantAttributes {
+  id: number;
+  name: string;
+  state: {
+    code: string;
+    name: string;
+  };
+  generations: Array<{
+    year: number;
+    netGeneration: number;
+  }>;
+}
+
+/**
+ * Plant generation row in bulk exports
+ */
+export interface PlantGenerationExportRecord {
+  id: number;
+  plantId: number;
+  orisCode: number | null;
+  plantName: string;
+  stateCode: string;
+  year: number;
+  netGeneration: number;
+}
+
+/**
+ * Single year of a plant's generation history with its rankings
+ */
+export interface PlantYearRanking {
+  year: number;
+  netGeneration: number;
+  stateRank: number;
+  statePlantCount: number;
+  nationalRank: number;
+  nationalPlantCount: number;
+}
+
+/**
+ * Plant identity with ranked per-year generation (ascending by year)
+ */
+export interface PlantGenerationHistory {
+  plant: {
+    id: number;
+    name: string;
+    state: {
+      id: number;
+      code: string;
+      name: string;
+    };
+  };
+  years: PlantYearRanking[];
 }
 
 /**
@@ -48,6 +280,43 @@ export interface GetStatesSummaryOptions {
   year: number;
 }
 
+/**
+ * Relations loaded with every ranked plant generation row
+ */
+const PLANT_GENERATION_INCLUDE = {
+  plant: {
+    include: {
+      state: {
+        select: {
+          id: true,
+          code: true,
+          name: true,
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Ranked plant generation row with PLANT_GENERATION_INCLUDE relations
+ */
+type RankedPlantGeneration = Prisma.PlantGenerationGetPayload<{
+  include: typeof PLANT_GENERATION_INCLUDE;
+}>;
+
+/**
+ * Plant row with the columns picked by toPlantAttributes
+ */
+type PlantAttributeRow = Pick<
+  Prisma.PlantGetPayload<{ select: { [K in keyof PlantAttributes]: true } }>,
+  keyof PlantAttributes
+>;
+
+/**
+ * Mean Earth radius used for great-circle (haversine) distances
+ */
+const EARTH_RADIUS_KM = 6371;
+
 /**
  * Plant repository with optimized query functions
  * Uses materialized view and proper indexes for performance
@@ -61,74 +330,57 @@ export class PlantRepository {
   /**
    * Get top N plants by net generation with percentage of state total
    *
+   * Each plant has one row per ingested year, so a single year is ranked:
+   * the requested one, else the latest ingested year.
+   *
    * Performance optimizations:
    * - Uses DESC index on net_generation for fast ordering
    * - Queries materialized view for state totals (O(1) lookup)
    * - Single efficient query with joins
-   * - Resolves state code to ID once
+   * - Resolves state codes to IDs once
    *
    * @param options - Query parameters
    * @returns Array of top plants with computed percentages
    *
    * @example
-   * // Top 10 plants nationwide for 2023
-   * const plants = await plantRepo.getTopNPlants({ top: 10, year: 2023 });
+   * // Top 10 plants nationwide for the latest ingested year
+   * const plants = await plantRepo.getTopNPlants({ top: 10 });
    *
    * @example
    * // Top 5 plants in Texas for 2023
    * const plants = await plantRepo.getTopNPlants({ top: 5, stateCode: 'TX', year: 2023 });
+   *
+   * @example
+   * // Top 20 solar plants in CA over 100 MW
+   * const plants = await plantRepo.getTopNPlants({ top: 20, stateCodes: ['CA'], fuel: 'solar', minCapacityMw: 100 });
    */
   async getTopNPlants(
     options: GetTopNPlantsOptions
   ): Promise<PlantWithGeneration[]> {
-    const { top, stateCode, year } = options;
+    const { top, fuel } = options;
     const startTime = Date.now();
+    const year = options.year ?? (await this.getLatestYear());
 
     this.logger.debug(
-      `Fetching top ${top} plants${stateCode ? ` for state ${stateCode}` : ""}${
-        year ? ` for year ${year}` : ""
-      }`
+      `Fetching top ${top} plants${
+        options.stateCode || options.stateCodes
+          ? ` for states ${this.resolveStateCodes(options).join(",")}`
+          : ""
+      }${year ? ` for year ${year}` : ""}${fuel ? ` fueled by ${fuel}` : ""}`
     );
 
-    // Step 1: Resolve state code to ID (if provided)
-    let stateId: number | undefined;
-    if (stateCode) {
-      const state = await this.prisma.state.findUnique({
-        where: { code: stateCode },
-        select: { id: true },
-      });
-
-      if (!state) {
-        throw new NotFoundException(`State with code '${stateCode}' not found`);
-      }
-
-      stateId = state.id;
-      this.logger.debug(`Resolved state ${stateCode} to ID ${stateId}`);
-    }
-
-    // Step 2: Build efficient query with all data needed
+    // Steps 1-2: Resolve states and build efficient query with all data needed
     // Uses DESC index: idx_plant_gen_year_netgen_desc or idx_plant_gen_netgen_desc
-    const whereClause: any = {};
-    if (year) whereClause.year = year;
-    if (stateId) whereClause.plant = { stateId };
+    const whereClause = await this.buildPlantGenerationWhere({
+      ...options,
+      ...(year !== undefined && { year }),
+    });
 
     const plantGenerations = await this.prisma.plantGeneration.findMany({
       where: whereClause,
-      orderBy: { netGeneration: "desc" },
+      orderBy: [{ netGeneration: "desc" }, { id: "asc" }],
       take: top,
-      include: {
-        plant: {
-          include: {
-            state: {
-              select: {
-                id: true,
-                code: true,
-                name: true,
-              },
-            },
-          },
-        },
-      },
+      include: PLANT_GENERATION_INCLUDE,
     });
 
     if (plantGenerations.length === 0) {
@@ -136,20 +388,213 @@ export class PlantRepository {
       return [];
     }
 
-    // Step 3: Get state totals from materialized view for percentage calculation
-    // This is O(N) where N = number of unique (state, year) combinations (usually small)
-    const stateYearPairs = new Map<string, { stateId: number; year: number }>();
-    plantGenerations.forEach((pg: any) => {
-      const key = `${pg.plant.stateId}_${pg.year}`;
-      if (!stateYearPairs.has(key)) {
-        stateYearPairs.set(key, {
-          stateId: pg.plant.stateId,
-          year: pg.year,
-        });
-      }
+    // Steps 3-4: Compute percentages of state totals and format results
+    const results = await this.withStatePercentages(plantGenerations, 0);
+
+    const duration = Date.now() - startTime;
+    this.logger.debug(
+      `Fetched ${results.length} plants in ${duration}ms (avg: ${(
+        duration / results.length
+      ).toFixed(2)}ms per plant)`
+    );
+
+    return results;
+  }
+
+  /**
+   * Get one page of the full plant ranking using keyset pagination
+   *
+   * Rows are ordered by net generation DESC then ID ASC, and each page starts
+   * strictly after the `after` cursor. Unlike OFFSET paging this stays fast
+   * deep into the ~12k-row ranking and never skips or repeats rows when
+   * pages are fetched while the cache is cold.
+   *
+   * Each plant has one row per ingested year, so a single year is ranked:
+   * the requested one, else the cursor's, else the latest ingested year.
+   *
+   * Performance optimizations:
+   * - Uses DESC index on net_generation for the keyset seek
+   * - Fetches one extra row instead of a second query to detect the last page
+   * - Runs the total count in parallel with the page query
+   *
+   * @param options - Filters, page size and optional cursor
+   * @returns Ranked plants for the page with total matching rows
+   *
+   * @example
+   * const first = await plantRepo.getPlantsPage({ limit: 500, year: 2023 });
+   * if (first.nextCursor) {
+   *   const next = await plantRepo.getPlantsPage({
+   *     limit: 500,
+   *     year: 2023,
+   *     after: first.nextCursor,
+   *   });
+   * }
+   */
+  async getPlantsPage(options: GetPlantsPageOptions): Promise<PlantPage> {
+    const { limit, after } = options;
+    const startTime = Date.now();
+
+    const year = options.year ?? after?.year ?? (await this.getLatestYear());
+    const whereClause = await this.buildPlantGenerationWhere({
+      ...options,
+      ...(year !== undefined && { year }),
+    });
+
+    const pageWhere = after
+      ? {
+          AND: [
+            whereClause,
+            {
+              OR: [
+                { netGeneration: { lt: after.netGeneration } },
+                {
+                  netGeneration: after.netGeneration,
+                  id: { gt: after.id },
+                },
+              ],
+            },
+          ],
+        }
+      : whereClause;
+
+    const [plantGenerations, total] = await Promise.all([
+      this.prisma.plantGeneration.findMany({
+        where: pageWhere,
+        orderBy: [{ netGeneration: "desc" }, { id: "asc" }],
+        take: limit + 1,
+        include: PLANT_GENERATION_INCLUDE,
+      }),
+      this.prisma.plantGeneration.count({ where: whereClause }),
+    ]);
+
+    const pageRows = plantGenerations.slice(0, limit);
+    const plants =
+      pageRows.length > 0
+        ? await this.withStatePercentages(pageRows, after?.rank ?? 0)
+        : [];
+
+    // Cursor is built from the raw Decimal so it round-trips exactly
+    const lastRow = pageRows[pageRows.length - 1];
+    const lastPlant = plants[plants.length - 1];
+    const nextCursor =
+      plantGenerations.length > limit && lastRow && lastPlant
+        ? {
+            netGeneration: lastRow.netGeneration.toString(),
+            id: lastRow.id,
+            rank: lastPlant.rank ?? 0,
+            ...(year !== undefined && { year }),
+          }
+        : null;
+
+    this.logger.debug(
+      `Fetched page of ${plants.length}/${total} plants in ${
+        Date.now() - startTime
+      }ms`
+    );
+
+    return { plants, total, nextCursor, ...(year !== undefined && { year }) };
+  }
+
+  /**
+   * Most recent year with generation data
+   *
+   * Default year of every endpoint that takes an optional year, so newly
+   * ingested vintages are served without configuration changes.
+   *
+   * @returns undefined when no generation data is loaded
+   */
+  async getLatestYear(): Promise<number | undefined> {
+    const { _max } = await this.prisma.plantGeneration.aggregate({
+      _max: { year: true },
     });
+    return _max.year ?? undefined;
+  }
 
-    // Fetch state totals - query all possible state/year combinations
+  /**
+   * Merge single and multi-state options into a de-duplicated code list
+   */
+  private resolveStateCodes(options: PlantFilterOptions): string[] {
+    return [
+      ...new Set([
+        ...(options.stateCode ? [options.stateCode] : []),
+        ...(options.stateCodes ?? []),
+      ]),
+    ];
+  }
+
+  /**
+   * Build the plant_generations filter shared by ranking queries
+   *
+   * @throws NotFoundException if any requested state code is unknown
+   */
+  private async buildPlantGenerationWhere(
+    options: PlantFilterOptions
+  ): Promise<Prisma.PlantGenerationWhereInput> {
+    const { year, fuel, minCapacityMw, maxCapacityMw, minGeneration } = options;
+    const stateCodes = this.resolveStateCodes(options);
+
+    // Resolve state codes to IDs (if provided)
+    let stateIds: number[] | undefined;
+    if (stateCodes.length > 0) {
+      const states = await this.prisma.state.findMany({
+        where: { code: { in: stateCodes } },
+        select: { id: true, code: true },
+      });
+
+      const found = new Set(states.map((state) => state.code));
+      const missing = stateCodes.filter((code) => !found.has(code));
+      if (missing.length === 1) {
+        throw new NotFoundException(
+          `State with code '${missing[0]}' not found`
+        );
+      }
+      if (missing.length > 1) {
+        throw new NotFoundException(
+          `States with codes ${missing.map((c) => `'${c}'`).join(", ")} not found`
+        );
+      }
+
+      stateIds = states.map((state) => state.id);
+      this.logger.debug(
+        `Resolved states ${stateCodes.join(",")} to IDs ${stateIds.join(",")}`
+      );
+    }
+
+    const whereClause: Prisma.PlantGenerationWhereInput = {};
+    if (year) whereClause.year = year;
+    if (minGeneration !== undefined) {
+      whereClause.netGeneration = { gte: minGeneration };
+    }
+
+    const plantWhere: Prisma.PlantWhereInput = {};
+    if (stateIds) {
+      plantWhere.stateId =
+        stateIds.length === 1 ? stateIds[0]! : { in: stateIds };
+    }
+    if (fuel) Object.assign(plantWhere, this.fuelCategoryFilter(fuel));
+    if (minCapacityMw !== undefined || maxCapacityMw !== undefined) {
+      plantWhere.nameplateCapacityMw = {
+        ...(minCapacityMw !== undefined && { gte: minCapacityMw }),
+        ...(maxCapacityMw !== undefined && { lte: maxCapacityMw }),
+      };
+    }
+    if (Object.keys(plantWhere).length > 0) whereClause.plant = plantWhere;
+
+    return whereClause;
+  }
+
+  /**
+   * Attach percentage of state total and rank to ranked generation rows
+   *
+   * @param plantGenerations - Rows ordered by the ranking
+   * @param rankOffset - Rank of the row preceding the first one
+   */
+  private async withStatePercentages(
+    plantGenerations: RankedPlantGeneration[],
+    rankOffset: number
+  ): Promise<PlantWithGeneration[]> {
+    // Get state totals from materialized view for percentage calculation
+    // This is O(N) where N = number of unique (state, year) combinations (usually small)
     const stateTotals = await this.prisma.$queryRaw<
       Array<{ state_id: number; year: number; total_generation: string }>
     >`
@@ -164,35 +609,25 @@ export class PlantRepository {
       stateTotalMap.set(key, parseFloat(st.total_generation));
     });
 
-    // Step 4: Compute percentages and format results
-    const results: PlantWithGeneration[] = plantGenerations.map(
-      (pg: any, index: number) => {
-        const key = `${pg.plant.stateId}_${pg.year}`;
-        const stateTotal = stateTotalMap.get(key) || 0;
-        const netGen = parseFloat(pg.netGeneration.toString());
-        const percentOfState = stateTotal > 0 ? (netGen / stateTotal) * 100 : 0;
-
-        return {
-          id: pg.id,
-          plantId: pg.plant.id,
-          name: pg.plant.name,
-          state: pg.plant.state,
-          year: pg.year,
-          netGeneration: netGen,
-          percentOfState,
-          rank: index + 1,
-        };
-      }
-    );
-
-    const duration = Date.now() - startTime;
-    this.logger.debug(
-      `Fetched ${results.length} plants in ${duration}ms (avg: ${(
-        duration / results.length
-      ).toFixed(2)}ms per plant)`
-    );
+    // Compute percentages and format results
+    return plantGenerations.map((pg, index) => {
+      const key = `${pg.plant.stateId}_${pg.year}`;
+      const stateTotal = stateTotalMap.get(key) || 0;
+      const netGen = parseFloat(pg.netGeneration.toString());
+      const percentOfState = stateTotal > 0 ? (netGen / stateTotal) * 100 : 0;
 
-    return results;
+      return {
+        id: pg.id,
+        plantId: pg.plant.id,
+        name: pg.plant.name,
+        state: pg.plant.state,
+        ...this.toPlantAttributes(pg.plant),
+        year: pg.year,
+        netGeneration: netGen,
+        percentOfState,
+        rank: rankOffset + index + 1,
+      };
+    });
   }
 
   /**
@@ -298,6 +733,381 @@ export class PlantRepository {
     return results;
   }
 
+  /**
+   * Search plants by name with case-insensitive, typo-tolerant matching
+   *
+   * Performance optimizations:
+   * - pg_trgm GIN index (plants_name_trgm_idx) serves the % and <% operators
+   * - Latest generation is fetched per matched plant via LATERAL join
+   *
+   * Matches are scored by the better of whole-name similarity and
+   * word similarity (so "parish" finds "W A Parish"); substring matches
+   * always qualify even when the trigram score is below threshold.
+   *
+   * @param options - Search text, optional state/year scope and result limit
+   * @returns Matches ordered by score, then latest generation
+   * @throws NotFoundException if the state code is unknown
+   *
+   * @example
+   * const matches = await plantRepo.searchPlants({ query: "diablo", limit: 10 });
+   * // matches[0] => { name: "Diablo Canyon", score: 1, latestGeneration: {...} }
+   */
+  async searchPlants(
+    options: SearchPlantsOptions
+  ): Promise<PlantSearchMatch[]> {
+    const startTime = Date.now();
+    const { query, stateCode, year, limit } = options;
+
+    let stateId: number | undefined;
+    if (stateCode) {
+      const state = await this.prisma.state.findUnique({
+        where: { code: stateCode },
+        select: { id: true },
+      });
+
+      if (!state) {
+        throw new NotFoundException(`State with code '${stateCode}' not found`);
+      }
+      stateId = state.id;
+    }
+
+    const rows = await this.prisma.$queryRaw<
+      Array<{
+        id: number;
+        name: string;
+        oris_code: number | null;
+        primary_fuel_category: string | null;
+        nameplate_capacity_mw: string | null;
+        state_id: number;
+        state_code: string;
+        state_name: string;
+        score: number;
+        year: number | null;
+        net_generation: string | null;
+      }>
+    >`
+      SELECT
+        p.id,
+        p.name,
+        p.oris_code,
+        p.primary_fuel_category,
+        p.nameplate_capacity_mw,
+        s.id AS state_id,
+        s.code AS state_code,
+        s.name AS state_name,
+        CASE
+          WHEN strpos(lower(p.name), lower(${query})) > 0 THEN 1
+          ELSE GREATEST(
+            similarity(p.name, ${query}),
+            word_similarity(${query}, p.name)
+          )
+        END::float8 AS score,
+        latest.year,
+        latest.net_generation
+      FROM plants p
+      JOIN states s ON s.id = p.state_id
+      LEFT JOIN LATERAL (
+        SELECT pg.year, pg.net_generation
+        FROM plant_generations pg
+        WHERE pg.plant_id = p.id
+        ${year ? Prisma.sql`AND pg.year = ${year}` : Prisma.empty}
+        ORDER BY pg.year DESC
+        LIMIT 1
+      ) latest ON true
+      WHERE (
+        p.name % ${query}
+        OR ${query} <% p.name
+        OR strpos(lower(p.name), lower(${query})) > 0
+      )
+      ${stateId ? Prisma.sql`AND p.state_id = ${stateId}` : Prisma.empty}
+      ${year ? Prisma.sql`AND latest.year IS NOT NULL` : Prisma.empty}
+      ORDER BY score DESC, latest.net_generation DESC NULLS LAST, p.id ASC
+      LIMIT ${limit}
+    `;
+
+    const matches: PlantSearchMatch[] = rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      orisCode: row.oris_code,
+      primaryFuelCategory: row.primary_fuel_category,
+      nameplateCapacityMw:
+        row.nameplate_capacity_mw !== null
+          ? parseFloat(row.nameplate_capacity_mw)
+          : null,
+      state: {
+        id: row.state_id,
+        code: row.state_code,
+        name: row.state_name,
+      },
+      score: Math.round(row.score * 1000) / 1000,
+      latestGeneration:
+        row.year !== null && row.net_generation !== null
+          ? { year: row.year, netGeneration: parseFloat(row.net_generation) }
+          : null,
+    }));
+
+    const duration = Date.now() - startTime;
+    this.logger.debug(
+      `Found ${matches.length} plants matching "${query}" in ${duration}ms`
+    );
+
+    return matches;
+  }
+
+  /**
+   * Get plants within a great-circle radius of a point
+   *
+   * Performance optimizations:
+   * - Latitude/longitude range prefilter uses plants_latitude_longitude_idx
+   * - Exact haversine distance is only computed for prefiltered candidates
+   *
+   * @param options - Center point, radius, generation year and limit
+   * @returns Plants ordered by distance (nearest first)
+   *
+   * @example
+   * const plants = await plantRepo.getNearbyPlants({
+   *   latitude: 29.76, longitude: -95.37, radiusKm: 50, year: 2023, limit: 100,
+   * });
+   * // plants[0] => { name: "...", distanceKm: 12.4, netGeneration: ... }
+   */
+  async getNearbyPlants(
+    options: NearbyPlantsOptions
+  ): Promise<PlantLocation[]> {
+    const startTime = Date.now();
+    const { latitude, longitude, radiusKm, year, limit } = options;
+
+    // Degrees of latitude spanned by the radius (constant on a sphere)
+    const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+    const minLatitude = latitude - latDelta;
+    const maxLatitude = latitude + latDelta;
+
+    // Degrees of longitude widen towards the poles; skip the longitude
+    // prefilter when the circle reaches a pole or wraps the antimeridian
+    let longitudeFilter = Prisma.empty;
+    if (minLatitude > -90 && maxLatitude < 90) {
+      const widestLatitude = Math.max(
+        Math.abs(minLatitude),
+        Math.abs(maxLatitude)
+      );
+      const lonDelta = latDelta / Math.cos((widestLatitude * Math.PI) / 180);
+      if (longitude - lonDelta >= -180 && longitude + lonDelta <= 180) {
+        longitudeFilter = Prisma.sql`
+          AND p.longitude BETWEEN ${longitude - lonDelta} AND ${
+            longitude + lonDelta
+          }
+        `;
+      }
+    }
+
+    const rows = await this.prisma.$queryRaw<PlantLocationRow[]>`
+      SELECT *
+      FROM (
+        SELECT
+          p.id,
+          p.name,
+          p.oris_code,
+          p.primary_fuel_category,
+          p.nameplate_capacity_mw,
+          p.latitude,
+          p.longitude,
+          s.id AS state_id,
+          s.code AS state_code,
+          s.name AS state_name,
+          pg.net_generation,
+          2 * ${EARTH_RADIUS_KM}::float8 * asin(LEAST(1, sqrt(
+            power(sin(radians(p.latitude - ${latitude}::float8) / 2), 2)
+            + cos(radians(${latitude}::float8)) * cos(radians(p.latitude))
+              * power(sin(radians(p.longitude - ${longitude}::float8) / 2), 2)
+          ))) AS distance_km
+        FROM plants p
+        JOIN states s ON s.id = p.state_id
+        LEFT JOIN plant_generations pg
+          ON pg.plant_id = p.id AND pg.year = ${year}
+        WHERE p.latitude BETWEEN ${minLatitude} AND ${maxLatitude}
+          AND p.longitude IS NOT NULL
+          ${longitudeFilter}
+      ) candidates
+      WHERE distance_km <= ${radiusKm}
+      ORDER BY distance_km ASC, id ASC
+      LIMIT ${limit}
+    `;
+
+    const plants = rows.map((row) => this.toPlantLocation(row, year));
+
+    const duration = Date.now() - startTime;
+    this.logger.debug(
+      `Found ${plants.length} plants within ${radiusKm}km of (${latitude}, ${longitude}) in ${duration}ms`
+    );
+
+    return plants;
+  }
+
+  /**
+   * Get plants inside a latitude/longitude bounding box
+   *
+   * Performance optimizations:
+   * - Range filter uses plants_latitude_longitude_idx
+   *
+   * @param options - Box corners, generation year and limit
+   * @returns Plants ordered by net generation for the year (DESC)
+   */
+  async getPlantsInBoundingBox(
+    options: BoundingBoxPlantsOptions
+  ): Promise<PlantLocation[]> {
+    const startTime = Date.now();
+    const {
+      minLatitude,
+      minLongitude,
+      maxLatitude,
+      maxLongitude,
+      year,
+      limit,
+    } = options;
+
+    // minLongitude > maxLongitude means the box crosses the antimeridian
+    const longitudeFilter =
+      minLongitude <= maxLongitude
+        ? Prisma.sql`p.longitude BETWEEN ${minLongitude} AND ${maxLongitude}`
+        : Prisma.sql`(p.longitude >= ${minLongitude} OR p.longitude <= ${maxLongitude})`;
+
+    const rows = await this.prisma.$queryRaw<PlantLocationRow[]>`
+      SELECT
+        p.id,
+        p.name,
+        p.oris_code,
+        p.primary_fuel_category,
+        p.nameplate_capacity_mw,
+        p.latitude,
+        p.longitude,
+        s.id AS state_id,
+        s.code AS state_code,
+        s.name AS state_name,
+        pg.net_generation
+      FROM plants p
+      JOIN states s ON s.id = p.state_id
+      LEFT JOIN plant_generations pg
+        ON pg.plant_id = p.id AND pg.year = ${year}
+      WHERE p.latitude BETWEEN ${minLatitude} AND ${maxLatitude}
+        AND ${longitudeFilter}
+      ORDER BY pg.net_generation DESC NULLS LAST, p.id ASC
+      LIMIT ${limit}
+    `;
+
+    const plants = rows.map((row) => this.toPlantLocation(row, year));
+
+    const duration = Date.now() - startTime;
+    this.logger.debug(
+      `Found ${plants.length} plants in box (${minLatitude}, ${minLongitude}) - (${maxLatitude}, ${maxLongitude}) in ${duration}ms`
+    );
+
+    return plants;
+  }
+
+  /**
+   * Stream every plant with its generation records
+   *
+   * Reads plants in ID order in keyset batches, so memory use is bounded by
+   * the batch size regardless of table size. Consumers pull rows lazily
+   * (e.g. via Readable.from), which also applies HTTP backpressure.
+   *
+   * @param options - Optional year (only plants reporting that year, with
+   * that year's generation) and batch size
+   * @returns Async iterator of plants ordered by ID
+   */
+  async *streamPlants(
+    options: StreamExportOptions = {}
+  ): AsyncGenerator<PlantExportRecord> {
+    const { year, batchSize = 1000 } = options;
+    let lastId = 0;
+
+    while (true) {
+      const batch = await this.prisma.plant.findMany({
+        where: {
+          id: { gt: lastId },
+          ...(year && { generations: { some: { year } } }),
+        },
+        include: {
+          state: { select: { code: true, name: true } },
+          generations: {
+            ...(year && { where: { year } }),
+            select: { year: true, netGeneration: true },
+            orderBy: { year: "asc" },
+          },
+        },
+        orderBy: { id: "asc" },
+        take: batchSize,
+      });
+
+      for (const plant of batch) {
+        yield {
+          id: plant.id,
+          name: plant.name,
+          state: plant.state,
+          ...this.toPlantAttributes(plant),
+          generations: plant.generations.map((generation) => ({
+            year: generation.year,
+            netGeneration: parseFloat(generation.netGeneration.toString()),
+          })),
+        };
+      }
+
+      const last = batch[batch.length - 1];
+      if (!last || batch.length < batchSize) return;
+      lastId = last.id;
+    }
+  }
+
+  /**
+   * Stream every plant generation record with its plant identity
+   *
+   * Same keyset batching as streamPlants, ordered by generation record ID.
+   *
+   * @param options - Optional year filter and batch size
+   * @returns Async iterator of generation rows
+   */
+  async *streamPlantGenerations(
+    options: StreamExportOptions = {}
+  ): AsyncGenerator<PlantGenerationExportRecord> {
+    const { year, batchSize = 1000 } = options;
+    let lastId = 0;
+
+    while (true) {
+      const batch = await this.prisma.plantGeneration.findMany({
+        where: {
+          id: { gt: lastId },
+          ...(year && { year }),
+        },
+        include: {
+          plant: {
+            select: {
+              name: true,
+              orisCode: true,
+              state: { select: { code: true } },
+            },
+          },
+        },
+        orderBy: { id: "asc" },
+        take: batchSize,
+      });
+
+      for (const generation of batch) {
+        yield {
+          id: generation.id,
+          plantId: generation.plantId,
+          orisCode: generation.plant.orisCode,
+          plantName: generation.plant.name,
+          stateCode: generation.plant.state.code,
+          year: generation.year,
+          netGeneration: parseFloat(generation.netGeneration.toString()),
+        };
+      }
+
+      const last = batch[batch.length - 1];
+      if (!last || batch.length < batchSize) return;
+      lastId = last.id;
+    }
+  }
+
   /**
    * Get detailed statistics for a specific state
    *
@@ -380,7 +1190,7 @@ export class PlantRepository {
   }
 
   /**
-   * Get plant by ID with generation history
+   * Get plant by ID with generation and name history
    */
   async getPlantById(plantId: number) {
     const plant = await this.prisma.plant.findUnique({
@@ -390,6 +1200,9 @@ export class PlantRepository {
         generations: {
           orderBy: { year: "desc" },
         },
+        nameHistory: {
+          orderBy: { firstYear: "asc" },
+        },
       },
     });
 
@@ -399,4 +1212,196 @@ export class PlantRepository {
 
     return plant;
   }
+
+  /**
+   * Get plant by DOE/EIA ORIS code with generation and name history
+   *
+   * The ORIS code is stable across eGRID vintages, unlike the internal ID
+   * (which depends on ingestion order) and the name (which can change).
+   */
+  async getPlantByOrisCode(orisCode: number) {
+    const plant = await this.prisma.plant.findUnique({
+      where: { orisCode },
+      include: {
+        state: true,
+        generations: {
+          orderBy: { year: "desc" },
+        },
+        nameHistory: {
+          orderBy: { firstYear: "asc" },
+        },
+      },
+    });
+
+    if (!plant) {
+      throw new NotFoundException(`Plant with ORIS code ${orisCode} not found`);
+    }
+
+    return plant;
+  }
+
+  /**
+   * Get a plant's generation for every available year with state and
+   * national rankings
+   *
+   * Performance optimizations:
+   * - Window functions rank all plants in a single pass per year
+   * - Ranking is restricted to the years the plant actually reports
+   *
+   * @param plantId - Plant ID
+   * @returns Plant identity with per-year generation ordered by year ASC
+   *
+   * @example
+   * const history = await plantRepo.getPlantGenerationHistory(6);
+   * // history.years[0] => { year: 2021, netGeneration: ..., stateRank: 1, ... }
+   */
+  async getPlantGenerationHistory(
+    plantId: number
+  ): Promise<PlantGenerationHistory> {
+    const startTime = Date.now();
+
+    const plant = await this.prisma.plant.findUnique({
+      where: { id: plantId },
+      select: {
+        id: true,
+        name: true,
+        state: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (!plant) {
+      throw new NotFoundException(`Plant with ID ${plantId} not found`);
+    }
+
+    // RANK() gives ties the same position, matching how analysts rank plants
+    const rows = await this.prisma.$queryRaw<
+      Array<{
+        year: number;
+        net_generation: string;
+        state_rank: bigint;
+        state_plant_count: bigint;
+        national_rank: bigint;
+        national_plant_count: bigint;
+      }>
+    >`
+      SELECT year, net_generation, state_rank, state_plant_count,
+             national_rank, national_plant_count
+      FROM (
+        SELECT
+          pg.plant_id,
+          pg.year,
+          pg.net_generation,
+          RANK() OVER (
+            PARTITION BY pg.year, p.state_id ORDER BY pg.net_generation DESC
+          ) AS state_rank,
+          COUNT(*) OVER (PARTITION BY pg.year, p.state_id) AS state_plant_count,
+          RANK() OVER (
+            PARTITION BY pg.year ORDER BY pg.net_generation DESC
+          ) AS national_rank,
+          COUNT(*) OVER (PARTITION BY pg.year) AS national_plant_count
+        FROM plant_generations pg
+        JOIN plants p ON p.id = pg.plant_id
+        WHERE pg.year IN (
+          SELECT year FROM plant_generations WHERE plant_id = ${plantId}
+        )
+      ) ranked
+      WHERE plant_id = ${plantId}
+      ORDER BY year ASC
+    `;
+
+    const years: PlantYearRanking[] = rows.map((row) => ({
+      year: row.year,
+      netGeneration: parseFloat(row.net_generation),
+      stateRank: Number(row.state_rank),
+      statePlantCount: Number(row.state_plant_count),
+      nationalRank: Number(row.national_rank),
+      nationalPlantCount: Number(row.national_plant_count),
+    }));
+
+    const duration = Date.now() - startTime;
+    this.logger.debug(
+      `Fetched ${years.length} years of history for plant ${plantId} in ${duration}ms`
+    );
+
+    return { plant, years };
+  }
+
+  /**
+   * Build the plant filter for an API fuel category
+   *
+   * primary_fuel_category stores eGRID's uppercase categories; "other" covers
+   * every category (and missing values) not exposed on its own.
+   */
+  private fuelCategoryFilter(fuel: FuelCategory): Prisma.PlantWhereInput {
+    if (fuel !== "other") {
+      return { primaryFuelCategory: fuel.toUpperCase() };
+    }
+
+    const named = FUEL_CATEGORIES.filter((f) => f !== "other").map((f) =>
+      f.toUpperCase()
+    );
+    return {
+      OR: [
+        { primaryFuelCategory: null },
+        { primaryFuelCategory: { notIn: named } },
+      ],
+    };
+  }
+
+  /**
+   * Map a geospatial query row, rounding distance to 10 m
+   */
+  private toPlantLocation(row: PlantLocationRow, year: number): PlantLocation {
+    return {
+      id: row.id,
+      name: row.name,
+      orisCode: row.oris_code,
+      primaryFuelCategory: row.primary_fuel_category,
+      nameplateCapacityMw:
+        row.nameplate_capacity_mw !== null
+          ? parseFloat(row.nameplate_capacity_mw)
+          : null,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      state: {
+        id: row.state_id,
+        code: row.state_code,
+        name: row.state_name,
+      },
+      year,
+      netGeneration:
+        row.net_generation !== null ? parseFloat(row.net_generation) : null,
+      ...(row.distance_km !== undefined && {
+        distanceKm: Math.round(row.distance_km * 100) / 100,
+      }),
+    };
+  }
+
+  /**
+   * Pick attribute columns from a plant row, converting Decimal capacity
+   * to a plain number for JSON responses
+   */
+  private toPlantAttributes(plant: PlantAttributeRow): PlantAttributes {
+    return {
+      orisCode: plant.orisCode,
+      primaryFuelCategory: plant.primaryFuelCategory,
+      nameplateCapacityMw:
+        plant.nameplateCapacityMw !== null
+          ? parseFloat(plant.nameplateCapacityMw.toString())
+          : null,
+      latitude: plant.latitude,
+      longitude: plant.longitude,
+      county: plant.county,
+      operatorName: plant.operatorName,
+      utilityName: plant.utilityName,
+      balancingAuthorityCode: plant.balancingAuthorityCode,
+      balancingAuthorityName: plant.balancingAuthorityName,
+    };
+  }
 }
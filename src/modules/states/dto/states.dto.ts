@@ -1,4 +1,5 @@
 import {
+  IsIn,
   IsInt,
   IsOptional,
   Min,
@@ -7,19 +8,27 @@ import {
   Length,
   Matches,
 } from "class-validator";
-import { Type } from "class-transformer";
+import { Transform, Type } from "class-transformer";
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { EXPORT_FORMATS } from "../../../common/utils/export.helper";
+
+/**
+ * Response formats for state endpoints
+ * `csv` and `xlsx` return a file download
+ */
+export const STATE_RESPONSE_FORMATS = ["json", ...EXPORT_FORMATS] as const;
+export type StateResponseFormat = (typeof STATE_RESPONSE_FORMATS)[number];
 
 /**
  * DTO for GET /states query parameters
  * Validates year parameter for state generation summary
  */
 export class GetStatesQueryDto {
-  @ApiProperty({
-    description: "Year to query state generation totals",
+  @ApiPropertyOptional({
+    description:
+      "Year to query state generation totals (defaults to the latest ingested year)",
     minimum: 1900,
     maximum: 2100,
-    default: 2023,
     example: 2023,
     type: Number,
   })
@@ -28,18 +37,33 @@ export class GetStatesQueryDto {
   @IsInt({ message: "year must be an integer" })
   @Min(1900, { message: "year must be 1900 or later" })
   @Max(2100, { message: "year cannot exceed 2100" })
-  year?: number = 2023;
+  year?: number;
+
+  @ApiPropertyOptional({
+    description: "Response format (csv/xlsx return a file download)",
+    enum: STATE_RESPONSE_FORMATS,
+    default: "json",
+    example: "csv",
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === "string" ? value.toLowerCase() : value
+  )
+  @IsIn(STATE_RESPONSE_FORMATS, {
+    message: `format must be one of: ${STATE_RESPONSE_FORMATS.join(", ")}`,
+  })
+  format?: StateResponseFormat;
 }
 
 /**
  * DTO for GET /states/:code query parameters
  */
 export class GetStateDetailQueryDto {
-  @ApiProperty({
-    description: "Year to query state detail",
+  @ApiPropertyOptional({
+    description:
+      "Year to query state detail (defaults to the latest ingested year)",
     minimum: 1900,
     maximum: 2100,
-    default: 2023,
     example: 2023,
     type: Number,
   })
@@ -48,7 +72,7 @@ export class GetStateDetailQueryDto {
   @IsInt({ message: "year must be an integer" })
   @Min(1900, { message: "year must be 1900 or later" })
   @Max(2100, { message: "year cannot exceed 2100" })
-  year?: number = 2023;
+  year?: number;
 
   @ApiPropertyOptional({
     description: "Number of top plants to include",
@@ -64,6 +88,54 @@ export class GetStateDetailQueryDto {
   @Min(1, { message: "topPlants must be at least 1" })
   @Max(100, { message: "topPlants cannot exceed 100" })
   topPlants?: number = 10;
+
+  @ApiPropertyOptional({
+    description: "Response format (csv/xlsx return a file download)",
+    enum: STATE_RESPONSE_FORMATS,
+    default: "json",
+    example: "csv",
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === "string" ? value.toLowerCase() : value
+  )
+  @IsIn(STATE_RESPONSE_FORMATS, {
+    message: `format must be one of: ${STATE_RESPONSE_FORMATS.join(", ")}`,
+  })
+  format?: StateResponseFormat;
+}
+
+/**
+ * DTO for GET /states/:code/timeseries query parameters
+ */
+export class GetStateTimeSeriesQueryDto {
+  @ApiPropertyOptional({
+    description: "First year to include (inclusive)",
+    minimum: 1900,
+    maximum: 2100,
+    example: 2018,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "from must be an integer" })
+  @Min(1900, { message: "from must be 1900 or later" })
+  @Max(2100, { message: "from cannot exceed 2100" })
+  from?: number;
+
+  @ApiPropertyOptional({
+    description: "Last year to include (inclusive)",
+    minimum: 1900,
+    maximum: 2100,
+    example: 2023,
+    type: Number,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "to must be an integer" })
+  @Min(1900, { message: "to must be 1900 or later" })
+  @Max(2100, { message: "to cannot exceed 2100" })
+  to?: number;
 }
 
 /**
@@ -179,6 +251,68 @@ export class StateDetailResponseDto {
   }>;
 }
 
+/**
+ * Single year entry in a state time series
+ */
+export class StateTimeSeriesPointDto {
+  @ApiProperty({ description: "Year", example: 2023 })
+  year!: number;
+
+  @ApiProperty({
+    description: "Total generation in MWh",
+    example: 544038647.01,
+  })
+  totalGeneration!: number;
+
+  @ApiProperty({
+    description: "National total generation in MWh for the year",
+    example: 4408399320.5,
+  })
+  nationalTotal!: number;
+
+  @ApiProperty({
+    description: "Percentage of national total",
+    example: 12.34,
+  })
+  percentOfNational!: number;
+
+  @ApiProperty({
+    description: "Number of plants reporting generation that year",
+    example: 567,
+  })
+  plantCount!: number;
+
+  @ApiProperty({
+    description:
+      "Percent growth versus the previous year (null when that year has no data)",
+    example: 3.2,
+    nullable: true,
+    type: Number,
+  })
+  yoyGrowth!: number | null;
+}
+
+/**
+ * Response DTO for GET /states/:code/timeseries
+ */
+export class StateTimeSeriesResponseDto {
+  @ApiProperty({
+    description: "State information",
+    example: { id: 1, code: "TX", name: "Texas" },
+  })
+  state!: {
+    id: number;
+    code: string;
+    name: string;
+  };
+
+  @ApiProperty({
+    description: "Yearly totals ordered by year ascending",
+    type: [StateTimeSeriesPointDto],
+  })
+  points!: StateTimeSeriesPointDto[];
+}
+
 // Re-export common DTOs
 export { ErrorResponseDto } from "../../../common/dto/common.dto";
 
@@ -1,20 +1,28 @@
-import { Injectable, Logger, Inject } from "@nestjs/common";
+import { Injectable } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
 import { PrismaService } from "../../../prisma/prisma.service";
-import { Redis } from "ioredis";
-import { REDIS_CLIENT } from "../../../redis/redis.module";
+import { CacheService } from "../../../cache/cache.service";
+import { CacheKeys } from "../../../cache/cache-keys";
+
+/**
+ * One year of a state's generation with national context
+ */
+export interface StateTimeSeriesRow {
+  year: number;
+  totalGeneration: number;
+  nationalTotal: number;
+  plantCount: number;
+}
 
 /**
  * State repository with caching layer
- * Handles all state-related database operations with Redis caching
+ * Handles all state-related database operations, cached through CacheService
  */
 @Injectable()
 export class StateRepository {
-  private readonly logger = new Logger(StateRepository.name);
-  private readonly CACHE_TTL = 3600; // 1 hour in seconds
-
   constructor(
     private readonly prisma: PrismaService,
-    @Inject(REDIS_CLIENT) private readonly redis: Redis
+    private readonly cache: CacheService
   ) {}
 
   /**
@@ -22,40 +30,18 @@ export class StateRepository {
    * @returns Array of all states with basic information
    */
   async findAll() {
-    const cacheKey = "states:all";
-
-    try {
-      // Try to get from cache first
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.debug("Cache hit for all states");
-        return JSON.parse(cached);
-      }
-    } catch (error) {
-      this.logger.warn("Cache read failed, falling back to database", error);
-    }
-
-    // Fetch from database
-    const states = await this.prisma.state.findMany({
-      select: {
-        id: true,
-        code: true,
-        name: true,
-      },
-      orderBy: {
-        code: "asc",
-      },
-    });
-
-    // Cache the result
-    try {
-      await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(states));
-      this.logger.debug("Cached all states");
-    } catch (error) {
-      this.logger.warn("Cache write failed", error);
-    }
-
-    return states;
+    return this.cache.getOrSet(CacheKeys.allStates(), () =>
+      this.prisma.state.findMany({
+        select: {
+          id: true,
+          code: true,
+          name: true,
+        },
+        orderBy: {
+          code: "asc",
+        },
+      })
+    );
   }
 
   /**
@@ -64,39 +50,19 @@ export class StateRepository {
    * @returns State object or null
    */
   async findByCode(code: string) {
-    const cacheKey = `state:${code}`;
-
-    try {
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.debug(`Cache hit for state: ${code}`);
-        return JSON.parse(cached);
-      }
-    } catch (error) {
-      this.logger.warn(`Cache read failed for state ${code}`, error);
-    }
-
-    const state = await this.prisma.state.findUnique({
-      where: { code },
-      include: {
-        _count: {
-          select: {
-            plants: true,
+    // Unknown codes (null) are not cached
+    return this.cache.getOrSet(CacheKeys.state(code), () =>
+      this.prisma.state.findUnique({
+        where: { code },
+        include: {
+          _count: {
+            select: {
+              plants: true,
+            },
           },
         },
-      },
-    });
-
-    if (state) {
-      try {
-        await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(state));
-        this.logger.debug(`Cached state: ${code}`);
-      } catch (error) {
-        this.logger.warn(`Cache write failed for state ${code}`, error);
-      }
-    }
-
-    return state;
+      })
+    );
   }
 
   /**
@@ -106,43 +72,85 @@ export class StateRepository {
    * @returns Generation data aggregated by year
    */
   async getGenerationByState(stateCode: string, year?: number) {
-    const cacheKey = year
-      ? `state:${stateCode}:generation:${year}`
-      : `state:${stateCode}:generation:all`;
+    // Use the materialized view for better performance
+    return this.cache.getOrSet(
+      CacheKeys.stateGeneration(stateCode, year),
+      () =>
+        this.prisma.$queryRaw<
+          Array<{ state_id: number; year: number; total_generation: number }>
+        >`
+        SELECT state_id, year, total_generation
+        FROM state_generation_mv
+        WHERE state_id = (SELECT id FROM states WHERE code = ${stateCode})
+        ${year ? Prisma.sql`AND year = ${year}` : Prisma.empty}
+        ORDER BY year DESC
+      `
+    );
+  }
 
-    try {
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.debug(`Cache hit for generation: ${cacheKey}`);
-        return JSON.parse(cached);
-      }
-    } catch (error) {
-      this.logger.warn(`Cache read failed for ${cacheKey}`, error);
-    }
+  /**
+   * Get yearly generation for a state with national totals and plant counts
+   * @param stateCode - State code
+   * @param from - Optional first year (inclusive)
+   * @param to - Optional last year (inclusive)
+   * @returns Rows ordered by year ascending
+   */
+  async getStateTimeSeries(
+    stateCode: string,
+    from?: number,
+    to?: number
+  ): Promise<StateTimeSeriesRow[]> {
+    return this.cache.getOrSet(
+      CacheKeys.stateTimeSeries(stateCode, from, to),
+      () => this.queryStateTimeSeries(stateCode, from, to)
+    );
+  }
 
-    // Use the materialized view for better performance
-    const data = await this.prisma.$queryRaw<
-      Array<{ state_id: number; year: number; total_generation: number }>
+  private async queryStateTimeSeries(
+    stateCode: string,
+    from: number | undefined,
+    to: number | undefined
+  ): Promise<StateTimeSeriesRow[]> {
+    // State and national totals both come from the materialized view
+    const rows = await this.prisma.$queryRaw<
+      Array<{
+        year: number;
+        total_generation: string;
+        national_total: string;
+        plant_count: bigint;
+      }>
     >`
-      SELECT state_id, year, total_generation
-      FROM state_generation_mv
-      WHERE state_id = (SELECT id FROM states WHERE code = ${stateCode})
-      ${
-        year
-          ? this.prisma.$queryRaw`AND year = ${year}`
-          : this.prisma.$queryRaw``
-      }
-      ORDER BY year DESC
+      SELECT
+        mv.year,
+        mv.total_generation,
+        nat.national_total,
+        COALESCE(pc.plant_count, 0) AS plant_count
+      FROM state_generation_mv mv
+      JOIN states s ON s.id = mv.state_id
+      JOIN (
+        SELECT year, SUM(total_generation) AS national_total
+        FROM state_generation_mv
+        GROUP BY year
+      ) nat ON nat.year = mv.year
+      LEFT JOIN (
+        SELECT p.state_id, pg.year, COUNT(DISTINCT p.id) AS plant_count
+        FROM plants p
+        JOIN plant_generations pg ON pg.plant_id = p.id
+        WHERE p.state_id = (SELECT id FROM states WHERE code = ${stateCode})
+        GROUP BY p.state_id, pg.year
+      ) pc ON pc.state_id = mv.state_id AND pc.year = mv.year
+      WHERE s.code = ${stateCode}
+      ${from !== undefined ? Prisma.sql`AND mv.year >= ${from}` : Prisma.empty}
+      ${to !== undefined ? Prisma.sql`AND mv.year <= ${to}` : Prisma.empty}
+      ORDER BY mv.year ASC
     `;
 
-    try {
-      await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(data));
-      this.logger.debug(`Cached generation data: ${cacheKey}`);
-    } catch (error) {
-      this.logger.warn(`Cache write failed for ${cacheKey}`, error);
-    }
-
-    return data;
+    return rows.map((row) => ({
+      year: row.year,
+      totalGeneration: parseFloat(row.total_generation),
+      nationalTotal: parseFloat(row.national_total),
+      plantCount: Number(row.plant_count),
+    }));
   }
 
   /**
@@ -157,20 +165,17 @@ export class StateRepository {
     limit: number = 10,
     year?: number
   ) {
-    const cacheKey = year
-      ? `state:${stateCode}:top-plants:${year}:${limit}`
-      : `state:${stateCode}:top-plants:all:${limit}`;
-
-    try {
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.debug(`Cache hit for top plants: ${cacheKey}`);
-        return JSON.parse(cached);
-      }
-    } catch (error) {
-      this.logger.warn(`Cache read failed for ${cacheKey}`, error);
-    }
+    return this.cache.getOrSet(
+      CacheKeys.stateTopPlants(stateCode, limit, year),
+      () => this.queryTopPlantsByState(stateCode, limit, year)
+    );
+  }
 
+  private async queryTopPlantsByState(
+    stateCode: string,
+    limit: number,
+    year: number | undefined
+  ) {
     const whereClause: any = {
       state: {
         code: stateCode,
@@ -185,7 +190,7 @@ export class StateRepository {
       };
     }
 
-    const plants = await this.prisma.plant.findMany({
+    return this.prisma.plant.findMany({
       where: whereClause,
       include: {
         generations: {
@@ -209,15 +214,6 @@ export class StateRepository {
       },
       take: limit,
     });
-
-    try {
-      await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(plants));
-      this.logger.debug(`Cached top plants: ${cacheKey}`);
-    } catch (error) {
-      this.logger.warn(`Cache write failed for ${cacheKey}`, error);
-    }
-
-    return plants;
   }
 
   /**
@@ -226,47 +222,30 @@ export class StateRepository {
    * @returns Array of states with their total generation
    */
   async getGenerationByYear(year: number) {
-    const cacheKey = `states:generation:year:${year}`;
-
-    try {
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.debug(`Cache hit for year generation: ${year}`);
-        return JSON.parse(cached);
-      }
-    } catch (error) {
-      this.logger.warn(`Cache read failed for year ${year}`, error);
-    }
-
-    const data = await this.prisma.$queryRaw<
-      Array<{
-        state_id: number;
-        year: number;
-        total_generation: number;
-        state_code: string;
-        state_name: string;
-      }>
-    >`
-      SELECT 
-        mv.state_id, 
-        mv.year, 
-        mv.total_generation,
-        s.code as state_code,
-        s.name as state_name
-      FROM state_generation_mv mv
-      JOIN states s ON s.id = mv.state_id
-      WHERE mv.year = ${year}
-      ORDER BY mv.total_generation DESC
-    `;
-
-    try {
-      await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(data));
-      this.logger.debug(`Cached year generation: ${year}`);
-    } catch (error) {
-      this.logger.warn(`Cache write failed for year ${year}`, error);
-    }
-
-    return data;
+    return this.cache.getOrSet(
+      CacheKeys.generationByYear(year),
+      () =>
+        this.prisma.$queryRaw<
+          Array<{
+            state_id: number;
+            year: number;
+            total_generation: number;
+            state_code: string;
+            state_name: string;
+          }>
+        >`
+        SELECT 
+          mv.state_id, 
+          mv.year, 
+          mv.total_generation,
+          s.code as state_code,
+          s.name as state_name
+        FROM state_generation_mv mv
+        JOIN states s ON s.id = mv.state_id
+        WHERE mv.year = ${year}
+        ORDER BY mv.total_generation DESC
+      `
+    );
   }
 
   /**
@@ -275,18 +254,13 @@ export class StateRepository {
    * @returns Summary statistics for the state
    */
   async getStateStatistics(stateCode: string) {
-    const cacheKey = `state:${stateCode}:statistics`;
-
-    try {
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.debug(`Cache hit for state statistics: ${stateCode}`);
-        return JSON.parse(cached);
-      }
-    } catch (error) {
-      this.logger.warn(`Cache read failed for statistics ${stateCode}`, error);
-    }
+    // Unknown states (null) are not cached
+    return this.cache.getOrSet(CacheKeys.stateStatistics(stateCode), () =>
+      this.queryStateStatistics(stateCode)
+    );
+  }
 
+  private async queryStateStatistics(stateCode: string) {
     const state = await this.prisma.state.findUnique({
       where: { code: stateCode },
       include: {
@@ -309,23 +283,10 @@ export class StateRepository {
       WHERE state_id = ${state.id}
     `;
 
-    const statistics = {
+    return {
       state,
       totalPlants: state._count.plants,
       totalGeneration: generation[0]?.total || 0,
     };
-
-    try {
-      await this.redis.setex(
-        cacheKey,
-        this.CACHE_TTL,
-        JSON.stringify(statistics)
-      );
-      this.logger.debug(`Cached state statistics: ${stateCode}`);
-    } catch (error) {
-      this.logger.warn(`Cache write failed for statistics ${stateCode}`, error);
-    }
-
-    return statistics;
   }
 }
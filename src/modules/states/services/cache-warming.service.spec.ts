@@ -0,0 +1,129 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { NotFoundException } from "@nestjs/common";
+import { CacheWarmingService } from "./cache-warming.service";
+import { StatesService } from "../states.service";
+import { PlantsService } from "../../plants/plants.service";
+import { FuelMixService } from "../../fuel-mix/fuel-mix.service";
+import { WarmSetService } from "../../../cache/warm-set.service";
+import { CacheKey, CacheKeys } from "../../../cache/cache-keys";
+
+/**
+ * Unit tests for CacheWarmingService
+ *
+ * Tests that the default views and the learned warm-set are replayed
+ * through the service layer, and that replays read the recorded keys
+ */
+describe("CacheWarmingService", () => {
+  let service: CacheWarmingService;
+  let statesService: Record<string, jest.Mock>;
+  let plantsService: Record<string, jest.Mock>;
+  let fuelMixService: Record<string, jest.Mock>;
+  let warmSet: { getWarmSet: jest.Mock };
+
+  beforeEach(async () => {
+    statesService = {
+      getStatesSummary: jest.fn().mockResolvedValue([]),
+      getStateDetail: jest.fn().mockResolvedValue({}),
+      getStateFuelMix: jest.fn().mockResolvedValue({}),
+    };
+    plantsService = { getTopPlants: jest.fn().mockResolvedValue([]) };
+    fuelMixService = { getFuelMix: jest.fn().mockResolvedValue({}) };
+    warmSet = { getWarmSet: jest.fn().mockResolvedValue([]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CacheWarmingService,
+        { provide: StatesService, useValue: statesService },
+        { provide: PlantsService, useValue: plantsService },
+        { provide: FuelMixService, useValue: fuelMixService },
+        { provide: WarmSetService, useValue: warmSet },
+      ],
+    }).compile();
+
+    service = module.get<CacheWarmingService>(CacheWarmingService);
+    jest.spyOn((service as any).logger, "log").mockImplementation();
+    jest.spyOn((service as any).logger, "warn").mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should warm the default views before any traffic is recorded", async () => {
+    const result = await service.warm();
+
+    expect(statesService.getStatesSummary).toHaveBeenCalledWith({});
+    expect(plantsService.getTopPlants).toHaveBeenCalledWith({});
+    expect(result).toMatchObject({ targets: 2, warmed: 2, failed: 0 });
+  });
+
+  it("should replay every learned target through its service method", async () => {
+    warmSet.getWarmSet.mockResolvedValue([
+      CacheKeys.statesSummary(2022).warm,
+      CacheKeys.stateDetail("TX", 2023, 20).warm,
+      CacheKeys.fuelMix(2023, undefined).warm,
+      CacheKeys.fuelMix(2023, "CA").warm,
+      CacheKeys.topPlants(5, { stateCodes: ["OK", "TX"], fuel: "solar" }).warm,
+    ]);
+
+    const result = await service.warm();
+
+    expect(statesService.getStatesSummary).toHaveBeenCalledWith({
+      year: 2022,
+    });
+    expect(statesService.getStateDetail).toHaveBeenCalledWith("TX", {
+      year: 2023,
+      topPlants: 20,
+    });
+    expect(fuelMixService.getFuelMix).toHaveBeenCalledWith(2023);
+    expect(statesService.getStateFuelMix).toHaveBeenCalledWith("CA", {
+      year: 2023,
+    });
+    expect(plantsService.getTopPlants).toHaveBeenCalledWith({
+      top: 5,
+      state: "OK,TX",
+      fuel: "solar",
+    });
+    expect(result).toMatchObject({ targets: 7, warmed: 7, failed: 0 });
+  });
+
+  it("should count failed targets and keep warming", async () => {
+    warmSet.getWarmSet.mockResolvedValue([
+      CacheKeys.stateDetail("ZZ", 2023, 10).warm,
+      CacheKeys.statesSummary(2022).warm,
+    ]);
+    statesService.getStateDetail!.mockRejectedValue(
+      new NotFoundException("State with code ZZ not found")
+    );
+
+    const result = await service.warm();
+
+    expect(result).toMatchObject({ targets: 4, warmed: 3, failed: 1 });
+  });
+
+  it("should fill the same key the API request was recorded under", async () => {
+    const recorded = CacheKeys.topPlants(10, {
+      stateCodes: ["OK", "TX"],
+      year: 2023,
+      minCapacityMw: 100,
+    });
+    const cachedKeys: string[] = [];
+    const cache = {
+      getOrSet: jest.fn(async (key: CacheKey) => {
+        cachedKeys.push(key.key);
+        return [];
+      }),
+    };
+    warmSet.getWarmSet.mockResolvedValue([recorded.warm]);
+    service = new CacheWarmingService(
+      statesService as any,
+      new PlantsService({} as any, {} as any, cache as any),
+      fuelMixService as any,
+      warmSet as any
+    );
+
+    await service.warm();
+
+    expect(cachedKeys).toContain(recorded.key);
+  });
+});
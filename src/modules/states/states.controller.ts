@@ -1,20 +1,35 @@
-import { Controller, Get, Query, Param, Logger } from "@nestjs/common";
+import { Controller, Get, Query, Param, Logger, Headers } from "@nestjs/common";
 import {
   ApiTags,
+  ApiBearerAuth,
+  ApiSecurity,
   ApiOperation,
   ApiResponse,
   ApiQuery,
   ApiParam,
+  ApiProduces,
 } from "@nestjs/swagger";
 import { StatesService } from "./states.service";
 import {
   GetStatesQueryDto,
   GetStateDetailQueryDto,
+  GetStateTimeSeriesQueryDto,
   StateCodeParamDto,
   StateSummaryResponseDto,
   StateDetailResponseDto,
+  StateTimeSeriesResponseDto,
   ErrorResponseDto,
+  STATE_RESPONSE_FORMATS,
 } from "./dto/states.dto";
+import {
+  GetFuelMixQueryDto,
+  FuelMixResponseDto,
+} from "../fuel-mix/dto/fuel-mix.dto";
+import {
+  EXPORT_CONTENT_TYPES,
+  resolveExportFormat,
+} from "../../common/utils/export.helper";
+import { Expensive } from "../../common/decorators/expensive.decorator";
 
 /**
  * StatesController
@@ -22,9 +37,18 @@ import {
  * Handles all state-related API endpoints:
  * - GET /states - Get all states summary with generation totals
  * - GET /states/:code - Get detailed state information with top plants
+ * - GET /states/:code/timeseries - Get yearly generation time series
+ * - GET /states/:code/fuel-mix - Get generation by fuel category
  */
 @Controller("states")
 @ApiTags("States")
+@ApiBearerAuth()
+@ApiSecurity("api-key")
+@ApiResponse({
+  status: 401,
+  description: "Missing, invalid or expired credentials",
+  type: ErrorResponseDto,
+})
 export class StatesController {
   private readonly logger = new Logger(StatesController.name);
 
@@ -38,6 +62,7 @@ export class StatesController {
    * @returns Array of state summaries with totals and percentages
    */
   @Get()
+  @Expensive({ fileExportsOnly: true })
   @ApiOperation({
     summary: "Get all states summary",
     description:
@@ -47,9 +72,22 @@ export class StatesController {
     name: "year",
     required: false,
     type: Number,
-    description: "Year to filter (defaults to 2023)",
+    description: "Year to filter (defaults to the latest ingested year)",
     example: 2023,
   })
+  @ApiQuery({
+    name: "format",
+    required: false,
+    enum: STATE_RESPONSE_FORMATS,
+    description:
+      "Response format; csv/xlsx return a file download. Accept: text/csv also selects CSV.",
+    example: "csv",
+  })
+  @ApiProduces(
+    "application/json",
+    EXPORT_CONTENT_TYPES.csv,
+    EXPORT_CONTENT_TYPES.xlsx
+  )
   @ApiResponse({
     status: 200,
     description: "Successfully retrieved states summary",
@@ -60,9 +98,22 @@ export class StatesController {
     description: "Invalid query parameters",
     type: ErrorResponseDto,
   })
-  async getStatesSummary(@Query() query: GetStatesQueryDto) {
-    this.logger.log(`GET /states - Year: ${query.year || 2023}`);
-    return this.statesService.getStatesSummary(query);
+  async getStatesSummary(
+    @Query() query: GetStatesQueryDto,
+    @Headers("accept") accept?: string
+  ) {
+    this.logger.log(`GET /states - Year: ${query.year ?? "latest"}`);
+    const states = await this.statesService.getStatesSummary(query);
+
+    const exportFormat = resolveExportFormat(query.format, accept);
+    if (exportFormat) {
+      return this.statesService.exportStatesSummary(
+        states,
+        exportFormat,
+        states[0]?.year ?? query.year
+      );
+    }
+    return states;
   }
 
   /**
@@ -74,6 +125,7 @@ export class StatesController {
    * @returns Detailed state information with top plants
    */
   @Get(":code")
+  @Expensive({ fileExportsOnly: true })
   @ApiOperation({
     summary: "Get state details",
     description:
@@ -89,7 +141,7 @@ export class StatesController {
     name: "year",
     required: false,
     type: Number,
-    description: "Year to filter (defaults to 2023)",
+    description: "Year to filter (defaults to the latest ingested year)",
     example: 2023,
   })
   @ApiQuery({
@@ -99,6 +151,19 @@ export class StatesController {
     description: "Number of top plants to include (1-100)",
     example: 10,
   })
+  @ApiQuery({
+    name: "format",
+    required: false,
+    enum: STATE_RESPONSE_FORMATS,
+    description:
+      "Response format; csv/xlsx return a file download. Accept: text/csv also selects CSV.",
+    example: "csv",
+  })
+  @ApiProduces(
+    "application/json",
+    EXPORT_CONTENT_TYPES.csv,
+    EXPORT_CONTENT_TYPES.xlsx
+  )
   @ApiResponse({
     status: 200,
     description: "Successfully retrieved state details",
@@ -116,13 +181,133 @@ export class StatesController {
   })
   async getStateDetail(
     @Param("code") code: string,
-    @Query() query: GetStateDetailQueryDto
+    @Query() query: GetStateDetailQueryDto,
+    @Headers("accept") accept?: string
   ) {
     this.logger.log(
-      `GET /states/${code} - Year: ${query.year || 2023}, Top: ${
+      `GET /states/${code} - Year: ${query.year ?? "latest"}, Top: ${
         query.topPlants || 10
       }`
     );
-    return this.statesService.getStateDetail(code, query);
+    const detail = await this.statesService.getStateDetail(code, query);
+
+    const exportFormat = resolveExportFormat(query.format, accept);
+    if (exportFormat) {
+      return this.statesService.exportStateDetail(detail, exportFormat);
+    }
+    return detail;
+  }
+
+  /**
+   * GET /states/:code/timeseries
+   * Get yearly generation totals for a state
+   *
+   * @param code - State code (2 letters, e.g., TX)
+   * @param query - Query parameters (from, to)
+   * @returns Yearly totals with national share, plant counts and YoY growth
+   */
+  @Get(":code/timeseries")
+  @ApiOperation({
+    summary: "Get state generation time series",
+    description:
+      "Returns yearly total generation for a state with share of the national total, plant count and year-over-year growth.",
+  })
+  @ApiParam({
+    name: "code",
+    type: String,
+    description: "State code (2 uppercase letters)",
+    example: "TX",
+  })
+  @ApiQuery({
+    name: "from",
+    required: false,
+    type: Number,
+    description: "First year to include (inclusive)",
+    example: 2018,
+  })
+  @ApiQuery({
+    name: "to",
+    required: false,
+    type: Number,
+    description: "Last year to include (inclusive)",
+    example: 2023,
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Successfully retrieved state time series",
+    type: StateTimeSeriesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid parameters",
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: "State not found",
+    type: ErrorResponseDto,
+  })
+  async getStateTimeSeries(
+    @Param("code") code: string,
+    @Query() query: GetStateTimeSeriesQueryDto
+  ) {
+    this.logger.log(
+      `GET /states/${code}/timeseries - From: ${query.from ?? "min"}, To: ${
+        query.to ?? "max"
+      }`
+    );
+    return this.statesService.getStateTimeSeries(code, query);
+  }
+
+  /**
+   * GET /states/:code/fuel-mix
+   * Get generation by fuel category for a state
+   *
+   * @param code - State code (2 letters, e.g., TX)
+   * @param query - Query parameters (year)
+   * @returns Generation and share of state total per fuel category
+   */
+  @Get(":code/fuel-mix")
+  @ApiOperation({
+    summary: "Get state fuel mix",
+    description:
+      "Returns net generation (MWh) and percentage share of the state total for each fuel category: coal, gas, nuclear, hydro, wind, solar and other.",
+  })
+  @ApiParam({
+    name: "code",
+    type: String,
+    description: "State code (2 uppercase letters)",
+    example: "TX",
+  })
+  @ApiQuery({
+    name: "year",
+    required: false,
+    type: Number,
+    description: "Year to filter (defaults to the latest ingested year)",
+    example: 2023,
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Successfully retrieved state fuel mix",
+    type: FuelMixResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid parameters",
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: "State not found",
+    type: ErrorResponseDto,
+  })
+  async getStateFuelMix(
+    @Param("code") code: string,
+    @Query() query: GetFuelMixQueryDto
+  ) {
+    this.logger.log(
+      `GET /states/${code}/fuel-mix - Year: ${query.year ?? "latest"}`
+    );
+    return this.statesService.getStateFuelMix(code, query);
   }
 }
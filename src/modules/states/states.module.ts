@@ -3,6 +3,7 @@ import { StatesController } from "./states.controller";
 import { StatesService } from "./states.service";
 import { StateRepository } from "./repositories/state.repository";
 import { PlantRepository } from "../plants/repositories/plant.repository";
+import { FuelMixModule } from "../fuel-mix/fuel-mix.module";
 
 /**
  * StatesModule
@@ -13,6 +14,7 @@ import { PlantRepository } from "../plants/repositories/plant.repository";
  * - Repositories for data access
  */
 @Module({
+  imports: [FuelMixModule], // Provides FuelMixService for state fuel mix
   controllers: [StatesController],
   providers: [
     StatesService,
@@ -1,10 +1,21 @@
 import { Test, TestingModule } from "@nestjs/testing";
-import { NotFoundException } from "@nestjs/common";
+import {
+  NotFoundException,
+  BadRequestException,
+  StreamableFile,
+} from "@nestjs/common";
 import { StatesService } from "./states.service";
 import { StateRepository } from "./repositories/state.repository";
 import { PlantRepository } from "../plants/repositories/plant.repository";
+import { FuelMixService } from "../fuel-mix/fuel-mix.service";
 import { PrismaService } from "../../prisma/prisma.service";
-import { GetStatesQueryDto, GetStateDetailQueryDto } from "./dto/states.dto";
+import { CacheService } from "../../cache/cache.service";
+import { CacheKey } from "../../cache/cache-keys";
+import {
+  GetStatesQueryDto,
+  GetStateDetailQueryDto,
+  GetStateTimeSeriesQueryDto,
+} from "./dto/states.dto";
 
 /**
  * Unit tests for StatesService
@@ -15,7 +26,9 @@ import { GetStatesQueryDto, GetStateDetailQueryDto } from "./dto/states.dto";
 describe("StatesService", () => {
   let service: StatesService;
   let plantRepository: jest.Mocked<PlantRepository>;
-  let mockRedis: any;
+  let stateRepository: jest.Mocked<StateRepository>;
+  let fuelMixService: jest.Mocked<FuelMixService>;
+  let mockCache: any;
 
   // Mock data fixtures
   const mockStatesSummary = [
@@ -58,12 +71,34 @@ describe("StatesService", () => {
     ],
   };
 
+  const mockTimeSeries = [
+    {
+      year: 2021,
+      totalGeneration: 500000000,
+      nationalTotal: 4000000000,
+      plantCount: 800,
+    },
+    {
+      year: 2022,
+      totalGeneration: 525000000,
+      nationalTotal: 4200000000,
+      plantCount: 810,
+    },
+    {
+      year: 2023,
+      totalGeneration: 544038647.08,
+      nationalTotal: 4192000000,
+      plantCount: 824,
+    },
+  ];
+
   beforeEach(async () => {
     const mockPlantRepo = {
       getTopNPlants: jest.fn(),
       getStatesSummary: jest.fn(),
       getStateDetail: jest.fn(),
       getPlantById: jest.fn(),
+      getLatestYear: jest.fn().mockResolvedValue(2023),
     };
 
     const mockStateRepo = {
@@ -71,6 +106,11 @@ describe("StatesService", () => {
       findByCode: jest.fn(),
       getTotalGeneration: jest.fn(),
       getNationalTotal: jest.fn(),
+      getStateTimeSeries: jest.fn(),
+    };
+
+    const mockFuelMixService = {
+      getFuelMix: jest.fn(),
     };
 
     const mockPrisma = {
@@ -78,11 +118,11 @@ describe("StatesService", () => {
       $disconnect: jest.fn(),
     };
 
-    mockRedis = {
-      get: jest.fn().mockResolvedValue(null), // Default: cache miss
-      set: jest.fn().mockResolvedValue("OK"),
-      setex: jest.fn().mockResolvedValue("OK"),
-      del: jest.fn().mockResolvedValue(1),
+    // Default: cache miss, so the loader runs
+    mockCache = {
+      getOrSet: jest.fn((_key: CacheKey, loader: () => Promise<unknown>) =>
+        loader()
+      ),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -96,20 +136,25 @@ describe("StatesService", () => {
           provide: StateRepository,
           useValue: mockStateRepo,
         },
+        {
+          provide: FuelMixService,
+          useValue: mockFuelMixService,
+        },
         {
           provide: PrismaService,
           useValue: mockPrisma,
         },
         {
-          provide: "REDIS_CLIENT",
-          useValue: mockRedis,
+          provide: CacheService,
+          useValue: mockCache,
         },
       ],
     }).compile();
 
     service = module.get<StatesService>(StatesService);
     plantRepository = module.get(PlantRepository);
-    mockRedis = module.get("REDIS_CLIENT");
+    stateRepository = module.get(StateRepository);
+    fuelMixService = module.get(FuelMixService);
   });
 
   afterEach(() => {
@@ -117,9 +162,9 @@ describe("StatesService", () => {
   });
 
   describe("getStatesSummary", () => {
-    it("should return states summary with default year (2023)", async () => {
+    it("should default to the latest ingested year", async () => {
       // Arrange
-      const query: GetStatesQueryDto = { year: 2023 };
+      const query: GetStatesQueryDto = {};
       plantRepository.getStatesSummary.mockResolvedValue(mockStatesSummary);
 
       // Act
@@ -134,6 +179,18 @@ describe("StatesService", () => {
       });
     });
 
+    it("should return no states before any data is loaded", async () => {
+      // Arrange
+      plantRepository.getLatestYear.mockResolvedValue(undefined);
+
+      // Act
+      const result = await service.getStatesSummary({});
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(plantRepository.getStatesSummary).not.toHaveBeenCalled();
+    });
+
     it("should add sequential ranks to states", async () => {
       // Arrange
       const query: GetStatesQueryDto = { year: 2023 };
@@ -212,15 +269,15 @@ describe("StatesService", () => {
     it("should return cached data on cache hit", async () => {
       // Arrange
       const query: GetStatesQueryDto = { year: 2023 };
-      const cachedData = JSON.stringify(mockStatesSummary);
-      mockRedis.get.mockResolvedValueOnce(cachedData);
+      const cachedData = mockStatesSummary;
+      mockCache.getOrSet.mockResolvedValueOnce(cachedData);
 
       // Act
       const result = await service.getStatesSummary(query);
 
       // Assert
       expect(result).toHaveLength(2);
-      expect(mockRedis.get).toHaveBeenCalled();
+      expect(mockCache.getOrSet).toHaveBeenCalled();
       expect(plantRepository.getStatesSummary).not.toHaveBeenCalled(); // Should not hit repository
     });
   });
@@ -229,7 +286,7 @@ describe("StatesService", () => {
     it("should return state detail with default parameters", async () => {
       // Arrange
       const code = "TX";
-      const query: GetStateDetailQueryDto = { year: 2023, topPlants: 10 };
+      const query: GetStateDetailQueryDto = {};
       plantRepository.getStateDetail.mockResolvedValue(mockStateDetail);
       plantRepository.getTopNPlants.mockResolvedValue([
         {
@@ -274,6 +331,17 @@ describe("StatesService", () => {
       expect(plantRepository.getStateDetail).toHaveBeenCalledWith("CA", 2022);
     });
 
+    it("should throw NotFoundException before any data is loaded", async () => {
+      // Arrange
+      plantRepository.getLatestYear.mockResolvedValue(undefined);
+
+      // Act & Assert
+      await expect(service.getStateDetail("TX", {})).rejects.toThrow(
+        NotFoundException
+      );
+      expect(plantRepository.getStateDetail).not.toHaveBeenCalled();
+    });
+
     it("should throw NotFoundException for invalid state code", async () => {
       // Arrange
       const code = "XX";
@@ -387,20 +455,238 @@ describe("StatesService", () => {
       // Arrange
       const code = "TX";
       const query: GetStateDetailQueryDto = { year: 2023, topPlants: 10 };
-      const cachedData = JSON.stringify(mockStateDetail);
-      mockRedis.get.mockResolvedValueOnce(cachedData);
+      const cachedData = mockStateDetail;
+      mockCache.getOrSet.mockResolvedValueOnce(cachedData);
 
       // Act
       const result = await service.getStateDetail(code, query);
 
       // Assert
       expect(result).toEqual(mockStateDetail);
-      expect(mockRedis.get).toHaveBeenCalled();
+      expect(mockCache.getOrSet).toHaveBeenCalled();
       expect(plantRepository.getStateDetail).not.toHaveBeenCalled(); // Should not hit repository
       expect(plantRepository.getTopNPlants).not.toHaveBeenCalled(); // Should not hit repository
     });
   });
 
+  describe("exports", () => {
+    const readFile = async (file: StreamableFile) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of file.getStream()) chunks.push(chunk);
+      return Buffer.concat(chunks).toString();
+    };
+
+    it("should export the states summary as CSV", async () => {
+      // Arrange
+      const states = mockStatesSummary.map((state, index) => ({
+        ...state,
+        rank: index + 1,
+      }));
+
+      // Act
+      const file = await service.exportStatesSummary(states, "csv", 2023);
+      const lines = (await readFile(file)).trim().split("\r\n");
+
+      // Assert
+      expect(file.options.disposition).toBe(
+        'attachment; filename="states-2023.csv"'
+      );
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toBe(
+        "Rank,State,State Name,Year,Total Generation (MWh),% of National,Plant Count"
+      );
+      expect(lines[1]).toBe("1,TX,Texas,2023,544038647.08,12.98,824");
+    });
+
+    it("should export a state's top plants as CSV", async () => {
+      // Act
+      const file = await service.exportStateDetail(mockStateDetail, "csv");
+      const lines = (await readFile(file)).trim().split("\r\n");
+
+      // Assert
+      expect(file.options.disposition).toBe(
+        'attachment; filename="state-TX-2023.csv"'
+      );
+      expect(lines[1]).toBe("1,6,South Texas Project,2023,21787144,4");
+    });
+
+    it("should add a state totals sheet to XLSX exports", async () => {
+      // Act
+      const file = await service.exportStateDetail(mockStateDetail, "xlsx");
+
+      // Assert
+      expect(file.options.disposition).toBe(
+        'attachment; filename="state-TX-2023.xlsx"'
+      );
+      expect(file.options.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe("getStateTimeSeries", () => {
+    beforeEach(() => {
+      stateRepository.findByCode.mockResolvedValue({
+        id: 45,
+        code: "TX",
+        name: "Texas",
+      });
+      stateRepository.getStateTimeSeries.mockResolvedValue(mockTimeSeries);
+    });
+
+    it("should return yearly points in ascending order", async () => {
+      // Arrange
+      const query: GetStateTimeSeriesQueryDto = {};
+
+      // Act
+      const result = await service.getStateTimeSeries("TX", query);
+
+      // Assert
+      expect(result.state).toEqual({ id: 45, code: "TX", name: "Texas" });
+      expect(result.points.map((p) => p.year)).toEqual([2021, 2022, 2023]);
+      expect(result.points[2]!.plantCount).toBe(824);
+    });
+
+    it("should compute share of national total per year", async () => {
+      // Act
+      const result = await service.getStateTimeSeries("TX", {});
+
+      // Assert
+      expect(result.points[0]!.percentOfNational).toBeCloseTo(12.5);
+      expect(result.points[1]!.percentOfNational).toBeCloseTo(12.5);
+    });
+
+    it("should compute YoY growth against the previous year", async () => {
+      // Act
+      const result = await service.getStateTimeSeries("TX", {});
+
+      // Assert
+      expect(result.points[0]!.yoyGrowth).toBeNull();
+      expect(result.points[1]!.yoyGrowth).toBeCloseTo(5);
+    });
+
+    it("should pass year range to repository", async () => {
+      // Arrange
+      const query: GetStateTimeSeriesQueryDto = { from: 2019, to: 2022 };
+
+      // Act
+      await service.getStateTimeSeries("tx", query);
+
+      // Assert
+      expect(stateRepository.findByCode).toHaveBeenCalledWith("TX");
+      expect(stateRepository.getStateTimeSeries).toHaveBeenCalledWith(
+        "TX",
+        2018, // Growth of the first point
+        2022
+      );
+    });
+
+    it("should compute the first point's growth from the year before the range", async () => {
+      // Act
+      const result = await service.getStateTimeSeries("TX", { from: 2022 });
+
+      // Assert
+      expect(result.points.map((p) => p.year)).toEqual([2022, 2023]);
+      expect(result.points[0]!.yoyGrowth).toBeCloseTo(5);
+    });
+
+    it("should not compute growth across a missing year", async () => {
+      // Arrange
+      stateRepository.getStateTimeSeries.mockResolvedValue([
+        mockTimeSeries[0]!,
+        mockTimeSeries[2]!,
+      ]);
+
+      // Act
+      const result = await service.getStateTimeSeries("TX", {});
+
+      // Assert
+      expect(result.points.map((p) => p.year)).toEqual([2021, 2023]);
+      expect(result.points[1]!.yoyGrowth).toBeNull();
+    });
+
+    it("should throw BadRequestException when from is after to", async () => {
+      // Act & Assert
+      await expect(
+        service.getStateTimeSeries("TX", { from: 2023, to: 2020 })
+      ).rejects.toThrow(BadRequestException);
+      expect(stateRepository.getStateTimeSeries).not.toHaveBeenCalled();
+    });
+
+    it("should throw NotFoundException for unknown state", async () => {
+      // Arrange
+      stateRepository.findByCode.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.getStateTimeSeries("XX", {})).rejects.toThrow(
+        NotFoundException
+      );
+    });
+
+    it("should return empty points when no data in range", async () => {
+      // Arrange
+      stateRepository.getStateTimeSeries.mockResolvedValue([]);
+
+      // Act
+      const result = await service.getStateTimeSeries("TX", { from: 1900 });
+
+      // Assert
+      expect(result.points).toEqual([]);
+    });
+  });
+
+  describe("getStateFuelMix", () => {
+    it("should delegate to FuelMixService with the resolved state", async () => {
+      // Arrange
+      const state = { id: 45, code: "TX", name: "Texas" };
+      const fuelMix = {
+        state,
+        year: 2022,
+        totalGeneration: 100,
+        fuels: [
+          { fuel: "gas", generation: 100, percentage: 100, plantCount: 1 },
+        ],
+      };
+      stateRepository.findByCode.mockResolvedValue({ ...state, _count: {} });
+      fuelMixService.getFuelMix.mockResolvedValue(fuelMix as any);
+
+      // Act
+      const result = await service.getStateFuelMix("tx", { year: 2022 });
+
+      // Assert
+      expect(result).toEqual(fuelMix);
+      expect(stateRepository.findByCode).toHaveBeenCalledWith("TX");
+      expect(fuelMixService.getFuelMix).toHaveBeenCalledWith(2022, state);
+    });
+
+    it("should leave the default year to FuelMixService", async () => {
+      // Arrange
+      stateRepository.findByCode.mockResolvedValue({
+        id: 45,
+        code: "TX",
+        name: "Texas",
+      });
+
+      // Act
+      await service.getStateFuelMix("TX", {});
+
+      // Assert
+      expect(fuelMixService.getFuelMix).toHaveBeenCalledWith(
+        undefined,
+        expect.objectContaining({ code: "TX" })
+      );
+    });
+
+    it("should throw NotFoundException for unknown state", async () => {
+      // Arrange
+      stateRepository.findByCode.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.getStateFuelMix("XX", {})).rejects.toThrow(
+        NotFoundException
+      );
+      expect(fuelMixService.getFuelMix).not.toHaveBeenCalled();
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle year boundaries (1900)", async () => {
       // Arrange
@@ -1,14 +1,72 @@
-import { Injectable, Logger, NotFoundException, Inject } from "@nestjs/common";
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  StreamableFile,
+} from "@nestjs/common";
 import { PrismaService } from "../../prisma/prisma.service";
 import {
   GetStatesQueryDto,
   GetStateDetailQueryDto,
+  GetStateTimeSeriesQueryDto,
   StateSummaryResponseDto,
   StateDetailResponseDto,
+  StateTimeSeriesResponseDto,
 } from "./dto/states.dto";
 import { StateRepository } from "./repositories/state.repository";
 import { PlantRepository } from "../plants/repositories/plant.repository";
-import { Redis } from "ioredis";
+import { FuelMixService } from "../fuel-mix/fuel-mix.service";
+import {
+  GetFuelMixQueryDto,
+  FuelMixResponseDto,
+} from "../fuel-mix/dto/fuel-mix.dto";
+import { CacheService } from "../../cache/cache.service";
+import { CacheKeys } from "../../cache/cache-keys";
+import {
+  ExportColumn,
+  ExportFormat,
+  toExportFile,
+} from "../../common/utils/export.helper";
+
+/**
+ * Spreadsheet columns for state summary exports (GET /states)
+ */
+const STATE_SUMMARY_EXPORT_COLUMNS: ExportColumn<StateSummaryResponseDto>[] = [
+  { header: "Rank", value: (s) => s.rank },
+  { header: "State", value: (s) => s.code },
+  { header: "State Name", value: (s) => s.name },
+  { header: "Year", value: (s) => s.year },
+  { header: "Total Generation (MWh)", value: (s) => s.totalGeneration },
+  { header: "% of National", value: (s) => s.percentOfNational },
+  { header: "Plant Count", value: (s) => s.plantCount },
+];
+
+/**
+ * Spreadsheet columns for a state's top plants (GET /states/:code)
+ */
+const STATE_TOP_PLANT_EXPORT_COLUMNS: ExportColumn<
+  StateDetailResponseDto["topPlants"][number]
+>[] = [
+  { header: "Rank", value: (p) => p.rank },
+  { header: "Plant ID", value: (p) => p.plantId },
+  { header: "Plant Name", value: (p) => p.name },
+  { header: "Year", value: (p) => p.year },
+  { header: "Net Generation (MWh)", value: (p) => p.netGeneration },
+  { header: "% of State", value: (p) => p.percentOfState },
+];
+
+/**
+ * Spreadsheet columns for the state totals sheet of GET /states/:code
+ */
+const STATE_DETAIL_EXPORT_COLUMNS: ExportColumn<StateDetailResponseDto>[] = [
+  { header: "State", value: (d) => d.state.code },
+  { header: "State Name", value: (d) => d.state.name },
+  { header: "Year", value: (d) => d.year },
+  { header: "Total Generation (MWh)", value: (d) => d.totalGeneration },
+  { header: "% of National", value: (d) => d.percentOfNational },
+  { header: "Plant Count", value: (d) => d.plantCount },
+];
 
 /**
  * StatesService
@@ -19,78 +77,86 @@ import { Redis } from "ioredis";
 @Injectable()
 export class StatesService {
   private readonly logger = new Logger(StatesService.name);
-  private readonly CACHE_TTL = 3600; // 1 hour in seconds
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly stateRepository: StateRepository,
     private readonly plantRepository: PlantRepository,
-    @Inject("REDIS_CLIENT") private readonly redis: Redis
+    private readonly fuelMixService: FuelMixService,
+    private readonly cache: CacheService
   ) {}
 
   /**
    * Get all states with generation summary
    *
-   * @param query - Query parameters (year)
+   * @param query - Query parameters (year, default: the latest ingested year)
    * @returns Array of state summaries with totals and percentages
    */
   async getStatesSummary(
     query: GetStatesQueryDto
   ): Promise<StateSummaryResponseDto[]> {
     const startTime = Date.now();
-    const year = query.year || 2023;
 
     try {
-      // Generate cache key
-      const cacheKey = `states:summary:${year}`;
-
-      // Try to get from cache
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.log(`Cache hit for ${cacheKey}`);
-        return JSON.parse(cached);
+      const year = query.year ?? (await this.plantRepository.getLatestYear());
+      if (year === undefined) {
+        return []; // No generation data loaded yet
       }
 
-      this.logger.log(
-        `Cache miss for ${cacheKey}. Getting states summary for year: ${year}`
-      );
+      return await this.cache.getOrSet(
+        CacheKeys.statesSummary(year),
+        async () => {
+          this.logger.log(`Getting states summary for year: ${year}`);
 
-      // Delegate to repository layer
-      const states = await this.plantRepository.getStatesSummary({ year });
+          // Delegate to repository layer
+          const states = await this.plantRepository.getStatesSummary({ year });
 
-      this.logger.log(
-        `Retrieved ${states.length} states in ${Date.now() - startTime}ms`
-      );
+          this.logger.log(
+            `Retrieved ${states.length} states in ${Date.now() - startTime}ms`
+          );
 
-      const result = states.map((state, index) => ({
-        stateId: state.stateId,
-        code: state.code,
-        name: state.name,
-        year: state.year,
-        totalGeneration: state.totalGeneration,
-        percentOfNational: state.percentOfNational,
-        plantCount: state.plantCount,
-        rank: index + 1,
-      }));
-
-      // Cache the result
-      await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(result));
-      this.logger.log(
-        `Cached result with key ${cacheKey} for ${this.CACHE_TTL}s`
+          return states.map((state, index) => ({
+            stateId: state.stateId,
+            code: state.code,
+            name: state.name,
+            year: state.year,
+            totalGeneration: state.totalGeneration,
+            percentOfNational: state.percentOfNational,
+            plantCount: state.plantCount,
+            rank: index + 1,
+          }));
+        }
       );
-
-      return result;
     } catch (error) {
       this.logger.error(`Failed to get states summary: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Export the states summary as a CSV or XLSX download
+   *
+   * @param states - Results of getStatesSummary
+   * @param format - Export format
+   * @param year - Year of the summary, used in the file name when known
+   */
+  async exportStatesSummary(
+    states: StateSummaryResponseDto[],
+    format: ExportFormat,
+    year: number | undefined
+  ): Promise<StreamableFile> {
+    const fileName = year === undefined ? "states" : `states-${year}`;
+    return toExportFile(format, fileName, [
+      { name: "States", rows: states, columns: STATE_SUMMARY_EXPORT_COLUMNS },
+    ]);
+  }
+
   /**
    * Get detailed information for a specific state
    *
    * @param stateCode - State code (2 letters)
-   * @param query - Query parameters (year, topPlants)
+   * @param query - Query parameters (year (default: the latest ingested
+   * year), topPlants)
    * @returns Detailed state information with top plants
    */
   async getStateDetail(
@@ -98,71 +164,193 @@ export class StatesService {
     query: GetStateDetailQueryDto
   ): Promise<StateDetailResponseDto> {
     const startTime = Date.now();
-    const year = query.year || 2023;
     const topPlants = query.topPlants || 10;
+    const code = stateCode.toUpperCase();
 
     try {
-      // Generate cache key
-      const cacheKey = `state:${stateCode.toUpperCase()}:${year}:top:${topPlants}`;
-
-      // Try to get from cache
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        this.logger.log(`Cache hit for ${cacheKey}`);
-        return JSON.parse(cached);
+      const year = query.year ?? (await this.plantRepository.getLatestYear());
+      if (year === undefined) {
+        throw new NotFoundException("No generation data has been loaded");
       }
 
-      this.logger.log(
-        `Cache miss for ${cacheKey}. Getting state detail for ${stateCode}, year: ${year}, top: ${topPlants}`
-      );
+      return await this.cache.getOrSet(
+        CacheKeys.stateDetail(code, year, topPlants),
+        async () => {
+          this.logger.log(
+            `Getting state detail for ${code}, year: ${year}, top: ${topPlants}`
+          );
+
+          // Get state detail from repository
+          const stateDetail = await this.plantRepository.getStateDetail(
+            code,
+            year
+          );
 
-      // Get state detail from repository
-      const stateDetail = await this.plantRepository.getStateDetail(
-        stateCode.toUpperCase(),
-        year
+          if (!stateDetail) {
+            throw new NotFoundException(
+              `State with code ${stateCode} not found`
+            );
+          }
+
+          // Get top plants for the state
+          const topPlantsData = await this.plantRepository.getTopNPlants({
+            top: topPlants,
+            stateCode: code,
+            year,
+          });
+
+          this.logger.log(
+            `Retrieved state detail for ${code} in ${Date.now() - startTime}ms`
+          );
+
+          return {
+            state: stateDetail.state,
+            year: stateDetail.year,
+            totalGeneration: stateDetail.totalGeneration,
+            percentOfNational: stateDetail.percentOfNational,
+            plantCount: stateDetail.plantCount,
+            topPlants: topPlantsData.map((plant, index) => ({
+              id: plant.id,
+              plantId: plant.plantId,
+              name: plant.name,
+              year: plant.year,
+              netGeneration: plant.netGeneration,
+              percentOfState: plant.percentOfState,
+              rank: index + 1,
+            })),
+          };
+        }
       );
+    } catch (error) {
+      this.logger.error(`Failed to get state detail: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Export a state's detail as a CSV or XLSX download
+   *
+   * CSV holds the top plants; XLSX adds a sheet with the state totals.
+   *
+   * @param detail - Result of getStateDetail
+   * @param format - Export format
+   */
+  async exportStateDetail(
+    detail: StateDetailResponseDto,
+    format: ExportFormat
+  ): Promise<StreamableFile> {
+    const filename = `state-${detail.state.code}-${detail.year}`;
+    return toExportFile(format, filename, [
+      {
+        name: "Top Plants",
+        rows: detail.topPlants,
+        columns: STATE_TOP_PLANT_EXPORT_COLUMNS,
+      },
+      { name: "State", rows: [detail], columns: STATE_DETAIL_EXPORT_COLUMNS },
+    ]);
+  }
 
-      if (!stateDetail) {
-        throw new NotFoundException(`State with code ${stateCode} not found`);
+  /**
+   * Get yearly generation time series for a specific state
+   *
+   * Raw yearly totals are cached by StateRepository; shares and growth are
+   * derived here since they are cheap to compute. The year before `from` is
+   * also read, so the first point's growth is known; growth stays null when
+   * the previous year has no data.
+   *
+   * @param stateCode - State code (2 letters)
+   * @param query - Query parameters (from, to)
+   * @returns Yearly totals with national share, plant counts and YoY growth
+   */
+  async getStateTimeSeries(
+    stateCode: string,
+    query: GetStateTimeSeriesQueryDto
+  ): Promise<StateTimeSeriesResponseDto> {
+    const startTime = Date.now();
+    const code = stateCode.toUpperCase();
+    const { from, to } = query;
+
+    try {
+      if (from !== undefined && to !== undefined && from > to) {
+        throw new BadRequestException("from must be less than or equal to to");
       }
 
-      // Get top plants for the state
-      const topPlantsData = await this.plantRepository.getTopNPlants({
-        top: topPlants,
-        stateCode: stateCode.toUpperCase(),
-        year,
-      });
+      const state = await this.stateRepository.findByCode(code);
+      if (!state) {
+        throw new NotFoundException(`State with code '${code}' not found`);
+      }
 
-      this.logger.log(
-        `Retrieved state detail for ${stateCode} in ${Date.now() - startTime}ms`
+      const rows = await this.stateRepository.getStateTimeSeries(
+        code,
+        from === undefined ? undefined : from - 1,
+        to
       );
 
-      const result = {
-        state: stateDetail.state,
-        year: stateDetail.year,
-        totalGeneration: stateDetail.totalGeneration,
-        percentOfNational: stateDetail.percentOfNational,
-        plantCount: stateDetail.plantCount,
-        topPlants: topPlantsData.map((plant, index) => ({
-          id: plant.id,
-          plantId: plant.plantId,
-          name: plant.name,
-          year: plant.year,
-          netGeneration: plant.netGeneration,
-          percentOfState: plant.percentOfState,
-          rank: index + 1,
-        })),
-      };
+      const points = rows
+        .map((row, index) => {
+          const previous = rows[index - 1];
+          return {
+            year: row.year,
+            totalGeneration: row.totalGeneration,
+            nationalTotal: row.nationalTotal,
+            percentOfNational:
+              row.nationalTotal > 0
+                ? (row.totalGeneration / row.nationalTotal) * 100
+                : 0,
+            plantCount: row.plantCount,
+            yoyGrowth:
+              previous?.year === row.year - 1 && previous.totalGeneration !== 0
+                ? ((row.totalGeneration - previous.totalGeneration) /
+                    Math.abs(previous.totalGeneration)) *
+                  100
+                : null,
+          };
+        })
+        // Drop the year read only for the first point's growth
+        .filter((point) => from === undefined || point.year >= from);
 
-      // Cache the result
-      await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(result));
       this.logger.log(
-        `Cached result with key ${cacheKey} for ${this.CACHE_TTL}s`
+        `Retrieved ${points.length} years for ${code} in ${
+          Date.now() - startTime
+        }ms`
       );
 
-      return result;
+      return {
+        state: { id: state.id, code: state.code, name: state.name },
+        points,
+      };
     } catch (error) {
-      this.logger.error(`Failed to get state detail: ${error}`);
+      this.logger.error(`Failed to get state time series: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get generation by fuel category for a specific state
+   *
+   * @param stateCode - State code (2 letters)
+   * @param query - Query parameters (year, default: the latest ingested year)
+   * @returns Generation and share of state total per fuel category
+   */
+  async getStateFuelMix(
+    stateCode: string,
+    query: GetFuelMixQueryDto
+  ): Promise<FuelMixResponseDto> {
+    const code = stateCode.toUpperCase();
+
+    try {
+      const state = await this.stateRepository.findByCode(code);
+      if (!state) {
+        throw new NotFoundException(`State with code '${code}' not found`);
+      }
+
+      return await this.fuelMixService.getFuelMix(query.year, {
+        id: state.id,
+        code: state.code,
+        name: state.name,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to get state fuel mix: ${error}`);
       throw error;
     }
   }
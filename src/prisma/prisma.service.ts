@@ -5,6 +5,8 @@ import {
   Logger,
 } from "@nestjs/common";
 import { PrismaClient } from "@prisma/client";
+import { performance } from "perf_hooks";
+import { config } from "../config/configuration";
 
 /**
  * PrismaService
@@ -17,6 +19,7 @@ import { PrismaClient } from "@prisma/client";
  * - Graceful disconnect on module destroy
  * - Query logging for development/debugging
  * - Error and warning event logging
+ * - Slow query warnings (SLOW_QUERY_MS) tagged with the request's trace ID
  * - Global module availability via PrismaModule
  *
  * Usage:
@@ -44,6 +47,10 @@ export class PrismaService
    *
    * Logs are emitted as events to allow custom handling
    * via the $on() method if needed in the future.
+   *
+   * Returns the client extended with a query hook that times every
+   * operation. Unlike 'query' log events, the hook runs in the caller's
+   * async context, so slow query warnings carry the request's trace ID.
    */
   constructor() {
     super({
@@ -53,6 +60,27 @@ export class PrismaService
         { emit: "event", level: "warn" }, // Log warnings
       ],
     });
+
+    const logger = this.logger;
+    const slowQueryMs = config().logging.slowQueryMs;
+
+    return this.$extends({
+      query: {
+        async $allOperations({ model, operation, args, query }) {
+          const start = performance.now();
+          try {
+            return await query(args);
+          } finally {
+            const duration = Math.round(performance.now() - start);
+            if (duration >= slowQueryMs) {
+              logger.warn(
+                `Slow query: ${model ? `${model}.` : ""}${operation} took ${duration}ms`
+              );
+            }
+          }
+        },
+      },
+    }) as this;
   }
 
   /**
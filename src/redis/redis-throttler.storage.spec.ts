@@ -0,0 +1,108 @@
+import { RedisThrottlerStorage } from "./redis-throttler.storage";
+
+/**
+ * Unit Tests for RedisThrottlerStorage
+ *
+ * Tests mapping of the Redis script result and the in-memory fallback
+ */
+describe("RedisThrottlerStorage", () => {
+  let storage: RedisThrottlerStorage;
+  let redis: { eval: jest.Mock; pttl: jest.Mock };
+
+  beforeEach(() => {
+    redis = { eval: jest.fn(), pttl: jest.fn() };
+    storage = new RedisThrottlerStorage(redis as any);
+    jest.spyOn((storage as any).logger, "warn").mockImplementation();
+    jest.spyOn((storage as any).logger, "log").mockImplementation();
+  });
+
+  afterEach(() => {
+    storage.onApplicationShutdown();
+    jest.restoreAllMocks();
+  });
+
+  it("should count hits in Redis under the ratelimit prefix", async () => {
+    redis.eval.mockResolvedValue([3, 41_500, -2]);
+
+    const result = await storage.increment(
+      "default:user:alice",
+      60_000,
+      100,
+      60_000,
+      "default"
+    );
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      2,
+      "ratelimit:default:user:alice",
+      "ratelimit:default:user:alice:blocked",
+      60_000,
+      100,
+      60_000
+    );
+    expect(result).toEqual({
+      totalHits: 3,
+      timeToExpire: 42,
+      isBlocked: false,
+      timeToBlockExpire: 0,
+    });
+  });
+
+  it("should report blocked clients", async () => {
+    redis.eval.mockResolvedValue([101, 10_000, 59_000]);
+
+    const result = await storage.increment(
+      "user:alice",
+      60_000,
+      100,
+      60_000,
+      "default"
+    );
+
+    expect(result.isBlocked).toBe(true);
+    expect(result.timeToBlockExpire).toBe(59);
+  });
+
+  it("should fall back to memory when Redis is unavailable", async () => {
+    redis.eval.mockRejectedValue(new Error("Connection is closed."));
+
+    const first = await storage.increment("ip:1", 60_000, 1, 60_000, "default");
+    const second = await storage.increment(
+      "ip:1",
+      60_000,
+      1,
+      60_000,
+      "default"
+    );
+
+    expect(first).toMatchObject({ totalHits: 1, isBlocked: false });
+    expect(second.isBlocked).toBe(true);
+    // Warn once, not on every request
+    expect((storage as any).logger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report the block time left without counting a hit", async () => {
+    redis.pttl.mockResolvedValue(12_300);
+
+    const blockTtl = await storage.getBlockTtl("auth-failures:ip:1");
+
+    expect(redis.pttl).toHaveBeenCalledWith(
+      "ratelimit:auth-failures:ip:1:blocked"
+    );
+    expect(blockTtl).toBe(13);
+    expect(redis.eval).not.toHaveBeenCalled();
+  });
+
+  it("should read blocks from memory when Redis is unavailable", async () => {
+    redis.eval.mockRejectedValue(new Error("Connection is closed."));
+    await storage.increment("ip:1", 60_000, 1, 60_000, "default");
+
+    expect(await storage.getBlockTtl("ip:1")).toBe(0);
+
+    await storage.increment("ip:1", 60_000, 1, 60_000, "default");
+
+    expect(await storage.getBlockTtl("ip:1")).toBe(60);
+    expect(redis.pttl).not.toHaveBeenCalled();
+  });
+});
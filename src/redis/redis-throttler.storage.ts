@@ -0,0 +1,135 @@
+import { Logger, OnApplicationShutdown } from "@nestjs/common";
+import { ThrottlerStorage, ThrottlerStorageService } from "@nestjs/throttler";
+import { Redis } from "ioredis";
+
+/**
+ * Counter record returned to ThrottlerGuard
+ * (ThrottlerStorageRecord; times are in seconds)
+ */
+type ThrottlerStorageRecord = Awaited<
+  ReturnType<ThrottlerStorage["increment"]>
+>;
+
+/**
+ * Prefix of every rate limit key in Redis
+ */
+const KEY_PREFIX = "ratelimit";
+
+/**
+ * Atomically count a hit and report the window and block state
+ *
+ * KEYS[1] = hit counter, KEYS[2] = block marker
+ * ARGV[1] = window (ms), ARGV[2] = limit, ARGV[3] = block duration (ms)
+ * Returns { hits, window ms left, block ms left }
+ */
+const INCREMENT_SCRIPT = `
+local blockTtl = redis.call('PTTL', KEYS[2])
+if blockTtl > 0 then
+  return { tonumber(redis.call('GET', KEYS[1]) or '0'), redis.call('PTTL', KEYS[1]), blockTtl }
+end
+local hits = redis.call('INCR', KEYS[1])
+if hits == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+local ttl = redis.call('PTTL', KEYS[1])
+if hits > tonumber(ARGV[2]) then
+  redis.call('SET', KEYS[2], '1', 'PX', ARGV[3])
+  blockTtl = tonumber(ARGV[3])
+end
+return { hits, ttl, blockTtl }
+`;
+
+/**
+ * RedisThrottlerStorage
+ *
+ * ThrottlerStorage backed by Redis, so every instance behind a load
+ * balancer shares the same counters. Each throttler/client pair uses a
+ * fixed-window counter plus a block marker, updated in one Lua script.
+ *
+ * Follows the RedisModule fallback behaviour: when Redis is unavailable,
+ * counting falls back to per-instance memory instead of failing requests.
+ */
+export class RedisThrottlerStorage
+  implements ThrottlerStorage, OnApplicationShutdown
+{
+  private readonly logger = new Logger(RedisThrottlerStorage.name);
+  private readonly fallback = new ThrottlerStorageService();
+  private redisAvailable = true;
+
+  constructor(private readonly redis: Redis) {}
+
+  async increment(
+    key: string,
+    ttl: number,
+    limit: number,
+    blockDuration: number,
+    throttlerName: string
+  ): Promise<ThrottlerStorageRecord> {
+    const redisKey = `${KEY_PREFIX}:${key}`;
+
+    try {
+      const [hits, ttlMs, blockTtlMs] = (await this.redis.eval(
+        INCREMENT_SCRIPT,
+        2,
+        redisKey,
+        `${redisKey}:blocked`,
+        ttl,
+        limit,
+        blockDuration
+      )) as [number, number, number];
+
+      if (!this.redisAvailable) {
+        this.logger.log("Redis available again; rate limits are shared");
+        this.redisAvailable = true;
+      }
+
+      return {
+        totalHits: hits,
+        timeToExpire: Math.max(0, Math.ceil(ttlMs / 1000)),
+        isBlocked: blockTtlMs > 0,
+        timeToBlockExpire: Math.max(0, Math.ceil(blockTtlMs / 1000)),
+      };
+    } catch (error) {
+      if (this.redisAvailable) {
+        this.logger.warn(
+          `Rate limit storage unavailable, counting per instance: ${error}`
+        );
+        this.redisAvailable = false;
+      }
+      return this.fallback.increment(
+        key,
+        ttl,
+        limit,
+        blockDuration,
+        throttlerName
+      );
+    }
+  }
+
+  /**
+   * Seconds until a blocked key is released, without counting a hit
+   *
+   * @returns 0 when the key is not blocked
+   */
+  async getBlockTtl(key: string): Promise<number> {
+    if (this.redisAvailable) {
+      try {
+        const blockTtlMs = await this.redis.pttl(
+          `${KEY_PREFIX}:${key}:blocked`
+        );
+        return Math.max(0, Math.ceil(blockTtlMs / 1000));
+      } catch {
+        // Read the per-instance fallback, which increment() switches to
+      }
+    }
+
+    const record = this.fallback.storage.get(key);
+    return record?.isBlocked
+      ? Math.max(0, Math.ceil((record.blockExpiresAt - Date.now()) / 1000))
+      : 0;
+  }
+
+  onApplicationShutdown() {
+    this.fallback.onApplicationShutdown();
+  }
+}
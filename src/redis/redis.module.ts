@@ -1,5 +1,7 @@
-import { Module, Global } from "@nestjs/common";
-import { Redis } from "ioredis";
+import { Module, Global, Logger } from "@nestjs/common";
+import { Redis, RedisOptions } from "ioredis";
+import { performance } from "perf_hooks";
+import { config } from "../config/configuration";
 
 /**
  * Redis Client Injection Token
@@ -11,6 +13,36 @@ import { Redis } from "ioredis";
  */
 export const REDIS_CLIENT = "REDIS_CLIENT";
 
+/**
+ * Warn about Redis commands slower than the threshold
+ *
+ * Wraps sendCommand, which every command (including pipelines and
+ * scripts) goes through. The timer callback is attached in the caller's
+ * async context, so warnings carry the request's trace ID.
+ *
+ * @param redis - Client to instrument
+ * @param thresholdMs - Minimum duration to log (SLOW_REDIS_MS)
+ */
+export function logSlowCommands(redis: Redis, thresholdMs: number): void {
+  const logger = new Logger("Redis");
+  const sendCommand = redis.sendCommand.bind(redis);
+
+  redis.sendCommand = (command, stream) => {
+    const start = performance.now();
+    const logIfSlow = () => {
+      const duration = Math.round(performance.now() - start);
+      if (duration >= thresholdMs) {
+        logger.warn(
+          `Slow command: ${command.name.toUpperCase()} took ${duration}ms`
+        );
+      }
+    };
+    // Failures are reported to the caller through command.promise
+    command.promise.then(logIfSlow, logIfSlow);
+    return sendCommand(command, stream);
+  };
+}
+
 /**
  * Redis Provider Factory
  *
@@ -18,6 +50,8 @@ export const REDIS_CLIENT = "REDIS_CLIENT";
  * If Redis is unavailable, returns a mock client that:
  * - Always returns null for GET operations
  * - Returns "OK" for SET operations
+ * - Counts INCR in memory, per instance
+ * - Returns one empty result per command queued in a transaction
  * - Doesn't throw errors
  *
  * This allows the application to function without caching
@@ -28,6 +62,7 @@ export const REDIS_CLIENT = "REDIS_CLIENT";
  * - REDIS_PORT: Redis server port (default: 6379)
  * - REDIS_PASSWORD: Redis password (optional)
  * - REDIS_DB: Redis database number (default: 0)
+ * - SLOW_REDIS_MS: Log commands slower than this, in ms (default: 100)
  *
  * Connection Behavior:
  * - Retries 3 times with exponential backoff (100ms, 200ms, 300ms)
@@ -37,11 +72,11 @@ export const REDIS_CLIENT = "REDIS_CLIENT";
 export const redisProvider = {
   provide: REDIS_CLIENT,
   useFactory: () => {
-    const logger = console;
+    const logger = new Logger("Redis");
 
     try {
       // Configure Redis connection options
-      const options: any = {
+      const options: RedisOptions = {
         host: process.env.REDIS_HOST || "localhost",
         port: parseInt(process.env.REDIS_PORT || "6379"),
         retryStrategy: (times: number) => {
@@ -62,10 +97,11 @@ export const redisProvider = {
       }
 
       const redis = new Redis(options);
+      logSlowCommands(redis, config().logging.slowRedisMs);
 
       // Log successful connection
       redis.on("connect", () => {
-        logger.log("✅ Redis connected successfully");
+        logger.log("Redis connected successfully");
       });
 
       // Log errors but don't crash - continue with degraded caching
@@ -82,14 +118,59 @@ export const redisProvider = {
 
       // Mock Redis client that implements the same interface
       // but does nothing - allows app to run without caching
+      const counters = new Map<string, number>();
+
+      // Transactions queue chainable no-ops; exec() returns the empty
+      // result of each queued command
+      const emptyResults: Record<string, unknown> = {
+        setex: "OK",
+        sadd: 0,
+        expire: 0,
+        zincrby: "0",
+        hset: 0,
+        zunionstore: 0,
+        zrevrange: [],
+        hmget: [],
+        del: 0,
+      };
+      const createTransaction = () => {
+        const queued: Array<[null, unknown]> = [];
+        const transaction: Record<string, unknown> = {
+          exec: async () => queued,
+        };
+        for (const [command, result] of Object.entries(emptyResults)) {
+          transaction[command] = () => {
+            queued.push([null, result]);
+            return transaction;
+          };
+        }
+        return transaction;
+      };
+
       return {
         get: async () => null, // Always cache miss
         set: async () => "OK", // Pretend to set
         setex: async () => "OK", // Pretend to set with expiry
         del: async () => 0, // Pretend to delete
+        incr: async (key: string) => {
+          const value = (counters.get(key) ?? 0) + 1; // Per-instance counter
+          counters.set(key, value);
+          return value;
+        },
+        zunionstore: async () => 0, // Empty union
         keys: async () => [], // No keys
         scan: async () => ["0", []], // Empty scan
+        smembers: async () => [], // Empty tag sets
+        eval: async () => 0, // Scripts do nothing
+        publish: async () => 0, // No subscribers
+        subscribe: async () => 1, // Never receives messages
+        duplicate() {
+          return this; // Subscriber connections are the same mock
+        },
+        quit: async () => "OK", // Nothing to close
+        multi: createTransaction, // Transactions that do nothing
         exists: async () => 0, // Key doesn't exist
+        pttl: async () => -2, // Key doesn't exist
         on: () => {}, // No-op event listener
       };
     }
@@ -100,6 +181,8 @@ export const redisProvider = {
  * RedisModule
  *
  * Global module providing Redis client throughout the application.
+ * Response caching goes through CacheService (CacheModule), which builds
+ * on this client.
  *
  * Features:
  * - Graceful fallback if Redis is unavailable
@@ -113,12 +196,8 @@ export const redisProvider = {
  * export class MyService {
  *   constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
  *
- *   async getData() {
- *     const cached = await this.redis.get('key');
- *     if (cached) return JSON.parse(cached);
- *     // ... fetch from database
- *     await this.redis.setex('key', 3600, JSON.stringify(data));
- *     return data;
+ *   async isHealthy() {
+ *     return (await this.redis.ping()) === "PONG";
  *   }
  * }
  * ```
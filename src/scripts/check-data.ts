@@ -1,4 +1,15 @@
+import { config } from "dotenv";
 import { PrismaClient } from "@prisma/client";
+import { Logger } from "@nestjs/common";
+import { AppLogger } from "../common/logger/app.logger";
+
+// Load environment variables
+config();
+
+// Structured logs (LOG_LEVEL, LOG_FORMAT, LOG_SINKS)
+const appLogger = new AppLogger();
+Logger.overrideLogger(appLogger);
+const logger = new Logger("CheckData");
 
 async function checkData() {
   const prisma = new PrismaClient();
@@ -8,17 +19,18 @@ async function checkData() {
     const stateCount = await prisma.state.count();
     const generationCount = await prisma.plantGeneration.count();
 
-    console.log("=== Database Status ===");
-    console.log(`States: ${stateCount}`);
-    console.log(`Plants: ${plantCount}`);
-    console.log(`Generation Records: ${generationCount}`);
+    logger.log({
+      message: `Database holds ${stateCount} states, ${plantCount} plants and ${generationCount} generation records`,
+      stateCount,
+      plantCount,
+      generationCount,
+    });
 
     if (plantCount === 0 || stateCount === 0) {
-      console.log("\n⚠️  Database is empty! Run seeding script:");
-      console.log("   npx ts-node prisma/seed.ts");
+      logger.warn(
+        "Database is empty; run the seeding script: npx ts-node prisma/seed.ts"
+      );
     } else {
-      console.log("\n✅ Database has data");
-
       // Sample data
       const samplePlant = await prisma.plantGeneration.findFirst({
         include: {
@@ -34,19 +46,21 @@ async function checkData() {
       });
 
       if (samplePlant) {
-        console.log("\nSample Plant:");
-        console.log(`  Name: ${samplePlant.plant.name}`);
-        console.log(`  State: ${samplePlant.plant.state.code}`);
-        console.log(`  Year: ${samplePlant.year}`);
-        console.log(
-          `  Generation: ${samplePlant.netGeneration.toLocaleString()} MWh`
-        );
+        logger.log({
+          message: `Top plant: ${samplePlant.plant.name} (${samplePlant.plant.state.code}, ${samplePlant.year})`,
+          name: samplePlant.plant.name,
+          state: samplePlant.plant.state.code,
+          year: samplePlant.year,
+          netGenerationMwh: Number(samplePlant.netGeneration),
+        });
       }
     }
   } catch (error) {
-    console.error("Error checking database:", error);
+    logger.error("Error checking database", error);
+    process.exitCode = 1;
   } finally {
     await prisma.$disconnect();
+    await appLogger.close();
   }
 }
 
@@ -1,15 +1,29 @@
 import * as ExcelJS from "exceljs";
 import * as path from "path";
 import { config } from "dotenv";
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 import Redis from "ioredis";
-import { RedisHelper } from "../common/utils/redis.helper";
+import { Logger } from "@nestjs/common";
+import { AppLogger } from "../common/logger/app.logger";
+import { CacheService } from "../cache/cache.service";
+import { WarmSetService } from "../cache/warm-set.service";
+import { FuelMixRepository } from "../modules/fuel-mix/repositories/fuel-mix.repository";
+import { FuelMixService } from "../modules/fuel-mix/fuel-mix.service";
+import { PlantRepository } from "../modules/plants/repositories/plant.repository";
+import { PlantsService } from "../modules/plants/plants.service";
 import { StateRepository } from "../modules/states/repositories/state.repository";
 import { CacheWarmingService } from "../modules/states/services/cache-warming.service";
+import { StatesService } from "../modules/states/states.service";
 
 // Load environment variables
 config();
 
+// Structured logs (LOG_LEVEL, LOG_FORMAT, LOG_SINKS), also used by the
+// repositories and services this script runs
+const appLogger = new AppLogger();
+Logger.overrideLogger(appLogger);
+const logger = new Logger("Ingest");
+
 // Initialize clients
 const prisma = new PrismaClient({
   log: ["error", "warn"],
@@ -26,9 +40,24 @@ const redis = new Redis({
   },
 });
 
-const redisHelper = new RedisHelper(redis);
+// The warm-set is never flushed here, so warming isn't counted as traffic
+const warmSet = new WarmSetService(redis);
+const cache = new CacheService(redis, warmSet);
+
+interface PlantAttributes {
+  orisCode: number | null;
+  primaryFuelCategory: string | null;
+  nameplateCapacityMw: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  county: string | null;
+  operatorName: string | null;
+  utilityName: string | null;
+  balancingAuthorityCode: string | null;
+  balancingAuthorityName: string | null;
+}
 
-interface PlantData {
+interface PlantData extends PlantAttributes {
   plantName: string;
   stateCode: string;
   netGeneration: number;
@@ -38,114 +67,603 @@ interface PlantDataWithPercent extends PlantData {
   percentOfState: number;
 }
 
-const CURRENT_YEAR = 2023; // eGRID 2023 data
+interface PlantSheet {
+  worksheet: ExcelJS.Worksheet;
+  year: number;
+}
+
+// Used when no workbook paths are passed on the command line
+const DEFAULT_WORKBOOK = path.join(__dirname, "../../data/egrid2023.xlsx");
+
+// eGRID names the plant sheet after the data year: PLNT18, PLNT19, ... PLNT23
+const PLANT_SHEET_PATTERN = /^PLNT(\d{2})$/i;
+const WORKBOOK_YEAR_PATTERN = /egrid(\d{4})/i;
 
 /**
- * Read Excel worksheets and list available sheets
+ * PLNT sheet columns by field
+ * Each field lists the descriptive header (first row) and the eGRID field
+ * code (second row); headers are matched case-insensitively.
  */
-async function readExcelWorksheets() {
+const PLANT_COLUMNS = {
+  plantName: ["Plant name", "PNAME"],
+  stateCode: ["Plant state abbreviation", "PSTATABB"],
+  netGeneration: ["Plant annual net generation (MWh)", "PLNGENAN"],
+  orisCode: ["DOE/EIA ORIS plant or facility code", "ORISPL"],
+  primaryFuelCategory: ["Plant primary fuel category", "PLFUELCT"],
+  nameplateCapacityMw: ["Plant nameplate capacity (MW)", "NAMEPCAP"],
+  latitude: ["Plant latitude", "LAT"],
+  longitude: ["Plant longitude", "LON"],
+  county: ["Plant county name", "CNTYNAME"],
+  operatorName: ["Plant operator name", "OPRNAME"],
+  utilityName: [
+    "Plant transmission or distribution system owner name",
+    "Utility name",
+    "UTLSRVNM",
+  ],
+  balancingAuthorityCode: [
+    "Plant balancing authority code",
+    "Balancing Authority Code",
+    "BACODE",
+  ],
+  balancingAuthorityName: [
+    "Plant balancing authority name",
+    "Balancing Authority Name",
+    "BANAME",
+  ],
+} as const;
+
+type PlantColumn = keyof typeof PLANT_COLUMNS;
+
+/**
+ * Resolve workbook paths from CLI arguments or EGRID_FILES
+ *
+ * @example
+ * npm run ingest:tx -- data/egrid2021.xlsx data/egrid2022.xlsx
+ * EGRID_FILES=data/egrid2019.xlsx,data/egrid2020.xlsx npm run ingest:tx
+ */
+function resolveWorkbookPaths(): string[] {
+  const cliPaths = process.argv.slice(2);
+  const envPaths = (process.env.EGRID_FILES || "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+
+  const paths = cliPaths.length > 0 ? cliPaths : envPaths;
+  if (paths.length === 0) {
+    return [DEFAULT_WORKBOOK];
+  }
+
+  return paths.map((p) => path.resolve(process.cwd(), p));
+}
+
+/**
+ * Load workbook and list available sheets
+ */
+async function loadWorkbook(filePath: string): Promise<ExcelJS.Workbook> {
   try {
     const workbook = new ExcelJS.Workbook();
-    const filePath = path.join(__dirname, "../../data/egrid2023.xlsx");
     await workbook.xlsx.readFile(filePath);
 
-    console.log("All worksheet names:");
-    console.log("-------------------");
-    workbook.worksheets.forEach((worksheet, index) => {
-      console.log(`${index + 1}. ${worksheet.name}`);
+    logger.log({
+      message: `Loaded ${path.basename(filePath)} with ${workbook.worksheets.length} worksheets`,
+      worksheets: workbook.worksheets.map((worksheet) => worksheet.name),
     });
-    console.log("-------------------");
-    console.log(`Total worksheets: ${workbook.worksheets.length}`);
+
+    return workbook;
   } catch (error) {
-    console.error("Error reading Excel file:", error);
+    logger.error(`Error reading Excel file ${filePath}`, error);
     throw error;
   }
 }
 
 /**
- * Read plant data from Excel sheet
+ * Locate the PLNTyy sheet and derive the data year from its name
+ *
+ * The sheet name is authoritative; the year in the file name (egrid2022.xlsx)
+ * is only used as a sanity check since files are often renamed on download.
+ */
+function findPlantSheet(
+  workbook: ExcelJS.Workbook,
+  filePath: string
+): PlantSheet {
+  const worksheet = workbook.worksheets.find((ws) =>
+    PLANT_SHEET_PATTERN.test(ws.name.trim())
+  );
+  const match = worksheet?.name.trim().match(PLANT_SHEET_PATTERN);
+
+  if (!worksheet || !match || !match[1]) {
+    throw new Error(`No PLNTyy worksheet found in ${path.basename(filePath)}`);
+  }
+
+  const year = 2000 + parseInt(match[1], 10);
+
+  const fileYear = path.basename(filePath).match(WORKBOOK_YEAR_PATTERN);
+  if (fileYear && fileYear[1] && parseInt(fileYear[1], 10) !== year) {
+    logger.warn(
+      `File name suggests ${fileYear[1]} but sheet ${worksheet.name} is ${year} - using ${year}`
+    );
+  }
+
+  logger.log(`Detected eGRID ${year} data in sheet ${worksheet.name}`);
+  return { worksheet, year };
+}
+
+/**
+ * Map header cells to column indexes for every known PLNT field
  */
-async function readPlantSheet(): Promise<PlantData[]> {
-  const workbook = new ExcelJS.Workbook();
-  const filePath = path.join(__dirname, "../../data/egrid2023.xlsx");
-  await workbook.xlsx.readFile(filePath);
-
-  const worksheet = workbook.getWorksheet("PLNT23");
-  if (!worksheet) {
-    throw new Error("PLNT23 worksheet not found");
+function findPlantColumns(values: any[]): Map<PlantColumn, number> {
+  const columns = new Map<PlantColumn, number>();
+  const fields = Object.keys(PLANT_COLUMNS) as PlantColumn[];
+
+  for (let i = 1; i < values.length; i++) {
+    const header = values[i]?.toString().trim().toLowerCase() || "";
+    if (!header) continue;
+
+    const field = fields.find((f) =>
+      PLANT_COLUMNS[f].some((alias) => alias.toLowerCase() === header)
+    );
+    if (field && !columns.has(field)) {
+      columns.set(field, i);
+    }
   }
 
-  console.log(`\nReading Plant sheet with ${worksheet.rowCount} rows...`);
+  return columns;
+}
+
+/**
+ * Parse a numeric cell, tolerating thousands separators
+ */
+function parseNumberCell(value: any): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = parseFloat(value.toString().replace(/,/g, ""));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parse a latitude/longitude cell, treating out-of-range values as missing
+ * so a bad row never lands on the map (or skews radius searches)
+ */
+function parseCoordinateCell(value: any, limit: number): number | null {
+  const parsed = parseNumberCell(value);
+  return parsed !== null && Math.abs(parsed) <= limit ? parsed : null;
+}
+
+/**
+ * Parse a text cell, treating blanks as missing
+ */
+function parseTextCell(value: any): string | null {
+  const text = value?.toString().trim();
+  return text ? text : null;
+}
+
+/**
+ * Read plant data from Excel sheet
+ */
+function readPlantSheet(worksheet: ExcelJS.Worksheet): PlantData[] {
+  logger.log(`Reading Plant sheet with ${worksheet.rowCount} rows`);
 
   const plants: PlantData[] = [];
   let headerRow: ExcelJS.Row | null = null;
-  let plantNameCol = -1;
-  let stateCodeCol = -1;
-  let netGenerationCol = -1;
+  let columns = new Map<PlantColumn, number>();
 
   // Find header row and columns
   worksheet.eachRow((row, rowNumber) => {
     if (!headerRow) {
-      const values = row.values as any[];
-      for (let i = 1; i < values.length; i++) {
-        const cellValue = values[i]?.toString() || "";
-        if (cellValue === "Plant name") plantNameCol = i;
-        if (cellValue === "Plant state abbreviation") stateCodeCol = i;
-        if (cellValue === "Plant annual net generation (MWh)")
-          netGenerationCol = i;
-      }
+      const found = findPlantColumns(row.values as any[]);
 
-      if (plantNameCol > 0 && stateCodeCol > 0) {
+      if (found.has("plantName") && found.has("stateCode")) {
         headerRow = row;
-        console.log(`\nFound header row at row ${rowNumber}`);
-        console.log(`  Plant Name Column: ${plantNameCol}`);
-        console.log(`  State Code Column: ${stateCodeCol}`);
-        console.log(`  Net Generation Column: ${netGenerationCol}`);
+        columns = found;
+        logger.log({
+          message: `Found header row at row ${rowNumber}`,
+          columns: Object.fromEntries(
+            (Object.keys(PLANT_COLUMNS) as PlantColumn[]).map((field) => [
+              field,
+              columns.get(field) ?? null,
+            ])
+          ),
+        });
       }
     }
   });
 
-  if (!headerRow || plantNameCol < 0 || stateCodeCol < 0) {
+  if (!headerRow) {
     throw new Error("Could not find required columns in Plant sheet");
   }
 
+  const cell = (values: any[], field: PlantColumn) => {
+    const index = columns.get(field);
+    return index !== undefined ? values[index] : null;
+  };
+
   // Read data rows
   let skippedRows = 0;
   worksheet.eachRow((row, rowNumber) => {
     if (!headerRow || rowNumber <= headerRow.number) return;
 
     const values = row.values as any[];
-    const plantName = values[plantNameCol]?.toString().trim();
-    const stateCode = values[stateCodeCol]?.toString().trim();
-    const netGenValue = netGenerationCol > 0 ? values[netGenerationCol] : null;
+    const plantName = parseTextCell(cell(values, "plantName"));
+    const stateCode = parseTextCell(cell(values, "stateCode"));
 
     if (!plantName || !stateCode) {
       skippedRows++;
       return;
     }
 
+    // Skip the eGRID field-code row that follows the descriptive header
     if (plantName === "PNAME" || stateCode === "PSTATABB") {
       skippedRows++;
       return;
     }
 
-    let netGeneration = 0;
-    if (
-      netGenValue !== null &&
-      netGenValue !== undefined &&
-      netGenValue !== ""
-    ) {
-      const parsed = parseFloat(netGenValue.toString().replace(/,/g, ""));
-      netGeneration = isNaN(parsed) ? 0 : parsed;
+    const orisCode = parseNumberCell(cell(values, "orisCode"));
+
+    plants.push({
+      plantName,
+      stateCode,
+      netGeneration: parseNumberCell(cell(values, "netGeneration")) ?? 0,
+      orisCode: orisCode !== null ? Math.trunc(orisCode) : null,
+      primaryFuelCategory:
+        parseTextCell(cell(values, "primaryFuelCategory"))?.toUpperCase() ??
+        null,
+      nameplateCapacityMw: parseNumberCell(cell(values, "nameplateCapacityMw")),
+      latitude: parseCoordinateCell(cell(values, "latitude"), 90),
+      longitude: parseCoordinateCell(cell(values, "longitude"), 180),
+      county: parseTextCell(cell(values, "county")),
+      operatorName: parseTextCell(cell(values, "operatorName")),
+      utilityName: parseTextCell(cell(values, "utilityName")),
+      balancingAuthorityCode: parseTextCell(
+        cell(values, "balancingAuthorityCode")
+      ),
+      balancingAuthorityName: parseTextCell(
+        cell(values, "balancingAuthorityName")
+      ),
+    });
+  });
+
+  logger.log({
+    message: `Parsed ${plants.length} plant records, skipped ${skippedRows} rows (empty or invalid)`,
+    plants: plants.length,
+    skippedRows,
+  });
+
+  return plants;
+}
+
+/**
+ * Extract the attribute columns stored on the Plant row
+ */
+function toPlantAttributes(plant: PlantData, year: number) {
+  return {
+    orisCode: plant.orisCode,
+    primaryFuelCategory: plant.primaryFuelCategory,
+    nameplateCapacityMw: plant.nameplateCapacityMw,
+    latitude: plant.latitude,
+    longitude: plant.longitude,
+    county: plant.county,
+    operatorName: plant.operatorName,
+    utilityName: plant.utilityName,
+    balancingAuthorityCode: plant.balancingAuthorityCode,
+    balancingAuthorityName: plant.balancingAuthorityName,
+    attributesYear: year,
+  };
+}
+
+/**
+ * Rows per statement when plants, generations and names are written
+ */
+const WRITE_CHUNK_SIZE = 1000;
+
+/**
+ * A stored plant, or one first seen in this workbook, while rows are matched
+ */
+interface PlantRecord {
+  /** Undefined until a plant first seen in this workbook is inserted */
+  id?: number;
+  name: string;
+  stateId: number;
+  orisCode: number | null;
+  attributesYear: number | null;
+  /** Attributes of the latest row of this workbook that refreshed the plant */
+  attributes?: ReturnType<typeof toPlantAttributes>;
+}
+
+/**
+ * Split rows into chunks of WRITE_CHUNK_SIZE
+ */
+function chunk<T>(rows: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+    chunks.push(rows.slice(i, i + WRITE_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+/**
+ * In-memory lookup of plants by ORIS code and by name + state
+ *
+ * The ORIS code is the canonical identity, so a plant renamed between
+ * vintages still resolves to the same row. Rows without an ORIS code (or
+ * plants stored before ORIS codes were captured) fall back to name + state,
+ * but never claim a plant already bound to a different ORIS code.
+ */
+class PlantIndex {
+  private readonly byOris = new Map<number, PlantRecord>();
+  /** Plants without an ORIS code, oldest first per name + state */
+  private readonly byName = new Map<string, PlantRecord[]>();
+
+  constructor(plants: PlantRecord[]) {
+    [...plants].sort((a, b) => a.id! - b.id!).forEach((p) => this.add(p));
+  }
+
+  find(plant: PlantData, stateId: number): PlantRecord | undefined {
+    const byOris =
+      plant.orisCode !== null ? this.byOris.get(plant.orisCode) : undefined;
+    return byOris ?? this.byName.get(`${stateId}:${plant.plantName}`)?.[0];
+  }
+
+  add(record: PlantRecord): void {
+    if (record.orisCode !== null) {
+      this.byOris.set(record.orisCode, record);
+      return;
+    }
+    const key = `${record.stateId}:${record.name}`;
+    this.byName.set(key, [...(this.byName.get(key) ?? []), record]);
+  }
+
+  remove(record: PlantRecord): void {
+    if (record.orisCode !== null) {
+      this.byOris.delete(record.orisCode);
+      return;
+    }
+    const key = `${record.stateId}:${record.name}`;
+    const rest = (this.byName.get(key) ?? []).filter((r) => r !== record);
+    if (rest.length > 0) {
+      this.byName.set(key, rest);
+    } else {
+      this.byName.delete(key);
     }
+  }
+}
 
-    plants.push({ plantName, stateCode, netGeneration });
+/**
+ * Load the stored plants the rows of a workbook may refer to
+ *
+ * One query for plants bound to the workbook's ORIS codes, one for the
+ * plants of its states that have no ORIS code yet.
+ */
+async function loadExistingPlants(
+  tx: Prisma.TransactionClient,
+  rows: Array<{ plant: PlantData; stateId: number }>
+): Promise<PlantRecord[]> {
+  const select = {
+    id: true,
+    name: true,
+    stateId: true,
+    orisCode: true,
+    attributesYear: true,
+  };
+  const orisCodes = rows.flatMap(({ plant }) =>
+    plant.orisCode !== null ? [plant.orisCode] : []
+  );
+  const stateIds = [...new Set(rows.map(({ stateId }) => stateId))];
+
+  const [byOris, unbound] = await Promise.all([
+    tx.plant.findMany({ where: { orisCode: { in: orisCodes } }, select }),
+    tx.plant.findMany({
+      where: { orisCode: null, stateId: { in: stateIds } },
+      select,
+    }),
+  ]);
+  return [...byOris, ...unbound];
+}
+
+/**
+ * Match every row of a workbook to a stored or new plant
+ *
+ * Rows are matched in sheet order against plants stored or first seen
+ * earlier in the workbook. Name, state and attributes from a newer vintage
+ * win over older workbooks.
+ *
+ * @returns The plant of each row, in row order
+ */
+function matchPlants(
+  rows: Array<{ plant: PlantData; stateId: number }>,
+  existing: PlantRecord[],
+  year: number
+): PlantRecord[] {
+  const index = new PlantIndex(existing);
+
+  return rows.map(({ plant, stateId }) => {
+    let record = index.find(plant, stateId);
+    if (!record) {
+      record = {
+        name: plant.plantName,
+        stateId,
+        orisCode: plant.orisCode,
+        attributesYear: null,
+      };
+      index.add(record);
+    }
+
+    if (record.attributesYear === null || record.attributesYear <= year) {
+      const attributes = toPlantAttributes(plant, year);
+      index.remove(record);
+      Object.assign(record, {
+        name: plant.plantName,
+        stateId,
+        orisCode: attributes.orisCode,
+        attributesYear: year,
+        attributes,
+      });
+      index.add(record);
+    }
+    return record;
   });
+}
 
-  console.log(`Skipped ${skippedRows} rows (empty or invalid)`);
-  console.log(`Successfully parsed ${plants.length} plant records`);
+/**
+ * Insert the plants first seen in this workbook and set their IDs
+ */
+async function insertNewPlants(
+  tx: Prisma.TransactionClient,
+  records: PlantRecord[]
+): Promise<void> {
+  for (const batch of chunk(records)) {
+    const created = await tx.plant.createManyAndReturn({
+      data: batch.map((record) => ({
+        ...record.attributes!,
+        name: record.name,
+        stateId: record.stateId,
+      })),
+      select: { id: true, name: true, stateId: true, orisCode: true },
+    });
 
-  return plants;
+    // Rows are matched back by identity, as RETURNING order is not defined.
+    // Within a workbook, new plants are unique by ORIS code, else by name +
+    // state (see matchPlants).
+    const identity = (p: Pick<PlantRecord, "name" | "stateId" | "orisCode">) =>
+      p.orisCode !== null ? `oris:${p.orisCode}` : `${p.stateId}:${p.name}`;
+    const ids = new Map(created.map((p) => [identity(p), p.id]));
+    for (const record of batch) {
+      const id = ids.get(identity(record));
+      if (id === undefined) {
+        throw new Error(`Inserted plant ${record.name} was not returned`);
+      }
+      record.id = id;
+    }
+  }
+}
+
+/**
+ * Write the name, state and attributes of stored plants refreshed by this
+ * workbook
+ */
+async function updatePlants(
+  tx: Prisma.TransactionClient,
+  records: PlantRecord[]
+): Promise<void> {
+  for (const batch of chunk(records)) {
+    const values = batch.map((record) => {
+      const a = record.attributes!;
+      return Prisma.sql`(${record.id}::int, ${record.name}::text,
+        ${record.stateId}::int, ${a.orisCode}::int,
+        ${a.primaryFuelCategory}::text, ${a.nameplateCapacityMw}::numeric,
+        ${a.latitude}::float8, ${a.longitude}::float8, ${a.county}::text,
+        ${a.operatorName}::text, ${a.utilityName}::text,
+        ${a.balancingAuthorityCode}::text, ${a.balancingAuthorityName}::text,
+        ${a.attributesYear}::int)`;
+    });
+
+    await tx.$executeRaw`
+      UPDATE plants AS p SET
+        name = v.name,
+        state_id = v.state_id,
+        oris_code = v.oris_code,
+        primary_fuel_category = v.primary_fuel_category,
+        nameplate_capacity_mw = v.nameplate_capacity_mw,
+        latitude = v.latitude,
+        longitude = v.longitude,
+        county = v.county,
+        operator_name = v.operator_name,
+        utility_name = v.utility_name,
+        balancing_authority_code = v.balancing_authority_code,
+        balancing_authority_name = v.balancing_authority_name,
+        attributes_year = v.attributes_year
+      FROM (VALUES ${Prisma.join(values)}) AS v(
+        id, name, state_id, oris_code, primary_fuel_category,
+        nameplate_capacity_mw, latitude, longitude, county, operator_name,
+        utility_name, balancing_authority_code, balancing_authority_name,
+        attributes_year
+      )
+      WHERE p.id = v.id
+    `;
+  }
+}
+
+/**
+ * Record that each plant was reported under a name in the given year
+ *
+ * Keeps one row per (plant, name) and widens its first/last year span, so
+ * re-ingesting vintages in any order yields the same history.
+ */
+async function recordPlantNames(
+  tx: Prisma.TransactionClient,
+  names: Array<{ plantId: number; name: string }>,
+  year: number
+): Promise<void> {
+  for (const batch of chunk(names)) {
+    const values = batch.map(
+      ({ plantId, name }) =>
+        Prisma.sql`(${plantId}::int, ${name}::text, ${year}::int, ${year}::int)`
+    );
+
+    await tx.$executeRaw`
+      INSERT INTO plant_name_history (plant_id, name, first_year, last_year)
+      VALUES ${Prisma.join(values)}
+      ON CONFLICT (plant_id, name) DO UPDATE SET
+        first_year = LEAST(plant_name_history.first_year, EXCLUDED.first_year),
+        last_year = GREATEST(plant_name_history.last_year, EXCLUDED.last_year)
+    `;
+  }
+}
+
+/**
+ * Create or refresh the plants of a workbook and record their generation
+ *
+ * Rows are matched in memory against plants prefetched in two queries, then
+ * written in chunks, so a full PLNT sheet takes a few dozen round trips
+ * instead of several per plant. Generation rows for the year must already
+ * have been deleted.
+ *
+ * @returns Number of plants written
+ */
+async function ingestPlants(
+  tx: Prisma.TransactionClient,
+  rows: Array<{ plant: PlantData; stateId: number }>,
+  year: number
+): Promise<number> {
+  const existing = await loadExistingPlants(tx, rows);
+  const matched = matchPlants(rows, existing, year);
+  logger.log(
+    `[TX] Matched ${rows.length} rows against ${existing.length} stored plants`
+  );
+
+  const plants = [...new Set(matched)];
+  const created = plants.filter((record) => record.id === undefined);
+  const refreshed = plants.filter(
+    (record) => record.id !== undefined && record.attributes
+  );
+  await insertNewPlants(tx, created);
+  await updatePlants(tx, refreshed);
+  logger.log(
+    `[TX] Created ${created.length} and refreshed ${refreshed.length} plants`
+  );
+
+  // Later rows of the same plant win, as they would one plant at a time
+  const generations = new Map<number, number>();
+  const names = new Map<string, { plantId: number; name: string }>();
+  rows.forEach(({ plant }, i) => {
+    const plantId = matched[i]!.id!;
+    generations.set(plantId, plant.netGeneration);
+    names.set(`${plantId}:${plant.plantName}`, {
+      plantId,
+      name: plant.plantName,
+    });
+  });
+
+  for (const batch of chunk([...generations])) {
+    await tx.plantGeneration.createMany({
+      data: batch.map(([plantId, netGeneration]) => ({
+        plantId,
+        year,
+        netGeneration,
+      })),
+    });
+  }
+  await recordPlantNames(tx, [...names.values()], year);
+
+  return plants.length;
 }
 
 /**
@@ -176,276 +694,265 @@ function computePlantPercentages(
 }
 
 /**
- * Refresh materialized view concurrently (non-blocking)
+ * Refresh materialized views concurrently (non-blocking)
  */
 async function refreshMaterializedView(): Promise<void> {
-  console.log("\n=== Refreshing Materialized View (CONCURRENT) ===");
+  logger.log("Refreshing materialized views (CONCURRENT)");
 
   try {
     const startTime = Date.now();
 
     // CONCURRENT refresh allows reads during refresh
     await prisma.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY state_generation_mv`;
+    await prisma.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY state_fuel_mix_mv`;
 
     const duration = Date.now() - startTime;
-    console.log(`✓ Materialized view refreshed concurrently in ${duration}ms`);
+    logger.log({
+      message: "Materialized views refreshed concurrently",
+      durationMs: duration,
+    });
   } catch (error) {
-    console.error("✗ Failed to refresh materialized view:", error);
+    logger.error("Failed to refresh materialized view", error);
     throw error;
   }
 }
 
 /**
- * Invalidate Redis cache for states
+ * Invalidate every cached API response (plants, states and fuel mix)
+ *
+ * Bumps the dataset version embedded in all cache keys, so every API
+ * instance switches to fresh entries at once; entries of the previous
+ * version are no longer read and expire with their TTL.
  */
 async function invalidateCache(): Promise<void> {
-  console.log("\n=== Invalidating Redis Cache ===");
+  logger.log("Invalidating Redis cache");
 
   try {
     const startTime = Date.now();
 
-    // Delete all keys with prefixes: states: and state:
-    const deletedKeys = await redisHelper.deleteByPrefixes([
-      "states:",
-      "state:",
-    ]);
+    const datasetVersion = await cache.bumpDatasetVersion();
 
     const duration = Date.now() - startTime;
 
-    console.log("✓ Cache invalidation completed:");
-    deletedKeys.forEach((count, prefix) => {
-      console.log(`  - ${prefix}* : ${count} keys deleted`);
+    logger.log({
+      message: "Cache invalidation completed",
+      datasetVersion,
+      durationMs: duration,
     });
-    console.log(`  Duration: ${duration}ms`);
   } catch (error) {
-    console.error("✗ Failed to invalidate cache:", error);
+    logger.error("Failed to invalidate cache", error);
     // Don't throw - cache invalidation failure shouldn't stop the process
-    console.warn("⚠ Continuing without cache invalidation");
+    logger.warn("Continuing without cache invalidation");
   }
 }
 
 /**
  * Rebuild hot payloads by warming cache
+ *
+ * Replays the default views and the most-requested API queries (the
+ * warm-set learned by the API instances) through the service layer, so the
+ * keys real traffic reads are cached under the new dataset version.
  */
 async function rebuildHotPayloads(): Promise<void> {
-  console.log("\n=== Rebuilding Hot Payloads ===");
+  logger.log("Rebuilding hot payloads");
 
   try {
-    const startTime = Date.now();
-
-    // Initialize services
-    const stateRepository = new StateRepository(prisma as any, redis);
-    const cacheWarmingService = new CacheWarmingService(redis, stateRepository);
-
-    // Warm all state caches
-    const statesWarmed = await cacheWarmingService.warmAllStates();
+    // Initialize services as the API wires them
+    const plantRepository = new PlantRepository(prisma as any);
+    const fuelMixService = new FuelMixService(
+      new FuelMixRepository(prisma as any, cache)
+    );
+    const statesService = new StatesService(
+      prisma as any,
+      new StateRepository(prisma as any, cache),
+      plantRepository,
+      fuelMixService,
+      cache
+    );
+    const plantsService = new PlantsService(
+      prisma as any,
+      plantRepository,
+      cache
+    );
+    const cacheWarmingService = new CacheWarmingService(
+      statesService,
+      plantsService,
+      fuelMixService,
+      warmSet
+    );
 
-    // Warm recent years (last 5 years)
-    await cacheWarmingService.warmRecentYears(5);
+    const result = await cacheWarmingService.warm();
 
-    const duration = Date.now() - startTime;
-    console.log(`✓ Hot payloads rebuilt in ${duration}ms`);
-    console.log(`  - States warmed: ${statesWarmed}`);
-
-    // Get warming statistics
-    const stats = await cacheWarmingService.getWarmingStats();
-    console.log(`  - Total Redis keys: ${stats.totalKeys}`);
-    console.log(
-      `  - Memory usage: ${(stats.memoryUsage / 1024 / 1024).toFixed(2)} MB`
-    );
+    logger.log({
+      message: `Hot payloads rebuilt (${result.warmed}/${result.targets} requests warmed)`,
+      ...result,
+    });
   } catch (error) {
-    console.error("✗ Failed to rebuild hot payloads:", error);
+    logger.error("Failed to rebuild hot payloads", error);
     // Don't throw - cache warming failure shouldn't stop the process
-    console.warn("⚠ Continuing without cache warming");
+    logger.warn("Continuing without cache warming");
   }
 }
 
 /**
- * Main ingestion function with transaction
+ * Ingest a single eGRID workbook inside one transaction
+ *
+ * Only generation rows for the workbook's own year are replaced, so loading
+ * eGRID 2021 leaves previously ingested 2022/2023 data untouched.
+ *
+ * @returns The data year detected from the workbook
  */
-async function ingestData() {
-  const startTime = Date.now();
+async function ingestWorkbook(filePath: string): Promise<number> {
+  logger.log(`Ingesting ${path.basename(filePath)}`);
+
+  // Step 1: Read Excel data
+  const workbook = await loadWorkbook(filePath);
+  const { worksheet, year } = findPlantSheet(workbook, filePath);
+  const plants = readPlantSheet(worksheet);
+
+  // Step 2: Aggregate and compute statistics
+  const stateGenerationMap = aggregateGenerationByState(plants);
+  logger.log(`Aggregated data for ${stateGenerationMap.size} states`);
+
+  const plantsWithPercentages = computePlantPercentages(
+    plants,
+    stateGenerationMap
+  );
+
+  // Display top 10 states
+  const topStates = Array.from(stateGenerationMap.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10);
+
+  logger.log({
+    message: `Top 10 states by total generation (${year}): ${topStates
+      .map(([state]) => state)
+      .join(", ")}`,
+    topStates: Object.fromEntries(topStates),
+  });
 
-  try {
-    console.log("=== Starting Data Ingestion Pipeline ===\n");
+  // === TRANSACTION STARTS HERE ===
+  logger.log(`Starting database transaction (${year})`);
+  const txStartTime = Date.now();
+
+  await prisma.$transaction(
+    async (tx) => {
+      logger.log("[TX] Step 1: Upserting states");
+      const stateIdMap = new Map<string, number>();
+
+      // Upsert states
+      for (const [stateCode] of stateGenerationMap.entries()) {
+        const state = await tx.state.upsert({
+          where: { code: stateCode },
+          update: {},
+          create: {
+            code: stateCode,
+            name: stateCode, // Can be enhanced with full state names
+          },
+        });
+        stateIdMap.set(stateCode, state.id);
+      }
+      logger.log(`[TX] Upserted ${stateIdMap.size} states`);
+
+      logger.log(`[TX] Step 2: Cleaning old ${year} data`);
+      // Delete existing generation data for this year only - other vintages are kept
+      const deletedGenerations = await tx.plantGeneration.deleteMany({
+        where: { year },
+      });
+      logger.log(
+        `[TX] Deleted ${deletedGenerations.count} existing ${year} generation records`
+      );
 
-    // Step 1: Read Excel data
-    await readExcelWorksheets();
-    const plants = await readPlantSheet();
-    console.log(`\nTotal plants processed: ${plants.length}`);
+      logger.log("[TX] Step 3: Upserting plants and generations");
+      const rows = plantsWithPercentages.flatMap((plant) => {
+        const stateId = stateIdMap.get(plant.stateCode);
+        return stateId ? [{ plant, stateId }] : [];
+      });
+      const skippedCount = plantsWithPercentages.length - rows.length;
 
-    // Step 2: Aggregate and compute statistics
-    const stateGenerationMap = aggregateGenerationByState(plants);
-    console.log(`\nAggregated data for ${stateGenerationMap.size} states`);
+      // A failed statement aborts the Postgres transaction, so any error
+      // ends the run
+      let plantCount: number;
+      try {
+        plantCount = await ingestPlants(tx, rows, year);
+      } catch (error) {
+        logger.error(`[TX] Error writing plants; rolling back ${year}`, error);
+        throw error;
+      }
 
-    const plantsWithPercentages = computePlantPercentages(
-      plants,
-      stateGenerationMap
-    );
+      logger.log(
+        `[TX] Successfully processed ${rows.length} rows (${plantCount} plants)`
+      );
+      if (skippedCount > 0) {
+        logger.warn(`[TX] Skipped ${skippedCount} plants without a state`);
+      }
 
-    // Display top 10 states
-    const topStates = Array.from(stateGenerationMap.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10);
+      logger.log("[TX] Transaction completed successfully");
+    },
+    {
+      timeout: 300000, // 5 minutes timeout
+      maxWait: 10000, // 10 seconds max wait to acquire connection
+    }
+  );
+  // === TRANSACTION ENDS HERE ===
 
-    console.log("\nTop 10 states by total generation:");
-    topStates.forEach(([state, total], index) => {
-      console.log(`${index + 1}. ${state}: ${total.toLocaleString()} MWh`);
-    });
+  const txDuration = Date.now() - txStartTime;
+  logger.log({
+    message: `Transaction committed (${year})`,
+    durationMs: txDuration,
+  });
 
-    // === TRANSACTION STARTS HERE ===
-    console.log("\n=== Starting Database Transaction ===");
-    const txStartTime = Date.now();
-
-    await prisma.$transaction(
-      async (tx) => {
-        console.log("\n[TX] Step 1: Upserting states...");
-        const stateIdMap = new Map<string, number>();
-
-        // Upsert states
-        for (const [stateCode] of stateGenerationMap.entries()) {
-          const state = await tx.state.upsert({
-            where: { code: stateCode },
-            update: {},
-            create: {
-              code: stateCode,
-              name: stateCode, // Can be enhanced with full state names
-            },
-          });
-          stateIdMap.set(stateCode, state.id);
-        }
-        console.log(`[TX] ✓ Upserted ${stateIdMap.size} states`);
-
-        console.log("\n[TX] Step 2: Cleaning old data...");
-        // Delete existing generation data for this year
-        const deletedGenerations = await tx.plantGeneration.deleteMany({
-          where: { year: CURRENT_YEAR },
-        });
-        console.log(
-          `[TX] ✓ Deleted ${deletedGenerations.count} existing generation records`
-        );
-
-        console.log("\n[TX] Step 3: Upserting plants and generations...");
-        let successCount = 0;
-        let errorCount = 0;
-        const BATCH_SIZE = 100;
-
-        // Process plants in batches
-        for (let i = 0; i < plantsWithPercentages.length; i += BATCH_SIZE) {
-          const batch = plantsWithPercentages.slice(i, i + BATCH_SIZE);
-
-          await Promise.all(
-            batch.map(async (plant) => {
-              try {
-                const stateId = stateIdMap.get(plant.stateCode);
-                if (!stateId) {
-                  errorCount++;
-                  return;
-                }
-
-                // Upsert plant
-                const dbPlant = await tx.plant.upsert({
-                  where: {
-                    name_stateId: {
-                      name: plant.plantName,
-                      stateId,
-                    },
-                  },
-                  update: {},
-                  create: {
-                    name: plant.plantName,
-                    stateId,
-                  },
-                });
-
-                // Create generation record
-                await tx.plantGeneration.upsert({
-                  where: {
-                    plantId_year: {
-                      plantId: dbPlant.id,
-                      year: CURRENT_YEAR,
-                    },
-                  },
-                  update: {
-                    netGeneration: plant.netGeneration,
-                  },
-                  create: {
-                    plantId: dbPlant.id,
-                    year: CURRENT_YEAR,
-                    netGeneration: plant.netGeneration,
-                  },
-                });
-
-                successCount++;
-              } catch (error) {
-                errorCount++;
-                console.error(
-                  `[TX] Error processing plant ${plant.plantName}:`,
-                  error
-                );
-              }
-            })
-          );
-
-          // Log progress
-          const processed = Math.min(
-            i + BATCH_SIZE,
-            plantsWithPercentages.length
-          );
-          console.log(
-            `[TX]   Processed ${processed}/${plantsWithPercentages.length} plants...`
-          );
-        }
-
-        console.log(`\n[TX] ✓ Successfully processed ${successCount} plants`);
-        if (errorCount > 0) {
-          console.log(`[TX] ⚠ Failed to process ${errorCount} plants`);
-        }
-
-        console.log("\n[TX] Transaction completed successfully");
-      },
-      {
-        timeout: 300000, // 5 minutes timeout
-        maxWait: 10000, // 10 seconds max wait to acquire connection
-      }
+  return year;
+}
+
+/**
+ * Main ingestion pipeline
+ *
+ * Each workbook is committed in its own transaction; the materialized view
+ * refresh and cache rebuild run once after all years are loaded.
+ */
+async function ingestData(filePaths: string[]) {
+  const startTime = Date.now();
+
+  try {
+    logger.log(
+      `Starting data ingestion pipeline (${filePaths.length} workbooks)`
     );
-    // === TRANSACTION ENDS HERE ===
 
-    const txDuration = Date.now() - txStartTime;
-    console.log(`\n✓ Transaction committed in ${txDuration}ms`);
+    // Step 1: Load each workbook (one transaction per eGRID year)
+    const ingestedYears: number[] = [];
+    for (const filePath of filePaths) {
+      ingestedYears.push(await ingestWorkbook(filePath));
+    }
 
-    // Step 3: Database summary
-    console.log("\n=== Database Summary ===");
+    // Step 2: Database summary
     const stateCount = await prisma.state.count();
     const plantCount = await prisma.plant.count();
     const generationCount = await prisma.plantGeneration.count();
-    console.log(`Total states in DB: ${stateCount}`);
-    console.log(`Total plants in DB: ${plantCount}`);
-    console.log(`Total generation records in DB: ${generationCount}`);
+    logger.log({
+      message: `Database now holds ${stateCount} states, ${plantCount} plants and ${generationCount} generation records`,
+      stateCount,
+      plantCount,
+      generationCount,
+    });
 
-    // Step 4: Refresh materialized view (CONCURRENT - non-blocking)
+    // Step 3: Refresh materialized view (CONCURRENT - non-blocking)
     await refreshMaterializedView();
 
-    // Step 5: Invalidate Redis cache
+    // Step 4: Invalidate Redis cache
     await invalidateCache();
 
-    // Step 6: Rebuild hot payloads
+    // Step 5: Rebuild hot payloads
     await rebuildHotPayloads();
 
     const totalDuration = Date.now() - startTime;
-    console.log(`\n${"=".repeat(50)}`);
-    console.log("=== Ingestion Pipeline Completed Successfully ===");
-    console.log(`${"=".repeat(50)}`);
-    console.log(
-      `Total time: ${totalDuration}ms (${(totalDuration / 1000).toFixed(2)}s)`
-    );
-    console.log(`✓ Data ingested in transaction`);
-    console.log(`✓ Materialized view refreshed concurrently`);
-    console.log(`✓ Cache invalidated (states:*, state:*)`);
-    console.log(`✓ Hot payloads rebuilt`);
-    console.log(`${"=".repeat(50)}\n`);
+    logger.log({
+      message: `Ingestion pipeline completed (years: ${ingestedYears.join(", ")})`,
+      years: ingestedYears,
+      durationMs: totalDuration,
+    });
   } catch (error) {
-    console.error("\n✗ Ingestion pipeline failed:", error);
+    logger.error("Ingestion pipeline failed", error);
     throw error;
   }
 }
@@ -458,26 +965,27 @@ async function main() {
 
   try {
     // Check Redis connection
-    console.log("Checking Redis connection...");
+    logger.log("Checking Redis connection");
     try {
       await redis.ping();
-      console.log("✓ Redis connected\n");
+      logger.log("Redis connected");
       redisAvailable = true;
     } catch (redisError) {
-      console.warn(
-        "⚠ Redis is not available - caching features will be disabled"
+      logger.warn(
+        "Redis is not available - cache invalidation and warming will be skipped"
       );
-      console.warn("  Cache invalidation and warming will be skipped\n");
       redisAvailable = false;
     }
 
     // Run ingestion
-    await ingestData();
+    await ingestData(resolveWorkbookPaths());
 
-    console.log("✓ Script completed successfully");
+    logger.log("Script completed successfully");
+    await appLogger.close();
     process.exit(0);
   } catch (error) {
-    console.error("\n✗ Script failed:", error);
+    logger.error("Script failed", error);
+    await appLogger.close();
     process.exit(1);
   } finally {
     // Cleanup
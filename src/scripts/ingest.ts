@@ -2,10 +2,17 @@ import * as ExcelJS from "exceljs";
 import * as path from "path";
 import { config } from "dotenv";
 import { PrismaClient } from "@prisma/client";
+import { Logger } from "@nestjs/common";
+import { AppLogger } from "../common/logger/app.logger";
 
 // Load environment variables
 config();
 
+// Structured logs (LOG_LEVEL, LOG_FORMAT, LOG_SINKS)
+const appLogger = new AppLogger();
+Logger.overrideLogger(appLogger);
+const logger = new Logger("Ingest");
+
 const prisma = new PrismaClient();
 
 interface PlantData {
@@ -27,18 +34,12 @@ async function readExcelWorksheets() {
     const filePath = path.join(__dirname, "../../data/egrid2023.xlsx");
     await workbook.xlsx.readFile(filePath);
 
-    console.log("All worksheet names:");
-    console.log("-------------------");
-
-    // Iterate through all worksheets and print their names
-    workbook.worksheets.forEach((worksheet, index) => {
-      console.log(`${index + 1}. ${worksheet.name}`);
+    logger.log({
+      message: `Loaded ${path.basename(filePath)} with ${workbook.worksheets.length} worksheets`,
+      worksheets: workbook.worksheets.map((worksheet) => worksheet.name),
     });
-
-    console.log("-------------------");
-    console.log(`Total worksheets: ${workbook.worksheets.length}`);
   } catch (error) {
-    console.error("Error reading Excel file:", error);
+    logger.error("Error reading Excel file", error);
     throw error;
   }
 }
@@ -56,7 +57,7 @@ async function readPlantSheet(): Promise<PlantData[]> {
       throw new Error("PLNT23 worksheet not found");
     }
 
-    console.log(`\nReading Plant sheet with ${worksheet.rowCount} rows...`);
+    logger.log(`Reading Plant sheet with ${worksheet.rowCount} rows`);
 
     const plants: PlantData[] = [];
     let headerRow: ExcelJS.Row | null = null;
@@ -93,14 +94,14 @@ async function readPlantSheet(): Promise<PlantData[]> {
         // If we found at least plant name and state columns, this is the header
         if (plantNameCol > 0 && stateCodeCol > 0) {
           headerRow = row;
-          console.log(`\nFound header row at row ${rowNumber}`);
-          console.log(`  Plant Name Column: ${plantNameCol}`);
-          console.log(`  State Code Column: ${stateCodeCol}`);
-          console.log(
-            `  Net Generation Column: ${
-              netGenerationCol > 0 ? netGenerationCol : "Not found"
-            }`
-          );
+          logger.log({
+            message: `Found header row at row ${rowNumber}`,
+            columns: {
+              plantName: plantNameCol,
+              stateCode: stateCodeCol,
+              netGeneration: netGenerationCol > 0 ? netGenerationCol : null,
+            },
+          });
           return;
         }
       }
@@ -155,25 +156,23 @@ async function readPlantSheet(): Promise<PlantData[]> {
       });
     });
 
-    console.log(`Skipped ${skippedRows} rows (empty or invalid)`);
-
-    console.log(`\nSuccessfully parsed ${plants.length} plant records`);
+    logger.log({
+      message: `Parsed ${plants.length} plant records, skipped ${skippedRows} rows (empty or invalid)`,
+      plants: plants.length,
+      skippedRows,
+    });
 
     // Display first 10 records as sample
     if (plants.length > 0) {
-      console.log("\nFirst 10 records:");
-      plants.slice(0, 10).forEach((plant, index) => {
-        console.log(
-          `${index + 1}. ${plant.plantName} (${plant.stateCode}) - Net Gen: ${
-            plant.netGeneration
-          }`
-        );
+      logger.debug({
+        message: "First 10 records",
+        records: plants.slice(0, 10),
       });
     }
 
     return plants;
   } catch (error) {
-    console.error("Error reading Plant sheet:", error);
+    logger.error("Error reading Plant sheet", error);
     throw error;
   }
 }
@@ -208,7 +207,7 @@ function computePlantPercentages(
 async function upsertStatesToDB(
   stateGenerationMap: Map<string, number>
 ): Promise<Map<string, number>> {
-  console.log("\n=== Upserting States to Database ===");
+  logger.log("Upserting states to database");
   const stateIdMap = new Map<string, number>();
 
   for (const [stateCode] of stateGenerationMap.entries()) {
@@ -225,24 +224,25 @@ async function upsertStatesToDB(
     stateIdMap.set(stateCode, state.id);
   }
 
-  console.log(`✓ Upserted ${stateIdMap.size} states`);
+  logger.log(`Upserted ${stateIdMap.size} states`);
   return stateIdMap;
 }
 
 function logTop10PlantsByGeneration(plants: PlantDataWithPercent[]): void {
-  console.log("\n=== Top 10 Plants by Net Generation ===");
-
   const topPlants = plants
     .sort((a, b) => b.netGeneration - a.netGeneration)
     .slice(0, 10);
 
-  topPlants.forEach((plant, index) => {
-    console.log(
-      `${index + 1}. ${plant.plantName}` +
-        `\n   State: ${plant.stateCode}` +
-        `\n   Net Generation: ${plant.netGeneration.toLocaleString()} MWh` +
-        `\n   Percentage of State: ${plant.percentOfState.toFixed(4)}%\n`
-    );
+  logger.log({
+    message: `Top 10 plants by net generation: ${topPlants
+      .map((plant) => plant.plantName)
+      .join(", ")}`,
+    topPlants: topPlants.map((plant) => ({
+      plantName: plant.plantName,
+      stateCode: plant.stateCode,
+      netGeneration: plant.netGeneration,
+      percentOfState: Number(plant.percentOfState.toFixed(4)),
+    })),
   });
 }
 
@@ -250,14 +250,14 @@ async function upsertPlantsToDB(
   plants: PlantDataWithPercent[],
   stateIdMap: Map<string, number>
 ): Promise<void> {
-  console.log("\n=== Upserting Plants and Generations to Database ===");
+  logger.log("Upserting plants and generations to database");
 
   // Delete all existing plant generations and plants
   await prisma.plantGeneration.deleteMany({});
-  console.log(`✓ Deleted existing plant generations`);
+  logger.log("Deleted existing plant generations");
 
   const deleteResult = await prisma.plant.deleteMany({});
-  console.log(`✓ Deleted ${deleteResult.count} existing plants`);
+  logger.log(`Deleted ${deleteResult.count} existing plants`);
 
   let successCount = 0;
   let errorCount = 0;
@@ -270,7 +270,7 @@ async function upsertPlantsToDB(
       const stateId = stateIdMap.get(plant.stateCode);
 
       if (!stateId) {
-        console.error(`Warning: State ID not found for ${plant.stateCode}`);
+        logger.warn(`State ID not found for ${plant.stateCode}`);
         errorCount++;
         continue;
       }
@@ -293,35 +293,39 @@ async function upsertPlantsToDB(
 
       // Log progress every 1000 plants
       if (successCount % 1000 === 0) {
-        console.log(`  Processed ${successCount} plants...`);
+        logger.log(`Processed ${successCount} plants`);
       }
     } catch (error) {
       errorCount++;
-      console.error(`Error inserting plant ${plant.plantName}:`, error);
+      logger.error(`Error inserting plant ${plant.plantName}`, error);
     }
   }
 
-  console.log(
-    `✓ Successfully inserted ${successCount} plants with generation data`
+  logger.log(
+    `Successfully inserted ${successCount} plants with generation data`
   );
   if (errorCount > 0) {
-    console.log(`✗ Failed to insert ${errorCount} plants`);
+    logger.warn(`Failed to insert ${errorCount} plants`);
   }
 }
 
 async function refreshMaterializedView(): Promise<void> {
-  console.log("\n=== Refreshing Materialized View ===");
+  logger.log("Refreshing materialized views");
 
   try {
     const startTime = Date.now();
 
     // Use raw SQL to refresh the materialized view
     await prisma.$executeRaw`REFRESH MATERIALIZED VIEW state_generation_mv`;
+    await prisma.$executeRaw`REFRESH MATERIALIZED VIEW state_fuel_mix_mv`;
 
     const duration = Date.now() - startTime;
-    console.log(`✓ Materialized view refreshed successfully in ${duration}ms`);
+    logger.log({
+      message: "Materialized views refreshed",
+      durationMs: duration,
+    });
   } catch (error) {
-    console.error("✗ Failed to refresh materialized view:", error);
+    logger.error("Failed to refresh materialized view", error);
     throw error;
   }
 }
@@ -330,20 +334,21 @@ async function refreshMaterializedView(): Promise<void> {
 async function main() {
   await readExcelWorksheets();
   const plants = await readPlantSheet();
-  console.log(`\nTotal plants processed: ${plants.length}`);
 
   // Aggregate generation by state
   const stateGenerationMap = aggregateGenerationByState(plants);
-  console.log(`\nAggregated data for ${stateGenerationMap.size} states`);
+  logger.log(`Aggregated data for ${stateGenerationMap.size} states`);
 
   // Display top 10 states by total generation
   const topStates = Array.from(stateGenerationMap.entries())
     .sort((a, b) => b[1] - a[1])
     .slice(0, 10);
 
-  console.log("\nTop 10 states by total generation:");
-  topStates.forEach(([state, total], index) => {
-    console.log(`${index + 1}. ${state}: ${total.toLocaleString()} MWh`);
+  logger.log({
+    message: `Top 10 states by total generation: ${topStates
+      .map(([state]) => state)
+      .join(", ")}`,
+    topStates: Object.fromEntries(topStates),
   });
 
   // Compute percentages for each plant
@@ -353,13 +358,9 @@ async function main() {
   );
 
   // Display sample plants with percentages
-  console.log("\nSample plants with percentage of state total:");
-  plantsWithPercentages.slice(0, 10).forEach((plant, index) => {
-    console.log(
-      `${index + 1}. ${plant.plantName} (${plant.stateCode}) - ` +
-        `${plant.netGeneration.toLocaleString()} MWh - ` +
-        `${plant.percentOfState.toFixed(4)}% of state`
-    );
+  logger.debug({
+    message: "Sample plants with percentage of state total",
+    records: plantsWithPercentages.slice(0, 10),
   });
 
   // Log top 10 plants by net generation
@@ -372,23 +373,27 @@ async function main() {
   // Refresh materialized view once after all data is loaded
   await refreshMaterializedView();
 
-  console.log("\n=== Database Summary ===");
   const stateCount = await prisma.state.count();
   const plantCount = await prisma.plant.count();
   const generationCount = await prisma.plantGeneration.count();
-  console.log(`Total states in DB: ${stateCount}`);
-  console.log(`Total plants in DB: ${plantCount}`);
-  console.log(`Total generation records in DB: ${generationCount}`);
+  logger.log({
+    message: `Database now holds ${stateCount} states, ${plantCount} plants and ${generationCount} generation records`,
+    stateCount,
+    plantCount,
+    generationCount,
+  });
 }
 
 main()
   .then(async () => {
     await prisma.$disconnect();
-    console.log("\n✓ Script completed successfully");
+    logger.log("Script completed successfully");
+    await appLogger.close();
     process.exit(0);
   })
   .catch(async (error) => {
-    console.error("✗ Script failed:", error);
+    logger.error("Script failed", error);
     await prisma.$disconnect();
+    await appLogger.close();
     process.exit(1);
   });
@@ -0,0 +1,64 @@
+import { config as loadEnv } from "dotenv";
+import { config } from "../config/configuration";
+import { signJwt } from "../common/utils/jwt.helper";
+
+// Load environment variables
+loadEnv({ quiet: true });
+
+/**
+ * Issue an HS256 development token signed with JWT_SECRET
+ *
+ * Usage:
+ *   npm run token -- <subject> [role ...]
+ *
+ * Example:
+ *   npm run token -- alice analyst
+ *
+ * Token lifetime comes from JWT_EXPIRES_IN (e.g. "30m", "24h", "7d").
+ * Production tokens should come from your identity provider instead.
+ */
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+/**
+ * Convert a duration like "24h" into seconds
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+)([smhd])?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid JWT_EXPIRES_IN value: ${value}`);
+  }
+  return parseInt(match[1]!, 10) * UNIT_SECONDS[match[2] ?? "s"]!;
+}
+
+function main() {
+  const [subject, ...roles] = process.argv.slice(2);
+  if (!subject) {
+    console.error("Usage: npm run token -- <subject> [role ...]");
+    process.exit(1);
+  }
+
+  const jwt = config().jwt;
+  const issuedAt = Math.floor(Date.now() / 1000);
+
+  const token = signJwt(
+    {
+      sub: subject,
+      roles,
+      iat: issuedAt,
+      exp: issuedAt + parseDuration(jwt.expiresIn),
+      ...(jwt.issuer ? { iss: jwt.issuer } : {}),
+      ...(jwt.audience ? { aud: jwt.audience } : {}),
+    },
+    jwt.secret
+  );
+
+  console.log(token);
+}
+
+main();
@@ -3,6 +3,18 @@
  * Tests all endpoints to verify they're working correctly
  */
 
+import { config } from "dotenv";
+import { Logger } from "@nestjs/common";
+import { AppLogger } from "../common/logger/app.logger";
+
+// Load environment variables
+config();
+
+// Structured logs (LOG_LEVEL, LOG_FORMAT, LOG_SINKS)
+const appLogger = new AppLogger();
+Logger.overrideLogger(appLogger);
+const logger = new Logger("TestApi");
+
 const BASE_URL = "http://localhost:3000/api";
 
 interface TestResult {
@@ -16,9 +28,6 @@ interface TestResult {
 const results: TestResult[] = [];
 
 async function testEndpoint(name: string, url: string): Promise<TestResult> {
-  console.log(`\nTesting: ${name}`);
-  console.log(`URL: ${url}`);
-
   try {
     const response = await fetch(url);
     const data = await response.json();
@@ -31,35 +40,30 @@ async function testEndpoint(name: string, url: string): Promise<TestResult> {
 
     if (response.ok) {
       result.data = data;
+      logger.log({
+        message: `${name}: ${response.status}`,
+        url,
+        status: response.status,
+        sample: JSON.stringify(Array.isArray(data) ? data[0] : data)?.substring(
+          0,
+          200
+        ),
+        ...(Array.isArray(data) && { items: data.length }),
+      });
     } else {
       result.error = JSON.stringify(data);
-    }
-
-    if (response.ok) {
-      console.log(`✅ Status: ${response.status}`);
-      if (Array.isArray(data)) {
-        console.log(`   Data: Array with ${data.length} items`);
-        if (data.length > 0) {
-          console.log(
-            `   Sample:`,
-            JSON.stringify(data[0], null, 2).substring(0, 200)
-          );
-        }
-      } else {
-        console.log(
-          `   Data:`,
-          JSON.stringify(data, null, 2).substring(0, 200)
-        );
-      }
-    } else {
-      console.log(`❌ Status: ${response.status}`);
-      console.log(`   Error:`, data);
+      logger.warn({
+        message: `${name}: ${response.status}`,
+        url,
+        status: response.status,
+        error: data,
+      });
     }
 
     results.push(result);
     return result;
   } catch (error: any) {
-    console.log(`❌ Error: ${error.message}`);
+    logger.error({ message: `${name}: ${error.message}`, url });
     const result: TestResult = {
       endpoint: name,
       status: 0,
@@ -72,9 +76,7 @@ async function testEndpoint(name: string, url: string): Promise<TestResult> {
 }
 
 async function runTests() {
-  console.log("=".repeat(60));
-  console.log("API ENDPOINT TESTS");
-  console.log("=".repeat(60));
+  logger.log(`Testing API endpoints at ${BASE_URL}`);
 
   // Test 1: GET /plants (top 10, default)
   await testEndpoint("GET /plants (default)", `${BASE_URL}/plants`);
@@ -110,9 +112,7 @@ async function runTests() {
   );
 
   // Validation Tests
-  console.log("\n" + "=".repeat(60));
-  console.log("VALIDATION TESTS");
-  console.log("=".repeat(60));
+  logger.log("Testing validation (these requests are expected to fail)");
 
   // Test 9: Invalid top (exceeds max)
   await testEndpoint("Invalid top=150", `${BASE_URL}/plants?top=150`);
@@ -127,24 +127,22 @@ async function runTests() {
   await testEndpoint("Invalid year=1800", `${BASE_URL}/plants?year=1800`);
 
   // Summary
-  console.log("\n" + "=".repeat(60));
-  console.log("SUMMARY");
-  console.log("=".repeat(60));
-
   const passed = results.filter((r) => r.success).length;
   const failed = results.filter((r) => !r.success).length;
 
-  console.log(`Total Tests: ${results.length}`);
-  console.log(`Passed: ${passed} ✅`);
-  console.log(`Failed: ${failed} ❌`);
-
-  console.log("\nResults by Endpoint:");
-  results.forEach((r) => {
-    const icon = r.success ? "✅" : "❌";
-    console.log(`${icon} ${r.endpoint} - Status: ${r.status}`);
+  logger.log({
+    message: `${results.length} requests: ${passed} succeeded, ${failed} failed`,
+    total: results.length,
+    passed,
+    failed,
+    results: results.map((r) => ({
+      endpoint: r.endpoint,
+      status: r.status,
+      success: r.success,
+    })),
   });
-
-  console.log("\n" + "=".repeat(60));
 }
 
-runTests().catch(console.error);
+runTests()
+  .catch((error) => logger.error("API tests failed", error))
+  .finally(() => appLogger.close());